@@ -0,0 +1,152 @@
+import { PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { mockDeep } from 'vitest-mock-extended'
+import { acceptCall, cancelCall, declineCall } from '../lib/calls.js'
+
+type CallWithParticipants = Parameters<typeof acceptCall>[1]
+
+const participant = (userId: string, status: 'INVITED' | 'ACCEPTED', recordingConsent = false) => ({
+  id: `participant_${userId}`,
+  callId: 'call_1',
+  userId,
+  status,
+  joinedAt: null,
+  leftAt: null,
+  duration: 0,
+  recordingConsent,
+  user: { id: userId, username: userId, firstName: userId, lastName: 'Tester', avatar: null }
+})
+
+const ringingCall: CallWithParticipants = {
+  id: 'call_1',
+  type: 'AUDIO',
+  status: 'RINGING',
+  initiatorId: 'caller',
+  groupId: null,
+  startedAt: new Date('2026-04-01T10:00:00Z'),
+  answeredAt: null,
+  endedAt: null,
+  duration: null,
+  recordingUrl: null,
+  isUrgent: false,
+  participants: [participant('caller', 'ACCEPTED', true), participant('callee', 'INVITED', true)]
+}
+
+function setup() {
+  const prisma = mockDeep<PrismaClient>()
+  const redis = mockDeep<Redis>()
+  const io = mockDeep<SocketIOServer>()
+  const room = mockDeep<ReturnType<SocketIOServer['to']>>()
+  io.to.mockReturnValue(room)
+
+  return { prisma, redis, io, room }
+}
+
+describe('acceptCall', () => {
+  it('connects a ringing call on the first answer and stops the ring timeout', async () => {
+    const deps = setup()
+    deps.prisma.callParticipant.updateMany.mockResolvedValue({ count: 1 })
+    deps.prisma.call.updateMany.mockResolvedValue({ count: 1 })
+    deps.prisma.callParticipant.count.mockResolvedValue(0)
+
+    await acceptCall(deps, ringingCall, 'callee')
+
+    expect(deps.prisma.call.updateMany).toHaveBeenCalledWith({
+      where: { id: 'call_1', status: { in: ['INITIATED', 'RINGING'] } },
+      data: { status: 'CONNECTED', answeredAt: expect.any(Date) }
+    })
+    expect(deps.redis.zrem).toHaveBeenCalledWith('call-ring-deadlines', 'call_1')
+    expect(deps.io.to).toHaveBeenCalledWith('user:caller')
+    expect(deps.room.emit).toHaveBeenCalledWith('call_accepted', { callId: 'call_1', userId: 'callee' })
+  })
+
+  it('does nothing for a callee who already answered or declined', async () => {
+    const deps = setup()
+    deps.prisma.callParticipant.updateMany.mockResolvedValue({ count: 0 })
+
+    await acceptCall(deps, ringingCall, 'callee')
+
+    expect(deps.prisma.call.updateMany).not.toHaveBeenCalled()
+    expect(deps.room.emit).not.toHaveBeenCalled()
+  })
+})
+
+describe('declineCall', () => {
+  it('ends the call as DECLINED once nobody is left to answer', async () => {
+    const deps = setup()
+    deps.prisma.callParticipant.updateMany.mockResolvedValue({ count: 1 })
+    deps.prisma.callParticipant.count.mockResolvedValue(0)
+    deps.prisma.call.updateMany.mockResolvedValue({ count: 1 })
+
+    await declineCall(deps, ringingCall, 'callee')
+
+    expect(deps.prisma.call.updateMany).toHaveBeenCalledWith({
+      where: { id: 'call_1', status: 'RINGING' },
+      data: { status: 'DECLINED', endedAt: expect.any(Date) }
+    })
+    expect(deps.room.emit).toHaveBeenCalledWith('call_ended', {
+      callId: 'call_1',
+      status: 'DECLINED',
+      duration: 0,
+      endedBy: 'callee'
+    })
+  })
+
+  it('keeps the call ringing while other callees may still answer', async () => {
+    const deps = setup()
+    deps.prisma.callParticipant.updateMany.mockResolvedValue({ count: 1 })
+    deps.prisma.callParticipant.count.mockResolvedValue(2)
+
+    await declineCall(deps, ringingCall, 'callee')
+
+    expect(deps.room.emit).toHaveBeenCalledWith('call_declined', { callId: 'call_1', userId: 'callee' })
+    expect(deps.prisma.call.updateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('cancelCall', () => {
+  it('marks the callees who were still ringing as missed', async () => {
+    const deps = setup()
+    deps.prisma.call.updateMany.mockResolvedValue({ count: 1 })
+    deps.prisma.callParticipant.updateMany.mockResolvedValue({ count: 1 })
+    deps.prisma.message.create.mockResolvedValue({
+      id: 'msg_1',
+      content: 'Missed voice call',
+      type: 'CALL',
+      senderId: 'caller',
+      receiverId: 'callee',
+      groupId: null,
+      threadId: null,
+      parentId: null,
+      isEdited: false,
+      isDeleted: false,
+      version: 1,
+      createdAt: new Date('2026-04-01T10:01:00Z'),
+      updatedAt: new Date('2026-04-01T10:01:00Z'),
+      encryptedContent: null,
+      encryptionKey: null
+    })
+
+    expect(await cancelCall(deps, ringingCall)).toBe(true)
+
+    expect(deps.prisma.callParticipant.updateMany).toHaveBeenCalledWith({
+      where: { callId: 'call_1', status: 'INVITED' },
+      data: { status: 'MISSED' }
+    })
+    expect(deps.room.emit).toHaveBeenCalledWith('call_cancelled', { callId: 'call_1' })
+    expect(deps.prisma.message.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { content: 'Missed voice call', type: 'CALL', senderId: 'caller', receiverId: 'callee' }
+    }))
+  })
+
+  it('leaves a call that was answered or ended in the meantime alone', async () => {
+    const deps = setup()
+    deps.prisma.call.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await cancelCall(deps, ringingCall)).toBe(false)
+
+    expect(deps.prisma.callParticipant.updateMany).not.toHaveBeenCalled()
+    expect(deps.room.emit).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,62 @@
+import { isDoNotDisturb, isValidTimeZone } from '../lib/doNotDisturb.js'
+
+const FRIDAY = 5
+const SATURDAY = 6
+
+// 2026-05-01 is a Friday
+const settings = {
+  timeZone: 'UTC',
+  dndEnabled: true,
+  dndStart: '22:00',
+  dndEnd: '07:00',
+  dndDays: [FRIDAY],
+  dndUntil: null
+}
+
+describe('isDoNotDisturb', () => {
+  it('covers a window that runs past midnight from the day it starts on', () => {
+    expect(isDoNotDisturb(settings, new Date('2026-05-01T21:59:00Z'))).toBe(false)
+    expect(isDoNotDisturb(settings, new Date('2026-05-01T22:00:00Z'))).toBe(true)
+    expect(isDoNotDisturb(settings, new Date('2026-05-02T06:59:00Z'))).toBe(true)
+    expect(isDoNotDisturb(settings, new Date('2026-05-02T07:00:00Z'))).toBe(false)
+  })
+
+  it('does not cover the early hours of the day the window starts on', () => {
+    expect(isDoNotDisturb(settings, new Date('2026-05-01T03:00:00Z'))).toBe(false)
+    expect(isDoNotDisturb({ ...settings, dndDays: [SATURDAY] }, new Date('2026-05-02T03:00:00Z'))).toBe(false)
+  })
+
+  it('uses the clock of the user\'s time zone', () => {
+    const bangkok = { ...settings, timeZone: 'Asia/Bangkok', dndStart: '09:00', dndEnd: '17:00' }
+
+    // 15:30 UTC on Friday is 22:30 in Bangkok
+    expect(isDoNotDisturb(bangkok, new Date('2026-05-01T15:30:00Z'))).toBe(false)
+    expect(isDoNotDisturb(bangkok, new Date('2026-05-01T02:30:00Z'))).toBe(true)
+  })
+
+  it('falls back to UTC for an unknown time zone', () => {
+    expect(isDoNotDisturb({ ...settings, timeZone: 'Mars/Olympus' }, new Date('2026-05-01T23:00:00Z'))).toBe(true)
+  })
+
+  it('treats a window with the same start and end as the whole day', () => {
+    const allDay = { ...settings, dndStart: '00:00', dndEnd: '00:00' }
+
+    expect(isDoNotDisturb(allDay, new Date('2026-05-01T12:00:00Z'))).toBe(true)
+    expect(isDoNotDisturb(allDay, new Date('2026-05-02T12:00:00Z'))).toBe(false)
+  })
+
+  it('honours a snooze even with the schedule turned off', () => {
+    const now = new Date('2026-05-04T12:00:00Z')
+    const snoozed = { ...settings, dndEnabled: false, dndUntil: new Date('2026-05-04T13:00:00Z') }
+
+    expect(isDoNotDisturb(snoozed, now)).toBe(true)
+    expect(isDoNotDisturb({ ...snoozed, dndUntil: now }, now)).toBe(false)
+  })
+})
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
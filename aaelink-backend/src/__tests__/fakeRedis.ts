@@ -0,0 +1,101 @@
+import { QueueConnection } from '../lib/queue.js'
+
+// The Redis commands JobQueue uses, kept in memory. Unlike ioredis-mock the
+// blocking pop really waits, so worker loops do not spin.
+export class FakeRedis implements QueueConnection {
+  private lists = new Map<string, string[]>()
+  private values = new Map<string, string>()
+  private sets = new Map<string, Set<string>>()
+  private waiters: Array<() => void> = []
+
+  list(key: string) {
+    const list = this.lists.get(key) ?? []
+    this.lists.set(key, list)
+    return list
+  }
+
+  private members(key: string) {
+    const set = this.sets.get(key) ?? new Set<string>()
+    this.sets.set(key, set)
+    return set
+  }
+
+  private wake() {
+    this.waiters.splice(0).forEach(resume => resume())
+  }
+
+  duplicate() {
+    return this
+  }
+
+  async lpush(key: string, ...values: string[]) {
+    this.list(key).unshift(...values.reverse())
+    this.wake()
+    return this.list(key).length
+  }
+
+  async rpoplpush(source: string, destination: string) {
+    const value = this.list(source).pop()
+    if (value === undefined) {
+      return null
+    }
+    this.list(destination).unshift(value)
+    return value
+  }
+
+  async brpoplpush(source: string, destination: string, timeout: number) {
+    const value = await this.rpoplpush(source, destination)
+    if (value !== null) {
+      return value
+    }
+
+    await new Promise<void>(resume => {
+      this.waiters.push(resume)
+      setTimeout(resume, timeout * 1000)
+    })
+    return this.rpoplpush(source, destination)
+  }
+
+  async lrem(key: string, _count: number, value: string) {
+    const list = this.list(key)
+    const index = list.indexOf(value)
+    if (index === -1) {
+      return 0
+    }
+    list.splice(index, 1)
+    return 1
+  }
+
+  // Expiry is left to the tests, which delete leases to let a worker die
+  async set(key: string, value: string, _secondsToken: 'EX', _seconds: number) {
+    this.values.set(key, value)
+    return 'OK'
+  }
+
+  async exists(key: string) {
+    return this.values.has(key) ? 1 : 0
+  }
+
+  async del(key: string) {
+    return this.values.delete(key) || this.lists.delete(key) ? 1 : 0
+  }
+
+  async sadd(key: string, member: string) {
+    const set = this.members(key)
+    const added = set.has(member) ? 0 : 1
+    set.add(member)
+    return added
+  }
+
+  async srem(key: string, member: string) {
+    return this.members(key).delete(member) ? 1 : 0
+  }
+
+  async smembers(key: string) {
+    return [...this.members(key)]
+  }
+
+  disconnect() {
+    this.wake()
+  }
+}
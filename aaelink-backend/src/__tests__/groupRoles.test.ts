@@ -0,0 +1,39 @@
+import { GroupRole } from '@prisma/client'
+import { hasRole, isInviteOpen, outranks } from '../lib/groupRoles.js'
+
+describe('group roles', () => {
+  const roles: GroupRole[] = ['MEMBER', 'MODERATOR', 'ADMIN', 'OWNER']
+
+  it('lets a role act where a lower or equal role is required', () => {
+    expect(roles.filter(role => hasRole(role, 'ADMIN'))).toEqual(['ADMIN', 'OWNER'])
+    expect(roles.every(role => hasRole(role, 'MEMBER'))).toBe(true)
+  })
+
+  it('only lets a role manage roles strictly below it', () => {
+    expect(roles.filter(role => outranks('ADMIN', role))).toEqual(['MEMBER', 'MODERATOR'])
+    expect(outranks('MODERATOR', 'MODERATOR')).toBe(false)
+    expect(roles.some(role => outranks(role, 'OWNER'))).toBe(false)
+  })
+})
+
+describe('isInviteOpen', () => {
+  const now = new Date('2026-05-10T12:00:00Z')
+  const invite = {
+    revokedAt: null,
+    expiresAt: new Date('2026-05-11T12:00:00Z'),
+    group: { isArchived: false }
+  }
+
+  it('accepts a live invite', () => {
+    expect(isInviteOpen(invite, now)).toBe(true)
+  })
+
+  it('rejects revoked and expired invites', () => {
+    expect(isInviteOpen({ ...invite, revokedAt: new Date('2026-05-09T12:00:00Z') }, now)).toBe(false)
+    expect(isInviteOpen({ ...invite, expiresAt: now }, now)).toBe(false)
+  })
+
+  it('rejects invites to archived groups', () => {
+    expect(isInviteOpen({ ...invite, group: { isArchived: true } }, now)).toBe(false)
+  })
+})
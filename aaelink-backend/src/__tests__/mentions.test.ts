@@ -0,0 +1,27 @@
+import { parseMentions } from '../lib/mentions.js'
+
+describe('parseMentions', () => {
+  it('finds user mentions with their position, lowercased', () => {
+    expect(parseMentions('Hi @Somchai and @ana_k')).toEqual([
+      { kind: 'USER', username: 'somchai', offset: 3, length: 8 },
+      { kind: 'USER', username: 'ana_k', offset: 16, length: 6 }
+    ])
+  })
+
+  it('reserves @group, @channel and @here', () => {
+    expect(parseMentions('@group @Channel @here').map(token => [token.kind, token.username])).toEqual([
+      ['GROUP', null],
+      ['GROUP', null],
+      ['HERE', null]
+    ])
+  })
+
+  it('leaves a trailing dot out of the name', () => {
+    expect(parseMentions('thanks @somchai.')).toEqual([{ kind: 'USER', username: 'somchai', offset: 7, length: 8 }])
+    expect(parseMentions('ping @first.last')[0]?.username).toBe('first.last')
+  })
+
+  it('ignores email addresses and a lone @', () => {
+    expect(parseMentions('mail ana@example.com or @ or @@twice')).toEqual([])
+  })
+})
@@ -0,0 +1,34 @@
+import { MessageType } from '@prisma/client'
+import { isServerMessage, revisionOf } from '../lib/messageRevisions.js'
+
+describe('isServerMessage', () => {
+  it('covers calls and system messages only', () => {
+    const types: MessageType[] = ['TEXT', 'IMAGE', 'FILE', 'AUDIO', 'VIDEO', 'CALL', 'SYSTEM']
+
+    expect(types.filter(type => isServerMessage({ type }))).toEqual(['CALL', 'SYSTEM'])
+  })
+})
+
+describe('revisionOf', () => {
+  const message = { id: 'msg_1', content: 'see you at 10', encryptedContent: null }
+
+  it('keeps the content as it was before the change', () => {
+    expect(revisionOf(message, 'EDIT', 'user_1')).toEqual({
+      messageId: 'msg_1',
+      action: 'EDIT',
+      content: 'see you at 10',
+      encryptedContent: null,
+      editedBy: 'user_1'
+    })
+  })
+
+  it('records who deleted the message, and its ciphertext for end-to-end encrypted ones', () => {
+    const encrypted = { ...message, content: '', encryptedContent: 'ciphertext' }
+
+    expect(revisionOf(encrypted, 'DELETE', 'moderator_1')).toMatchObject({
+      action: 'DELETE',
+      encryptedContent: 'ciphertext',
+      editedBy: 'moderator_1'
+    })
+  })
+})
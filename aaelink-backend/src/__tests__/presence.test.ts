@@ -0,0 +1,51 @@
+import { Connection, aggregateStatus, applyHeartbeat, isPresent } from '../lib/presence.js'
+
+const HEARTBEAT_MS = 25 * 1000
+const connect = (deviceId: string, now = 0): Connection => ({ deviceId, idle: false, heartbeatAt: now })
+
+describe('applyHeartbeat', () => {
+  it('keeps a connection active through plain heartbeats', () => {
+    let connection = connect('laptop')
+
+    // Ten minutes of heartbeats from a tab the user keeps typing in
+    for (let now = HEARTBEAT_MS; now <= 10 * 60 * 1000; now += HEARTBEAT_MS) {
+      connection = applyHeartbeat(connection, undefined, now)
+    }
+
+    expect(connection).toEqual({ deviceId: 'laptop', idle: false, heartbeatAt: 10 * 60 * 1000 })
+    expect(aggregateStatus([connection], 'AUTO')).toBe('online')
+  })
+
+  it('follows the state the client reports', () => {
+    const idle = applyHeartbeat(connect('laptop'), 'idle', 1000)
+    expect(idle.idle).toBe(true)
+    expect(applyHeartbeat(idle, undefined, 2000).idle).toBe(true)
+    expect(applyHeartbeat(idle, 'active', 3000)).toEqual({ deviceId: 'laptop', idle: false, heartbeatAt: 3000 })
+  })
+})
+
+describe('aggregateStatus', () => {
+  const idle = { ...connect('phone'), idle: true }
+
+  it('is offline without connections, whatever the availability', () => {
+    expect(aggregateStatus([], 'AUTO')).toBe('offline')
+    expect(aggregateStatus([], 'BUSY')).toBe('offline')
+  })
+
+  it('is online while any device is active', () => {
+    expect(aggregateStatus([idle, connect('laptop')], 'AUTO')).toBe('online')
+    expect(aggregateStatus([idle], 'AUTO')).toBe('away')
+  })
+
+  it('lets the chosen availability win over activity', () => {
+    expect(aggregateStatus([connect('laptop')], 'BUSY')).toBe('busy')
+    expect(aggregateStatus([connect('laptop')], 'AWAY')).toBe('away')
+  })
+
+  it('counts online and busy users as present', () => {
+    expect(isPresent('online')).toBe(true)
+    expect(isPresent('busy')).toBe(true)
+    expect(isPresent('away')).toBe(false)
+    expect(isPresent(null)).toBe(false)
+  })
+})
@@ -0,0 +1,80 @@
+import { JobQueue } from '../lib/queue.js'
+import { FakeRedis } from './fakeRedis.js'
+
+interface Payload {
+  fileId: string
+}
+
+let redis: FakeRedis
+let queue: JobQueue<Payload>
+let running: Promise<void> | null = null
+
+// Leaves a job in the processing list of another worker, as if it was running there
+async function inFlightElsewhere(workerId: string, fileId: string, { alive }: { alive: boolean }) {
+  await redis.sadd('queue:test:workers', workerId)
+  if (alive) {
+    await redis.set(`queue:test:lease:${workerId}`, '1', 'EX', 30)
+  }
+  await redis.lpush(`queue:test:processing:${workerId}`, JSON.stringify({ id: fileId, data: { fileId }, attempts: 0, enqueuedAt: 0 }))
+}
+
+beforeEach(() => {
+  redis = new FakeRedis()
+  queue = new JobQueue<Payload>(redis, 'test')
+})
+
+afterEach(async () => {
+  await queue.stop()
+  await running
+  running = null
+})
+
+describe('JobQueue', () => {
+  it('runs enqueued jobs and clears them once done', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    running = queue.process(handler, vi.fn())
+
+    await queue.enqueue({ fileId: 'file_1' })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ fileId: 'file_1' }))
+    await queue.stop()
+    await running
+    expect(redis.list('queue:test:pending')).toEqual([])
+    expect(await redis.smembers('queue:test:workers')).toEqual([])
+  })
+
+  it('leaves the jobs of a live worker alone', async () => {
+    await inFlightElsewhere('other', 'file_1', { alive: true })
+    const handler = vi.fn().mockResolvedValue(undefined)
+    running = queue.process(handler, vi.fn())
+
+    await queue.enqueue({ fileId: 'file_2' })
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ fileId: 'file_2' }))
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(redis.list('queue:test:processing:other')).toHaveLength(1)
+    expect(await redis.smembers('queue:test:workers')).toContain('other')
+  })
+
+  it('picks up the jobs of a worker whose lease ran out', async () => {
+    await inFlightElsewhere('crashed', 'file_1', { alive: false })
+    const handler = vi.fn().mockResolvedValue(undefined)
+    running = queue.process(handler, vi.fn())
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ fileId: 'file_1' }))
+    expect(redis.list('queue:test:processing:crashed')).toEqual([])
+    expect(await redis.smembers('queue:test:workers')).not.toContain('crashed')
+  })
+
+  it('gives up after maxAttempts and reports the failure', async () => {
+    const error = new Error('scanner unavailable')
+    const handler = vi.fn().mockRejectedValue(error)
+    const onFailed = vi.fn().mockResolvedValue(undefined)
+    running = queue.process(handler, onFailed, { maxAttempts: 2 })
+
+    await queue.enqueue({ fileId: 'file_1' })
+
+    await vi.waitFor(() => expect(onFailed).toHaveBeenCalledWith({ fileId: 'file_1' }, error))
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,41 @@
+import { MAX_REPLY_PARTICIPANTS, summarizeReplies } from '../lib/replies.js'
+
+const stat = (parentId: string | null, count: number, lastReplyAt: Date | null) => ({
+  parentId,
+  _count: { _all: count },
+  _max: { createdAt: lastReplyAt }
+})
+
+describe('summarizeReplies', () => {
+  const lastReplyAt = new Date('2026-03-02T09:30:00Z')
+
+  it('counts the replies of each parent with the time of the latest one', () => {
+    const summaries = summarizeReplies(
+      [stat('msg_1', 3, lastReplyAt), stat('msg_2', 1, new Date('2026-03-01T08:00:00Z'))],
+      [
+        { parentId: 'msg_1', sender: 'ana' },
+        { parentId: 'msg_2', sender: 'ben' },
+        { parentId: 'msg_1', sender: 'ben' }
+      ]
+    )
+
+    expect(summaries.get('msg_1')).toEqual({ replyCount: 3, lastReplyAt, replyParticipants: ['ana', 'ben'] })
+    expect(summaries.get('msg_2')?.replyParticipants).toEqual(['ben'])
+  })
+
+  it(`shows at most ${MAX_REPLY_PARTICIPANTS} repliers, the most recent first`, () => {
+    const senders = ['u1', 'u2', 'u3', 'u4', 'u5', 'u6', 'u7']
+    const summaries = summarizeReplies(
+      [stat('msg_1', senders.length, lastReplyAt)],
+      senders.map(sender => ({ parentId: 'msg_1', sender }))
+    )
+
+    expect(summaries.get('msg_1')?.replyParticipants).toEqual(senders.slice(0, MAX_REPLY_PARTICIPANTS))
+  })
+
+  it('leaves messages without replies out', () => {
+    const summaries = summarizeReplies([stat(null, 4, lastReplyAt)], [{ parentId: 'msg_9', sender: 'ana' }])
+
+    expect(summaries.size).toBe(0)
+  })
+})
@@ -0,0 +1,142 @@
+import { compileSearchQuery, parseSearchQuery, searchText } from '../lib/searchQuery.js'
+
+const now = new Date('2024-03-15T10:30:00Z')
+const parse = (input: string) => parseSearchQuery(input, now)
+
+describe('parseSearchQuery', () => {
+  it('separates terms, phrases, exclusions and operators', () => {
+    const input = 'budget "quarterly report" -draft from:@somchai in:#finance has:file'
+    const { query, errors } = parse(input)
+
+    expect(errors).toEqual([])
+    expect(query.terms).toEqual(['budget'])
+    expect(query.phrases).toEqual(['quarterly report'])
+    expect(query.excluded).toEqual(['draft'])
+    expect(query.from).toEqual([{ value: 'somchai', offset: input.indexOf('from:'), length: 'from:@somchai'.length }])
+    expect(query.in).toEqual([{ value: 'finance', offset: input.indexOf('in:'), length: 'in:#finance'.length }])
+    expect(query.has).toEqual(['file'])
+  })
+
+  it('accepts quoted operator values and case-insensitive operators', () => {
+    const { query, errors } = parse('IN:#"Project X" From:me HAS:Link has:link')
+
+    expect(errors).toEqual([])
+    expect(query.in.map(({ value }) => value)).toEqual(['Project X'])
+    expect(query.from.map(({ value }) => value)).toEqual(['me'])
+    expect(query.has).toEqual(['link'])
+  })
+
+  it('keeps a lone dash as a term and excludes quoted phrases', () => {
+    const { query } = parse('a - b -"rough draft"')
+
+    expect(query.terms).toEqual(['a', '-', 'b'])
+    expect(query.excluded).toEqual(['rough draft'])
+  })
+
+  it('excludes the day itself for before: and after:', () => {
+    const { query, errors } = parse('after:2024-01-31 before:2024-02-10')
+
+    expect(errors).toEqual([])
+    expect(query.after).toEqual(new Date('2024-02-01T00:00:00Z'))
+    expect(query.before).toEqual(new Date('2024-02-10T00:00:00Z'))
+  })
+
+  it('covers the whole day for on:, today and yesterday', () => {
+    expect(parse('on:2024-02-29').query).toMatchObject({
+      after: new Date('2024-02-29T00:00:00Z'),
+      before: new Date('2024-03-01T00:00:00Z')
+    })
+    expect(parse('on:today').query).toMatchObject({
+      after: new Date('2024-03-15T00:00:00Z'),
+      before: new Date('2024-03-16T00:00:00Z')
+    })
+    expect(parse('on:yesterday').query.after).toEqual(new Date('2024-03-14T00:00:00Z'))
+  })
+
+  it('narrows to the tightest bounds when operators repeat', () => {
+    const { query } = parse('after:2024-01-01 after:2024-01-10 before:2024-03-01 before:2024-02-01')
+
+    expect(query.after).toEqual(new Date('2024-01-11T00:00:00Z'))
+    expect(query.before).toEqual(new Date('2024-02-01T00:00:00Z'))
+  })
+
+  it('reports every error with the span it concerns, in query order', () => {
+    const input = 'has:video before:2024-02-31 -from:@a in: "open'
+    const { errors } = parse(input)
+
+    expect(errors.map(({ code, offset, length }) => ({ code, offset, length }))).toEqual([
+      { code: 'INVALID_FEATURE', offset: 0, length: 'has:video'.length },
+      { code: 'INVALID_DATE', offset: input.indexOf('before:'), length: 'before:2024-02-31'.length },
+      { code: 'NEGATED_OPERATOR', offset: input.indexOf('-from:'), length: '-from:@a'.length },
+      { code: 'MISSING_VALUE', offset: input.indexOf('in:'), length: 'in:'.length },
+      { code: 'UNTERMINATED_QUOTE', offset: input.indexOf('"open'), length: '"open'.length }
+    ])
+  })
+
+  it('rejects date operators that leave no days', () => {
+    const input = 'report after:2024-02-10 before:2024-02-11'
+    const { errors } = parse(input)
+
+    expect(errors).toEqual([expect.objectContaining({ code: 'EMPTY_DATE_RANGE', offset: 0, length: input.length })])
+  })
+
+  it('rejects an empty query only when nothing else is wrong', () => {
+    expect(parse('   ').errors).toEqual([expect.objectContaining({ code: 'EMPTY_QUERY', offset: 0, length: 3 })])
+    expect(parse('from:').errors.map(({ code }) => code)).toEqual(['MISSING_VALUE'])
+  })
+})
+
+describe('searchText', () => {
+  it('re-quotes phrases and exclusions with spaces', () => {
+    expect(searchText(parse('budget "quarterly report" -draft -"rough cut" in:#finance').query))
+      .toBe('budget "quarterly report" -draft -"rough cut"')
+  })
+})
+
+describe('compileSearchQuery', () => {
+  const prisma = {
+    user: {
+      findMany: vi.fn().mockResolvedValue([{ id: 'user_somchai', username: 'Somchai' }])
+    },
+    groupMember: {
+      findMany: vi.fn().mockResolvedValue([
+        { group: { id: 'group_finance', name: 'Finance' } },
+        { group: { id: 'group_project', name: 'Project X' } }
+      ])
+    }
+  }
+
+  const compile = (input: string) => compileSearchQuery(prisma, 'user_me', parse(input).query)
+
+  it('resolves users and groups the searcher belongs to', async () => {
+    const { text, filters, errors } = await compile('budget from:@somchai from:me in:#finance in:#"project x" has:file')
+
+    expect(errors).toEqual([])
+    expect(text).toBe('budget')
+    expect(filters.authorIds).toEqual(['user_somchai', 'user_me'])
+    expect(filters.groupIds).toEqual(['group_finance', 'group_project'])
+    expect(filters.has).toEqual(['file'])
+    expect(prisma.groupMember.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ userId: 'user_me' })
+    }))
+  })
+
+  it('does not look up users for from:me alone', async () => {
+    prisma.user.findMany.mockClear()
+
+    const { filters } = await compile('from:me')
+
+    expect(prisma.user.findMany).not.toHaveBeenCalled()
+    expect(filters.authorIds).toEqual(['user_me'])
+  })
+
+  it('reports unknown users and groups at their operator', async () => {
+    const input = 'from:@nobody in:#secret'
+    const { errors } = await compile(input)
+
+    expect(errors).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_USER', offset: 0, length: 'from:@nobody'.length }),
+      expect.objectContaining({ code: 'UNKNOWN_GROUP', offset: input.indexOf('in:'), length: 'in:#secret'.length })
+    ])
+  })
+})
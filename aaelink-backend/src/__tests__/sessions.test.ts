@@ -0,0 +1,79 @@
+import RedisMock from 'ioredis-mock'
+import { createSession, isSessionActive, listSessions, revokeSession, rotateRefreshToken } from '../lib/sessions.js'
+
+const redis = new RedisMock()
+const meta = { userAgent: 'vitest', ip: '127.0.0.1' }
+
+beforeEach(async () => {
+  await redis.flushall()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('rotateRefreshToken', () => {
+  it('exchanges a token for a new one and keeps the session', async () => {
+    const { sessionId, refreshToken } = await createSession(redis, 'user_1', meta)
+
+    const result = await rotateRefreshToken(redis, refreshToken, { ...meta, ip: '10.0.0.2' })
+
+    expect(result).toEqual({ status: 'ok', userId: 'user_1', sessionId, refreshToken: expect.any(String) })
+    expect(result.status === 'ok' && result.refreshToken).not.toBe(refreshToken)
+    expect(await listSessions(redis, 'user_1')).toEqual([expect.objectContaining({ id: sessionId, ip: '10.0.0.2' })])
+  })
+
+  it('rejects unknown tokens', async () => {
+    expect(await rotateRefreshToken(redis, 'not-a-token', meta)).toEqual({ status: 'invalid' })
+  })
+
+  it('hands every tab refreshing at once the same successor', async () => {
+    const { sessionId, refreshToken } = await createSession(redis, 'user_1', meta)
+
+    const results = await Promise.all([
+      rotateRefreshToken(redis, refreshToken, meta),
+      rotateRefreshToken(redis, refreshToken, meta),
+      rotateRefreshToken(redis, refreshToken, meta)
+    ])
+
+    const successors = results.map(result => (result.status === 'ok' ? result.refreshToken : result.status))
+    expect(new Set(successors).size).toBe(1)
+    expect(await isSessionActive(redis, sessionId)).toBe(true)
+
+    // The shared successor is a live token of the session
+    expect(await rotateRefreshToken(redis, successors[0] as string, meta)).toMatchObject({ status: 'ok', sessionId })
+  })
+
+  it('hands out the successor again when the token is presented within the grace window', async () => {
+    const { refreshToken } = await createSession(redis, 'user_1', meta)
+
+    const first = await rotateRefreshToken(redis, refreshToken, meta)
+    const second = await rotateRefreshToken(redis, refreshToken, meta)
+
+    expect(second).toEqual(first)
+  })
+
+  it('revokes the session when an exchanged token is replayed later', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const { sessionId, refreshToken } = await createSession(redis, 'user_1', meta)
+    const rotated = await rotateRefreshToken(redis, refreshToken, meta)
+
+    vi.setSystemTime(Date.now() + 60 * 1000)
+    const replayed = await rotateRefreshToken(redis, refreshToken, meta)
+
+    expect(replayed).toEqual({ status: 'reused', userId: 'user_1', sessionId })
+    expect(await isSessionActive(redis, sessionId)).toBe(false)
+    // The successor dies with its session
+    expect(await rotateRefreshToken(redis, rotated.status === 'ok' ? rotated.refreshToken : '', meta))
+      .toEqual({ status: 'invalid' })
+  })
+
+  it('does not hand out the successor of a revoked session', async () => {
+    const { sessionId, refreshToken } = await createSession(redis, 'user_1', meta)
+    await rotateRefreshToken(redis, refreshToken, meta)
+
+    await revokeSession(redis, 'user_1', sessionId)
+
+    expect(await rotateRefreshToken(redis, refreshToken, meta)).toEqual({ status: 'invalid' })
+  })
+})
@@ -0,0 +1,112 @@
+import { Message, PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { mockDeep } from 'vitest-mock-extended'
+import { SyncMutationInput, applySyncMutation } from '../lib/sync.js'
+
+const storedMessage: Message = {
+  id: 'msg_1',
+  content: 'see you at 10',
+  type: 'TEXT',
+  senderId: 'user_1',
+  receiverId: 'user_2',
+  groupId: null,
+  threadId: null,
+  parentId: null,
+  isEdited: false,
+  isDeleted: false,
+  version: 3,
+  createdAt: new Date('2026-04-01T10:00:00Z'),
+  updatedAt: new Date('2026-04-01T10:00:00Z'),
+  encryptedContent: null,
+  encryptionKey: null
+}
+
+const edit = (mutation: Partial<SyncMutationInput> = {}): SyncMutationInput => ({
+  idempotencyKey: 'key_1',
+  entity: 'message',
+  action: 'update',
+  id: 'msg_1',
+  baseVersion: 3,
+  data: { content: 'see you at 11' },
+  ...mutation
+})
+
+function setup() {
+  const prisma = mockDeep<PrismaClient>()
+  prisma.$transaction.mockImplementation(callback => callback(prisma))
+
+  return { prisma, redis: mockDeep<Redis>(), io: mockDeep<SocketIOServer>() }
+}
+
+describe('applySyncMutation', () => {
+  it('returns the recorded result of a mutation sent again without applying it twice', async () => {
+    const deps = setup()
+    const result = { idempotencyKey: 'key_1', status: 'applied', id: 'msg_1', version: 4, data: null }
+    deps.prisma.syncMutation.findUnique.mockResolvedValue({
+      id: 'sync_1',
+      userId: 'user_1',
+      idempotencyKey: 'key_1',
+      entity: 'message',
+      action: 'update',
+      entityId: 'msg_1',
+      result,
+      createdAt: new Date('2026-04-01T10:05:00Z')
+    })
+
+    expect(await applySyncMutation(deps, 'user_1', edit())).toEqual(result)
+    expect(deps.prisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('reports a conflict with the server copy when the message changed since baseVersion', async () => {
+    const deps = setup()
+    const serverCopy = { ...storedMessage, version: 4, content: 'see you at 9' }
+    deps.prisma.message.findUnique.mockResolvedValueOnce(serverCopy).mockResolvedValueOnce(serverCopy)
+
+    expect(await applySyncMutation(deps, 'user_1', edit())).toEqual({
+      idempotencyKey: 'key_1',
+      status: 'conflict',
+      id: 'msg_1',
+      version: 4,
+      server: serverCopy
+    })
+    expect(deps.prisma.message.updateMany).not.toHaveBeenCalled()
+    expect(deps.prisma.syncMutation.create).not.toHaveBeenCalled()
+  })
+
+  it('reports a conflict when the message is written between reading and updating it', async () => {
+    const deps = setup()
+    deps.prisma.message.findUnique.mockResolvedValue(storedMessage)
+    deps.prisma.mention.findMany.mockResolvedValue([])
+    deps.prisma.message.updateMany.mockResolvedValue({ count: 0 })
+
+    expect((await applySyncMutation(deps, 'user_1', edit())).status).toBe('conflict')
+    expect(deps.prisma.message.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'msg_1', version: 3 }
+    }))
+  })
+
+  it('rejects edits of call and system messages', async () => {
+    const deps = setup()
+    deps.prisma.message.findUnique.mockResolvedValue({ ...storedMessage, type: 'CALL' })
+
+    expect(await applySyncMutation(deps, 'user_1', edit())).toEqual({
+      idempotencyKey: 'key_1',
+      status: 'rejected',
+      error: 'This message cannot be edited'
+    })
+  })
+
+  it('records deleting an already deleted message as applied', async () => {
+    const deps = setup()
+    deps.prisma.message.findUnique.mockResolvedValue({ ...storedMessage, isDeleted: true })
+
+    const result = await applySyncMutation(deps, 'user_1', edit({ action: 'delete', data: {} }))
+
+    expect(result).toEqual({ idempotencyKey: 'key_1', status: 'applied', id: 'msg_1', version: null, data: null })
+    expect(deps.prisma.message.updateMany).not.toHaveBeenCalled()
+    expect(deps.prisma.syncMutation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user_1', idempotencyKey: 'key_1', entityId: 'msg_1' })
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { deflateRawSync } from 'zlib'
+import { extractText } from '../lib/textExtraction.js'
+import { ZipError, readZipText } from '../lib/zip.js'
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// A minimal zip archive; CRCs are left at zero since the reader does not check them
+function zip(files: Record<string, string>, { method = 8 } = {}): Buffer {
+  const locals: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name)
+    const content = Buffer.from(text)
+    const data = method === 8 ? deflateRawSync(content) : content
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt16LE(method, 10)
+    entry.writeUInt32LE(data.length, 20)
+    entry.writeUInt32LE(content.length, 24)
+    entry.writeUInt16LE(nameBytes.length, 28)
+    entry.writeUInt32LE(offset, 42)
+    central.push(entry, nameBytes)
+
+    offset += local.length + nameBytes.length + data.length
+  }
+
+  const directory = Buffer.concat(central)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+const pageText = ({ content, pages }: { content: string; pages: Array<{ start: number; end: number }> }) =>
+  pages.map(({ start, end }) => content.slice(start, end))
+
+describe('readZipText', () => {
+  it('reads deflated and stored entries matching the filter', () => {
+    const files = { 'a.txt': 'deflated ünïcode', 'b.txt': 'skipped' }
+
+    expect(readZipText(zip(files), name => name === 'a.txt')).toEqual(new Map([['a.txt', 'deflated ünïcode']]))
+    expect(readZipText(zip(files, { method: 0 }), () => true)).toEqual(new Map(Object.entries(files)))
+  })
+
+  it('rejects anything that is not a zip archive', () => {
+    expect(() => readZipText(Buffer.from('not a zip archive at all, just some text'), () => true)).toThrow(ZipError)
+    expect(() => readZipText(Buffer.alloc(0), () => true)).toThrow('Not a zip archive')
+  })
+
+  it('rejects unsupported compression methods', () => {
+    expect(() => readZipText(zip({ 'a.txt': 'text' }, { method: 12 }), () => true)).toThrow('Unsupported compression method 12')
+  })
+
+  it('rejects a central directory pointing outside the archive', () => {
+    const archive = zip({ 'a.txt': 'text' })
+    archive.writeUInt32LE(archive.length, archive.length - 6)
+
+    expect(() => readZipText(archive, () => true)).toThrow('Corrupt central directory')
+  })
+})
+
+describe('extractText', () => {
+  it('splits a DOCX on page breaks and keeps paragraphs and tabs', async () => {
+    const document = [
+      '<w:document><w:body>',
+      '<w:p><w:r><w:t>Quarterly</w:t></w:r><w:r><w:t xml:space="preserve"> report</w:t></w:r></w:p>',
+      '<w:p><w:r><w:t>Q1</w:t><w:tab/><w:t>R&amp;D &#x2013; &lt;draft&gt;</w:t></w:r></w:p>',
+      '<w:p><w:r><w:br w:type="page"/><w:lastRenderedPageBreak/><w:t>Appendix</w:t></w:r></w:p>',
+      '</w:body></w:document>'
+    ].join('')
+
+    const extracted = await extractText(DOCX, zip({ 'word/document.xml': document }))
+
+    expect(pageText(extracted)).toEqual(['Quarterly report\nQ1\tR&D – <draft>', 'Appendix'])
+    expect(extracted.pages.map(({ page, label }) => ({ page, label }))).toEqual([
+      { page: 1, label: null },
+      { page: 2, label: null }
+    ])
+  })
+
+  it('reads every XLSX sheet as a page labelled with its name', async () => {
+    const archive = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Budget" sheetId="1" r:id="rId1"/><sheet name="Q&amp;A" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': [
+        '<Relationships>',
+        '<Relationship Id="rId1" Target="worksheets/sheet1.xml"/>',
+        '<Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>',
+        '</Relationships>'
+      ].join(''),
+      'xl/sharedStrings.xml': '<sst><si><t>Item</t></si><si><r><t>Cost</t></r><r><t xml:space="preserve"> (THB)</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>',
+        '<row r="2"><c r="A2" t="inlineStr"><is><t>Servers</t></is></c><c r="B2"><v>1200</v></c><c r="C2"/></row>',
+        '</sheetData></worksheet>'
+      ].join(''),
+      'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Why?</t></is></c></row></sheetData></worksheet>',
+      'docProps/app.xml': '<Properties><Application>Ignored</Application></Properties>'
+    })
+
+    const extracted = await extractText(XLSX, archive)
+
+    expect(pageText(extracted)).toEqual(['Item\tCost (THB)\nServers\t1200', 'Why?'])
+    expect(extracted.pages.map(({ label }) => label)).toEqual(['Budget', 'Q&A'])
+  })
+
+  it('fails on a document that is not a zip archive', async () => {
+    await expect(extractText(DOCX, Buffer.from('plain text renamed to .docx'))).rejects.toThrow(ZipError)
+  })
+})
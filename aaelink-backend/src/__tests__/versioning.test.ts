@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client'
+import { FastifyReply } from 'fastify'
+import { mock } from 'vitest-mock-extended'
+import { ifMatchAllows, isVersionMismatch, sendVersionConflict, versionTag } from '../lib/versioning.js'
+
+const withIfMatch = (ifMatch?: string) => ({ headers: ifMatch === undefined ? {} : { 'if-match': ifMatch } })
+
+describe('ifMatchAllows', () => {
+  it('writes unconditionally without an If-Match header', () => {
+    expect(ifMatchAllows(withIfMatch(), 7)).toBe(true)
+  })
+
+  it('only allows the current version', () => {
+    expect(ifMatchAllows(withIfMatch(versionTag(7)), 7)).toBe(true)
+    expect(ifMatchAllows(withIfMatch(versionTag(6)), 7)).toBe(false)
+    expect(ifMatchAllows(withIfMatch('7'), 7)).toBe(false)
+  })
+
+  it('accepts a list of tags, weak tags and the wildcard', () => {
+    expect(ifMatchAllows(withIfMatch('"5", "7"'), 7)).toBe(true)
+    expect(ifMatchAllows(withIfMatch('W/"7"'), 7)).toBe(true)
+    expect(ifMatchAllows(withIfMatch('*'), 7)).toBe(true)
+  })
+})
+
+describe('sendVersionConflict', () => {
+  it('answers 409 with the current copy and its tag', () => {
+    const reply = mock<FastifyReply>()
+    reply.code.mockReturnValue(reply)
+    reply.header.mockReturnValue(reply)
+    const current = { id: 'event_1', version: 8 }
+
+    sendVersionConflict(reply, current)
+
+    expect(reply.code).toHaveBeenCalledWith(409)
+    expect(reply.header).toHaveBeenCalledWith('ETag', '"8"')
+    expect(reply.send).toHaveBeenCalledWith({ error: 'Version conflict', current })
+  })
+})
+
+describe('isVersionMismatch', () => {
+  it('recognizes a guarded update that found no row', () => {
+    const notFound = new Prisma.PrismaClientKnownRequestError('Record to update not found.', {
+      code: 'P2025',
+      clientVersion: Prisma.prismaVersion.client
+    })
+
+    expect(isVersionMismatch(notFound)).toBe(true)
+    expect(isVersionMismatch(new Error('connection lost'))).toBe(false)
+  })
+})
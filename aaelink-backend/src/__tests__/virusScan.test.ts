@@ -0,0 +1,177 @@
+import { Readable } from 'stream'
+import { EICAR_SIGNATURE, FakeScanner, parseClamdResponse } from '../lib/scanner.js'
+import { enqueueVirusScan, startVirusScanWorker } from '../lib/virusScan.js'
+import { FakeRedis } from './fakeRedis.js'
+
+const redis = new FakeRedis()
+
+const scanningFile = {
+  id: 'file_1',
+  key: 'uploads/report.pdf',
+  bucket: 'aaelink-files',
+  uploadedBy: 'user_1',
+  virusScanStatus: 'SCANNING'
+}
+
+function setup(content: string, { failStream = false } = {}) {
+  const emit = vi.fn()
+  const deps = {
+    prisma: {
+      file: {
+        findUnique: vi.fn().mockResolvedValue(scanningFile),
+        update: vi.fn().mockResolvedValue(scanningFile)
+      }
+    },
+    minio: {
+      getFileStream: failStream
+        ? vi.fn().mockRejectedValue(new Error('object storage unavailable'))
+        : vi.fn().mockImplementation(async () => Readable.from([Buffer.from(content)])),
+      quarantineFile: vi.fn().mockResolvedValue('aaelink-quarantine')
+    },
+    io: { to: vi.fn().mockReturnValue({ emit }) },
+    onClean: vi.fn().mockResolvedValue(undefined)
+  }
+
+  const queue = startVirusScanWorker({
+    ...deps,
+    redis,
+    scanner: new FakeScanner()
+  })
+
+  return { ...deps, emit, queue }
+}
+
+describe('FakeScanner', () => {
+  it('reports the EICAR test string as infected', async () => {
+    const result = await new FakeScanner().scan(Readable.from([Buffer.from(`prefix ${EICAR_SIGNATURE} suffix`)]))
+    expect(result).toEqual({ status: 'INFECTED', signature: 'Eicar-Test-Signature' })
+  })
+
+  it('finds the signature across chunk boundaries', async () => {
+    const half = Math.floor(EICAR_SIGNATURE.length / 2)
+    const stream = Readable.from([Buffer.from(EICAR_SIGNATURE.slice(0, half)), Buffer.from(EICAR_SIGNATURE.slice(half))])
+    expect((await new FakeScanner().scan(stream)).status).toBe('INFECTED')
+  })
+
+  it('reports anything else as clean', async () => {
+    expect(await new FakeScanner().scan(Readable.from([Buffer.from('quarterly report')]))).toEqual({ status: 'CLEAN' })
+  })
+})
+
+describe('parseClamdResponse', () => {
+  it('parses clean and infected replies', () => {
+    expect(parseClamdResponse('stream: OK\0')).toEqual({ status: 'CLEAN' })
+    expect(parseClamdResponse('stream: Win.Test.EICAR_HDB-1 FOUND\0')).toEqual({
+      status: 'INFECTED',
+      signature: 'Win.Test.EICAR_HDB-1'
+    })
+  })
+
+  it('rejects anything else', () => {
+    expect(() => parseClamdResponse('INSTREAM size limit exceeded. ERROR')).toThrow('Unexpected clamd response')
+  })
+})
+
+describe('virus scan worker', () => {
+  let queue: { stop: () => Promise<void> } | null = null
+
+  afterEach(async () => {
+    await queue?.stop()
+    queue = null
+    // Let the stopped worker loop wind down before the next test restarts it
+    await new Promise(resume => setTimeout(resume, 0))
+  })
+
+  it('marks a clean upload CLEAN, tells the uploader and hands it on', async () => {
+    const worker = setup('quarterly report')
+    queue = worker.queue
+
+    await enqueueVirusScan(redis, scanningFile.id)
+
+    await vi.waitFor(() => expect(worker.onClean).toHaveBeenCalledWith(scanningFile.id))
+    expect(worker.prisma.file.update).toHaveBeenCalledWith({
+      where: { id: scanningFile.id },
+      data: expect.objectContaining({ virusScanStatus: 'CLEAN' })
+    })
+    expect(worker.minio.quarantineFile).not.toHaveBeenCalled()
+    expect(worker.io.to).toHaveBeenCalledWith('user:user_1')
+    expect(worker.emit).toHaveBeenCalledWith('file_scan_completed', { fileId: scanningFile.id, status: 'CLEAN' })
+  })
+
+  it('quarantines an infected upload and records the signature', async () => {
+    const worker = setup(EICAR_SIGNATURE)
+    queue = worker.queue
+
+    await enqueueVirusScan(redis, scanningFile.id)
+
+    await vi.waitFor(() => expect(worker.emit).toHaveBeenCalled())
+    expect(worker.minio.quarantineFile).toHaveBeenCalledWith(scanningFile.key)
+    expect(worker.prisma.file.update).toHaveBeenCalledWith({
+      where: { id: scanningFile.id },
+      data: expect.objectContaining({
+        virusScanStatus: 'INFECTED',
+        virusSignature: 'Eicar-Test-Signature',
+        bucket: 'aaelink-quarantine'
+      })
+    })
+    expect(worker.emit).toHaveBeenCalledWith('file_scan_completed', { fileId: scanningFile.id, status: 'INFECTED' })
+    expect(worker.onClean).not.toHaveBeenCalled()
+  })
+
+  it('marks the file ERROR once every attempt failed', async () => {
+    const worker = setup('', { failStream: true })
+    queue = worker.queue
+
+    await enqueueVirusScan(redis, scanningFile.id)
+
+    await vi.waitFor(() => expect(worker.emit).toHaveBeenCalled())
+    expect(worker.minio.getFileStream).toHaveBeenCalledTimes(3)
+    expect(worker.prisma.file.update).toHaveBeenCalledWith({
+      where: { id: scanningFile.id },
+      data: expect.objectContaining({ virusScanStatus: 'ERROR' })
+    })
+    expect(worker.emit).toHaveBeenCalledWith('file_scan_completed', { fileId: scanningFile.id, status: 'ERROR' })
+  })
+
+  it('skips files that are no longer waiting for a scan', async () => {
+    const worker = setup('quarterly report')
+    queue = worker.queue
+    worker.prisma.file.findUnique.mockResolvedValue({ ...scanningFile, virusScanStatus: 'INFECTED' })
+
+    await enqueueVirusScan(redis, scanningFile.id)
+
+    await vi.waitFor(() => expect(worker.prisma.file.findUnique).toHaveBeenCalled())
+    expect(worker.minio.getFileStream).not.toHaveBeenCalled()
+    expect(worker.prisma.file.update).not.toHaveBeenCalled()
+  })
+  it('hands a clean file on again when that failed the first time', async () => {
+    const worker = setup('quarterly report')
+    queue = worker.queue
+    worker.prisma.file.findUnique
+      .mockResolvedValueOnce(scanningFile)
+      .mockResolvedValue({ ...scanningFile, virusScanStatus: 'CLEAN' })
+    worker.onClean.mockRejectedValueOnce(new Error('search queue unavailable'))
+
+    await enqueueVirusScan(redis, scanningFile.id)
+
+    await vi.waitFor(() => expect(worker.onClean).toHaveBeenCalledTimes(2))
+    expect(worker.minio.getFileStream).toHaveBeenCalledTimes(1)
+    expect(worker.prisma.file.update).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps a clean file CLEAN when handing it on keeps failing', async () => {
+    const worker = setup('quarterly report')
+    queue = worker.queue
+    worker.prisma.file.findUnique
+      .mockResolvedValueOnce(scanningFile)
+      .mockResolvedValue({ ...scanningFile, virusScanStatus: 'CLEAN' })
+    worker.onClean.mockRejectedValue(new Error('search queue unavailable'))
+
+    await enqueueVirusScan(redis, scanningFile.id)
+
+    await vi.waitFor(() => expect(worker.onClean).toHaveBeenCalledTimes(3))
+    await vi.waitFor(() => expect(worker.prisma.file.findUnique).toHaveBeenCalledTimes(4))
+    expect(worker.prisma.file.update).toHaveBeenCalledTimes(1)
+    expect(worker.emit).not.toHaveBeenCalledWith('file_scan_completed', expect.objectContaining({ status: 'ERROR' }))
+  })
+})
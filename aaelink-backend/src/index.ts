@@ -3,15 +3,23 @@ import cookie from '@fastify/cookie'
 import helmet from '@fastify/helmet'
 import jwt from '@fastify/jwt'
 import rateLimit from '@fastify/rate-limit'
-import websocket from '@fastify/websocket'
 import { PrismaClient } from '@prisma/client'
 import Fastify, { FastifyRequest, FastifyReply } from 'fastify'
-import { createServer } from 'http'
 import Redis from 'ioredis'
-import { Server as SocketIOServer } from 'socket.io'
+import { startRingTimeoutWorker } from './lib/calls.js'
+import { runDataMigrations } from './lib/dataMigrations.js'
 import { env } from './lib/env.js'
 import { logger } from './lib/logger.js'
 import { MinioClient } from './lib/minio.js'
+import { startNotificationWorker } from './lib/notifications.js'
+import { createRealtimeGateway } from './lib/realtime.js'
+import { startRecordingRetentionWorker } from './lib/recordings.js'
+import { createSearchIndex, enqueueSearchIndex, startSearchIndexWorker } from './lib/searchIndex.js'
+import { isSessionActive } from './lib/sessions.js'
+import { SIGNALING_PATH, createSignalingServer } from './lib/signaling.js'
+import { enqueueTextExtraction, startTextExtractionWorker } from './lib/textExtraction.js'
+import { enqueueThumbnails, startThumbnailWorker } from './lib/thumbnails.js'
+import { startVirusScanWorker } from './lib/virusScan.js'
 
 // Import route modules
 import authRoutes from './routes/auth.js'
@@ -21,35 +29,37 @@ import fileRoutes from './routes/files.js'
 import groupRoutes from './routes/groups.js'
 import marketplaceRoutes from './routes/marketplace.js'
 import messageRoutes from './routes/messages.js'
+import notificationRoutes from './routes/notifications.js'
 import searchRoutes from './routes/search.js'
+import syncRoutes from './routes/sync.js'
 import userRoutes from './routes/users.js'
 
 // Initialize services
 export const prisma = new PrismaClient()
 export const redis = new Redis(env.REDIS_URL)
 export const minio = new MinioClient()
+export const searchIndex = createSearchIndex(prisma)
 
-// Create HTTP server
-const server = createServer()
-const io = new SocketIOServer(server, {
-  cors: {
-    origin: [env.FRONTEND_URL, 'http://localhost:5173', 'http://localhost:3000'],
-    methods: ['GET', 'POST'],
-    credentials: true
-  }
-})
+const allowedOrigins = [env.FRONTEND_URL, 'http://localhost:5173', 'http://localhost:3000']
 
 // Create Fastify instance
 const fastify = Fastify({
   trustProxy: true
 })
 
+// Socket.IO and call signaling share the Fastify HTTP server and port
+const realtime = createRealtimeGateway(fastify, { prisma, redis, origins: allowedOrigins })
+const io = realtime.io
+const signaling = createSignalingServer(fastify, { prisma, redis, io, origins: allowedOrigins })
+
 // Register plugins
 await fastify.register(cors, {
-  origin: [env.FRONTEND_URL, 'http://localhost:5173', 'http://localhost:3000'],
+  origin: allowedOrigins,
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-User-Id']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  // Conditional updates send If-Match with the ETag they read
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+  exposedHeaders: ['ETag']
 })
 
 await fastify.register(helmet, {
@@ -73,14 +83,17 @@ await fastify.register(rateLimit, {
   timeWindow: '1 minute'
 })
 
-await fastify.register(websocket)
-
 await fastify.register(cookie, {
   secret: env.JWT_SECRET
 })
 
 await fastify.register(jwt, {
-  secret: env.JWT_SECRET
+  secret: env.JWT_SECRET,
+  // Browsers send the access token as a cookie, other clients use the Authorization header
+  cookie: {
+    cookieName: 'auth-token',
+    signed: false
+  }
 })
 
 // Add services to Fastify instance
@@ -88,11 +101,17 @@ fastify.decorate('prisma', prisma)
 fastify.decorate('redis', redis)
 fastify.decorate('minio', minio)
 fastify.decorate('io', io)
+fastify.decorate('searchIndex', searchIndex)
 
 // Add authentication decorator
 fastify.decorate('authenticate', async function (request: FastifyRequest, reply: FastifyReply) {
   try {
     await request.jwtVerify()
+
+    // Access tokens die with their session (logout, sign out everywhere, token reuse)
+    if (request.user.sessionId && !(await isSessionActive(redis, request.user.sessionId))) {
+      reply.code(401).send({ error: 'Session has been revoked' })
+    }
   } catch (err) {
     reply.send(err)
   }
@@ -108,6 +127,8 @@ await fastify.register(userRoutes, { prefix: '/api/users' })
 await fastify.register(groupRoutes, { prefix: '/api/groups' })
 await fastify.register(calendarRoutes, { prefix: '/api/calendar' })
 await fastify.register(marketplaceRoutes, { prefix: '/api/marketplace' })
+await fastify.register(notificationRoutes, { prefix: '/api/notifications' })
+await fastify.register(syncRoutes, { prefix: '/api/sync' })
 
 // Health check endpoints
 fastify.get('/api/healthz', async () => {
@@ -129,72 +150,6 @@ fastify.get('/api/readyz', async (request, reply) => {
   }
 })
 
-// WebSocket connection handling
-fastify.register(async function (fastify) {
-  fastify.get('/ws', { websocket: true }, (connection, req) => {
-    const socket = connection.socket
-    const userId = req.headers['x-user-id'] as string
-
-    if (!userId) {
-      socket.close(1008, 'Unauthorized')
-      return
-    }
-
-    // Handle incoming messages
-    socket.on('message', async (message: Buffer) => {
-      try {
-        const data = JSON.parse(message.toString())
-
-        switch (data.type) {
-          case 'typing':
-            io.to(`room:${data.roomId}`).emit('typing', {
-              userId,
-              isTyping: data.isTyping
-            })
-            break
-
-          case 'presence':
-            await redis.setex(`presence:${userId}`, 30, 'online')
-            io.emit('presence', {
-              userId,
-              status: 'online'
-            })
-            break
-
-          case 'join_room':
-            // Use Socket.IO for room management
-            io.sockets.sockets.forEach((s) => {
-              if ((s as any).userId === userId) {
-                s.join(`room:${data.roomId}`)
-              }
-            })
-            break
-
-          case 'leave_room':
-            // Use Socket.IO for room management
-            io.sockets.sockets.forEach((s) => {
-              if ((s as any).userId === userId) {
-                s.leave(`room:${data.roomId}`)
-              }
-            })
-            break
-        }
-      } catch (error) {
-        logger.error('WebSocket message error:', error)
-      }
-    })
-
-    // Handle disconnect
-    socket.on('close', async () => {
-      await redis.del(`presence:${userId}`)
-      io.emit('presence', {
-        userId,
-        status: 'offline'
-      })
-    })
-  })
-})
-
 // Error handling
 fastify.setErrorHandler((error, request, reply) => {
   logger.error(error)
@@ -213,15 +168,20 @@ fastify.setErrorHandler((error, request, reply) => {
   })
 })
 
+// Background job queues, stopped on shutdown
+const workers: Array<{ stop: () => Promise<void> }> = []
+
 // Graceful shutdown
 const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}, shutting down gracefully...`)
 
   try {
+    await signaling.close()
+    await realtime.close()
     await fastify.close()
+    await Promise.all(workers.map(worker => worker.stop()))
     await prisma.$disconnect()
     await redis.quit()
-    server.close()
     process.exit(0)
   } catch (error) {
     logger.error('Error during shutdown:', error)
@@ -235,18 +195,39 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'))
 // Start server
 const start = async () => {
   try {
+    await runDataMigrations(prisma)
+
     // Start Fastify server
     const address = await fastify.listen({
       port: env.PORT,
       host: '0.0.0.0'
     })
 
-    // Start Socket.IO server on the same port
-    server.listen(env.PORT, '0.0.0.0', () => {
-      logger.info(`AAELink Backend server listening at ${address}`)
-      logger.info(`Health check: http://localhost:${env.PORT}/api/healthz`)
-      logger.info(`WebSocket: ws://localhost:${env.PORT}/ws`)
+    // Start background workers
+    const virusScanQueue = startVirusScanWorker({
+      prisma,
+      redis,
+      minio,
+      io,
+      // Previews are rendered and names and text indexed only for files that passed the scan
+      onClean: async (fileId) => {
+        await enqueueThumbnails(redis, fileId)
+        await enqueueSearchIndex(redis, 'file', fileId)
+        await enqueueTextExtraction(redis, fileId)
+      }
     })
+    const thumbnailQueue = startThumbnailWorker({ prisma, redis, minio })
+    const textExtractionQueue = startTextExtractionWorker({ prisma, redis, minio })
+    const searchIndexQueue = startSearchIndexWorker({ prisma, redis, index: searchIndex })
+    const notificationQueue = startNotificationWorker({ prisma, redis, io })
+    const ringTimeouts = startRingTimeoutWorker({ prisma, redis, io })
+    const recordingRetention = startRecordingRetentionWorker({ prisma, minio })
+    workers.push(virusScanQueue, thumbnailQueue, textExtractionQueue, searchIndexQueue, notificationQueue, ringTimeouts, recordingRetention)
+
+    logger.info(`AAELink Backend server listening at ${address}`)
+    logger.info(`Health check: http://localhost:${env.PORT}/api/healthz`)
+    logger.info(`Socket.IO: ws://localhost:${env.PORT}/socket.io/`)
+    logger.info(`Call signaling: ws://localhost:${env.PORT}${SIGNALING_PATH}`)
   } catch (err) {
     logger.error('Error starting server:', err)
     process.exit(1)
@@ -0,0 +1,396 @@
+import { Call, CallStatus, Prisma, PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { emitConversationEvent, messageConversation } from './conversationEvents.js'
+import { env } from './env.js'
+import { logger } from './logger.js'
+import { enqueueNotification } from './notifications.js'
+import { userRoom } from './realtime.js'
+import { stopActiveRecording } from './recordings.js'
+
+export const ACTIVE_CALL_STATUSES: CallStatus[] = ['INITIATED', 'RINGING', 'CONNECTED']
+
+// Sorted set of ringing call ids scored by the time they stop ringing
+const RING_DEADLINES_KEY = 'call-ring-deadlines'
+const RING_POLL_INTERVAL = 2000
+
+export interface CallDeps {
+  prisma: PrismaClient
+  redis: Redis
+  io: SocketIOServer
+}
+
+export const callInclude = {
+  participants: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatar: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.CallInclude
+
+type CallWithParticipants = Prisma.CallGetPayload<{ include: typeof callInclude }>
+
+const secondsBetween = (from: Date, to: Date) => Math.max(0, Math.floor((to.getTime() - from.getTime()) / 1000))
+
+export const isCallActive = (call: Pick<Call, 'status'>) => ACTIVE_CALL_STATUSES.includes(call.status)
+
+export function emitToParticipants(
+  io: SocketIOServer,
+  call: { participants: Array<{ userId: string }> },
+  event: string,
+  payload: unknown
+) {
+  call.participants.forEach(participant => {
+    io.to(userRoom(participant.userId)).emit(event, payload)
+  })
+}
+
+export async function scheduleRingTimeout(redis: Redis, callId: string): Promise<void> {
+  await redis.zadd(RING_DEADLINES_KEY, Date.now() + env.CALL_RING_TIMEOUT * 1000, callId)
+}
+
+export async function clearRingTimeout(redis: Redis, callId: string): Promise<void> {
+  await redis.zrem(RING_DEADLINES_KEY, callId)
+}
+
+/**
+ * Users who already took part in another ringing or connected call and have
+ * not left it yet.
+ */
+export async function findBusyUsers(prisma: PrismaClient, userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) {
+    return []
+  }
+
+  const participations = await prisma.callParticipant.findMany({
+    where: {
+      userId: { in: userIds },
+      status: 'ACCEPTED',
+      leftAt: null,
+      call: {
+        status: { in: ['RINGING', 'CONNECTED'] }
+      }
+    },
+    select: { userId: true }
+  })
+
+  return [...new Set(participations.map(({ userId }) => userId))]
+}
+
+/**
+ * Close the open connection segment of a participant and add it to their
+ * connected time. Returns false when they were not connected.
+ */
+export async function closeParticipantSegment(
+  prisma: PrismaClient,
+  callId: string,
+  userId: string,
+  leftAt = new Date()
+): Promise<boolean> {
+  const participant = await prisma.callParticipant.findUnique({
+    where: {
+      callId_userId: { callId, userId }
+    }
+  })
+
+  if (!participant?.joinedAt || participant.leftAt) {
+    return false
+  }
+
+  await prisma.callParticipant.update({
+    where: { id: participant.id },
+    data: {
+      leftAt,
+      duration: { increment: secondsBetween(participant.joinedAt, leftAt) }
+    }
+  })
+
+  return true
+}
+
+/**
+ * Missed calls are shown as a notification and a CALL entry in the
+ * conversation. A group only gets the entry when nobody answered, callees
+ * who missed a group call others are still in are just notified.
+ */
+async function recordMissedCall({ prisma, redis, io }: CallDeps, call: Call, missedUserIds: string[], callMissed: boolean) {
+  if (missedUserIds.length === 0) {
+    return
+  }
+
+  // Delivered as each callee's settings, mutes and do-not-disturb allow
+  await enqueueNotification(redis, { kind: 'missed_call', callId: call.id, userIds: missedUserIds })
+
+  const label = call.type === 'AUDIO' ? 'voice call' : 'video call'
+
+  const messageInclude = {
+    sender: {
+      select: {
+        id: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        avatar: true
+      }
+    }
+  }
+
+  if (call.groupId) {
+    if (!callMissed) {
+      return
+    }
+
+    const message = await prisma.message.create({
+      data: {
+        content: `Missed ${label}`,
+        type: 'CALL',
+        senderId: call.initiatorId,
+        groupId: call.groupId
+      },
+      include: messageInclude
+    })
+
+    await emitConversationEvent(io, redis, { groupId: call.groupId }, 'new_message', message)
+    return
+  }
+
+  await Promise.all(missedUserIds.map(async receiverId => {
+    const message = await prisma.message.create({
+      data: {
+        content: `Missed ${label}`,
+        type: 'CALL',
+        senderId: call.initiatorId,
+        receiverId
+      },
+      include: messageInclude
+    })
+
+    await emitConversationEvent(io, redis, messageConversation(message), 'new_message', message)
+  }))
+}
+
+export async function acceptCall({ prisma, redis, io }: CallDeps, call: CallWithParticipants, userId: string): Promise<void> {
+  const { count } = await prisma.callParticipant.updateMany({
+    where: { callId: call.id, userId, status: 'INVITED' },
+    data: { status: 'ACCEPTED' }
+  })
+
+  if (count === 0) {
+    return
+  }
+
+  // The first answer connects the call, the rest join it
+  await prisma.call.updateMany({
+    where: { id: call.id, status: { in: ['INITIATED', 'RINGING'] } },
+    data: { status: 'CONNECTED', answeredAt: new Date() }
+  })
+
+  const stillRinging = await prisma.callParticipant.count({
+    where: { callId: call.id, status: 'INVITED' }
+  })
+  if (stillRinging === 0) {
+    await clearRingTimeout(redis, call.id)
+  }
+
+  emitToParticipants(io, call, 'call_accepted', { callId: call.id, userId })
+
+  // Nobody is recorded without consenting, so answering without it stops a running recording
+  const participant = call.participants.find(p => p.userId === userId)
+  if (!participant?.recordingConsent) {
+    await stopActiveRecording({ prisma, io }, call.id, userId)
+  }
+}
+
+export async function declineCall(deps: CallDeps, call: CallWithParticipants, userId: string): Promise<void> {
+  const { prisma, redis, io } = deps
+
+  const { count } = await prisma.callParticipant.updateMany({
+    where: { callId: call.id, userId, status: 'INVITED' },
+    data: { status: 'DECLINED' }
+  })
+
+  if (count === 0) {
+    return
+  }
+
+  emitToParticipants(io, call, 'call_declined', { callId: call.id, userId })
+
+  // A call nobody is left to answer is over
+  const remaining = await prisma.callParticipant.count({
+    where: {
+      callId: call.id,
+      userId: { not: call.initiatorId },
+      status: { in: ['INVITED', 'ACCEPTED'] }
+    }
+  })
+  if (remaining > 0) {
+    return
+  }
+
+  const { count: declined } = await prisma.call.updateMany({
+    where: { id: call.id, status: 'RINGING' },
+    data: { status: 'DECLINED', endedAt: new Date() }
+  })
+
+  if (declined > 0) {
+    await clearRingTimeout(redis, call.id)
+    emitToParticipants(io, call, 'call_ended', { callId: call.id, status: 'DECLINED', duration: 0, endedBy: userId })
+  }
+}
+
+export async function cancelCall(deps: CallDeps, call: CallWithParticipants): Promise<boolean> {
+  const { prisma, redis, io } = deps
+
+  const { count } = await prisma.call.updateMany({
+    where: { id: call.id, status: 'RINGING' },
+    data: { status: 'CANCELLED', endedAt: new Date() }
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  await clearRingTimeout(redis, call.id)
+
+  const missedUserIds = call.participants
+    .filter(participant => participant.status === 'INVITED')
+    .map(participant => participant.userId)
+
+  await prisma.callParticipant.updateMany({
+    where: { callId: call.id, status: 'INVITED' },
+    data: { status: 'MISSED' }
+  })
+
+  emitToParticipants(io, call, 'call_cancelled', { callId: call.id })
+  await recordMissedCall(deps, call, missedUserIds, true)
+
+  return true
+}
+
+/**
+ * Stop ringing: callees who never answered missed the call, and a call that
+ * nobody answered is MISSED as a whole.
+ */
+export async function missCall(deps: CallDeps, callId: string): Promise<void> {
+  const { prisma, io } = deps
+
+  const call = await prisma.call.findUnique({
+    where: { id: callId },
+    include: callInclude
+  })
+
+  if (!call || !isCallActive(call)) {
+    return
+  }
+
+  await prisma.callParticipant.updateMany({
+    where: { callId, status: 'INVITED' },
+    data: { status: 'MISSED' }
+  })
+
+  // Read back after the update, callees who answered in the meantime did not miss it
+  const missed = await prisma.callParticipant.findMany({
+    where: { callId, status: 'MISSED' },
+    select: { userId: true }
+  })
+  const missedUserIds = missed.map(participant => participant.userId)
+
+  const { count } = await prisma.call.updateMany({
+    where: { id: callId, status: 'RINGING' },
+    data: { status: 'MISSED', endedAt: new Date() }
+  })
+
+  emitToParticipants(io, call, 'call_missed', { callId, userIds: missedUserIds, ended: count > 0 })
+  await recordMissedCall(deps, call, missedUserIds, count > 0)
+}
+
+/**
+ * End an active call for everyone, closing the connection segments of those
+ * still connected. Returns the call duration, or null if it was not active.
+ */
+export async function endCall({ prisma, redis, io }: CallDeps, callId: string, endedBy: string): Promise<number | null> {
+  const call = await prisma.call.findUnique({
+    where: { id: callId },
+    include: callInclude
+  })
+
+  if (!call || !isCallActive(call)) {
+    return null
+  }
+
+  const endedAt = new Date()
+  const duration = call.answeredAt ? secondsBetween(call.answeredAt, endedAt) : 0
+
+  // Another request or replica may end it at the same time
+  const { count } = await prisma.call.updateMany({
+    where: { id: callId, status: { in: ACTIVE_CALL_STATUSES } },
+    data: { status: 'ENDED', endedAt, duration }
+  })
+
+  if (count === 0) {
+    return null
+  }
+
+  await clearRingTimeout(redis, callId)
+  await stopActiveRecording({ prisma, io }, callId, endedBy)
+  await Promise.all(call.participants.map(participant =>
+    closeParticipantSegment(prisma, callId, participant.userId, endedAt)
+  ))
+  await prisma.callParticipant.updateMany({
+    where: { callId, status: 'INVITED' },
+    data: { status: 'MISSED' }
+  })
+
+  emitToParticipants(io, call, 'call_ended', { callId, status: 'ENDED', duration, endedBy })
+
+  return duration
+}
+
+/**
+ * Poll the ring deadlines and miss calls that rang out. Every replica polls,
+ * removing the id from the set decides which one handles it.
+ */
+export function startRingTimeoutWorker(deps: CallDeps) {
+  const { redis } = deps
+  let polling = false
+
+  const poll = async () => {
+    if (polling) {
+      return
+    }
+
+    polling = true
+    try {
+      const expired = await redis.zrangebyscore(RING_DEADLINES_KEY, 0, Date.now())
+      for (const callId of expired) {
+        if (await redis.zrem(RING_DEADLINES_KEY, callId)) {
+          await missCall(deps, callId)
+        }
+      }
+    } catch (error) {
+      logger.error('Ring timeout worker error:', error)
+    } finally {
+      polling = false
+    }
+  }
+
+  const timer = setInterval(() => {
+    void poll()
+  }, RING_POLL_INTERVAL)
+
+  logger.info('Ring timeout worker started')
+
+  return {
+    stop: async () => {
+      clearInterval(timer)
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { spawn } from 'child_process'
+
+const COMMAND_TIMEOUT = 60000
+
+/**
+ * Run an external tool and collect its stdout, killing it when it hangs.
+ */
+export function runCommand(command: string, args: string[], input?: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] })
+    const stdout: Buffer[] = []
+    const stderr: Buffer[] = []
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL')
+      reject(new Error(`${command} timed out`))
+    }, COMMAND_TIMEOUT)
+
+    child.stdout.on('data', (data: Buffer) => stdout.push(data))
+    child.stderr.on('data', (data: Buffer) => stderr.push(data))
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve(Buffer.concat(stdout))
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(stderr).toString().trim()}`))
+      }
+    })
+
+    child.stdin.end(input)
+  })
+}
+
+export async function readStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const data of stream) {
+    chunks.push(Buffer.isBuffer(data) ? data : Buffer.from(data))
+  }
+  return Buffer.concat(chunks)
+}
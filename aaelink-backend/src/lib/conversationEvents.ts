@@ -0,0 +1,149 @@
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { groupRoom, userRoom } from './realtime.js'
+
+// A group, or the two sides of a direct conversation
+export type ConversationRef =
+  | { groupId: string }
+  | { userIds: [string, string] }
+
+export interface ConversationEvent {
+  event: string
+  payload: Record<string, unknown>
+}
+
+export type ReplayResult =
+  | { events: ConversationEvent[]; latestSeq: number }
+  | { resync: true; latestSeq: number }
+
+// Events kept per conversation, older ones can only be recovered by a resync
+const STREAM_MAX_LENGTH = 1000
+// A client this far behind reloads the conversation instead of replaying it
+const MAX_REPLAY_EVENTS = 500
+
+const sequenceKey = (conversationId: string) => `conversation:${conversationId}:seq`
+const streamKey = (conversationId: string) => `conversation:${conversationId}:events`
+
+// Numbering and appending happen in one step so the stream stays in sequence order.
+// Entries use the sequence number as their id (0-<seq>) so replay is a range read.
+const APPEND_SCRIPT = `
+local seq = redis.call('INCR', KEYS[1])
+redis.call('XADD', KEYS[2], 'MAXLEN', '~', ARGV[1], '0-' .. seq, 'event', ARGV[2], 'payload', ARGV[3])
+return seq
+`
+
+export function conversationId(conversation: ConversationRef): string {
+  if ('groupId' in conversation) {
+    return `group:${conversation.groupId}`
+  }
+
+  const [a, b] = [...conversation.userIds].sort()
+  return `dm:${a}:${b}`
+}
+
+// The conversation a message belongs to
+export const messageConversation = (message: { groupId: string | null; senderId: string; receiverId: string | null }): ConversationRef =>
+  message.groupId
+    ? { groupId: message.groupId }
+    : { userIds: [message.senderId, message.receiverId ?? message.senderId] }
+
+// The conversation behind an id sent by a client, null when it is malformed
+export function parseConversationId(id: string): ConversationRef | null {
+  const [kind, first, second] = id.split(':')
+
+  if (kind === 'group' && first && second === undefined) {
+    return { groupId: first }
+  }
+  // Only the sorted form names a stream
+  if (kind === 'dm' && first && second && first <= second) {
+    return { userIds: [first, second] }
+  }
+  return null
+}
+
+/**
+ * Emit a realtime event of a conversation with the next sequence number of
+ * that conversation and record it in the conversation's bounded stream, so
+ * clients that were disconnected can replay what they missed. Payloads go
+ * out with `conversationId` and `seq` added.
+ */
+export async function emitConversationEvent(
+  io: SocketIOServer,
+  redis: Redis,
+  conversation: ConversationRef,
+  event: string,
+  payload: object
+): Promise<number> {
+  const id = conversationId(conversation)
+  const seq = Number(await redis.eval(
+    APPEND_SCRIPT,
+    2,
+    sequenceKey(id),
+    streamKey(id),
+    STREAM_MAX_LENGTH,
+    event,
+    JSON.stringify(payload)
+  ))
+
+  const sequenced = { ...payload, conversationId: id, seq }
+
+  if ('groupId' in conversation) {
+    io.to(groupRoom(conversation.groupId)).emit(event, sequenced)
+  } else {
+    io.to([...new Set(conversation.userIds)].map(userRoom)).emit(event, sequenced)
+  }
+
+  return seq
+}
+
+// Latest sequence number of each conversation, 0 before its first event
+export async function latestSequences(redis: Redis, ids: string[]): Promise<Record<string, number>> {
+  if (ids.length === 0) {
+    return {}
+  }
+
+  const values = await redis.mget(ids.map(sequenceKey))
+  return Object.fromEntries(ids.map((id, index) => [id, Number(values[index] ?? 0)]))
+}
+
+/**
+ * The events of a conversation after a sequence number, or a resync signal
+ * when they are no longer all in the stream or there are too many of them.
+ */
+export async function replayConversationEvents(redis: Redis, id: string, afterSeq: number): Promise<ReplayResult> {
+  const latestSeq = (await latestSequences(redis, [id]))[id] ?? 0
+
+  if (afterSeq >= latestSeq) {
+    // A sequence ahead of the server means the counter was reset
+    return afterSeq > latestSeq ? { resync: true, latestSeq } : { events: [], latestSeq }
+  }
+  if (latestSeq - afterSeq > MAX_REPLAY_EVENTS) {
+    return { resync: true, latestSeq }
+  }
+
+  const entries = await redis.xrange(streamKey(id), `0-${afterSeq + 1}`, '+')
+
+  // Trimmed from the front, the first missed event is gone
+  const firstSeq = Number(entries[0]?.[0].split('-')[1] ?? 0)
+  if (firstSeq !== afterSeq + 1) {
+    return { resync: true, latestSeq }
+  }
+
+  const events = entries.map(([entryId, fields]) => {
+    const values = new Map<string, string>()
+    for (let index = 0; index + 1 < fields.length; index += 2) {
+      values.set(fields[index] ?? '', fields[index + 1] ?? '')
+    }
+
+    return {
+      event: values.get('event') ?? '',
+      payload: {
+        ...JSON.parse(values.get('payload') ?? '{}'),
+        conversationId: id,
+        seq: Number(entryId.split('-')[1])
+      }
+    }
+  })
+
+  return { events, latestSeq }
+}
@@ -0,0 +1,30 @@
+import { PrismaClient } from '@prisma/client'
+import { logger } from './logger.js'
+
+/**
+ * Groups created before the OWNER role made their creator an ADMIN, so
+ * nobody could archive them or hand them over. Promote the creator of every
+ * group that has no owner yet; groups that already have one, including
+ * those whose ownership was transferred, are left alone.
+ */
+async function promoteGroupCreators(prisma: PrismaClient): Promise<number> {
+  return prisma.$executeRaw`
+    UPDATE group_members gm
+    SET role = 'OWNER'
+    FROM groups g
+    WHERE gm."groupId" = g.id
+      AND gm."userId" = g."createdBy"
+      AND NOT EXISTS (
+        SELECT 1 FROM group_members existing
+        WHERE existing."groupId" = g.id AND existing.role = 'OWNER'
+      )
+  `
+}
+
+// Idempotent fixes of existing rows the schema push cannot make, run on every start
+export async function runDataMigrations(prisma: PrismaClient): Promise<void> {
+  const promoted = await promoteGroupCreators(prisma)
+  if (promoted > 0) {
+    logger.info(`Data migration: promoted ${promoted} group creators to owner`)
+  }
+}
@@ -0,0 +1,69 @@
+import { NotificationSettings } from '@prisma/client'
+
+type DoNotDisturbSettings = Pick<NotificationSettings, 'timeZone' | 'dndEnabled' | 'dndStart' | 'dndEnd' | 'dndDays' | 'dndUntil'>
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const minutesOfDay = (time: string) => {
+  const [, hours, minutes] = TIME_OF_DAY_PATTERN.exec(time) ?? []
+  return Number(hours) * 60 + Number(minutes)
+}
+
+// Weekday (0 = Sunday) and minute of the day of an instant on a time zone's clock
+function localTime(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now)
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minute: Number(part('hour')) * 60 + Number(part('minute'))
+  }
+}
+
+/**
+ * Whether do-not-disturb is on for a user: snoozed until dndUntil, or inside
+ * the recurring window on their own clock. A window that ends before it
+ * starts runs past midnight and belongs to the day it starts on, so
+ * 22:00-07:00 on Fridays covers Friday night into Saturday morning.
+ */
+export function isDoNotDisturb(settings: DoNotDisturbSettings, now = new Date()): boolean {
+  if (settings.dndUntil && settings.dndUntil > now) {
+    return true
+  }
+  if (!settings.dndEnabled) {
+    return false
+  }
+
+  const start = minutesOfDay(settings.dndStart)
+  const end = minutesOfDay(settings.dndEnd)
+  const { day, minute } = localTime(now, isValidTimeZone(settings.timeZone) ? settings.timeZone : 'UTC')
+  const previousDay = (day + 6) % 7
+
+  if (start === end) {
+    // All day
+    return settings.dndDays.includes(day)
+  }
+  if (start < end) {
+    return settings.dndDays.includes(day) && minute >= start && minute < end
+  }
+  return (settings.dndDays.includes(day) && minute >= start) ||
+    (settings.dndDays.includes(previousDay) && minute < end)
+}
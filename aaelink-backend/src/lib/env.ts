@@ -15,6 +15,32 @@ const envSchema = z.object({
   MINIO_ACCESS_KEY: z.string().default('aaelink_admin'),
   MINIO_SECRET_KEY: z.string().default('aaelink_minio_2024'),
   MINIO_BUCKET: z.string().default('aaelink-files'),
+  MINIO_QUARANTINE_BUCKET: z.string().default('aaelink-quarantine'),
+
+  // Antivirus scanning
+  VIRUS_SCANNER: z.enum(['clamav', 'fake']).default('clamav'),
+  CLAMAV_HOST: z.string().default('localhost'),
+  CLAMAV_PORT: z.coerce.number().default(3310),
+  CLAMAV_TIMEOUT: z.coerce.number().default(60000),
+
+  // Thumbnail generation and text extraction
+  FFMPEG_PATH: z.string().default('ffmpeg'),
+  PDFTOPPM_PATH: z.string().default('pdftoppm'),
+  PDFTOTEXT_PATH: z.string().default('pdftotext'),
+
+  // Full-text search
+  SEARCH_BACKEND: z.enum(['postgres', 'opensearch']).default('postgres'),
+  OPENSEARCH_URL: z.string().default('http://localhost:9200'),
+  OPENSEARCH_INDEX: z.string().default('aaelink'),
+  OPENSEARCH_USERNAME: z.string().optional(),
+  OPENSEARCH_PASSWORD: z.string().optional(),
+
+  // Notification delivery, Web Push is off without VAPID keys and email without SMTP_URL
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default('mailto:admin@aaelink.local'),
+  SMTP_URL: z.string().optional(),
+  SMTP_FROM: z.string().default('AAELink <no-reply@aaelink.local>'),
 
   // External APIs
   GOOGLE_CALENDAR_CLIENT_ID: z.string().optional(),
@@ -27,10 +53,19 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW: z.coerce.number().default(60000), // 1 minute
   RATE_LIMIT_MAX: z.coerce.number().default(100),
 
-  // WebRTC
-  TURN_SERVER_URL: z.string().optional(),
-  TURN_SERVER_USERNAME: z.string().optional(),
-  TURN_SERVER_CREDENTIAL: z.string().optional(),
+  // WebRTC, comma separated ICE server URLs
+  STUN_URLS: z.string().default('stun:stun.l.google.com:19302'),
+  TURN_URLS: z.string().optional(),
+  // Shared with coturn's static-auth-secret
+  TURN_SECRET: z.string().optional(),
+  TURN_CREDENTIAL_TTL: z.coerce.number().default(3600), // 1 hour
+  CALL_RING_TIMEOUT: z.coerce.number().default(45), // seconds before an unanswered call is missed
+  CALL_RECORDING_RETENTION_DAYS: z.coerce.number().default(90),
+
+  // WebAuthn (passkeys)
+  WEBAUTHN_RP_ID: z.string().default('localhost'),
+  WEBAUTHN_RP_NAME: z.string().default('AAELink'),
+  WEBAUTHN_ORIGIN: z.string().url().optional(),
 })
 
 export const env = envSchema.parse(process.env)
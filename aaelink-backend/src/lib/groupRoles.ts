@@ -0,0 +1,22 @@
+import { GroupInvite, GroupRole } from '@prisma/client'
+
+// Higher rank can manage every role below it
+export const ROLE_RANK: Record<GroupRole, number> = {
+  OWNER: 3,
+  ADMIN: 2,
+  MODERATOR: 1,
+  MEMBER: 0
+}
+
+export const hasRole = (role: GroupRole, minimum: GroupRole) => ROLE_RANK[role] >= ROLE_RANK[minimum]
+
+export const outranks = (role: GroupRole, other: GroupRole) => ROLE_RANK[role] > ROLE_RANK[other]
+
+/**
+ * Whether an invite link can still be accepted. Its use count is only
+ * checked when the use is claimed, so concurrent accepts cannot exceed it.
+ */
+export const isInviteOpen = (
+  invite: Pick<GroupInvite, 'revokedAt' | 'expiresAt'> & { group: { isArchived: boolean } },
+  now = new Date()
+) => !invite.revokedAt && invite.expiresAt > now && !invite.group.isArchived
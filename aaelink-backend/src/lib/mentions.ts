@@ -0,0 +1,124 @@
+import { MentionKind, PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { isPresent, presenceKey } from './presence.js'
+
+export interface MentionToken {
+  kind: MentionKind
+  // Lowercased, only for USER mentions
+  username: string | null
+  offset: number
+  length: number
+}
+
+export interface ResolvedMention {
+  userId: string
+  kind: MentionKind
+}
+
+interface MentionContext {
+  content: string
+  senderId: string
+  groupId: string | null
+  receiverId: string | null
+}
+
+// @group (or @channel) notifies every member, @here the members online right now
+export const GROUP_MENTION_TOKENS = ['group', 'channel']
+export const HERE_MENTION_TOKEN = 'here'
+
+const MENTION_PATTERN = /(^|[^\w@])@([a-zA-Z0-9_.-]+)/g
+
+// When one message mentions someone several ways, the most direct one is kept
+const KIND_PRIORITY: Record<MentionKind, number> = { USER: 3, HERE: 2, GROUP: 1 }
+
+/**
+ * The @mentions written in a message, in order. @group, @channel and @here
+ * are reserved and never refer to a user of that name. A trailing dot is
+ * punctuation, so "thanks @somchai." mentions somchai.
+ */
+export function parseMentions(content: string): MentionToken[] {
+  return Array.from(content.matchAll(MENTION_PATTERN), match => {
+    const name = (match[2] ?? '').replace(/\.+$/, '')
+    const lower = name.toLowerCase()
+    const offset = (match.index ?? 0) + (match[1] ?? '').length
+
+    const kind: MentionKind = GROUP_MENTION_TOKENS.includes(lower)
+      ? 'GROUP'
+      : lower === HERE_MENTION_TOKEN ? 'HERE' : 'USER'
+
+    return { kind, username: kind === 'USER' ? lower : null, offset, length: name.length + 1 }
+  }).filter(token => token.length > 1)
+}
+
+/**
+ * The users a message mentions. Only members of the group can be mentioned,
+ * or the other side of a direct message, which has no @group or @here.
+ * Senders never mention themselves.
+ */
+export async function resolveMentions(
+  prisma: PrismaClient,
+  redis: Redis,
+  { content, senderId, groupId, receiverId }: MentionContext
+): Promise<ResolvedMention[]> {
+  const tokens = parseMentions(content)
+  if (tokens.length === 0) {
+    return []
+  }
+
+  const usernames = [...new Set(tokens.flatMap(token => (token.username ? [token.username] : [])))]
+  const mentions = new Map<string, MentionKind>()
+
+  const add = (userId: string, kind: MentionKind) => {
+    const current = mentions.get(userId)
+    if (userId !== senderId && (!current || KIND_PRIORITY[kind] > KIND_PRIORITY[current])) {
+      mentions.set(userId, kind)
+    }
+  }
+
+  if (!groupId) {
+    const receiver = receiverId
+      ? await prisma.user.findUnique({ where: { id: receiverId }, select: { id: true, username: true } })
+      : null
+
+    if (receiver && usernames.includes(receiver.username.toLowerCase())) {
+      add(receiver.id, 'USER')
+    }
+    return [...mentions].map(([userId, kind]) => ({ userId, kind }))
+  }
+
+  const mentionsEveryone = tokens.some(token => token.kind !== 'USER')
+  const members = await prisma.groupMember.findMany({
+    where: {
+      groupId,
+      user: {
+        isActive: true,
+        // Without @group or @here only the named members are needed
+        ...(mentionsEveryone
+          ? {}
+          : { OR: usernames.map(username => ({ username: { equals: username, mode: 'insensitive' as const } })) })
+      }
+    },
+    select: { userId: true, user: { select: { username: true } } }
+  })
+
+  if (tokens.some(token => token.kind === 'GROUP')) {
+    members.forEach(({ userId }) => add(userId, 'GROUP'))
+  }
+
+  if (tokens.some(token => token.kind === 'HERE') && members.length > 0) {
+    const presence = await redis.mget(members.map(({ userId }) => presenceKey(userId)))
+    members.forEach(({ userId }, index) => {
+      if (isPresent(presence[index])) {
+        add(userId, 'HERE')
+      }
+    })
+  }
+
+  members.forEach(({ userId, user }) => {
+    if (usernames.includes(user.username.toLowerCase())) {
+      add(userId, 'USER')
+    }
+  })
+
+  return [...mentions].map(([userId, kind]) => ({ userId, kind }))
+}
@@ -0,0 +1,23 @@
+import { Message, Prisma } from '@prisma/client'
+
+export type RevisionAction = 'EDIT' | 'DELETE'
+
+// Calls and system messages record what happened, only the server writes them
+export const isServerMessage = (message: Pick<Message, 'type'>) =>
+  message.type === 'CALL' || message.type === 'SYSTEM'
+
+/**
+ * The revision keeping a message's content as it was before an edit or a
+ * (soft) delete, so moderators can still see what was said.
+ */
+export const revisionOf = (
+  message: Pick<Message, 'id' | 'content' | 'encryptedContent'>,
+  action: RevisionAction,
+  editedBy: string
+): Prisma.MessageRevisionUncheckedCreateInput => ({
+  messageId: message.id,
+  action,
+  content: message.content,
+  encryptedContent: message.encryptedContent,
+  editedBy
+})
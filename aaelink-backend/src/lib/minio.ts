@@ -1,4 +1,5 @@
-import { Client as MinioClientType } from 'minio'
+import { Client as MinioClientType, CopyConditions } from 'minio'
+import { Readable } from 'stream'
 import { env } from './env.js'
 import { logger } from './logger.js'
 
@@ -14,15 +15,16 @@ export class MinioClient {
       secretKey: env.MINIO_SECRET_KEY
     })
 
-    this.initializeBucket()
+    this.initializeBucket(env.MINIO_BUCKET)
+    this.initializeBucket(env.MINIO_QUARANTINE_BUCKET)
   }
 
-  private async initializeBucket() {
+  private async initializeBucket(bucket: string) {
     try {
-      const exists = await this.client.bucketExists(env.MINIO_BUCKET)
+      const exists = await this.client.bucketExists(bucket)
       if (!exists) {
-        await this.client.makeBucket(env.MINIO_BUCKET, 'us-east-1')
-        logger.info(`Created bucket: ${env.MINIO_BUCKET}`)
+        await this.client.makeBucket(bucket, 'us-east-1')
+        logger.info(`Created bucket: ${bucket}`)
       }
     } catch (error) {
       logger.error('Failed to initialize MinIO bucket:', error)
@@ -54,15 +56,56 @@ export class MinioClient {
     }
   }
 
-  async deleteFile(filename: string): Promise<void> {
+  async deleteFile(filename: string, bucket: string = env.MINIO_BUCKET): Promise<void> {
     try {
-      await this.client.removeObject(env.MINIO_BUCKET, filename)
+      await this.client.removeObject(bucket, filename)
     } catch (error) {
       logger.error('Failed to delete file:', error)
       throw new Error('File deletion failed')
     }
   }
 
+  async getFileStream(filename: string, bucket: string = env.MINIO_BUCKET): Promise<Readable> {
+    try {
+      return await this.client.getObject(bucket, filename)
+    } catch (error) {
+      logger.error('Failed to read file:', error)
+      throw new Error('Failed to read file')
+    }
+  }
+
+  // Move an object out of the serving bucket so it can no longer be downloaded
+  async quarantineFile(filename: string): Promise<string> {
+    try {
+      await this.client.copyObject(
+        env.MINIO_QUARANTINE_BUCKET,
+        filename,
+        `/${env.MINIO_BUCKET}/${filename}`,
+        new CopyConditions()
+      )
+      await this.client.removeObject(env.MINIO_BUCKET, filename)
+
+      return env.MINIO_QUARANTINE_BUCKET
+    } catch (error) {
+      logger.error('Failed to quarantine file:', error)
+      throw new Error('Failed to quarantine file')
+    }
+  }
+
+  // Size of an uploaded object, null when it does not exist
+  async getFileSize(filename: string, bucket: string = env.MINIO_BUCKET): Promise<number | null> {
+    try {
+      const stat = await this.client.statObject(bucket, filename)
+      return stat.size
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NotFound') {
+        return null
+      }
+      logger.error('Failed to stat file:', error)
+      throw new Error('Failed to stat file')
+    }
+  }
+
   async getFileUrl(filename: string, expiresIn: number = 3600): Promise<string> {
     try {
       return await this.client.presignedGetObject(env.MINIO_BUCKET, filename, expiresIn)
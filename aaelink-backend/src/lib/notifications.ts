@@ -0,0 +1,595 @@
+import {
+  ConversationNotificationPreference,
+  MentionKind,
+  Notification,
+  NotificationSettings,
+  NotificationType,
+  Prisma,
+  PrismaClient
+} from '@prisma/client'
+import { Redis } from 'ioredis'
+import nodemailer, { Transporter } from 'nodemailer'
+import { Server as SocketIOServer } from 'socket.io'
+import webpush, { WebPushError } from 'web-push'
+import { isDoNotDisturb } from './doNotDisturb.js'
+import { env } from './env.js'
+import { logger } from './logger.js'
+import { isPresent, presenceKey } from './presence.js'
+import { JobQueue } from './queue.js'
+import { userRoom } from './realtime.js'
+
+// Events that notify other users, resolved to recipients by the worker
+export type NotificationJob =
+  | { kind: 'message'; messageId: string }
+  // Users an edit newly mentioned
+  | { kind: 'mention'; messageId: string; userIds: string[] }
+  | { kind: 'call'; callId: string }
+  // Callees who never answered
+  | { kind: 'missed_call'; callId: string; userIds: string[] }
+  | { kind: 'recording_started'; callId: string; startedBy: string }
+  // Only the attendees given are invited, so updates can notify new attendees alone
+  | { kind: 'calendar_invite'; eventId: string; attendeeIds: string[] }
+
+interface NotificationWorkerDeps {
+  prisma: PrismaClient
+  redis: Redis
+  io: SocketIOServer
+}
+
+// The NotificationSettings switch that lets a notification through
+type NotificationCategory =
+  | 'mentions'
+  | 'directMessages'
+  | 'channelMessages'
+  | 'voiceCalls'
+  | 'videoCalls'
+  | 'calendarEvents'
+
+// The group or direct conversation a notification comes from, as seen by its recipient
+type Conversation = { groupId: string } | { peerId: string }
+
+export interface NotificationData {
+  messageId?: string
+  groupId?: string
+  callId?: string
+  eventId?: string
+  // Where clicking the notification leads
+  url: string
+}
+
+interface NotificationDraft {
+  userId: string
+  type: NotificationType
+  category: NotificationCategory
+  title: string
+  content: string
+  data: NotificationData
+  conversation: Conversation | null
+  // Rings through do-not-disturb
+  urgent: boolean
+}
+
+// The part of NotificationSettings clients may change
+export const NOTIFICATION_SETTING_KEYS = [
+  'desktop',
+  'sound',
+  'email',
+  'push',
+  'mentions',
+  'directMessages',
+  'channelMessages',
+  'voiceCalls',
+  'videoCalls',
+  'fileShares',
+  'calendarEvents',
+  'systemUpdates',
+  'timeZone',
+  'dndEnabled',
+  'dndStart',
+  'dndEnd',
+  'dndDays',
+  'dndUntil'
+] as const
+
+// Seconds a push service keeps trying to reach an offline device
+const PUSH_TTL = 24 * 60 * 60
+const PREVIEW_LENGTH = 140
+
+const displayName = (user: { firstName: string; lastName: string; username: string }) =>
+  `${user.firstName} ${user.lastName}`.trim() || user.username
+
+const preview = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text
+
+export const isPushConfigured = () => !!env.VAPID_PUBLIC_KEY && !!env.VAPID_PRIVATE_KEY
+
+/**
+ * Settings of the given users, created with the defaults for users who never
+ * changed them.
+ */
+export async function getNotificationSettings(prisma: PrismaClient, userIds: string[]): Promise<Map<string, NotificationSettings>> {
+  await prisma.notificationSettings.createMany({
+    data: userIds.map(userId => ({ userId })),
+    skipDuplicates: true
+  })
+
+  const settings = await prisma.notificationSettings.findMany({
+    where: { userId: { in: userIds } }
+  })
+
+  return new Map(settings.map(setting => [setting.userId, setting]))
+}
+
+let queue: JobQueue<NotificationJob> | null = null
+
+const getQueue = (redis: Redis) => {
+  queue ??= new JobQueue<NotificationJob>(redis, 'notifications')
+  return queue
+}
+
+export async function enqueueNotification(redis: Redis, job: NotificationJob): Promise<void> {
+  await getQueue(redis).enqueue(job)
+}
+
+const mentionTitle = (sender: string, kind: MentionKind, groupName: string) =>
+  kind === 'USER'
+    ? `${sender} mentioned you in #${groupName}`
+    : `${sender} mentioned @${kind === 'GROUP' ? 'group' : 'here'} in #${groupName}`
+
+/**
+ * Direct messages notify the receiver. Group messages notify the members
+ * they mention, and everyone else who follows all messages of the group.
+ * With onlyUserIds just those users' mentions are notified, after an edit.
+ */
+async function messageDrafts(prisma: PrismaClient, messageId: string, onlyUserIds?: string[]): Promise<NotificationDraft[]> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      sender: true,
+      group: { select: { id: true, name: true } },
+      mentions: {
+        where: onlyUserIds ? { userId: { in: onlyUserIds } } : {},
+        select: { userId: true, kind: true }
+      }
+    }
+  })
+
+  if (!message || message.isDeleted || message.type === 'SYSTEM' || message.type === 'CALL') {
+    return []
+  }
+
+  const sender = displayName(message.sender)
+  // End-to-end encrypted content is never seen by the server
+  const content = message.encryptedContent ? 'Sent an encrypted message' : preview(message.content)
+
+  if (message.receiverId) {
+    return onlyUserIds ? [] : [{
+      userId: message.receiverId,
+      type: 'MESSAGE',
+      category: 'directMessages',
+      title: sender,
+      content,
+      data: { messageId, url: `${env.FRONTEND_URL}/?dm=${message.senderId}&message=${messageId}` },
+      conversation: { peerId: message.senderId },
+      urgent: false
+    }]
+  }
+
+  if (!message.group) {
+    return []
+  }
+
+  const group = message.group
+  const mentionKinds = new Map(message.mentions.map(mention => [mention.userId, mention.kind]))
+
+  // Members who may want a notification: mentioned ones, and those following all
+  // messages through the group's preference or their global channelMessages switch
+  const members = await prisma.groupMember.findMany({
+    where: {
+      groupId: group.id,
+      userId: { not: message.senderId },
+      user: { isActive: true },
+      OR: [
+        { userId: { in: [...mentionKinds.keys()] } },
+        ...(onlyUserIds ? [] : [
+          { user: { notificationPreferences: { some: { groupId: group.id, level: 'ALL' as const } } } },
+          { user: { notificationSettings: { channelMessages: true } } }
+        ])
+      ]
+    },
+    select: { userId: true }
+  })
+
+  const url = `${env.FRONTEND_URL}/?group=${group.id}&message=${messageId}`
+
+  return members.map(({ userId }): NotificationDraft => {
+    const mentionKind = mentionKinds.get(userId)
+
+    return {
+      userId,
+      type: mentionKind ? 'MENTION' : 'MESSAGE',
+      category: mentionKind ? 'mentions' : 'channelMessages',
+      title: mentionKind ? mentionTitle(sender, mentionKind, group.name) : `${sender} in #${group.name}`,
+      content,
+      data: { messageId, groupId: group.id, url },
+      conversation: { groupId: group.id },
+      urgent: false
+    }
+  })
+}
+
+// Everyone still being rung
+async function callDrafts(prisma: PrismaClient, callId: string): Promise<NotificationDraft[]> {
+  const call = await prisma.call.findUnique({
+    where: { id: callId },
+    include: {
+      initiator: true,
+      group: { select: { id: true, name: true } },
+      participants: {
+        where: { status: 'INVITED' },
+        select: { userId: true }
+      }
+    }
+  })
+
+  if (!call || call.status !== 'RINGING') {
+    return []
+  }
+
+  const kind = call.type === 'AUDIO' ? 'voice' : 'video'
+  const caller = displayName(call.initiator)
+
+  return call.participants.map(({ userId }) => ({
+    userId,
+    type: 'CALL',
+    category: call.type === 'AUDIO' ? 'voiceCalls' : 'videoCalls',
+    title: call.isUrgent ? `Urgent ${kind} call` : `Incoming ${kind} call`,
+    content: call.group ? `${caller} is calling #${call.group.name}` : `${caller} is calling you`,
+    data: {
+      callId,
+      ...(call.groupId ? { groupId: call.groupId } : {}),
+      url: `${env.FRONTEND_URL}/?call=${callId}`
+    },
+    conversation: call.groupId ? { groupId: call.groupId } : { peerId: call.initiatorId },
+    urgent: call.isUrgent
+  }))
+}
+
+const callLabel = (call: { type: string }) => (call.type === 'AUDIO' ? 'voice call' : 'video call')
+
+const callCategory = (call: { type: string }): NotificationCategory =>
+  call.type === 'AUDIO' ? 'voiceCalls' : 'videoCalls'
+
+// The group of a call, or for a direct call the other side as seen by the user
+const callConversation = (
+  call: { groupId: string | null; initiatorId: string; participants: Array<{ userId: string }> },
+  userId: string
+): Conversation => {
+  if (call.groupId) {
+    return { groupId: call.groupId }
+  }
+  const peerId = userId === call.initiatorId
+    ? call.participants.find(participant => participant.userId !== userId)?.userId
+    : call.initiatorId
+  return { peerId: peerId ?? call.initiatorId }
+}
+
+async function missedCallDrafts(prisma: PrismaClient, callId: string, userIds: string[]): Promise<NotificationDraft[]> {
+  const call = await prisma.call.findUnique({
+    where: { id: callId },
+    include: {
+      initiator: true,
+      participants: { select: { userId: true } }
+    }
+  })
+
+  if (!call) {
+    return []
+  }
+
+  const caller = displayName(call.initiator)
+
+  return userIds.map(userId => ({
+    userId,
+    type: 'CALL',
+    category: callCategory(call),
+    title: 'Missed call',
+    content: `You missed a ${callLabel(call)} from ${caller}`,
+    data: {
+      callId,
+      ...(call.groupId ? { groupId: call.groupId } : {}),
+      url: `${env.FRONTEND_URL}/?call=${callId}`
+    },
+    conversation: callConversation(call, userId),
+    urgent: false
+  }))
+}
+
+// Everyone in the call, so nobody is recorded unaware
+async function recordingDrafts(prisma: PrismaClient, callId: string, startedBy: string): Promise<NotificationDraft[]> {
+  const call = await prisma.call.findUnique({
+    where: { id: callId },
+    include: {
+      participants: { select: { userId: true } }
+    }
+  })
+  const starter = await prisma.user.findUnique({ where: { id: startedBy } })
+
+  if (!call) {
+    return []
+  }
+
+  const starterName = starter ? displayName(starter) : 'A participant'
+
+  return call.participants.map(({ userId }) => ({
+    userId,
+    type: 'CALL',
+    category: callCategory(call),
+    title: 'Recording started',
+    content: `${starterName} started recording the call`,
+    data: {
+      callId,
+      ...(call.groupId ? { groupId: call.groupId } : {}),
+      url: `${env.FRONTEND_URL}/?call=${callId}`
+    },
+    conversation: callConversation(call, userId),
+    urgent: false
+  }))
+}
+
+async function calendarDrafts(prisma: PrismaClient, eventId: string, attendeeIds: string[]): Promise<NotificationDraft[]> {
+  const event = await prisma.calendarEvent.findUnique({ where: { id: eventId } })
+  const creator = event && await prisma.user.findUnique({ where: { id: event.createdBy } })
+
+  if (!event || !creator) {
+    return []
+  }
+
+  const organizer = displayName(creator)
+
+  return attendeeIds
+    .filter(userId => userId !== event.createdBy)
+    .map(userId => ({
+      userId,
+      type: 'CALENDAR_INVITE',
+      category: 'calendarEvents',
+      title: `Invitation: ${event.title}`,
+      content: `${organizer} invited you to ${event.title} on ${event.startTime.toUTCString()}`,
+      data: { eventId, url: `${env.FRONTEND_URL}/?event=${eventId}` },
+      conversation: null,
+      urgent: false
+    }))
+}
+
+function draftsFor(prisma: PrismaClient, job: NotificationJob): Promise<NotificationDraft[]> {
+  switch (job.kind) {
+    case 'message':
+      return messageDrafts(prisma, job.messageId)
+    case 'mention':
+      return messageDrafts(prisma, job.messageId, job.userIds)
+    case 'call':
+      return callDrafts(prisma, job.callId)
+    case 'missed_call':
+      return missedCallDrafts(prisma, job.callId, job.userIds)
+    case 'recording_started':
+      return recordingDrafts(prisma, job.callId, job.startedBy)
+    case 'calendar_invite':
+      return calendarDrafts(prisma, job.eventId, job.attendeeIds)
+  }
+}
+
+const preferenceKey = (userId: string, conversation: Conversation) =>
+  'groupId' in conversation ? `${userId}:group:${conversation.groupId}` : `${userId}:user:${conversation.peerId}`
+
+// Recipients' overrides for the conversations the drafts come from
+async function loadPreferences(prisma: PrismaClient, drafts: NotificationDraft[]) {
+  const conditions = drafts.flatMap(({ userId, conversation }) => (conversation ? [{ userId, ...conversation }] : []))
+  if (conditions.length === 0) {
+    return new Map<string, ConversationNotificationPreference>()
+  }
+
+  const preferences = await prisma.conversationNotificationPreference.findMany({
+    where: { OR: conditions }
+  })
+
+  return new Map(preferences.map(preference => [
+    preferenceKey(preference.userId, preference.groupId ? { groupId: preference.groupId } : { peerId: preference.peerId ?? '' }),
+    preference
+  ]))
+}
+
+/**
+ * Whether a recipient wants a notification at all. A muted or NONE
+ * conversation notifies nothing, MENTIONS drops plain group messages and ALL
+ * lets them through regardless of the global channelMessages switch. The
+ * category switches of NotificationSettings decide the rest.
+ */
+function isWanted(draft: NotificationDraft, settings: NotificationSettings, preference: ConversationNotificationPreference | undefined, now: Date) {
+  if (preference?.mutedUntil && preference.mutedUntil > now) {
+    return false
+  }
+
+  switch (preference?.level) {
+    case 'NONE':
+      return false
+    case 'MENTIONS':
+      if (draft.category === 'channelMessages') return false
+      break
+    case 'ALL':
+      if (draft.category === 'channelMessages') return true
+      break
+  }
+
+  return settings[draft.category]
+}
+
+/**
+ * Users among the recipients of something that rings right away (an incoming
+ * call) who should not be alerted: in do-not-disturb unless it is urgent, or
+ * with the conversation muted or set to notify nothing.
+ */
+export async function findQuietUsers(
+  prisma: PrismaClient,
+  userIds: string[],
+  conversation: Conversation,
+  urgent: boolean
+): Promise<string[]> {
+  if (userIds.length === 0) {
+    return []
+  }
+
+  const now = new Date()
+  const [settings, preferences] = await Promise.all([
+    getNotificationSettings(prisma, userIds),
+    prisma.conversationNotificationPreference.findMany({
+      where: { userId: { in: userIds }, ...conversation }
+    })
+  ])
+
+  return userIds.filter(userId => {
+    const preference = preferences.find(p => p.userId === userId)
+    const setting = settings.get(userId)
+
+    return (preference?.mutedUntil && preference.mutedUntil > now) ||
+      preference?.level === 'NONE' ||
+      (!urgent && !!setting && isDoNotDisturb(setting, now))
+  })
+}
+
+let transporter: Transporter | null = null
+
+const getTransporter = () => {
+  if (!env.SMTP_URL) {
+    return null
+  }
+
+  transporter ??= nodemailer.createTransport(env.SMTP_URL)
+  return transporter
+}
+
+async function sendPush(prisma: PrismaClient, notification: Notification, data: NotificationData) {
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { userId: notification.userId }
+  })
+
+  const payload = JSON.stringify({
+    title: notification.title,
+    body: notification.content,
+    tag: notification.id,
+    data: { ...data, notificationId: notification.id }
+  })
+
+  await Promise.all(subscriptions.map(async subscription => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        {
+          TTL: PUSH_TTL,
+          vapidDetails: {
+            subject: env.VAPID_SUBJECT,
+            publicKey: env.VAPID_PUBLIC_KEY ?? '',
+            privateKey: env.VAPID_PRIVATE_KEY ?? ''
+          }
+        }
+      )
+    } catch (error) {
+      // The browser unsubscribed or the subscription expired
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        await prisma.pushSubscription.delete({ where: { id: subscription.id } }).catch(() => undefined)
+        return
+      }
+      throw error
+    }
+  }))
+}
+
+async function sendEmail(mailer: Transporter, email: string, notification: Notification, data: NotificationData) {
+  await mailer.sendMail({
+    from: env.SMTP_FROM,
+    to: email,
+    subject: notification.title,
+    text: `${notification.content}\n\nOpen in AAELink: ${data.url}`
+  })
+}
+
+/**
+ * Consume the notification queue: turn each event into notifications for
+ * the users it concerns and deliver them over the socket, Web Push and
+ * email as each recipient's NotificationSettings and conversation
+ * preferences allow. Web Push is only used while a user has no connected
+ * client, which already got the socket event. During do-not-disturb the
+ * notification is still stored and sent to clients marked quiet, so they
+ * update without alerting, and nothing is pushed or emailed; only urgent
+ * calls get through.
+ */
+export function startNotificationWorker({ prisma, redis, io }: NotificationWorkerDeps) {
+  const notificationQueue = getQueue(redis)
+
+  const fanOut = async (job: NotificationJob) => {
+    const drafts = await draftsFor(prisma, job)
+    if (drafts.length === 0) {
+      return
+    }
+
+    const settings = await getNotificationSettings(prisma, [...new Set(drafts.map(draft => draft.userId))])
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...settings.keys()] }, isActive: true },
+      select: { id: true, email: true }
+    })
+    const emails = new Map(users.map(user => [user.id, user.email]))
+    const preferences = await loadPreferences(prisma, drafts)
+    const now = new Date()
+
+    for (const draft of drafts) {
+      const setting = settings.get(draft.userId)
+      const email = emails.get(draft.userId)
+      const preference = draft.conversation ? preferences.get(preferenceKey(draft.userId, draft.conversation)) : undefined
+      if (!setting || email === undefined || !isWanted(draft, setting, preference, now)) {
+        continue
+      }
+
+      const notification = await prisma.notification.create({
+        data: {
+          userId: draft.userId,
+          type: draft.type,
+          title: draft.title,
+          content: draft.content,
+          data: draft.data as unknown as Prisma.InputJsonValue
+        }
+      })
+
+      const quiet = !draft.urgent && isDoNotDisturb(setting, now)
+      io.to(userRoom(draft.userId)).emit('notification', { ...notification, quiet })
+      if (quiet) {
+        continue
+      }
+
+      // A failing channel must not retry the job, which would duplicate the notification
+      if (setting.push && isPushConfigured() && !isPresent(await redis.get(presenceKey(draft.userId)))) {
+        await sendPush(prisma, notification, draft.data).catch(error => {
+          logger.warn(`Web Push delivery failed for notification ${notification.id}:`, error)
+        })
+      }
+
+      const mailer = getTransporter()
+      if (setting.email && mailer) {
+        await sendEmail(mailer, email, notification, draft.data).catch(error => {
+          logger.warn(`Email delivery failed for notification ${notification.id}:`, error)
+        })
+      }
+    }
+  }
+
+  const logFailure = async (job: NotificationJob, error: unknown) => {
+    logger.error(`Notification fan-out failed for ${job.kind}:`, error)
+  }
+
+  notificationQueue.process(fanOut, logFailure).catch(error => {
+    logger.error('Notification worker stopped:', error)
+  })
+
+  logger.info('Notification worker started')
+
+  return notificationQueue
+}
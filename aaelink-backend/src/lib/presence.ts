@@ -0,0 +1,256 @@
+import { Availability, PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { groupRoom, userRoom } from './realtime.js'
+
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'offline'
+
+export interface PresenceDeps {
+  prisma: PrismaClient
+  redis: Redis
+  io: SocketIOServer
+}
+
+export interface Presence {
+  userId: string
+  status: PresenceStatus
+  statusText: string | null
+  statusEmoji: string | null
+  statusExpiresAt: Date | null
+  lastSeen: Date | null
+}
+
+// Seconds a connection stays live without a heartbeat, clients send one every 25s
+export const CONNECTION_TTL = 60
+
+// One socket: a browser tab or an app instance on a device
+export interface Connection {
+  deviceId: string
+  // Reported by the client after a while without input or when hidden
+  idle: boolean
+  heartbeatAt: number
+}
+
+// Aggregated status of a user, only set while they have a live connection
+export const presenceKey = (userId: string) => `presence:${userId}`
+const connectionsKey = (userId: string) => `presence:${userId}:connections`
+
+// Whether the user is at one of their devices, so @here reaches them and push can wait
+export const isPresent = (status: string | null | undefined) => status === 'online' || status === 'busy'
+
+const presenceSelect = {
+  id: true,
+  availability: true,
+  statusText: true,
+  statusEmoji: true,
+  statusExpiresAt: true,
+  lastSeen: true
+} as const
+
+/**
+ * Live connections of a user. Connections whose heartbeat stopped, because
+ * their replica died before it saw the disconnect, are dropped on the way.
+ */
+async function liveConnections(redis: Redis, userId: string, now: number): Promise<Connection[]> {
+  const entries = await redis.hgetall(connectionsKey(userId))
+  const live: Connection[] = []
+  const stale: string[] = []
+
+  Object.entries(entries).forEach(([socketId, value]) => {
+    const connection = JSON.parse(value) as Connection
+    if (now - connection.heartbeatAt > CONNECTION_TTL * 1000) {
+      stale.push(socketId)
+    } else {
+      live.push(connection)
+    }
+  })
+
+  if (stale.length > 0) {
+    await redis.hdel(connectionsKey(userId), ...stale)
+  }
+  return live
+}
+
+export function aggregateStatus(connections: Connection[], availability: Availability): PresenceStatus {
+  if (connections.length === 0) {
+    return 'offline'
+  }
+  if (availability === 'BUSY') {
+    return 'busy'
+  }
+  if (availability === 'AWAY') {
+    return 'away'
+  }
+
+  return connections.some(connection => !connection.idle) ? 'online' : 'away'
+}
+
+// Rooms of everyone who shares a group or a direct conversation with the user
+async function presenceAudience(prisma: PrismaClient, userId: string): Promise<string[]> {
+  const [memberships, directMessages] = await Promise.all([
+    prisma.groupMember.findMany({
+      where: { userId },
+      select: { groupId: true }
+    }),
+    prisma.message.findMany({
+      where: {
+        groupId: null,
+        OR: [{ senderId: userId }, { receiverId: userId }]
+      },
+      distinct: ['senderId', 'receiverId'],
+      select: { senderId: true, receiverId: true }
+    })
+  ])
+
+  const peerIds = new Set(directMessages.flatMap(({ senderId, receiverId }) => [senderId, receiverId]))
+  peerIds.add(userId)
+
+  return [
+    ...memberships.map(({ groupId }) => groupRoom(groupId)),
+    ...[...peerIds].flatMap(peerId => (peerId ? [userRoom(peerId)] : []))
+  ]
+}
+
+const toPresence = (
+  user: { id: string; statusText: string | null; statusEmoji: string | null; statusExpiresAt: Date | null; lastSeen: Date | null },
+  status: PresenceStatus,
+  now: number
+): Presence => {
+  // An expired custom status reads as cleared
+  const expired = user.statusExpiresAt !== null && user.statusExpiresAt.getTime() <= now
+  return {
+    userId: user.id,
+    status,
+    statusText: expired ? null : user.statusText,
+    statusEmoji: expired ? null : user.statusEmoji,
+    statusExpiresAt: expired ? null : user.statusExpiresAt,
+    lastSeen: user.lastSeen
+  }
+}
+
+/**
+ * Recompute a user's status from their connections and broadcast it to the
+ * users who share a conversation with them when it changed, or always when
+ * `force` is set (their custom status changed).
+ */
+export async function refreshPresence({ prisma, redis, io }: PresenceDeps, userId: string, force = false) {
+  const now = Date.now()
+  const [connections, user, previous] = await Promise.all([
+    liveConnections(redis, userId, now),
+    prisma.user.findUnique({ where: { id: userId }, select: presenceSelect }),
+    redis.get(presenceKey(userId))
+  ])
+  if (!user) {
+    return
+  }
+
+  const status = aggregateStatus(connections, user.availability)
+  let lastSeen = user.lastSeen
+
+  if (status === 'offline') {
+    await redis.del(presenceKey(userId))
+    if (previous) {
+      lastSeen = new Date(now)
+      await prisma.user.update({ where: { id: userId }, data: { lastSeen } })
+    }
+  } else {
+    await redis.setex(presenceKey(userId), CONNECTION_TTL, status)
+  }
+
+  if (force || (previous ?? 'offline') !== status) {
+    io.to(await presenceAudience(prisma, userId)).emit('presence', toPresence({ ...user, lastSeen }, status, now))
+  }
+}
+
+export async function trackConnection(deps: PresenceDeps, userId: string, socketId: string, deviceId: string) {
+  const now = Date.now()
+  const connection: Connection = { deviceId, idle: false, heartbeatAt: now }
+
+  await deps.redis
+    .multi()
+    .hset(connectionsKey(userId), socketId, JSON.stringify(connection))
+    .expire(connectionsKey(userId), CONNECTION_TTL * 2)
+    .exec()
+  await deps.prisma.user.update({ where: { id: userId }, data: { lastSeen: new Date(now) } })
+  await refreshPresence(deps, userId)
+}
+
+/**
+ * Heartbeat of a connection. Clients report `idle` after a while without
+ * input or when hidden, and `active` on the next input; a heartbeat without
+ * a state keeps the one last reported, so a user typing all along stays online.
+ */
+export const applyHeartbeat = (connection: Connection, state: 'active' | 'idle' | undefined, now: number): Connection => ({
+  ...connection,
+  idle: state ? state === 'idle' : connection.idle,
+  heartbeatAt: now
+})
+
+export async function recordActivity(deps: PresenceDeps, userId: string, socketId: string, state?: 'active' | 'idle') {
+  const now = Date.now()
+  const stored = await deps.redis.hget(connectionsKey(userId), socketId)
+  if (!stored) {
+    return
+  }
+
+  const connection = applyHeartbeat(JSON.parse(stored) as Connection, state, now)
+
+  await deps.redis
+    .multi()
+    .hset(connectionsKey(userId), socketId, JSON.stringify(connection))
+    .expire(connectionsKey(userId), CONNECTION_TTL * 2)
+    .exec()
+  await refreshPresence(deps, userId)
+}
+
+export async function dropConnection(deps: PresenceDeps, userId: string, socketId: string) {
+  await deps.redis.hdel(connectionsKey(userId), socketId)
+  await refreshPresence(deps, userId)
+}
+
+/**
+ * Presence of the requested users the viewer shares a group or a direct
+ * conversation with; everyone else is left out.
+ */
+export async function getPresence(prisma: PrismaClient, redis: Redis, viewerId: string, userIds: string[]): Promise<Presence[]> {
+  const [comembers, directMessages] = await Promise.all([
+    prisma.groupMember.findMany({
+      where: {
+        userId: { in: userIds },
+        group: { members: { some: { userId: viewerId } } }
+      },
+      distinct: ['userId'],
+      select: { userId: true }
+    }),
+    prisma.message.findMany({
+      where: {
+        groupId: null,
+        OR: [
+          { senderId: viewerId, receiverId: { in: userIds } },
+          { senderId: { in: userIds }, receiverId: viewerId }
+        ]
+      },
+      distinct: ['senderId', 'receiverId'],
+      select: { senderId: true, receiverId: true }
+    })
+  ])
+
+  const visible = new Set([
+    ...comembers.map(({ userId }) => userId),
+    ...directMessages.flatMap(({ senderId, receiverId }) => [senderId, receiverId ?? senderId]),
+    viewerId
+  ])
+  const ids = userIds.filter(id => visible.has(id))
+  if (ids.length === 0) {
+    return []
+  }
+
+  const [users, statuses] = await Promise.all([
+    prisma.user.findMany({ where: { id: { in: ids } }, select: presenceSelect }),
+    redis.mget(ids.map(presenceKey))
+  ])
+  const statusById = new Map(ids.map((id, index) => [id, (statuses[index] ?? 'offline') as PresenceStatus]))
+  const now = Date.now()
+
+  return users.map(user => toPresence(user, statusById.get(user.id) ?? 'offline', now))
+}
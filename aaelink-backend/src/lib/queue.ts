@@ -0,0 +1,181 @@
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import { logger } from './logger.js'
+
+interface Job<T> {
+  id: string
+  data: T
+  attempts: number
+  enqueuedAt: number
+}
+
+export interface ProcessOptions {
+  maxAttempts?: number
+  // Seconds a blocking pop waits before checking whether the worker was stopped
+  pollInterval?: number
+}
+
+// The Redis commands the queue needs, an ioredis client provides them
+export interface QueueConnection {
+  lpush(key: string, ...values: string[]): Promise<number>
+  rpoplpush(source: string, destination: string): Promise<string | null>
+  brpoplpush(source: string, destination: string, timeout: number): Promise<string | null>
+  lrem(key: string, count: number, value: string): Promise<number>
+  set(key: string, value: string, secondsToken: 'EX', seconds: number): Promise<unknown>
+  exists(key: string): Promise<number>
+  del(key: string): Promise<number>
+  sadd(key: string, member: string): Promise<number>
+  srem(key: string, member: string): Promise<number>
+  smembers(key: string): Promise<string[]>
+  duplicate(): QueueConnection
+  disconnect(): void
+}
+
+// Seconds a worker is considered alive after renewing its lease, renewed every third of it
+const WORKER_LEASE = 30
+
+/**
+ * Minimal reliable job queue on top of Redis lists. Every worker moves the
+ * jobs it runs to a processing list of its own and keeps a lease alive while
+ * it runs; jobs of a worker whose lease ran out, because it crashed, are put
+ * back for the others. Workers that are alive never lose their jobs, so
+ * replicas and rolling restarts do not run a job twice.
+ */
+export class JobQueue<T> {
+  private running = false
+  private worker: QueueConnection | null = null
+  private leaseTimer: ReturnType<typeof setInterval> | null = null
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID()}`
+
+  constructor(private redis: QueueConnection, readonly name: string) {}
+
+  private get pendingKey() {
+    return `queue:${this.name}:pending`
+  }
+
+  private get workersKey() {
+    return `queue:${this.name}:workers`
+  }
+
+  private processingKey(workerId = this.workerId) {
+    return `queue:${this.name}:processing:${workerId}`
+  }
+
+  private leaseKey(workerId = this.workerId) {
+    return `queue:${this.name}:lease:${workerId}`
+  }
+
+  async enqueue(data: T): Promise<string> {
+    const job: Job<T> = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      data,
+      attempts: 0,
+      enqueuedAt: Date.now()
+    }
+
+    await this.redis.lpush(this.pendingKey, JSON.stringify(job))
+    return job.id
+  }
+
+  private async renewLease() {
+    await this.redis.set(this.leaseKey(), '1', 'EX', WORKER_LEASE)
+  }
+
+  // Put back the jobs of workers that stopped renewing their lease
+  private async recoverAbandoned() {
+    for (const workerId of await this.redis.smembers(this.workersKey)) {
+      if (workerId === this.workerId || (await this.redis.exists(this.leaseKey(workerId))) === 1) {
+        continue
+      }
+
+      let recovered = 0
+      while (await this.redis.rpoplpush(this.processingKey(workerId), this.pendingKey)) {
+        recovered++
+      }
+      await this.redis.srem(this.workersKey, workerId)
+
+      if (recovered > 0) {
+        logger.warn(`Queue ${this.name} recovered ${recovered} job(s) of worker ${workerId}`)
+      }
+    }
+  }
+
+  /**
+   * Start consuming jobs one at a time. The handler is retried until
+   * maxAttempts, after which onFailed is called with the last error.
+   */
+  async process(
+    handler: (data: T) => Promise<void>,
+    onFailed: (data: T, error: unknown) => Promise<void>,
+    { maxAttempts = 3, pollInterval = 5 }: ProcessOptions = {}
+  ): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    // Blocking commands need a connection of their own
+    const worker = this.redis.duplicate()
+    this.worker = worker
+
+    await this.renewLease()
+    await this.redis.sadd(this.workersKey, this.workerId)
+    await this.recoverAbandoned()
+
+    this.leaseTimer = setInterval(() => {
+      this.renewLease()
+        .then(() => this.recoverAbandoned())
+        .catch(error => logger.error(`Queue ${this.name} lease error:`, error))
+    }, (WORKER_LEASE * 1000) / 3)
+
+    while (this.running) {
+      let raw: string | null = null
+
+      try {
+        raw = await worker.brpoplpush(this.pendingKey, this.processingKey(), pollInterval)
+      } catch (error) {
+        if (!this.running) break
+        logger.error(`Queue ${this.name} poll error:`, error)
+        await new Promise(resume => setTimeout(resume, pollInterval * 1000))
+        continue
+      }
+
+      if (!raw) continue
+
+      const job = JSON.parse(raw) as Job<T>
+
+      try {
+        await handler(job.data)
+      } catch (error) {
+        job.attempts += 1
+
+        if (job.attempts < maxAttempts) {
+          logger.warn(`Queue ${this.name} job ${job.id} failed (attempt ${job.attempts}), retrying`)
+          await this.redis.lpush(this.pendingKey, JSON.stringify(job))
+        } else {
+          logger.error(`Queue ${this.name} job ${job.id} failed permanently:`, error)
+          await onFailed(job.data, error).catch(failedError => {
+            logger.error(`Queue ${this.name} failure handler error:`, failedError)
+          })
+        }
+      }
+
+      await this.redis.lrem(this.processingKey(), 1, raw)
+    }
+
+    // A job popped while stopping goes back to the others
+    while (await this.redis.rpoplpush(this.processingKey(), this.pendingKey)) {
+      // keep moving
+    }
+    await this.redis.srem(this.workersKey, this.workerId)
+    await this.redis.del(this.leaseKey())
+  }
+
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer)
+      this.leaseTimer = null
+    }
+    this.worker?.disconnect()
+    this.worker = null
+  }
+}
@@ -0,0 +1,130 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+
+// A group, or the direct conversation with a peer, as seen by its reader
+export type ReadConversation = { groupId: string } | { peerId: string }
+
+export interface UnreadCounts {
+  unreadCount: number
+  mentionCount: number
+}
+
+export const readConversation = (
+  userId: string,
+  message: { groupId: string | null; senderId: string; receiverId: string | null }
+): ReadConversation => {
+  if (message.groupId) {
+    return { groupId: message.groupId }
+  }
+  return { peerId: message.senderId === userId ? message.receiverId ?? userId : message.senderId }
+}
+
+export const readStateWhere = (userId: string, conversation: ReadConversation): Prisma.ReadStateWhereUniqueInput =>
+  'groupId' in conversation
+    ? { userId_groupId: { userId, groupId: conversation.groupId } }
+    : { userId_peerId: { userId, peerId: conversation.peerId } }
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+
+/**
+ * Move the user's watermark in a conversation up to a message. It never moves
+ * back, so reading an older message, or two devices racing, keeps the furthest
+ * read position. Resolves to whether the watermark moved.
+ */
+export async function markReadUpTo(
+  prisma: PrismaClient,
+  userId: string,
+  conversation: ReadConversation,
+  message: { id: string; createdAt: Date }
+): Promise<boolean> {
+  const { count } = await prisma.readState.updateMany({
+    where: { userId, ...conversation, lastReadAt: { lt: message.createdAt } },
+    data: { lastReadMessageId: message.id, lastReadAt: message.createdAt }
+  })
+
+  if (count === 0) {
+    try {
+      await prisma.readState.create({
+        data: { userId, ...conversation, lastReadMessageId: message.id, lastReadAt: message.createdAt }
+      })
+    } catch (error) {
+      // The watermark is already at or past the message
+      if (isUniqueViolation(error)) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  // Mentions are read along with the messages they are in
+  await prisma.mention.updateMany({
+    where: {
+      userId,
+      isRead: false,
+      message: {
+        ...('groupId' in conversation
+          ? { groupId: conversation.groupId }
+          : { senderId: conversation.peerId, receiverId: userId }),
+        createdAt: { lte: message.createdAt }
+      }
+    },
+    data: { isRead: true, readAt: new Date() }
+  })
+
+  return true
+}
+
+/**
+ * Unread messages and unread mentions of the user in each group. Messages
+ * count from the read watermark, or from joining when the user has not read
+ * the group yet, and never include the user's own.
+ */
+export async function groupUnreadCounts(
+  prisma: PrismaClient,
+  userId: string,
+  groupIds: string[]
+): Promise<Map<string, UnreadCounts>> {
+  const counts = new Map(groupIds.map(groupId => [groupId, { unreadCount: 0, mentionCount: 0 }]))
+  if (groupIds.length === 0) {
+    return counts
+  }
+
+  const [unread, mentions] = await Promise.all([
+    prisma.$queryRaw<{ groupId: string; count: number }[]>`
+      SELECT m."groupId", count(*)::int AS count
+      FROM messages m
+      JOIN group_members gm ON gm."groupId" = m."groupId" AND gm."userId" = ${userId}
+      LEFT JOIN read_states rs ON rs."groupId" = m."groupId" AND rs."userId" = ${userId}
+      WHERE m."groupId" = ANY(${groupIds}::text[])
+        AND m."senderId" <> ${userId}
+        AND m."isDeleted" = false
+        AND m."createdAt" > COALESCE(rs."lastReadAt", gm."joinedAt")
+      GROUP BY m."groupId"
+    `,
+    prisma.$queryRaw<{ groupId: string; count: number }[]>`
+      SELECT m."groupId", count(*)::int AS count
+      FROM mentions mn
+      JOIN messages m ON m.id = mn."messageId"
+      WHERE mn."userId" = ${userId}
+        AND mn."isRead" = false
+        AND m."groupId" = ANY(${groupIds}::text[])
+        AND m."isDeleted" = false
+      GROUP BY m."groupId"
+    `
+  ])
+
+  unread.forEach(row => {
+    const count = counts.get(row.groupId)
+    if (count) {
+      count.unreadCount = row.count
+    }
+  })
+  mentions.forEach(row => {
+    const count = counts.get(row.groupId)
+    if (count) {
+      count.mentionCount = row.count
+    }
+  })
+
+  return counts
+}
@@ -0,0 +1,246 @@
+import { PrismaClient } from '@prisma/client'
+import { createAdapter } from '@socket.io/redis-adapter'
+import { FastifyInstance } from 'fastify'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer, Socket } from 'socket.io'
+import { parseConversationId, replayConversationEvents } from './conversationEvents.js'
+import { logger } from './logger.js'
+import { dropConnection, recordActivity, trackConnection } from './presence.js'
+import { isSessionActive } from './sessions.js'
+
+// Conversations a single resume request may catch up on
+const MAX_RESUMED_CONVERSATIONS = 200
+
+export interface SocketData {
+  userId: string
+  role: string
+  sessionId?: string | undefined
+}
+
+export type AuthenticatedSocket = Socket<any, any, any, SocketData>
+
+interface GatewayDeps {
+  prisma: PrismaClient
+  redis: Redis
+  origins: string[]
+}
+
+/**
+ * Verify an access token presented outside the HTTP request lifecycle (socket
+ * handshakes). Returns null for invalid tokens and revoked sessions.
+ */
+export async function verifyAccessToken(fastify: FastifyInstance, redis: Redis, token: string): Promise<SocketData | null> {
+  try {
+    const payload = fastify.jwt.verify<{ userId: string; role: string; sessionId?: string }>(token)
+
+    if (payload.sessionId && !(await isSessionActive(redis, payload.sessionId))) {
+      return null
+    }
+
+    return { userId: payload.userId, role: payload.role, sessionId: payload.sessionId }
+  } catch {
+    return null
+  }
+}
+
+export const userRoom = (userId: string) => `user:${userId}`
+export const groupRoom = (groupId: string) => `room:${groupId}`
+
+// Sockets of a user that just joined a group start receiving its events
+// without reconnecting, on whichever replica they are connected to
+export function addUserToGroupRoom(io: SocketIOServer, userId: string, groupId: string) {
+  io.in(userRoom(userId)).socketsJoin(groupRoom(groupId))
+}
+
+export function removeUserFromGroupRoom(io: SocketIOServer, userId: string, groupId: string) {
+  io.in(userRoom(userId)).socketsLeave(groupRoom(groupId))
+}
+
+/**
+ * Attach Socket.IO to the Fastify HTTP server. Sockets authenticate with the
+ * same access token as the REST API, either in the handshake `auth.token` or
+ * the `auth-token` cookie, and only ever join rooms of groups they belong to.
+ * The Redis adapter relays room broadcasts between backend replicas.
+ */
+export function createRealtimeGateway(fastify: FastifyInstance, { prisma, redis, origins }: GatewayDeps) {
+  const io = new SocketIOServer<any, any, any, SocketData>(fastify.server, {
+    cors: {
+      origin: origins,
+      methods: ['GET', 'POST'],
+      credentials: true
+    }
+  })
+
+  const pubClient = redis.duplicate()
+  const subClient = redis.duplicate()
+  io.adapter(createAdapter(pubClient, subClient))
+
+  const readToken = (socket: AuthenticatedSocket): string | undefined => {
+    const token = socket.handshake.auth?.token
+    if (typeof token === 'string' && token) {
+      return token
+    }
+
+    const cookieHeader = socket.handshake.headers.cookie
+    return cookieHeader ? fastify.parseCookie(cookieHeader)['auth-token'] : undefined
+  }
+
+  io.use(async (socket, next) => {
+    const token = readToken(socket)
+    if (!token) {
+      return next(new Error('Unauthorized'))
+    }
+
+    const data = await verifyAccessToken(fastify, redis, token)
+    if (!data) {
+      return next(new Error('Unauthorized'))
+    }
+
+    socket.data = data
+    next()
+  })
+
+  const isMember = async (userId: string, groupId: string) => {
+    const membership = await prisma.groupMember.findUnique({
+      where: {
+        userId_groupId: { userId, groupId }
+      },
+      select: { id: true }
+    })
+    return membership !== null
+  }
+
+  io.on('connection', (socket: AuthenticatedSocket) => {
+    const { userId } = socket.data
+    // Tabs of one browser share a device id; a socket without one is its own device
+    const deviceId = typeof socket.handshake.auth?.deviceId === 'string'
+      ? socket.handshake.auth.deviceId.slice(0, 100)
+      : socket.id
+
+    // Listeners below are registered right away so events sent straight after
+    // connecting are not lost; the ones that need the rooms or the tracked
+    // connection wait for this to settle
+    const ready = (async () => {
+      const memberships = await prisma.groupMember.findMany({
+        where: { userId },
+        select: { groupId: true }
+      })
+
+      socket.join([userRoom(userId), ...memberships.map(({ groupId }) => groupRoom(groupId))])
+
+      await trackConnection({ prisma, redis, io }, userId, socket.id, deviceId)
+      return true
+    })().catch(error => {
+      logger.error('Socket connection setup error:', error)
+      socket.disconnect(true)
+      return false
+    })
+
+    socket.on('join_room', async (data: { roomId?: string }, ack?: (response: unknown) => void) => {
+      try {
+        const groupId = data?.roomId
+        if (!groupId || !(await isMember(userId, groupId))) {
+          ack?.({ error: 'Not a member of this group' })
+          return
+        }
+
+        socket.join(groupRoom(groupId))
+        ack?.({ success: true })
+      } catch (error) {
+        logger.error('Socket join room error:', error)
+        ack?.({ error: 'Internal server error' })
+      }
+    })
+
+    socket.on('leave_room', (data: { roomId?: string }, ack?: (response: unknown) => void) => {
+      if (data?.roomId) {
+        socket.leave(groupRoom(data.roomId))
+      }
+      ack?.({ success: true })
+    })
+
+    socket.on('typing', (data: { roomId?: string; isTyping?: boolean }) => {
+      // Only rooms the socket was allowed into can be typed in
+      if (!data?.roomId || !socket.rooms.has(groupRoom(data.roomId))) {
+        return
+      }
+
+      socket.to(groupRoom(data.roomId)).emit('typing', {
+        userId,
+        roomId: data.roomId,
+        isTyping: Boolean(data.isTyping)
+      })
+    })
+
+    // After a reconnect the client sends the last sequence number it saw per
+    // conversation; missed events are replayed to this socket in order, or
+    // `resync_required` tells it to reload a conversation from the REST API
+    socket.on('resume', async (data: { conversations?: Record<string, unknown> }, ack?: (response: unknown) => void) => {
+      try {
+        // Replay only once the socket is in its rooms, so no live event falls in between
+        if (!(await ready)) {
+          return
+        }
+
+        const resynced: string[] = []
+        let replayed = 0
+
+        for (const [id, lastSeq] of Object.entries(data?.conversations ?? {}).slice(0, MAX_RESUMED_CONVERSATIONS)) {
+          const conversation = parseConversationId(id)
+          const allowed = conversation && ('groupId' in conversation
+            ? await isMember(userId, conversation.groupId)
+            : conversation.userIds.includes(userId))
+
+          if (!allowed || typeof lastSeq !== 'number' || !Number.isInteger(lastSeq) || lastSeq < 0) {
+            continue
+          }
+
+          const result = await replayConversationEvents(redis, id, lastSeq)
+          if ('resync' in result) {
+            resynced.push(id)
+            socket.emit('resync_required', { conversationId: id, latestSeq: result.latestSeq })
+            continue
+          }
+
+          result.events.forEach(({ event, payload }) => socket.emit(event, payload))
+          replayed += result.events.length
+        }
+
+        ack?.({ success: true, replayed, resynced })
+      } catch (error) {
+        logger.error('Socket resume error:', error)
+        ack?.({ error: 'Internal server error' })
+      }
+    })
+
+    // Heartbeat, optionally with the idle state the client detected
+    socket.on('presence', (data?: { state?: unknown }) => {
+      const state = data?.state === 'active' || data?.state === 'idle' ? data.state : undefined
+      ready
+        .then(async tracked => {
+          if (tracked) {
+            await recordActivity({ prisma, redis, io }, userId, socket.id, state)
+          }
+        })
+        .catch(error => logger.error('Socket presence error:', error))
+    })
+
+    socket.on('disconnect', async () => {
+      try {
+        // A socket gone during setup is dropped once tracked, instead of lingering until its TTL
+        await ready
+        // Other tabs or devices of the same user keep them online
+        await dropConnection({ prisma, redis, io }, userId, socket.id)
+      } catch (error) {
+        logger.error('Socket disconnect error:', error)
+      }
+    })
+  })
+
+  const close = async () => {
+    await new Promise<void>(resolve => io.close(() => resolve()))
+    await Promise.all([pubClient.quit(), subClient.quit()])
+  }
+
+  return { io, close }
+}
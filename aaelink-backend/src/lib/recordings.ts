@@ -0,0 +1,134 @@
+import { CallRecording, PrismaClient } from '@prisma/client'
+import { Server as SocketIOServer } from 'socket.io'
+import { env } from './env.js'
+import { logger } from './logger.js'
+import { MinioClient } from './minio.js'
+import { userRoom } from './realtime.js'
+
+export const RECORDING_MIME_TYPES = ['video/webm', 'audio/webm', 'video/mp4'] as const
+
+const RECORDING_EXTENSIONS: Record<(typeof RECORDING_MIME_TYPES)[number], string> = {
+  'video/webm': 'webm',
+  'audio/webm': 'weba',
+  'video/mp4': 'mp4'
+}
+
+// Presigned links handed to participants
+export const RECORDING_UPLOAD_URL_EXPIRY = 6 * 60 * 60 // 6 hours
+export const RECORDING_PLAYBACK_URL_EXPIRY = 60 * 60 // 1 hour
+
+// Recordings never uploaded within this window are given up on
+const RECORDING_UPLOAD_GRACE_MS = 24 * 60 * 60 * 1000
+const RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000
+
+interface RecordingDeps {
+  prisma: PrismaClient
+  io: SocketIOServer
+}
+
+// Where a call links to its playable recording
+export const recordingPlaybackPath = (recordingId: string) => `/api/calls/recordings/${recordingId}`
+
+export const recordingKey = (callId: string, recordingId: string, mimeType: (typeof RECORDING_MIME_TYPES)[number]) =>
+  `recordings/${callId}/${recordingId}.${RECORDING_EXTENSIONS[mimeType]}`
+
+/**
+ * Stop the call's running recording, if any. The media stays with the
+ * recorder's client until it uploads it and completes the recording.
+ */
+export async function stopActiveRecording(
+  { prisma, io }: RecordingDeps,
+  callId: string,
+  stoppedBy: string
+): Promise<CallRecording | null> {
+  const recording = await prisma.callRecording.findFirst({
+    where: { callId, status: 'RECORDING' }
+  })
+
+  if (!recording) {
+    return null
+  }
+
+  const stoppedAt = new Date()
+  const updated = await prisma.callRecording.update({
+    where: { id: recording.id },
+    data: {
+      status: 'UPLOADING',
+      stoppedAt,
+      duration: Math.floor((stoppedAt.getTime() - recording.startedAt.getTime()) / 1000)
+    }
+  })
+
+  const participants = await prisma.callParticipant.findMany({
+    where: { callId },
+    select: { userId: true }
+  })
+  participants.forEach(participant => {
+    io.to(userRoom(participant.userId)).emit('call_recording_stopped', {
+      callId,
+      recordingId: recording.id,
+      stoppedBy
+    })
+  })
+
+  return updated
+}
+
+/**
+ * Enforce the retention period: delete expired media and give up on
+ * recordings whose upload never completed.
+ */
+export function startRecordingRetentionWorker({ prisma, minio }: { prisma: PrismaClient; minio: MinioClient }) {
+  const sweep = async () => {
+    try {
+      const expired = await prisma.callRecording.findMany({
+        where: {
+          status: 'READY',
+          expiresAt: { lte: new Date() }
+        }
+      })
+
+      for (const recording of expired) {
+        await minio.deleteFile(recording.key)
+        await prisma.$transaction([
+          prisma.callRecording.update({
+            where: { id: recording.id },
+            data: { status: 'EXPIRED' }
+          }),
+          // Unless a later recording of the call replaced the link
+          prisma.call.updateMany({
+            where: { id: recording.callId, recordingUrl: recordingPlaybackPath(recording.id) },
+            data: { recordingUrl: null }
+          })
+        ])
+      }
+
+      const abandoned = await prisma.callRecording.updateMany({
+        where: {
+          status: { in: ['RECORDING', 'UPLOADING'] },
+          startedAt: { lte: new Date(Date.now() - RECORDING_UPLOAD_GRACE_MS) }
+        },
+        data: { status: 'FAILED' }
+      })
+
+      if (expired.length > 0 || abandoned.count > 0) {
+        logger.info(`Recording retention: ${expired.length} expired, ${abandoned.count} abandoned`)
+      }
+    } catch (error) {
+      logger.error('Recording retention error:', error)
+    }
+  }
+
+  const timer = setInterval(() => {
+    void sweep()
+  }, RETENTION_SWEEP_INTERVAL)
+  void sweep()
+
+  logger.info(`Recording retention worker started (${env.CALL_RECORDING_RETENTION_DAYS} days)`)
+
+  return {
+    stop: async () => {
+      clearInterval(timer)
+    }
+  }
+}
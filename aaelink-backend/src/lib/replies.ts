@@ -0,0 +1,38 @@
+// Repliers shown next to a message with replies
+export const MAX_REPLY_PARTICIPANTS = 5
+
+export interface ReplySummary<Sender> {
+  replyCount: number
+  lastReplyAt: Date | null
+  replyParticipants: Sender[]
+}
+
+/**
+ * Reply counts and the most recent distinct repliers of each parent message,
+ * from the replies grouped by parent and the repliers ordered newest first.
+ */
+export function summarizeReplies<Sender>(
+  stats: Array<{ parentId: string | null; _count: { _all: number }; _max: { createdAt: Date | null } }>,
+  participants: Array<{ parentId: string | null; sender: Sender }>
+): Map<string, ReplySummary<Sender>> {
+  const summaries = new Map<string, ReplySummary<Sender>>()
+
+  stats.forEach(stat => {
+    if (stat.parentId) {
+      summaries.set(stat.parentId, {
+        replyCount: stat._count._all,
+        lastReplyAt: stat._max.createdAt,
+        replyParticipants: []
+      })
+    }
+  })
+
+  participants.forEach(participant => {
+    const summary = participant.parentId ? summaries.get(participant.parentId) : undefined
+    if (summary && summary.replyParticipants.length < MAX_REPLY_PARTICIPANTS) {
+      summary.replyParticipants.push(participant.sender)
+    }
+  })
+
+  return summaries
+}
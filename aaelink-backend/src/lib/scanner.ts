@@ -0,0 +1,130 @@
+import { Socket, connect } from 'net'
+import { Readable } from 'stream'
+import { env } from './env.js'
+
+export type ScanResult =
+  | { status: 'CLEAN' }
+  | { status: 'INFECTED'; signature: string }
+
+export interface VirusScanner {
+  readonly name: string
+  scan(stream: Readable): Promise<ScanResult>
+}
+
+// clamd rejects streams above StreamMaxLength, keep chunks well below it
+const CLAMD_CHUNK_SIZE = 64 * 1024
+
+/**
+ * Scans a stream with clamd using the INSTREAM command over TCP:
+ * each chunk is prefixed with its length as a 4 byte big-endian integer
+ * and the stream is terminated by a zero length chunk.
+ */
+export class ClamAVScanner implements VirusScanner {
+  readonly name = 'clamav'
+
+  constructor(
+    private host: string = env.CLAMAV_HOST,
+    private port: number = env.CLAMAV_PORT,
+    private timeout: number = env.CLAMAV_TIMEOUT
+  ) {}
+
+  scan(stream: Readable): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket: Socket = connect({ host: this.host, port: this.port })
+      const response: Buffer[] = []
+      let settled = false
+
+      const fail = (error: Error) => {
+        if (settled) return
+        settled = true
+        stream.destroy()
+        socket.destroy()
+        reject(error)
+      }
+
+      socket.setTimeout(this.timeout, () => fail(new Error('clamd timed out')))
+      socket.on('error', fail)
+      stream.on('error', fail)
+
+      socket.on('data', (data) => response.push(data))
+      socket.on('end', () => {
+        if (settled) return
+        settled = true
+
+        try {
+          resolve(parseClamdResponse(Buffer.concat(response).toString('utf8')))
+        } catch (error) {
+          reject(error)
+        }
+      })
+
+      socket.on('connect', async () => {
+        try {
+          socket.write('zINSTREAM\0')
+
+          for await (const data of stream) {
+            const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data)
+
+            for (let offset = 0; offset < buffer.length; offset += CLAMD_CHUNK_SIZE) {
+              const chunk = buffer.subarray(offset, offset + CLAMD_CHUNK_SIZE)
+              const size = Buffer.alloc(4)
+              size.writeUInt32BE(chunk.length)
+
+              if (!socket.write(Buffer.concat([size, chunk]))) {
+                await new Promise(resume => socket.once('drain', resume))
+              }
+            }
+          }
+
+          socket.end(Buffer.alloc(4))
+        } catch (error) {
+          fail(error instanceof Error ? error : new Error(String(error)))
+        }
+      })
+    })
+  }
+}
+
+/**
+ * Parse a clamd reply such as "stream: OK" or
+ * "stream: Eicar-Test-Signature FOUND".
+ */
+export function parseClamdResponse(raw: string): ScanResult {
+  const reply = raw.replace(/\0/g, '').trim()
+
+  if (reply.endsWith('OK')) {
+    return { status: 'CLEAN' }
+  }
+
+  const found = reply.match(/^stream: (.+) FOUND$/)
+  if (found?.[1]) {
+    return { status: 'INFECTED', signature: found[1] }
+  }
+
+  throw new Error(`Unexpected clamd response: ${reply}`)
+}
+
+export const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!H+H*'
+
+/**
+ * In-process scanner for development and tests: reports the EICAR test
+ * string as infected and everything else as clean.
+ */
+export class FakeScanner implements VirusScanner {
+  readonly name = 'fake'
+
+  async scan(stream: Readable): Promise<ScanResult> {
+    const chunks: Buffer[] = []
+    for await (const data of stream) {
+      chunks.push(Buffer.isBuffer(data) ? data : Buffer.from(data))
+    }
+
+    return Buffer.concat(chunks).includes(EICAR_SIGNATURE)
+      ? { status: 'INFECTED', signature: 'Eicar-Test-Signature' }
+      : { status: 'CLEAN' }
+  }
+}
+
+export function createScanner(): VirusScanner {
+  return env.VIRUS_SCANNER === 'fake' ? new FakeScanner() : new ClamAVScanner()
+}
@@ -0,0 +1,237 @@
+import { MessageType, PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { env } from './env.js'
+import { logger } from './logger.js'
+import { JobQueue } from './queue.js'
+import { OpenSearchIndex } from './searchOpenSearch.js'
+import { PostgresSearchIndex } from './searchPostgres.js'
+
+export type SearchDocumentType = 'message' | 'file'
+
+// What a document contains besides text, matched by has: in search queries
+export type SearchFeature = 'file' | 'link' | 'reaction'
+
+export interface SearchDocument {
+  type: SearchDocumentType
+  id: string
+  title: string | null
+  content: string
+  authorId: string
+  groupId: string | null
+  // Users who see the document regardless of group membership (DM parties, uploader)
+  userIds: string[]
+  features: SearchFeature[]
+  createdAt: Date
+}
+
+export interface SearchFilters {
+  types?: SearchDocumentType[] | undefined
+  authorIds?: string[] | undefined
+  groupIds?: string[] | undefined
+  // Documents having every one of these
+  has?: SearchFeature[] | undefined
+  after?: Date | undefined
+  before?: Date | undefined
+}
+
+export interface SearchRequest {
+  text: string
+  // Same visibility rule as reading the conversation: a party of it or a group member
+  access: {
+    userId: string
+    groupIds: string[]
+  }
+  filters?: SearchFilters | undefined
+  sort?: 'relevance' | 'date' | undefined
+  limit: number
+  offset: number
+}
+
+export interface SearchHit {
+  type: SearchDocumentType
+  id: string
+  score: number
+  // HTML escaped, matches wrapped in <mark>
+  snippet: string
+  createdAt: Date
+}
+
+export interface SearchResult {
+  hits: SearchHit[]
+  total: number
+}
+
+export interface SearchIndex {
+  readonly name: string
+  upsert(document: SearchDocument): Promise<void>
+  remove(type: SearchDocumentType, id: string): Promise<void>
+  search(request: SearchRequest): Promise<SearchResult>
+  count(): Promise<number>
+}
+
+export function createSearchIndex(prisma: PrismaClient): SearchIndex {
+  if (env.SEARCH_BACKEND === 'opensearch') {
+    return new OpenSearchIndex({
+      url: env.OPENSEARCH_URL,
+      index: env.OPENSEARCH_INDEX,
+      username: env.OPENSEARCH_USERNAME,
+      password: env.OPENSEARCH_PASSWORD
+    })
+  }
+
+  return new PostgresSearchIndex(prisma)
+}
+
+// Timeline entries generated by the server are not worth finding
+const UNINDEXED_MESSAGE_TYPES: MessageType[] = ['SYSTEM', 'CALL']
+const ATTACHMENT_MESSAGE_TYPES: MessageType[] = ['IMAGE', 'FILE', 'VIDEO', 'AUDIO']
+const LINK_PATTERN = /\bhttps?:\/\/\S+/i
+// PostgreSQL caps a tsvector at 1 MB, so only the start of long documents is indexed
+const MAX_INDEXED_TEXT_LENGTH = 200_000
+
+interface IndexJob {
+  type: SearchDocumentType
+  id: string
+}
+
+interface IndexWorkerDeps {
+  prisma: PrismaClient
+  redis: Redis
+  index: SearchIndex
+}
+
+let queue: JobQueue<IndexJob> | null = null
+
+const getQueue = (redis: Redis) => {
+  queue ??= new JobQueue<IndexJob>(redis, 'search-index')
+  return queue
+}
+
+/**
+ * Queue a message or file to be (re)indexed. The worker reads the current
+ * row, so the same call covers creates, edits and deletes.
+ */
+export async function enqueueSearchIndex(redis: Redis, type: SearchDocumentType, id: string): Promise<void> {
+  await getQueue(redis).enqueue({ type, id })
+}
+
+// The document for a row, or null when it must not be searchable
+async function loadDocument(prisma: PrismaClient, { type, id }: IndexJob): Promise<SearchDocument | null> {
+  if (type === 'message') {
+    const message = await prisma.message.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { attachments: true, reactions: true }
+        }
+      }
+    })
+
+    // End-to-end encrypted content is never seen by the server
+    if (!message || message.isDeleted || message.encryptedContent || UNINDEXED_MESSAGE_TYPES.includes(message.type)) {
+      return null
+    }
+
+    const features: SearchFeature[] = []
+    if (message._count.attachments > 0 || ATTACHMENT_MESSAGE_TYPES.includes(message.type)) {
+      features.push('file')
+    }
+    if (LINK_PATTERN.test(message.content)) {
+      features.push('link')
+    }
+    if (message._count.reactions > 0) {
+      features.push('reaction')
+    }
+
+    return {
+      type,
+      id,
+      title: null,
+      content: message.content,
+      authorId: message.senderId,
+      groupId: message.groupId,
+      userIds: [message.senderId, message.receiverId].filter((userId): userId is string => !!userId),
+      features,
+      createdAt: message.createdAt
+    }
+  }
+
+  const file = await prisma.file.findUnique({
+    where: { id },
+    include: { message: true, text: true }
+  })
+
+  // Only files that passed the virus scan can be found
+  if (!file || file.virusScanStatus !== 'CLEAN') {
+    return null
+  }
+
+  const userIds = [file.uploadedBy, file.message?.senderId, file.message?.receiverId]
+    .filter((userId): userId is string => !!userId)
+
+  return {
+    type,
+    id,
+    title: file.originalName,
+    content: file.text?.content.slice(0, MAX_INDEXED_TEXT_LENGTH) ?? '',
+    authorId: file.uploadedBy,
+    groupId: file.message?.groupId ?? null,
+    userIds: [...new Set(userIds)],
+    features: ['file'],
+    createdAt: file.createdAt
+  }
+}
+
+// A fresh index (first start, switched backend) is filled from the database
+async function backfill(prisma: PrismaClient, redis: Redis, index: SearchIndex) {
+  if ((await index.count()) > 0) {
+    return
+  }
+
+  const [messages, files] = await Promise.all([
+    prisma.message.findMany({
+      where: { isDeleted: false, encryptedContent: null, type: { notIn: UNINDEXED_MESSAGE_TYPES } },
+      select: { id: true }
+    }),
+    prisma.file.findMany({ where: { virusScanStatus: 'CLEAN' }, select: { id: true } })
+  ])
+
+  for (const { id } of messages) {
+    await enqueueSearchIndex(redis, 'message', id)
+  }
+  for (const { id } of files) {
+    await enqueueSearchIndex(redis, 'file', id)
+  }
+
+  logger.info(`Search index backfill queued ${messages.length} messages and ${files.length} files`)
+}
+
+export function startSearchIndexWorker({ prisma, redis, index }: IndexWorkerDeps) {
+  const indexQueue = getQueue(redis)
+
+  const indexDocument = async (job: IndexJob) => {
+    const document = await loadDocument(prisma, job)
+
+    if (document) {
+      await index.upsert(document)
+    } else {
+      await index.remove(job.type, job.id)
+    }
+  }
+
+  const logFailure = async (job: IndexJob, error: unknown) => {
+    logger.error(`Failed to index ${job.type} ${job.id}:`, error)
+  }
+
+  indexQueue.process(indexDocument, logFailure).catch(error => {
+    logger.error('Search index worker stopped:', error)
+  })
+
+  backfill(prisma, redis, index).catch(error => {
+    logger.error('Search index backfill error:', error)
+  })
+
+  logger.info(`Search index worker started (${index.name})`)
+
+  return indexQueue
+}
@@ -0,0 +1,228 @@
+import type { SearchDocument, SearchDocumentType, SearchIndex, SearchRequest, SearchResult } from './searchIndex.js'
+import { buildSnippet, searchTerms } from './searchText.js'
+
+interface OpenSearchConfig {
+  url: string
+  index: string
+  username?: string | undefined
+  password?: string | undefined
+}
+
+interface OpenSearchHit {
+  _score: number | null
+  _source: {
+    type: SearchDocumentType
+    entityId: string
+    title: string | null
+    content: string
+    createdAt: string
+  }
+  highlight?: Record<string, string[]>
+}
+
+// The thai tokenizer splits Thai words and breaks English on whitespace and punctuation
+const INDEX_SETTINGS = {
+  settings: {
+    analysis: {
+      analyzer: {
+        aaelink_text: {
+          type: 'custom',
+          tokenizer: 'thai',
+          filter: ['lowercase', 'porter_stem']
+        }
+      }
+    }
+  },
+  mappings: {
+    properties: {
+      type: { type: 'keyword' },
+      entityId: { type: 'keyword' },
+      title: { type: 'text', analyzer: 'aaelink_text' },
+      content: { type: 'text', analyzer: 'aaelink_text' },
+      authorId: { type: 'keyword' },
+      groupId: { type: 'keyword' },
+      userIds: { type: 'keyword' },
+      features: { type: 'keyword' },
+      createdAt: { type: 'date' }
+    }
+  }
+}
+
+export class OpenSearchError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'OpenSearchError'
+  }
+}
+
+/**
+ * Search index on an OpenSearch (or Elasticsearch) cluster, for deployments
+ * that outgrow the PostgreSQL index. The index is created on first use.
+ */
+export class OpenSearchIndex implements SearchIndex {
+  readonly name = 'opensearch'
+  private ready: Promise<void> | null = null
+
+  constructor(private config: OpenSearchConfig) {}
+
+  private async request<T>(method: string, path: string, body?: unknown, allowNotFound = false): Promise<T | null> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.config.username) {
+      const credentials = Buffer.from(`${this.config.username}:${this.config.password ?? ''}`).toString('base64')
+      headers.Authorization = `Basic ${credentials}`
+    }
+
+    const response = await fetch(`${this.config.url}${path}`, {
+      method,
+      headers,
+      ...(body === undefined ? {} : { body: JSON.stringify(body) })
+    })
+
+    if (response.status === 404 && allowNotFound) {
+      return null
+    }
+    if (!response.ok) {
+      throw new OpenSearchError(response.status, `OpenSearch ${method} ${path} failed: ${await response.text()}`)
+    }
+
+    return method === 'HEAD' ? null : await response.json() as T
+  }
+
+  private ensureIndex(): Promise<void> {
+    this.ready ??= (async () => {
+      const indexPath = `/${this.config.index}`
+      const exists = await this.request('HEAD', indexPath)
+        .then(() => true, error => {
+          if (error instanceof OpenSearchError && error.status === 404) return false
+          throw error
+        })
+
+      if (!exists) {
+        await this.request('PUT', indexPath, INDEX_SETTINGS)
+      }
+    })().catch(error => {
+      this.ready = null
+      throw error
+    })
+
+    return this.ready
+  }
+
+  private documentPath(type: SearchDocumentType, id: string) {
+    return `/${this.config.index}/_doc/${encodeURIComponent(`${type}:${id}`)}`
+  }
+
+  async upsert(document: SearchDocument): Promise<void> {
+    await this.ensureIndex()
+    await this.request('PUT', this.documentPath(document.type, document.id), {
+      type: document.type,
+      entityId: document.id,
+      title: document.title,
+      content: document.content,
+      authorId: document.authorId,
+      groupId: document.groupId,
+      userIds: document.userIds,
+      features: document.features,
+      createdAt: document.createdAt.toISOString()
+    })
+  }
+
+  async remove(type: SearchDocumentType, id: string): Promise<void> {
+    await this.request('DELETE', this.documentPath(type, id), undefined, true)
+  }
+
+  async count(): Promise<number> {
+    const result = await this.request<{ count: number }>('GET', `/${this.config.index}/_count`, undefined, true)
+    return result?.count ?? 0
+  }
+
+  async search({ text, access, filters = {}, sort = 'relevance', limit, offset }: SearchRequest): Promise<SearchResult> {
+    await this.ensureIndex()
+
+    const query = text.trim()
+    const filter: unknown[] = [{
+      bool: {
+        should: [
+          { term: { userIds: access.userId } },
+          { terms: { groupId: access.groupIds } }
+        ],
+        minimum_should_match: 1
+      }
+    }]
+
+    if (filters.types?.length) {
+      filter.push({ terms: { type: filters.types } })
+    }
+    if (filters.authorIds?.length) {
+      filter.push({ terms: { authorId: filters.authorIds } })
+    }
+    if (filters.groupIds?.length) {
+      filter.push({ terms: { groupId: filters.groupIds } })
+    }
+    filters.has?.forEach(feature => {
+      filter.push({ term: { features: feature } })
+    })
+    if (filters.after || filters.before) {
+      filter.push({
+        range: {
+          createdAt: {
+            ...(filters.after ? { gte: filters.after.toISOString() } : {}),
+            ...(filters.before ? { lt: filters.before.toISOString() } : {})
+          }
+        }
+      })
+    }
+
+    const result = await this.request<{ hits: { total: { value: number }; hits: OpenSearchHit[] } }>(
+      'POST',
+      `/${this.config.index}/_search`,
+      {
+        from: offset,
+        size: limit,
+        track_total_hits: true,
+        query: {
+          function_score: {
+            query: {
+              bool: {
+                must: query
+                  // Understands the same "quoted phrases" and -exclusions as websearch_to_tsquery
+                  ? [{ simple_query_string: { query, fields: ['title^2', 'content'], default_operator: 'and' } }]
+                  : [{ match_all: {} }],
+                filter
+              }
+            },
+            // Same 30 day half-life as the PostgreSQL ranking
+            functions: [{ exp: { createdAt: { origin: 'now', scale: '30d', decay: 0.5 } } }],
+            boost_mode: 'multiply'
+          }
+        },
+        sort: sort === 'date' || !query
+          ? [{ createdAt: 'desc' }]
+          : ['_score', { createdAt: 'desc' }],
+        highlight: {
+          encoder: 'html',
+          pre_tags: ['<mark>'],
+          post_tags: ['</mark>'],
+          fields: {
+            content: { fragment_size: 160, number_of_fragments: 1 },
+            title: { number_of_fragments: 0 }
+          }
+        }
+      }
+    )
+
+    const terms = searchTerms(text)
+
+    return {
+      hits: (result?.hits.hits ?? []).map(({ _score, _source, highlight }) => ({
+        type: _source.type,
+        id: _source.entityId,
+        score: _score ?? 0,
+        snippet: highlight?.content?.[0] ?? highlight?.title?.[0] ??
+          buildSnippet(_source.content || _source.title || '', terms),
+        createdAt: new Date(_source.createdAt)
+      })),
+      total: result?.hits.total.value ?? 0
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import type { SearchDocument, SearchDocumentType, SearchIndex, SearchRequest, SearchResult } from './searchIndex.js'
+import { buildSnippet, searchTerms, segmentText } from './searchText.js'
+
+// Relevance is scaled down by age, halving every RECENCY_HALF_LIFE_DAYS
+const RECENCY_HALF_LIFE_DAYS = 30
+
+interface SearchRow {
+  type: SearchDocumentType
+  entityId: string
+  title: string | null
+  content: string
+  createdAt: Date
+  score: number
+  total: bigint
+}
+
+/**
+ * Search index kept in the search_documents table of the main database,
+ * matched through a GIN-indexed tsvector. Titles weigh more than content.
+ */
+export class PostgresSearchIndex implements SearchIndex {
+  readonly name = 'postgres'
+
+  constructor(private prisma: PrismaClient) {}
+
+  async upsert(document: SearchDocument): Promise<void> {
+    const title = segmentText(document.title ?? '')
+    const content = segmentText(document.content)
+
+    await this.prisma.$executeRaw`
+      INSERT INTO search_documents
+        (id, type, "entityId", title, content, "authorId", "groupId", "userIds", features, "createdAt", "indexedAt", tsv)
+      VALUES (
+        ${`${document.type}:${document.id}`},
+        ${document.type},
+        ${document.id},
+        ${document.title},
+        ${document.content},
+        ${document.authorId},
+        ${document.groupId},
+        ${document.userIds}::text[],
+        ${document.features}::text[],
+        ${document.createdAt},
+        now(),
+        setweight(to_tsvector('english', ${title}), 'A') || setweight(to_tsvector('english', ${content}), 'B')
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        "authorId" = EXCLUDED."authorId",
+        "groupId" = EXCLUDED."groupId",
+        "userIds" = EXCLUDED."userIds",
+        features = EXCLUDED.features,
+        "indexedAt" = now(),
+        tsv = EXCLUDED.tsv
+    `
+  }
+
+  async remove(type: SearchDocumentType, id: string): Promise<void> {
+    await this.prisma.$executeRaw`DELETE FROM search_documents WHERE id = ${`${type}:${id}`}`
+  }
+
+  async count(): Promise<number> {
+    return this.prisma.searchDocument.count()
+  }
+
+  async search({ text, access, filters = {}, sort = 'relevance', limit, offset }: SearchRequest): Promise<SearchResult> {
+    const query = segmentText(text.trim())
+
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`(${access.userId} = ANY("userIds") OR "groupId" = ANY(${access.groupIds}::text[]))`
+    ]
+
+    // Filter-only searches list everything that matches the filters, newest first
+    if (query) {
+      conditions.push(Prisma.sql`tsv @@ websearch_to_tsquery('english', ${query})`)
+    }
+    if (filters.types?.length) {
+      conditions.push(Prisma.sql`type = ANY(${filters.types}::text[])`)
+    }
+    if (filters.authorIds?.length) {
+      conditions.push(Prisma.sql`"authorId" = ANY(${filters.authorIds}::text[])`)
+    }
+    if (filters.groupIds?.length) {
+      conditions.push(Prisma.sql`"groupId" = ANY(${filters.groupIds}::text[])`)
+    }
+    if (filters.has?.length) {
+      conditions.push(Prisma.sql`features @> ${filters.has}::text[]`)
+    }
+    if (filters.after) {
+      conditions.push(Prisma.sql`"createdAt" >= ${filters.after}`)
+    }
+    if (filters.before) {
+      conditions.push(Prisma.sql`"createdAt" < ${filters.before}`)
+    }
+
+    const score = query
+      ? Prisma.sql`ts_rank_cd(tsv, websearch_to_tsquery('english', ${query}))
+          * power(0.5, extract(epoch FROM now() - "createdAt") / ${RECENCY_HALF_LIFE_DAYS * 86400})`
+      : Prisma.sql`0`
+    const orderBy = sort === 'date' || !query
+      ? Prisma.sql`"createdAt" DESC`
+      : Prisma.sql`score DESC, "createdAt" DESC`
+
+    const rows = await this.prisma.$queryRaw<SearchRow[]>`
+      SELECT type, "entityId", title, content, "createdAt",
+        (${score})::float8 AS score,
+        count(*) OVER() AS total
+      FROM search_documents
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${orderBy}
+      LIMIT ${limit} OFFSET ${offset}
+    `
+
+    const terms = searchTerms(text)
+
+    return {
+      hits: rows.map(row => ({
+        type: row.type,
+        id: row.entityId,
+        score: row.score,
+        snippet: buildSnippet(row.content || row.title || '', terms),
+        createdAt: row.createdAt
+      })),
+      total: Number(rows[0]?.total ?? 0)
+    }
+  }
+}
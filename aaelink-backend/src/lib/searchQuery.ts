@@ -0,0 +1,354 @@
+import { Group, Prisma, User } from '@prisma/client'
+import type { SearchFeature, SearchFilters } from './searchIndex.js'
+
+const OPERATOR_PATTERN = /^(from|in|has|before|after|on):/i
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const SEARCH_FEATURES: readonly SearchFeature[] = ['file', 'link', 'reaction']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type SearchQueryErrorCode =
+  | 'EMPTY_QUERY'
+  | 'UNTERMINATED_QUOTE'
+  | 'MISSING_VALUE'
+  | 'NEGATED_OPERATOR'
+  | 'INVALID_FEATURE'
+  | 'INVALID_DATE'
+  | 'EMPTY_DATE_RANGE'
+  | 'UNKNOWN_USER'
+  | 'UNKNOWN_GROUP'
+
+export interface SearchQueryError {
+  code: SearchQueryErrorCode
+  message: string
+  // Span of the offending part of the query, for highlighting it
+  offset: number
+  length: number
+}
+
+interface Operand {
+  value: string
+  offset: number
+  length: number
+}
+
+export interface ParsedSearchQuery {
+  terms: string[]
+  phrases: string[]
+  // Terms and phrases that must not appear
+  excluded: string[]
+  from: Operand[]
+  in: Operand[]
+  has: SearchFeature[]
+  // Inclusive lower and exclusive upper bound, on whole UTC days
+  after?: Date
+  before?: Date
+}
+
+interface Token {
+  negated: boolean
+  operator: string | null
+  value: string
+  quoted: boolean
+  offset: number
+  length: number
+}
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char)
+
+// Split into words, "quoted phrases" and operator:value pairs, keeping their position
+function tokenize(input: string, errors: SearchQueryError[]): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (isSpace(input[index])) {
+      index++
+      continue
+    }
+
+    const offset = index
+    const negated = input[index] === '-' && index + 1 < input.length && !isSpace(input[index + 1])
+    if (negated) {
+      index++
+    }
+
+    const operator = OPERATOR_PATTERN.exec(input.slice(index))?.[1]?.toLowerCase() ?? null
+    if (operator) {
+      index += operator.length + 1
+    }
+
+    // Operator values may quote names with spaces: in:#"Project X"
+    let sigil = ''
+    if (operator && (input[index] === '@' || input[index] === '#') && input[index + 1] === '"') {
+      sigil = input[index] ?? ''
+      index++
+    }
+
+    let value: string
+    let quoted = false
+    if (input[index] === '"') {
+      const close = input.indexOf('"', index + 1)
+      if (close === -1) {
+        errors.push({
+          code: 'UNTERMINATED_QUOTE',
+          message: 'Missing closing quote',
+          offset: index,
+          length: input.length - index
+        })
+        value = input.slice(index + 1)
+        index = input.length
+      } else {
+        value = input.slice(index + 1, close)
+        index = close + 1
+      }
+      quoted = true
+    } else {
+      const start = index
+      while (index < input.length && !isSpace(input[index])) {
+        index++
+      }
+      value = input.slice(start, index)
+    }
+
+    tokens.push({ negated, operator, value: sigil + value, quoted, offset, length: index - offset })
+  }
+
+  return tokens
+}
+
+// A calendar day as the UTC midnight it starts at
+function parseDay(value: string, now: Date): Date | null {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+
+  switch (value.toLowerCase()) {
+    case 'today':
+      return today
+    case 'yesterday':
+      return new Date(today.getTime() - DAY_MS)
+  }
+
+  const match = DATE_PATTERN.exec(value)
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day] = match.map(Number) as [number, number, number, number]
+  const date = new Date(Date.UTC(year, month - 1, day))
+
+  // Rejects dates that roll over, such as 2024-02-31
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null
+}
+
+const nextDay = (date: Date) => new Date(date.getTime() + DAY_MS)
+
+const later = (a: Date | undefined, b: Date) => (a && a > b ? a : b)
+const earlier = (a: Date | undefined, b: Date) => (a && a < b ? a : b)
+
+/**
+ * Parse a Slack-style search query:
+ *
+ *   budget "quarterly report" -draft from:@somchai in:#finance has:file after:2024-01-31
+ *
+ * Operators are from:@user (or from:me), in:#group, has:file|link|reaction
+ * and before:/after:/on: with a YYYY-MM-DD date, today or yesterday. Like
+ * Slack, before: and after: exclude the day itself. Anything else is text.
+ * Every problem found is reported, with the span of the query it concerns.
+ */
+export function parseSearchQuery(input: string, now = new Date()): { query: ParsedSearchQuery; errors: SearchQueryError[] } {
+  const errors: SearchQueryError[] = []
+  const query: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excluded: [],
+    from: [],
+    in: [],
+    has: []
+  }
+
+  for (const token of tokenize(input, errors)) {
+    const { operator, value, offset, length } = token
+
+    if (!operator) {
+      if (!value.trim()) {
+        continue
+      }
+
+      if (token.negated) {
+        query.excluded.push(value)
+      } else if (token.quoted) {
+        query.phrases.push(value)
+      } else {
+        query.terms.push(value)
+      }
+      continue
+    }
+
+    if (token.negated) {
+      errors.push({ code: 'NEGATED_OPERATOR', message: `${operator}: cannot be excluded`, offset, length })
+      continue
+    }
+
+    if (!value) {
+      errors.push({ code: 'MISSING_VALUE', message: `${operator}: needs a value`, offset, length })
+      continue
+    }
+
+    switch (operator) {
+      case 'from':
+        query.from.push({ value: value.replace(/^@/, ''), offset, length })
+        break
+
+      case 'in':
+        query.in.push({ value: value.replace(/^#/, ''), offset, length })
+        break
+
+      case 'has': {
+        const feature = SEARCH_FEATURES.find(name => name === value.toLowerCase())
+        if (!feature) {
+          errors.push({
+            code: 'INVALID_FEATURE',
+            message: `has: must be one of ${SEARCH_FEATURES.join(', ')}`,
+            offset,
+            length
+          })
+        } else if (!query.has.includes(feature)) {
+          query.has.push(feature)
+        }
+        break
+      }
+
+      default: {
+        const day = parseDay(value, now)
+        if (!day) {
+          errors.push({
+            code: 'INVALID_DATE',
+            message: `${operator}: expects a date as YYYY-MM-DD, today or yesterday`,
+            offset,
+            length
+          })
+          break
+        }
+
+        if (operator === 'before') {
+          query.before = earlier(query.before, day)
+        } else if (operator === 'after') {
+          query.after = later(query.after, nextDay(day))
+        } else {
+          query.after = later(query.after, day)
+          query.before = earlier(query.before, nextDay(day))
+        }
+      }
+    }
+  }
+
+  if (query.after && query.before && query.after >= query.before) {
+    errors.push({
+      code: 'EMPTY_DATE_RANGE',
+      message: 'The date operators leave no days to search',
+      offset: 0,
+      length: input.length
+    })
+  }
+
+  const isEmpty = query.terms.length === 0 && query.phrases.length === 0 && query.excluded.length === 0 &&
+    query.from.length === 0 && query.in.length === 0 && query.has.length === 0 && !query.after && !query.before
+  if (isEmpty && errors.length === 0) {
+    errors.push({ code: 'EMPTY_QUERY', message: 'Enter something to search for', offset: 0, length: input.length })
+  }
+
+  return { query, errors: errors.sort((a, b) => a.offset - b.offset) }
+}
+
+// Text in the syntax both index backends understand: words, "phrases" and -exclusions
+export function searchText({ terms, phrases, excluded }: ParsedSearchQuery): string {
+  const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value)
+
+  return [
+    ...terms,
+    ...phrases.map(phrase => `"${phrase}"`),
+    ...excluded.map(value => `-${quote(value)}`)
+  ].join(' ')
+}
+
+// The lookups compiling a query makes, which the Prisma client satisfies
+export interface SearchQueryLookups {
+  user: {
+    findMany(args: {
+      where: Prisma.UserWhereInput
+      select: { id: true; username: true }
+    }): Promise<Array<Pick<User, 'id' | 'username'>>>
+  }
+  groupMember: {
+    findMany(args: {
+      where: Prisma.GroupMemberWhereInput
+      select: { group: { select: { id: true; name: true } } }
+    }): Promise<Array<{ group: Pick<Group, 'id' | 'name'> }>>
+  }
+}
+
+/**
+ * Turn a parsed query into index filters for a user, resolving from: to
+ * users and in: to groups they belong to. Names nobody matches are errors.
+ */
+export async function compileSearchQuery(
+  prisma: SearchQueryLookups,
+  userId: string,
+  query: ParsedSearchQuery
+): Promise<{ text: string; filters: SearchFilters; errors: SearchQueryError[] }> {
+  const errors: SearchQueryError[] = []
+  const filters: SearchFilters = {
+    has: query.has.length > 0 ? query.has : undefined,
+    after: query.after,
+    before: query.before
+  }
+
+  if (query.from.length > 0) {
+    const usernames = query.from.map(({ value }) => value).filter(value => value.toLowerCase() !== 'me')
+    const users = usernames.length > 0
+      ? await prisma.user.findMany({
+        where: {
+          OR: usernames.map(username => ({ username: { equals: username, mode: 'insensitive' as const } }))
+        },
+        select: { id: true, username: true }
+      })
+      : []
+
+    const authorIds = query.from.map(operand => {
+      if (operand.value.toLowerCase() === 'me') {
+        return userId
+      }
+
+      const user = users.find(({ username }) => username.toLowerCase() === operand.value.toLowerCase())
+      if (!user) {
+        errors.push({ code: 'UNKNOWN_USER', message: `No user named @${operand.value}`, offset: operand.offset, length: operand.length })
+      }
+      return user?.id
+    })
+
+    filters.authorIds = [...new Set(authorIds.filter((id): id is string => !!id))]
+  }
+
+  if (query.in.length > 0) {
+    const memberships = await prisma.groupMember.findMany({
+      where: {
+        userId,
+        group: {
+          OR: query.in.map(({ value }) => ({ name: { equals: value, mode: 'insensitive' as const } }))
+        }
+      },
+      select: { group: { select: { id: true, name: true } } }
+    })
+
+    const groupIds = query.in.flatMap(operand => {
+      const matches = memberships.filter(({ group }) => group.name.toLowerCase() === operand.value.toLowerCase())
+      if (matches.length === 0) {
+        errors.push({ code: 'UNKNOWN_GROUP', message: `You are not in a group named #${operand.value}`, offset: operand.offset, length: operand.length })
+      }
+      return matches.map(({ group }) => group.id)
+    })
+
+    filters.groupIds = [...new Set(groupIds)]
+  }
+
+  return { text: searchText(query), filters, errors }
+}
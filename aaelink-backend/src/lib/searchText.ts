@@ -0,0 +1,102 @@
+import type { TextPage } from './textExtraction.js'
+
+// Thai is written without spaces between words, so it has to be segmented
+// before a full-text engine can tokenize it
+const THAI_PATTERN = /[\u0E00-\u0E7F]/
+const segmenter = new Intl.Segmenter('th', { granularity: 'word' })
+
+const SNIPPET_LENGTH = 160
+const SNIPPET_LEAD = 40
+
+/**
+ * Put spaces between Thai words so the index tokenizes them like English.
+ * Text without Thai characters is returned unchanged.
+ */
+export function segmentText(text: string): string {
+  if (!THAI_PATTERN.test(text)) {
+    return text
+  }
+
+  return Array.from(segmenter.segment(text), ({ segment }) => segment)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Lowercased words of a query, used to highlight matches
+export function searchTerms(text: string): string[] {
+  const terms = Array.from(segmenter.segment(text.toLowerCase()))
+    .filter(({ isWordLike }) => isWordLike)
+    .map(({ segment }) => segment)
+
+  return [...new Set(terms)]
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * A window of the text around the first matching term, HTML escaped, with
+ * matches wrapped in <mark>. Terms match word prefixes so stemmed hits
+ * ("meeting" for "meet") are highlighted too.
+ */
+export function buildSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase()
+  const firstMatch = terms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0
+
+  const start = Math.max(0, firstMatch - SNIPPET_LEAD)
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  let snippet = escapeHtml(text.slice(start, end))
+
+  if (terms.length > 0) {
+    const pattern = new RegExp(terms.map(term => escapeRegExp(escapeHtml(term))).join('|'), 'gi')
+    snippet = snippet.replace(pattern, match => `<mark>${match}</mark>`)
+  }
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`
+}
+
+export interface PageHit {
+  page: number
+  label: string | null
+  snippet: string
+}
+
+/**
+ * The pages of an extracted document that contain a term, in page order,
+ * each with a snippet. Lets a preview jump straight to where a hit is.
+ */
+export function pageHits(
+  text: string,
+  pages: TextPage[],
+  terms: string[],
+  limit = 5
+): PageHit[] {
+  if (terms.length === 0) {
+    return []
+  }
+
+  const hits: PageHit[] = []
+  for (const { page, label, start, end } of pages) {
+    const pageText = text.slice(start, end)
+    const lower = pageText.toLowerCase()
+
+    if (terms.some(term => lower.includes(term))) {
+      hits.push({ page, label, snippet: buildSnippet(pageText, terms) })
+      if (hits.length >= limit) {
+        break
+      }
+    }
+  }
+
+  return hits
+}
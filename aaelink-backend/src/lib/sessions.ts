@@ -0,0 +1,210 @@
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { Redis } from 'ioredis'
+
+// Access tokens are short-lived, sessions are kept alive by rotating refresh tokens
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60
+// Tabs refreshing at the same moment all present the same token; they get the same successor
+const REFRESH_GRACE_MS = 30 * 1000
+
+export interface SessionInfo {
+  id: string
+  userId: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastUsedAt: string
+}
+
+interface RefreshTokenRecord {
+  sessionId: string
+  userId: string
+  // Set once the token has been exchanged; presenting it again after the grace window means it leaked
+  rotatedAt?: string
+  successor?: string
+}
+
+export type RotateResult =
+  | { status: 'ok'; userId: string; sessionId: string; refreshToken: string }
+  | { status: 'invalid' }
+  | { status: 'reused'; userId: string; sessionId: string }
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`
+const userSessionsKey = (userId: string) => `user-sessions:${userId}`
+const refreshTokenKey = (tokenHash: string) => `refresh-token:${tokenHash}`
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+async function storeRefreshToken(redis: Redis, sessionId: string, userId: string): Promise<string> {
+  const refreshToken = randomBytes(48).toString('base64url')
+  const record: RefreshTokenRecord = { sessionId, userId }
+
+  await redis.set(refreshTokenKey(hashToken(refreshToken)), JSON.stringify(record), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+
+  return refreshToken
+}
+
+/**
+ * Start a new session (one refresh token family) for a freshly signed-in user.
+ */
+export async function createSession(
+  redis: Redis,
+  userId: string,
+  meta: { userAgent?: string | undefined; ip?: string | undefined }
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const sessionId = randomUUID()
+  const now = new Date().toISOString()
+  const session: SessionInfo = {
+    id: sessionId,
+    userId,
+    userAgent: meta.userAgent ?? null,
+    ip: meta.ip ?? null,
+    createdAt: now,
+    lastUsedAt: now
+  }
+
+  await redis
+    .multi()
+    .set(sessionKey(sessionId), JSON.stringify(session), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+    .sadd(userSessionsKey(userId), sessionId)
+    .expire(userSessionsKey(userId), REFRESH_TOKEN_TTL_SECONDS)
+    .exec()
+
+  const refreshToken = await storeRefreshToken(redis, sessionId, userId)
+
+  return { sessionId, refreshToken }
+}
+
+export async function isSessionActive(redis: Redis, sessionId: string): Promise<boolean> {
+  return (await redis.exists(sessionKey(sessionId))) === 1
+}
+
+const withinGrace = (record: RefreshTokenRecord) =>
+  record.rotatedAt !== undefined && Date.now() - Date.parse(record.rotatedAt) < REFRESH_GRACE_MS
+
+// A token exchanged moments ago hands out the successor it was exchanged for, anything older is a replay
+async function replayRotated(redis: Redis, record: RefreshTokenRecord): Promise<RotateResult> {
+  if (record.successor && withinGrace(record)) {
+    return (await isSessionActive(redis, record.sessionId))
+      ? { status: 'ok', userId: record.userId, sessionId: record.sessionId, refreshToken: record.successor }
+      : { status: 'invalid' }
+  }
+
+  await revokeSession(redis, record.userId, record.sessionId)
+  return { status: 'reused', userId: record.userId, sessionId: record.sessionId }
+}
+
+/**
+ * Exchange a refresh token for a new one. A token that was already exchanged
+ * revokes its whole session, since either the client or an attacker holds a
+ * stolen copy, unless it was exchanged within the last few seconds by
+ * another tab of the same client.
+ */
+export async function rotateRefreshToken(
+  redis: Redis,
+  refreshToken: string,
+  meta: { userAgent?: string | undefined; ip?: string | undefined }
+): Promise<RotateResult> {
+  const key = refreshTokenKey(hashToken(refreshToken))
+  const stored = await redis.get(key)
+  if (!stored) {
+    return { status: 'invalid' }
+  }
+
+  const record = JSON.parse(stored) as RefreshTokenRecord
+
+  if (record.rotatedAt) {
+    return replayRotated(redis, record)
+  }
+
+  const rawSession = await redis.get(sessionKey(record.sessionId))
+  if (!rawSession) {
+    return { status: 'invalid' }
+  }
+
+  // Only one concurrent refresh may win the rotation: the first to claim it
+  // publishes its successor for the grace window, the others hand that out
+  const nextToken = await storeRefreshToken(redis, record.sessionId, record.userId)
+  const claimKey = `${key}:successor`
+  const claimed = await redis.set(claimKey, nextToken, 'PX', REFRESH_GRACE_MS, 'NX')
+  if (!claimed) {
+    await redis.del(refreshTokenKey(hashToken(nextToken)))
+    const successor = await redis.get(claimKey)
+    return successor && (await isSessionActive(redis, record.sessionId))
+      ? { status: 'ok', userId: record.userId, sessionId: record.sessionId, refreshToken: successor }
+      : { status: 'invalid' }
+  }
+
+  const rotated: RefreshTokenRecord = { ...record, rotatedAt: new Date().toISOString(), successor: nextToken }
+  await redis.set(key, JSON.stringify(rotated), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+
+  const session = JSON.parse(rawSession) as SessionInfo
+  const updated: SessionInfo = {
+    ...session,
+    userAgent: meta.userAgent ?? session.userAgent,
+    ip: meta.ip ?? session.ip,
+    lastUsedAt: new Date().toISOString()
+  }
+
+  await redis
+    .multi()
+    .set(sessionKey(record.sessionId), JSON.stringify(updated), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+    .expire(userSessionsKey(record.userId), REFRESH_TOKEN_TTL_SECONDS)
+    .exec()
+
+  return { status: 'ok', userId: record.userId, sessionId: record.sessionId, refreshToken: nextToken }
+}
+
+/**
+ * Look up the session a refresh token belongs to without rotating it.
+ */
+export async function getRefreshTokenSession(
+  redis: Redis,
+  refreshToken: string
+): Promise<{ userId: string; sessionId: string } | null> {
+  const stored = await redis.get(refreshTokenKey(hashToken(refreshToken)))
+  if (!stored) {
+    return null
+  }
+
+  const { userId, sessionId } = JSON.parse(stored) as RefreshTokenRecord
+  return { userId, sessionId }
+}
+
+export async function revokeSession(redis: Redis, userId: string, sessionId: string): Promise<void> {
+  // Outstanding refresh tokens of the family fail the session lookup once it is gone
+  await redis
+    .multi()
+    .del(sessionKey(sessionId))
+    .srem(userSessionsKey(userId), sessionId)
+    .exec()
+}
+
+export async function revokeAllSessions(redis: Redis, userId: string): Promise<number> {
+  const sessionIds = await redis.smembers(userSessionsKey(userId))
+
+  await redis
+    .multi()
+    .del(...sessionIds.map(sessionKey), userSessionsKey(userId))
+    .exec()
+
+  return sessionIds.length
+}
+
+export async function listSessions(redis: Redis, userId: string): Promise<SessionInfo[]> {
+  const sessionIds = await redis.smembers(userSessionsKey(userId))
+  if (sessionIds.length === 0) {
+    return []
+  }
+
+  const raw = await redis.mget(...sessionIds.map(sessionKey))
+  const expired = sessionIds.filter((_, index) => !raw[index])
+  if (expired.length > 0) {
+    await redis.srem(userSessionsKey(userId), ...expired)
+  }
+
+  return raw
+    .filter((value): value is string => value !== null)
+    .map(value => JSON.parse(value) as SessionInfo)
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+}
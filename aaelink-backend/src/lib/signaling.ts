@@ -0,0 +1,298 @@
+import { PrismaClient } from '@prisma/client'
+import { FastifyInstance } from 'fastify'
+import { IncomingMessage } from 'http'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { Duplex } from 'stream'
+import { RawData, WebSocket, WebSocketServer } from 'ws'
+import { acceptCall, callInclude, closeParticipantSegment, endCall, isCallActive } from './calls.js'
+import { logger } from './logger.js'
+import { SocketData, verifyAccessToken } from './realtime.js'
+
+export const SIGNALING_PATH = '/api/calls/signaling'
+
+// Replicas share relayed messages over this pub/sub channel
+const SIGNALING_CHANNEL = 'call-signaling'
+
+// Message types relayed between peers, with the key holding their payload
+const RELAYED_MESSAGES = {
+  offer: 'offer',
+  answer: 'answer',
+  'ice-candidate': 'candidate'
+} as const
+
+type RelayedType = keyof typeof RELAYED_MESSAGES
+
+interface SignalEnvelope {
+  callId: string
+  from: string
+  // Single recipient, every other connected participant when omitted
+  to?: string
+  message: Record<string, unknown>
+}
+
+interface SignalingDeps {
+  prisma: PrismaClient
+  redis: Redis
+  io: SocketIOServer
+  origins: string[]
+}
+
+const isRelayedType = (type: unknown): type is RelayedType =>
+  typeof type === 'string' && Object.hasOwn(RELAYED_MESSAGES, type)
+
+/**
+ * WebRTC signaling over plain WebSockets, speaking the protocol of the web
+ * client's WebRTCService: `join` a call, then `offer` / `answer` /
+ * `ice-candidate` messages addressed to a peer, with `user-joined` and
+ * `user-left` announcements. Rooms are Call records and only participants of
+ * the call can join; joining and leaving is recorded on CallParticipant.
+ */
+export function createSignalingServer(fastify: FastifyInstance, { prisma, redis, io, origins }: SignalingDeps) {
+  const wss = new WebSocketServer({ noServer: true })
+  const subscriber = redis.duplicate()
+
+  // callId -> userId -> socket, for participants connected to this replica
+  const rooms = new Map<string, Map<string, WebSocket>>()
+
+  const send = (socket: WebSocket, message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message))
+    }
+  }
+
+  const publish = async (envelope: SignalEnvelope) => {
+    await redis.publish(SIGNALING_CHANNEL, JSON.stringify(envelope))
+  }
+
+  const deliver = ({ callId, from, to, message }: SignalEnvelope) => {
+    rooms.get(callId)?.forEach((socket, userId) => {
+      if (userId !== from && (!to || to === userId)) {
+        send(socket, message)
+      }
+    })
+  }
+
+  subscriber.on('message', (_channel: string, raw: string) => {
+    try {
+      deliver(JSON.parse(raw) as SignalEnvelope)
+    } catch (error) {
+      logger.error('Signaling relay error:', error)
+    }
+  })
+
+  subscriber.subscribe(SIGNALING_CHANNEL).catch(error => {
+    logger.error('Signaling subscribe error:', error)
+  })
+
+  const connectedParticipants = (callId: string) =>
+    prisma.callParticipant.findMany({
+      where: {
+        callId,
+        joinedAt: { not: null },
+        leftAt: null
+      },
+      select: { userId: true }
+    })
+
+  // Returns the participants already connected, or null when the user may not join
+  const joinCall = async (userId: string, callId: string) => {
+    const call = await prisma.call.findFirst({
+      where: {
+        id: callId,
+        participants: {
+          some: { userId }
+        }
+      },
+      include: callInclude
+    })
+
+    const participant = call?.participants.find(p => p.userId === userId)
+    if (!call || !participant || !isCallActive(call)) {
+      return null
+    }
+
+    // Joining while it rings answers the call; declined, missed or busy seats stay closed
+    if (participant.status === 'INVITED') {
+      await acceptCall({ prisma, redis, io }, call, userId)
+    } else if (participant.status !== 'ACCEPTED') {
+      return null
+    }
+
+    // A rejoin first closes the segment a dropped connection left open
+    await closeParticipantSegment(prisma, callId, userId)
+    await prisma.callParticipant.update({
+      where: { id: participant.id },
+      data: {
+        joinedAt: new Date(),
+        leftAt: null
+      }
+    })
+
+    const connected = await connectedParticipants(callId)
+
+    return connected.map(({ userId: participantId }) => participantId).filter(participantId => participantId !== userId)
+  }
+
+  const leaveCall = async (userId: string, callId: string) => {
+    await closeParticipantSegment(prisma, callId, userId)
+    await publish({ callId, from: userId, message: { type: 'user-left', userId } })
+
+    if ((await connectedParticipants(callId)).length > 0) {
+      return
+    }
+
+    // The last one out ends a call that was answered
+    const call = await prisma.call.findUnique({ where: { id: callId } })
+    if (call?.status === 'CONNECTED') {
+      await endCall({ prisma, redis, io }, callId, userId)
+    }
+  }
+
+  wss.on('connection', (socket: WebSocket, { userId }: SocketData) => {
+    let callId: string | null = null
+
+    const leave = async () => {
+      if (!callId) {
+        return
+      }
+
+      const currentCallId = callId
+      callId = null
+
+      // A newer connection of the same user has taken over the seat
+      const room = rooms.get(currentCallId)
+      if (room?.get(userId) !== socket) {
+        return
+      }
+
+      room.delete(userId)
+      if (room.size === 0) {
+        rooms.delete(currentCallId)
+      }
+
+      await leaveCall(userId, currentCallId)
+    }
+
+    const join = async (roomId: unknown) => {
+      if (typeof roomId !== 'string' || !roomId) {
+        send(socket, { type: 'error', error: 'roomId is required' })
+        return
+      }
+
+      await leave()
+
+      const participants = await joinCall(userId, roomId)
+      if (!participants) {
+        send(socket, { type: 'error', error: 'Call not found or not authorized' })
+        return
+      }
+
+      callId = roomId
+      const room = rooms.get(roomId) ?? new Map<string, WebSocket>()
+      room.set(userId, socket)
+      rooms.set(roomId, room)
+
+      send(socket, { type: 'joined', roomId, participants })
+      await publish({ callId: roomId, from: userId, message: { type: 'user-joined', userId } })
+    }
+
+    const relay = async (type: RelayedType, data: Record<string, unknown>) => {
+      if (!callId) {
+        send(socket, { type: 'error', error: 'Join a call first' })
+        return
+      }
+
+      if (typeof data.userId !== 'string') {
+        send(socket, { type: 'error', error: 'userId is required' })
+        return
+      }
+
+      // Only sockets registered in the same call receive it, so signaling never leaves the call
+      const key = RELAYED_MESSAGES[type]
+      await publish({
+        callId,
+        from: userId,
+        to: data.userId,
+        message: { type, userId, [key]: data[key] }
+      })
+    }
+
+    socket.on('message', async (raw: RawData) => {
+      let data: Record<string, unknown>
+      try {
+        data = JSON.parse(raw.toString())
+      } catch {
+        send(socket, { type: 'error', error: 'Invalid message' })
+        return
+      }
+
+      try {
+        if (data.type === 'join') {
+          await join(data.roomId)
+        } else if (data.type === 'leave') {
+          await leave()
+        } else if (isRelayedType(data.type)) {
+          await relay(data.type, data)
+        } else {
+          send(socket, { type: 'error', error: 'Unknown message type' })
+        }
+      } catch (error) {
+        logger.error('Signaling message error:', error)
+        send(socket, { type: 'error', error: 'Internal server error' })
+      }
+    })
+
+    socket.on('close', () => {
+      leave().catch(error => logger.error('Signaling disconnect error:', error))
+    })
+  })
+
+  const reject = (socket: Duplex, status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`)
+  }
+
+  // Browsers cannot set headers on WebSockets, so the token comes from the query or the auth cookie
+  const onUpgrade = async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (url.pathname !== SIGNALING_PATH) {
+      return
+    }
+
+    try {
+      const origin = request.headers.origin
+      if (origin && !origins.includes(origin)) {
+        reject(socket, '403 Forbidden')
+        return
+      }
+
+      const cookieHeader = request.headers.cookie
+      const token = url.searchParams.get('token') ??
+        (cookieHeader ? fastify.parseCookie(cookieHeader)['auth-token'] : undefined)
+      const user = token ? await verifyAccessToken(fastify, redis, token) : null
+
+      if (!user) {
+        reject(socket, '401 Unauthorized')
+        return
+      }
+
+      wss.handleUpgrade(request, socket, head, ws => {
+        wss.emit('connection', ws, user)
+      })
+    } catch (error) {
+      logger.error('Signaling upgrade error:', error)
+      reject(socket, '500 Internal Server Error')
+    }
+  }
+
+  fastify.server.on('upgrade', onUpgrade)
+
+  const close = async () => {
+    fastify.server.off('upgrade', onUpgrade)
+    wss.clients.forEach(client => client.close(1001, 'Server shutting down'))
+    await new Promise<void>(resolve => wss.close(() => resolve()))
+    await subscriber.quit()
+  }
+
+  return { close }
+}
@@ -0,0 +1,507 @@
+import { CalendarEvent, Message, Prisma, PrismaClient } from '@prisma/client'
+import { Redis } from 'ioredis'
+import { Server as SocketIOServer } from 'socket.io'
+import { z } from 'zod'
+import { emitConversationEvent, messageConversation } from './conversationEvents.js'
+import { logger } from './logger.js'
+import { resolveMentions } from './mentions.js'
+import { isServerMessage, revisionOf } from './messageRevisions.js'
+import { enqueueNotification } from './notifications.js'
+import { markReadUpTo, readConversation } from './readState.js'
+import { enqueueSearchIndex } from './searchIndex.js'
+
+export const MAX_SYNC_BATCH_SIZE = 100
+
+export const syncMutationSchema = z.object({
+  // Generated by the client once per mutation and reused on every retry
+  idempotencyKey: z.string().min(1).max(128),
+  entity: z.enum(['message', 'event']),
+  action: z.enum(['create', 'update', 'delete']),
+  // Server id of the entity for updates and deletes, or the idempotency key of
+  // the create of an entity the client does not know the id of yet
+  id: z.string().optional(),
+  // Version the client last saw; without one an update or delete is unconditional
+  baseVersion: z.number().int().positive().optional(),
+  data: z.record(z.unknown()).default({})
+})
+
+export type SyncMutationInput = z.infer<typeof syncMutationSchema>
+
+/**
+ * Outcome of one mutation. Only applied mutations are recorded against their
+ * idempotency key: a conflict or rejection can be retried with the same key
+ * once the client has resolved it, and a failure is retried as is.
+ */
+export type SyncResult =
+  | { idempotencyKey: string; status: 'applied'; id: string; version: number | null; data: unknown }
+  // The server copy changed since baseVersion; null when it no longer exists
+  | { idempotencyKey: string; status: 'conflict'; id: string; version: number | null; server: unknown }
+  // Invalid or not allowed, retrying will not help
+  | { idempotencyKey: string; status: 'rejected'; error: string }
+  // Unexpected server error, retry later
+  | { idempotencyKey: string; status: 'failed'; error: string }
+
+export interface SyncDeps {
+  prisma: PrismaClient
+  redis: Redis
+  io: SocketIOServer
+}
+
+export class SyncRejection extends Error {}
+
+type Transaction = Prisma.TransactionClient
+
+// What an applier did, with the side effects to run once it is committed
+interface Applied {
+  result: SyncResult
+  afterCommit?: () => Promise<unknown>
+}
+
+const createMessageSchema = z.object({
+  content: z.string().min(1).max(4000),
+  // Calls and system messages are only ever created by the server
+  type: z.enum(['TEXT', 'IMAGE', 'FILE', 'AUDIO', 'VIDEO']).default('TEXT'),
+  receiverId: z.string().optional(),
+  groupId: z.string().optional(),
+  threadId: z.string().optional(),
+  parentId: z.string().optional(),
+  encryptedContent: z.string().optional(),
+  encryptionKey: z.string().optional()
+})
+
+const updateMessageSchema = z.object({
+  content: z.string().min(1).max(4000),
+  encryptedContent: z.string().optional(),
+  encryptionKey: z.string().optional()
+})
+
+const eventFieldsSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().nullable().optional(),
+  startTime: z.string().datetime(),
+  endTime: z.string().datetime(),
+  location: z.string().nullable().optional(),
+  attendees: z.array(z.string()).default([])
+})
+
+const messageInclude = {
+  sender: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+      avatar: true
+    }
+  },
+  attachments: true,
+  mentions: {
+    select: {
+      userId: true,
+      kind: true
+    }
+  }
+} satisfies Prisma.MessageInclude
+
+// The client last saw another version of the entity than the one stored
+const isStale = (mutation: SyncMutationInput, current: { version: number }) =>
+  mutation.baseVersion !== undefined && mutation.baseVersion !== current.version
+
+function parseData<T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    throw new SyncRejection(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '))
+  }
+  return parsed.data
+}
+
+const requireId = (mutation: SyncMutationInput) => {
+  if (!mutation.id) {
+    throw new SyncRejection(`An id is required to ${mutation.action} a ${mutation.entity}`)
+  }
+  return mutation.id
+}
+
+const conflict = (mutation: SyncMutationInput, id: string, server: { version: number } | null): Applied => ({
+  result: {
+    idempotencyKey: mutation.idempotencyKey,
+    status: 'conflict',
+    id,
+    version: server ? server.version : null,
+    server
+  }
+})
+
+const applied = (mutation: SyncMutationInput, id: string, entity: { version: number } | null, data: unknown): SyncResult => ({
+  idempotencyKey: mutation.idempotencyKey,
+  status: 'applied',
+  id,
+  version: entity ? entity.version : null,
+  data
+})
+
+async function applyMessageMutation(
+  { prisma, redis, io }: SyncDeps,
+  tx: Transaction,
+  userId: string,
+  mutation: SyncMutationInput
+): Promise<Applied> {
+  if (mutation.action === 'create') {
+    const data = parseData(createMessageSchema, mutation.data)
+
+    if (!data.receiverId === !data.groupId) {
+      throw new SyncRejection('Exactly one of receiverId or groupId is required')
+    }
+
+    if (data.groupId) {
+      const membership = await tx.groupMember.findFirst({
+        where: { userId, groupId: data.groupId },
+        include: { group: true }
+      })
+      if (!membership || membership.group.isArchived) {
+        throw new SyncRejection('Cannot send to this group')
+      }
+    } else if (data.receiverId) {
+      const receiver = await tx.user.findFirst({ where: { id: data.receiverId, isActive: true } })
+      if (!receiver) {
+        throw new SyncRejection('Receiver not found')
+      }
+    }
+
+    if (data.threadId) {
+      const thread = await tx.thread.findUnique({ where: { id: data.threadId } })
+      if (!thread || thread.groupId !== data.groupId) {
+        throw new SyncRejection('Thread does not belong to this group')
+      }
+    }
+
+    if (data.parentId) {
+      const parent = await tx.message.findUnique({ where: { id: data.parentId } })
+      const participants = parent ? [parent.senderId, parent.receiverId] : []
+      const sameConversation = data.groupId
+        ? parent?.groupId === data.groupId
+        : !parent?.groupId && participants.includes(userId) && participants.includes(data.receiverId ?? null)
+
+      if (!parent || parent.isDeleted || !sameConversation) {
+        throw new SyncRejection('Parent message not found in this conversation')
+      }
+    }
+
+    const mentions = data.encryptedContent
+      ? []
+      : await resolveMentions(prisma, redis, {
+        content: data.content,
+        senderId: userId,
+        groupId: data.groupId ?? null,
+        receiverId: data.receiverId ?? null
+      })
+
+    const message = await tx.message.create({
+      data: {
+        content: data.content,
+        type: data.type,
+        senderId: userId,
+        receiverId: data.receiverId ?? null,
+        groupId: data.groupId ?? null,
+        threadId: data.threadId ?? null,
+        parentId: data.parentId ?? null,
+        encryptedContent: data.encryptedContent ?? null,
+        encryptionKey: data.encryptionKey ?? null,
+        mentions: { create: mentions }
+      },
+      include: messageInclude
+    })
+
+    return {
+      result: applied(mutation, message.id, message, message),
+      afterCommit: async () => {
+        await enqueueSearchIndex(redis, 'message', message.id)
+        await enqueueNotification(redis, { kind: 'message', messageId: message.id })
+        await markReadUpTo(prisma, userId, readConversation(userId, message), message)
+        await emitConversationEvent(io, redis, messageConversation(message), 'new_message', message)
+      }
+    }
+  }
+
+  const id = requireId(mutation)
+  const current = await tx.message.findUnique({ where: { id } })
+
+  if (current && current.senderId !== userId) {
+    throw new SyncRejection('Only the sender can change this message')
+  }
+
+  // Like their creation, calls and system messages are left to the server
+  if (current && isServerMessage(current)) {
+    throw new SyncRejection(`This message cannot be ${mutation.action === 'delete' ? 'deleted' : 'edited'}`)
+  }
+
+  if (mutation.action === 'delete') {
+    // Deleting twice, or what was never synced, leaves it deleted
+    if (!current || current.isDeleted) {
+      return { result: applied(mutation, id, null, null) }
+    }
+    if (isStale(mutation, current)) {
+      return conflict(mutation, id, await tx.message.findUnique({ where: { id }, include: messageInclude }))
+    }
+
+    await tx.messageRevision.create({ data: revisionOf(current, 'DELETE', userId) })
+    const deleted = await guardedMessageUpdate(tx, current, { isDeleted: true })
+    if (!deleted) {
+      return conflict(mutation, id, await tx.message.findUnique({ where: { id }, include: messageInclude }))
+    }
+
+    return {
+      result: applied(mutation, id, deleted, null),
+      afterCommit: async () => {
+        await enqueueSearchIndex(redis, 'message', id)
+        await emitConversationEvent(io, redis, messageConversation(current), 'message_deleted', {
+          messageId: id,
+          groupId: current.groupId,
+          deletedBy: userId
+        })
+      }
+    }
+  }
+
+  const data = parseData(updateMessageSchema, mutation.data)
+
+  if (!current || current.isDeleted) {
+    return conflict(mutation, id, null)
+  }
+  if (isStale(mutation, current)) {
+    return conflict(mutation, id, await tx.message.findUnique({ where: { id }, include: messageInclude }))
+  }
+
+  const previousMentions = await tx.mention.findMany({ where: { messageId: id }, select: { userId: true } })
+  const mentions = data.encryptedContent
+    ? []
+    : await resolveMentions(prisma, redis, { ...current, content: data.content })
+  const addedMentionUserIds = mentions
+    .map(mention => mention.userId)
+    .filter(mentionedId => !previousMentions.some(previous => previous.userId === mentionedId))
+
+  await tx.messageRevision.create({ data: revisionOf(current, 'EDIT', userId) })
+  const updated = await guardedMessageUpdate(tx, current, {
+    content: data.content,
+    encryptedContent: data.encryptedContent ?? null,
+    encryptionKey: data.encryptionKey ?? null,
+    isEdited: true
+  })
+  if (!updated) {
+    return conflict(mutation, id, await tx.message.findUnique({ where: { id }, include: messageInclude }))
+  }
+
+  await tx.mention.deleteMany({
+    where: { messageId: id, userId: { notIn: mentions.map(mention => mention.userId) } }
+  })
+  await Promise.all(mentions.map(mention => tx.mention.upsert({
+    where: { messageId_userId: { messageId: id, userId: mention.userId } },
+    create: { ...mention, messageId: id },
+    update: { kind: mention.kind }
+  })))
+
+  const message = await tx.message.findUniqueOrThrow({ where: { id }, include: messageInclude })
+
+  return {
+    result: applied(mutation, id, message, message),
+    afterCommit: async () => {
+      await enqueueSearchIndex(redis, 'message', id)
+      if (addedMentionUserIds.length > 0) {
+        await enqueueNotification(redis, { kind: 'mention', messageId: id, userIds: addedMentionUserIds })
+      }
+      await emitConversationEvent(io, redis, messageConversation(current), 'message_updated', message)
+    }
+  }
+}
+
+// Update a message only if nobody wrote it since it was read
+async function guardedMessageUpdate(tx: Transaction, current: Message, data: Prisma.MessageUpdateManyMutationInput) {
+  const { count } = await tx.message.updateMany({
+    where: { id: current.id, version: current.version },
+    data: { ...data, version: { increment: 1 } }
+  })
+  return count === 0 ? null : tx.message.findUniqueOrThrow({ where: { id: current.id } })
+}
+
+async function applyEventMutation(
+  { redis }: SyncDeps,
+  tx: Transaction,
+  userId: string,
+  mutation: SyncMutationInput
+): Promise<Applied> {
+  if (mutation.action === 'create') {
+    const data = parseData(eventFieldsSchema, mutation.data)
+    if (new Date(data.startTime) >= new Date(data.endTime)) {
+      throw new SyncRejection('endTime must be after startTime')
+    }
+
+    const event = await tx.calendarEvent.create({
+      data: {
+        title: data.title,
+        description: data.description ?? null,
+        location: data.location ?? null,
+        startTime: new Date(data.startTime),
+        endTime: new Date(data.endTime),
+        createdBy: userId,
+        attendees: [...new Set([...data.attendees, userId])]
+      }
+    })
+
+    return {
+      result: applied(mutation, event.id, event, event),
+      afterCommit: () => enqueueNotification(redis, {
+        kind: 'calendar_invite',
+        eventId: event.id,
+        attendeeIds: data.attendees.filter(attendeeId => attendeeId !== userId)
+      })
+    }
+  }
+
+  const id = requireId(mutation)
+  const current = await tx.calendarEvent.findUnique({ where: { id } })
+
+  if (current && current.createdBy !== userId) {
+    throw new SyncRejection('Only the organizer can change this event')
+  }
+
+  if (mutation.action === 'delete') {
+    if (!current) {
+      return { result: applied(mutation, id, null, null) }
+    }
+    if (isStale(mutation, current)) {
+      return conflict(mutation, id, current)
+    }
+
+    const { count } = await tx.calendarEvent.deleteMany({ where: { id, version: current.version } })
+    return count === 0
+      ? conflict(mutation, id, await tx.calendarEvent.findUnique({ where: { id } }))
+      : { result: applied(mutation, id, null, null) }
+  }
+
+  const data = parseData(eventFieldsSchema.partial(), mutation.data)
+
+  if (!current) {
+    return conflict(mutation, id, null)
+  }
+  if (isStale(mutation, current)) {
+    return conflict(mutation, id, current)
+  }
+
+  const startTime = data.startTime ? new Date(data.startTime) : current.startTime
+  const endTime = data.endTime ? new Date(data.endTime) : current.endTime
+  if (startTime >= endTime) {
+    throw new SyncRejection('endTime must be after startTime')
+  }
+
+  const previousAttendees = eventAttendees(current)
+  const attendees = data.attendees ? [...new Set([...data.attendees, userId])] : previousAttendees
+
+  const { count } = await tx.calendarEvent.updateMany({
+    where: { id, version: current.version },
+    data: {
+      version: { increment: 1 },
+      ...(data.title !== undefined ? { title: data.title } : {}),
+      ...(data.description !== undefined ? { description: data.description } : {}),
+      ...(data.location !== undefined ? { location: data.location } : {}),
+      startTime,
+      endTime,
+      attendees
+    }
+  })
+  if (count === 0) {
+    return conflict(mutation, id, await tx.calendarEvent.findUnique({ where: { id } }))
+  }
+
+  const event = await tx.calendarEvent.findUniqueOrThrow({ where: { id } })
+  const invited = attendees.filter(attendeeId => !previousAttendees.includes(attendeeId))
+
+  return {
+    result: applied(mutation, id, event, event),
+    ...(invited.length > 0
+      ? { afterCommit: () => enqueueNotification(redis, { kind: 'calendar_invite', eventId: id, attendeeIds: invited }) }
+      : {})
+  }
+}
+
+const eventAttendees = (event: CalendarEvent): string[] =>
+  Array.isArray(event.attendees) ? event.attendees.filter((id): id is string => typeof id === 'string') : []
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+
+async function findRecordedResult(prisma: PrismaClient, userId: string, idempotencyKey: string) {
+  const recorded = await prisma.syncMutation.findUnique({
+    where: { userId_idempotencyKey: { userId, idempotencyKey } }
+  })
+  return recorded ? recorded.result as unknown as SyncResult : null
+}
+
+/**
+ * Apply one offline mutation in its own transaction, together with the record
+ * of its idempotency key, so a mutation the client sends again (after a lost
+ * response, or from a second tab) returns its first result unchanged. Side
+ * effects such as realtime events run only once it is committed.
+ */
+export async function applySyncMutation(deps: SyncDeps, userId: string, mutation: SyncMutationInput): Promise<SyncResult> {
+  const { prisma } = deps
+  const { idempotencyKey } = mutation
+
+  const recorded = await findRecordedResult(prisma, userId, idempotencyKey)
+  if (recorded) {
+    return recorded
+  }
+
+  if (mutation.id && mutation.action !== 'create') {
+    const created = await prisma.syncMutation.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey: mutation.id } },
+      select: { entity: true, action: true, entityId: true }
+    })
+    if (created?.action === 'create' && created.entity === mutation.entity) {
+      mutation = { ...mutation, id: created.entityId }
+    }
+  }
+
+  let outcome: Applied
+  try {
+    outcome = await prisma.$transaction(async tx => {
+      const applier = mutation.entity === 'message' ? applyMessageMutation : applyEventMutation
+      const outcome = await applier(deps, tx, userId, mutation)
+
+      if (outcome.result.status === 'applied') {
+        await tx.syncMutation.create({
+          data: {
+            userId,
+            idempotencyKey,
+            entity: mutation.entity,
+            action: mutation.action,
+            entityId: outcome.result.id,
+            result: JSON.parse(JSON.stringify(outcome.result)) as Prisma.InputJsonValue
+          }
+        })
+      }
+      return outcome
+    })
+  } catch (error) {
+    if (error instanceof SyncRejection) {
+      return { idempotencyKey, status: 'rejected', error: error.message }
+    }
+    // The same key committed concurrently, its result wins
+    if (isUniqueViolation(error)) {
+      const result = await findRecordedResult(prisma, userId, idempotencyKey)
+      if (result) {
+        return result
+      }
+    }
+
+    logger.error('Sync mutation error:', error)
+    return { idempotencyKey, status: 'failed', error: 'Internal server error' }
+  }
+
+  try {
+    await outcome.afterCommit?.()
+  } catch (error) {
+    logger.error('Sync side effect error:', error)
+  }
+
+  return outcome.result
+}
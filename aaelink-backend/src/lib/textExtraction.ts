@@ -0,0 +1,267 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { Redis } from 'ioredis'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { readStream, runCommand } from './commands.js'
+import { env } from './env.js'
+import { logger } from './logger.js'
+import { MinioClient } from './minio.js'
+import { JobQueue } from './queue.js'
+import { enqueueSearchIndex } from './searchIndex.js'
+import { readZipText } from './zip.js'
+
+interface ExtractionJob {
+  fileId: string
+}
+
+interface ExtractionWorkerDeps {
+  prisma: PrismaClient
+  redis: Redis
+  minio: MinioClient
+}
+
+// A page of a PDF or DOCX, or a sheet of an XLSX, as offsets into the text
+export interface TextPage {
+  page: number
+  // Sheet name, null when pages are numbered
+  label: string | null
+  start: number
+  end: number
+}
+
+interface ExtractedText {
+  content: string
+  pages: TextPage[]
+}
+
+const PDF_MIME_TYPE = 'application/pdf'
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// Larger documents are left to be found by name only
+const MAX_SOURCE_SIZE = 50 * 1024 * 1024
+const MAX_TEXT_LENGTH = 2_000_000
+
+const PAGE_SEPARATOR = '\f'
+
+export const supportsTextExtraction = (mimeType: string) =>
+  mimeType === PDF_MIME_TYPE ||
+  mimeType === DOCX_MIME_TYPE ||
+  mimeType === XLSX_MIME_TYPE ||
+  mimeType.startsWith('text/')
+
+function joinPages(pages: Array<{ label: string | null; text: string }>): ExtractedText {
+  const textPages: TextPage[] = []
+  let content = ''
+
+  for (const [index, { label, text }] of pages.entries()) {
+    if (content.length >= MAX_TEXT_LENGTH) {
+      break
+    }
+    if (index > 0) {
+      content += PAGE_SEPARATOR
+    }
+
+    const start = content.length
+    content += text.slice(0, MAX_TEXT_LENGTH - start)
+    textPages.push({ page: index + 1, label, start, end: content.length })
+  }
+
+  return { content, pages: textPages }
+}
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&'
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'quot': return '"'
+      case 'apos': return "'"
+    }
+    const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isNaN(point) ? entity : String.fromCodePoint(point)
+  })
+
+const xmlAttribute = (tag: string, name: string) =>
+  new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1]
+
+// pdftotext ends every page with a form feed
+async function extractPdf(source: Buffer): Promise<ExtractedText> {
+  const dir = await mkdtemp(join(tmpdir(), 'aaelink-text-'))
+
+  try {
+    const input = join(dir, 'input.pdf')
+    await writeFile(input, source)
+    const output = await runCommand(env.PDFTOTEXT_PATH, ['-enc', 'UTF-8', '-eol', 'unix', input, '-'])
+
+    const pages = output.toString('utf8').split(PAGE_SEPARATOR)
+    if (pages.length > 1 && !pages[pages.length - 1]?.trim()) {
+      pages.pop()
+    }
+
+    return joinPages(pages.map(text => ({ label: null, text })))
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+// DOCX has no fixed pages; the breaks Word rendered when it last saved are used
+function extractDocx(source: Buffer): ExtractedText {
+  const xml = readZipText(source, name => name === 'word/document.xml').get('word/document.xml') ?? ''
+  const pattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b[^>]*w:type="page"[^>]*\/>|<w:lastRenderedPageBreak\/>|<\/w:p>/g
+
+  const pages: string[] = []
+  let page = ''
+
+  for (const [token, text] of xml.matchAll(pattern)) {
+    if (text !== undefined) {
+      page += decodeXml(text)
+    } else if (token === '<w:tab/>') {
+      page += '\t'
+    } else if (token === '</w:p>') {
+      page += '\n'
+    } else if (page.trim()) {
+      // A hard break is usually followed by a rendered break at the same spot
+      pages.push(page)
+      page = ''
+    }
+  }
+  pages.push(page)
+
+  return joinPages(pages.map(text => ({ label: null, text: text.trim() })))
+}
+
+// Every sheet is a page, cells separated by tabs and rows by newlines
+function extractXlsx(source: Buffer): ExtractedText {
+  const parts = readZipText(source, name =>
+    name === 'xl/workbook.xml' ||
+    name === 'xl/_rels/workbook.xml.rels' ||
+    name === 'xl/sharedStrings.xml' ||
+    name.startsWith('xl/worksheets/')
+  )
+
+  const textOf = (xml: string) =>
+    Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), ([, text]) => decodeXml(text ?? '')).join('')
+
+  const sharedStrings = Array.from(
+    (parts.get('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    ([, item]) => textOf(item ?? '')
+  )
+
+  const targets = new Map<string, string>()
+  for (const [tag] of (parts.get('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttribute(tag, 'Id')
+    const target = xmlAttribute(tag, 'Target')
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+    }
+  }
+
+  const sheets = Array.from((parts.get('xl/workbook.xml') ?? '').matchAll(/<sheet\b[^>]*>/g), ([tag]) => ({
+    label: decodeXml(xmlAttribute(tag, 'name') ?? ''),
+    xml: parts.get(targets.get(xmlAttribute(tag, 'r:id') ?? '') ?? '') ?? ''
+  }))
+
+  return joinPages(sheets.map(({ label, xml }) => {
+    const rows = Array.from(xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g), ([, row]) =>
+      Array.from((row ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g), ([, attributes, body = '']) => {
+        const type = xmlAttribute(attributes ?? '', 't')
+        const value = /<v>([^<]*)<\/v>/.exec(body)?.[1]
+
+        if (type === 's') {
+          return sharedStrings[Number(value)] ?? ''
+        }
+        if (type === 'inlineStr') {
+          return textOf(body)
+        }
+        return decodeXml(value ?? '')
+      }).filter(Boolean).join('\t')
+    )
+
+    return { label, text: rows.filter(Boolean).join('\n') }
+  }))
+}
+
+export async function extractText(mimeType: string, source: Buffer): Promise<ExtractedText> {
+  if (mimeType === PDF_MIME_TYPE) {
+    return extractPdf(source)
+  }
+  if (mimeType === DOCX_MIME_TYPE) {
+    return extractDocx(source)
+  }
+  if (mimeType === XLSX_MIME_TYPE) {
+    return extractXlsx(source)
+  }
+  return joinPages([{ label: null, text: source.toString('utf8') }])
+}
+
+let queue: JobQueue<ExtractionJob> | null = null
+
+const getQueue = (redis: Redis) => {
+  queue ??= new JobQueue<ExtractionJob>(redis, 'text-extraction')
+  return queue
+}
+
+export async function enqueueTextExtraction(redis: Redis, fileId: string): Promise<void> {
+  await getQueue(redis).enqueue({ fileId })
+}
+
+/**
+ * Consume the extraction queue: pull the text out of PDF, DOCX, XLSX and
+ * plain text files, store it page by page in FileText and reindex the file
+ * so its content becomes searchable.
+ */
+export function startTextExtractionWorker({ prisma, redis, minio }: ExtractionWorkerDeps) {
+  const extractionQueue = getQueue(redis)
+
+  const setStatus = (fileId: string, textStatus: string) =>
+    prisma.file.update({
+      where: { id: fileId },
+      data: { textStatus, version: { increment: 1 } }
+    })
+
+  const extract = async ({ fileId }: ExtractionJob) => {
+    const file = await prisma.file.findUnique({ where: { id: fileId } })
+    if (!file || file.virusScanStatus !== 'CLEAN') {
+      return
+    }
+
+    if (!supportsTextExtraction(file.mimeType) || file.size > MAX_SOURCE_SIZE) {
+      await setStatus(fileId, 'UNSUPPORTED')
+      return
+    }
+
+    const { content, pages } = await extractText(file.mimeType, await readStream(await minio.getFileStream(file.key)))
+    const pagesJson = pages as unknown as Prisma.InputJsonValue
+
+    await prisma.$transaction([
+      prisma.fileText.upsert({
+        where: { fileId },
+        create: { fileId, content, pages: pagesJson },
+        update: { content, pages: pagesJson, extractedAt: new Date() }
+      }),
+      prisma.file.update({
+        where: { id: fileId },
+        data: { textStatus: 'EXTRACTED', version: { increment: 1 } }
+      })
+    ])
+
+    await enqueueSearchIndex(redis, 'file', fileId)
+  }
+
+  const markFailed = async ({ fileId }: ExtractionJob, error: unknown) => {
+    // The file stays searchable by name
+    logger.warn(`Text extraction failed for file ${fileId}:`, error)
+    await setStatus(fileId, 'FAILED')
+  }
+
+  extractionQueue.process(extract, markFailed).catch(error => {
+    logger.error('Text extraction worker stopped:', error)
+  })
+
+  logger.info('Text extraction worker started')
+
+  return extractionQueue
+}
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { Redis } from 'ioredis'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import sharp from 'sharp'
+import { readStream, runCommand } from './commands.js'
+import { env } from './env.js'
+import { logger } from './logger.js'
+import { MinioClient } from './minio.js'
+import { JobQueue } from './queue.js'
+
+interface ThumbnailJob {
+  fileId: string
+}
+
+interface ThumbnailWorkerDeps {
+  prisma: PrismaClient
+  redis: Redis
+  minio: MinioClient
+}
+
+// Widths in pixels, thumbnails keep the aspect ratio and are never upscaled
+export const THUMBNAIL_SIZES = {
+  small: 160,
+  medium: 480,
+  large: 1024
+} as const
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES
+
+// The medium rendition is what File.thumbnailUrl points at
+export const DEFAULT_THUMBNAIL_SIZE: ThumbnailSize = 'medium'
+
+// Presigned thumbnail links are refreshed on read, this is the S3 maximum
+export const THUMBNAIL_URL_EXPIRY = 7 * 24 * 60 * 60
+
+export const supportsThumbnail = (mimeType: string) =>
+  mimeType.startsWith('image/') ||
+  mimeType.startsWith('video/') ||
+  mimeType === 'application/pdf'
+
+// Thumbnails live next to the original: <key>.thumbnails/<size>.webp
+export const thumbnailKey = (key: string, size: ThumbnailSize) => `${key}.thumbnails/${size}.webp`
+
+// ffmpeg seeks through the presigned URL instead of downloading the whole video
+async function renderVideoPoster(url: string): Promise<Buffer> {
+  return runCommand(env.FFMPEG_PATH, [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-i', url,
+    '-vf', 'thumbnail',
+    '-frames:v', '1',
+    '-f', 'image2pipe',
+    '-vcodec', 'png',
+    'pipe:1'
+  ])
+}
+
+async function renderPdfFirstPage(pdf: Buffer): Promise<Buffer> {
+  const dir = await mkdtemp(join(tmpdir(), 'aaelink-pdf-'))
+
+  try {
+    const input = join(dir, 'input.pdf')
+    const output = join(dir, 'page')
+    await writeFile(input, pdf)
+    await runCommand(env.PDFTOPPM_PATH, ['-f', '1', '-l', '1', '-r', '150', '-png', '-singlefile', input, output])
+    return await readFile(`${output}.png`)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+let queue: JobQueue<ThumbnailJob> | null = null
+
+const getQueue = (redis: Redis) => {
+  queue ??= new JobQueue<ThumbnailJob>(redis, 'thumbnails')
+  return queue
+}
+
+export async function enqueueThumbnails(redis: Redis, fileId: string): Promise<void> {
+  await getQueue(redis).enqueue({ fileId })
+}
+
+/**
+ * Consume the thumbnail queue: render a source image for the file (the image
+ * itself, a video poster frame or the first PDF page), store every size as
+ * WebP in MinIO and point File.thumbnailUrl at the medium rendition.
+ */
+export function startThumbnailWorker({ prisma, redis, minio }: ThumbnailWorkerDeps) {
+  const thumbnailQueue = getQueue(redis)
+
+  const generate = async ({ fileId }: ThumbnailJob) => {
+    const file = await prisma.file.findUnique({ where: { id: fileId } })
+    if (!file || file.virusScanStatus !== 'CLEAN' || !supportsThumbnail(file.mimeType)) {
+      return
+    }
+
+    let source: Buffer
+    if (file.mimeType.startsWith('video/')) {
+      source = await renderVideoPoster(await minio.getFileUrl(file.key, 3600))
+    } else if (file.mimeType === 'application/pdf') {
+      source = await renderPdfFirstPage(await readStream(await minio.getFileStream(file.key)))
+    } else {
+      source = await readStream(await minio.getFileStream(file.key))
+    }
+
+    const thumbnails: Record<string, string> = {}
+    for (const [size, width] of Object.entries(THUMBNAIL_SIZES) as [ThumbnailSize, number][]) {
+      const image = await sharp(source, { animated: false })
+        .rotate()
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer()
+
+      const key = thumbnailKey(file.key, size)
+      await minio.uploadFile(image, key, 'image/webp')
+      thumbnails[size] = key
+    }
+
+    await prisma.file.update({
+      where: { id: fileId },
+      data: {
+        thumbnails,
+        thumbnailUrl: await minio.getFileUrl(thumbnailKey(file.key, DEFAULT_THUMBNAIL_SIZE), THUMBNAIL_URL_EXPIRY),
+        version: { increment: 1 }
+      }
+    })
+  }
+
+  const markFailed = async ({ fileId }: ThumbnailJob, error: unknown) => {
+    // A missing preview is not fatal, the client falls back to a file icon
+    logger.warn(`Thumbnail generation failed for file ${fileId}:`, error)
+  }
+
+  thumbnailQueue.process(generate, markFailed).catch(error => {
+    logger.error('Thumbnail worker stopped:', error)
+  })
+
+  logger.info('Thumbnail worker started')
+
+  return thumbnailQueue
+}
@@ -0,0 +1,58 @@
+import { createHmac } from 'crypto'
+import { env } from './env.js'
+
+export interface IceServer {
+  urls: string[]
+  username?: string
+  credential?: string
+}
+
+export interface IceConfig {
+  iceServers: IceServer[]
+  // Seconds the TURN credentials stay valid, null when no TURN server is configured
+  ttl: number | null
+  expiresAt: string | null
+}
+
+const parseUrls = (value: string) =>
+  value
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean)
+
+/**
+ * Mint TURN credentials for coturn's REST API mode (`use-auth-secret`): the
+ * username carries the expiry as a unix timestamp and the password is the
+ * base64 HMAC-SHA1 of the username with the secret shared with coturn, so
+ * no per-user state has to exist on the TURN server.
+ */
+export function createTurnCredentials(userId: string, now = Date.now()) {
+  const expiresAt = Math.floor(now / 1000) + env.TURN_CREDENTIAL_TTL
+  const username = `${expiresAt}:${userId}`
+  const credential = createHmac('sha1', env.TURN_SECRET ?? '').update(username).digest('base64')
+
+  return { username, credential, expiresAt: new Date(expiresAt * 1000) }
+}
+
+export function getIceConfig(userId: string): IceConfig {
+  const iceServers: IceServer[] = []
+
+  const stunUrls = parseUrls(env.STUN_URLS)
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls })
+  }
+
+  const turnUrls = parseUrls(env.TURN_URLS ?? '')
+  if (turnUrls.length === 0 || !env.TURN_SECRET) {
+    return { iceServers, ttl: null, expiresAt: null }
+  }
+
+  const { username, credential, expiresAt } = createTurnCredentials(userId)
+  iceServers.push({ urls: turnUrls, username, credential })
+
+  return {
+    iceServers,
+    ttl: env.TURN_CREDENTIAL_TTL,
+    expiresAt: expiresAt.toISOString()
+  }
+}
@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client'
+import { Server as SocketIOServer } from 'socket.io'
+import { logger } from './logger.js'
+import { MinioClient } from './minio.js'
+import { JobQueue, QueueConnection } from './queue.js'
+import { VirusScanner, createScanner } from './scanner.js'
+
+interface ScanJob {
+  fileId: string
+}
+
+interface ScanWorkerDeps {
+  prisma: { file: Pick<PrismaClient['file'], 'findUnique' | 'update'> }
+  redis: QueueConnection
+  minio: Pick<MinioClient, 'getFileStream' | 'quarantineFile'>
+  io: Pick<SocketIOServer, 'to'>
+  scanner?: VirusScanner
+  // Called once a file has been marked CLEAN, and again if the job is retried
+  onClean?: (fileId: string) => Promise<void>
+}
+
+let queue: JobQueue<ScanJob> | null = null
+
+const getQueue = (redis: QueueConnection) => {
+  queue ??= new JobQueue<ScanJob>(redis, 'virus-scan')
+  return queue
+}
+
+export async function enqueueVirusScan(redis: QueueConnection, fileId: string): Promise<void> {
+  await getQueue(redis).enqueue({ fileId })
+}
+
+/**
+ * Consume the scan queue: stream each uploaded object through the scanner,
+ * record the verdict and move infected objects to the quarantine bucket.
+ * Files stay undownloadable until their status is CLEAN.
+ */
+export function startVirusScanWorker({ prisma, redis, minio, io, scanner = createScanner(), onClean }: ScanWorkerDeps) {
+  const scanQueue = getQueue(redis)
+
+  const notifyUploader = (file: { id: string; uploadedBy: string }, status: string) => {
+    io.to(`user:${file.uploadedBy}`).emit('file_scan_completed', { fileId: file.id, status })
+  }
+
+  const scanFile = async ({ fileId }: ScanJob) => {
+    const file = await prisma.file.findUnique({ where: { id: fileId } })
+
+    // A retry after the verdict was recorded only has to hand the file on again
+    if (file?.virusScanStatus === 'CLEAN') {
+      await onClean?.(fileId)
+      return
+    }
+
+    if (!file || file.virusScanStatus !== 'SCANNING') {
+      return
+    }
+
+    const stream = await minio.getFileStream(file.key, file.bucket)
+    const result = await scanner.scan(stream)
+
+    if (result.status === 'INFECTED') {
+      const bucket = await minio.quarantineFile(file.key)
+
+      await prisma.file.update({
+        where: { id: fileId },
+        data: {
+          virusScanStatus: 'INFECTED',
+          virusSignature: result.signature,
+          scannedAt: new Date(),
+          bucket,
+          version: { increment: 1 }
+        }
+      })
+
+      logger.warn(`File ${fileId} quarantined by ${scanner.name}: ${result.signature}`)
+      notifyUploader(file, 'INFECTED')
+      return
+    }
+
+    await prisma.file.update({
+      where: { id: fileId },
+      data: {
+        virusScanStatus: 'CLEAN',
+        scannedAt: new Date(),
+        version: { increment: 1 }
+      }
+    })
+
+    notifyUploader(file, 'CLEAN')
+    await onClean?.(fileId)
+  }
+
+  const markFailed = async ({ fileId }: ScanJob) => {
+    // Scanned fine, only handing it on failed; the file stays downloadable
+    const current = await prisma.file.findUnique({ where: { id: fileId } })
+    if (current?.virusScanStatus === 'CLEAN') {
+      logger.error(`Virus scan of file ${fileId} passed but it could not be handed on`)
+      return
+    }
+
+    const file = await prisma.file.update({
+      where: { id: fileId },
+      data: {
+        virusScanStatus: 'ERROR',
+        scannedAt: new Date(),
+        version: { increment: 1 }
+      }
+    })
+
+    notifyUploader(file, 'ERROR')
+  }
+
+  scanQueue.process(scanFile, markFailed).catch(error => {
+    logger.error('Virus scan worker stopped:', error)
+  })
+
+  logger.info(`Virus scan worker started (${scanner.name})`)
+
+  return scanQueue
+}
@@ -0,0 +1,71 @@
+import { decodeClientDataJSON } from '@simplewebauthn/server/helpers'
+import { Redis } from 'ioredis'
+import { env } from './env.js'
+
+// Relying party configuration shared by the registration and login ceremonies
+export const webauthnConfig = {
+  rpID: env.WEBAUTHN_RP_ID,
+  rpName: env.WEBAUTHN_RP_NAME,
+  origin: env.WEBAUTHN_ORIGIN ?? env.FRONTEND_URL,
+  timeout: 60000
+}
+
+// Challenges are single-use and expire shortly after the ceremony timeout
+export const CHALLENGE_TTL_SECONDS = 300
+
+export type PendingChallenge =
+  | {
+      type: 'registration'
+      // Set when an authenticated user is adding another passkey
+      userId?: string
+      // Set when the passkey is being used to create a new account
+      profile?: {
+        email: string
+        username: string
+        firstName: string
+        lastName: string
+      }
+    }
+  | {
+      type: 'authentication'
+      userId?: string
+    }
+
+export const challengeKey = (challenge: string) => `webauthn:challenge:${challenge}`
+
+/**
+ * Extract the challenge the authenticator signed from a base64url encoded
+ * clientDataJSON, or null when the payload cannot be decoded.
+ */
+export function getChallengeFromClientData(clientDataJSON: string): string | null {
+  try {
+    return decodeClientDataJSON(clientDataJSON).challenge
+  } catch {
+    return null
+  }
+}
+
+export const toBase64URL = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64url')
+
+export const fromBase64URL = (value: string) => new Uint8Array(Buffer.from(value, 'base64url'))
+
+/**
+ * Look up and delete the pending challenge referenced by a ceremony response.
+ * Returns null when the challenge is unknown, expired or was already used.
+ */
+export async function consumeChallenge(
+  redis: Redis,
+  clientDataJSON: string
+): Promise<{ challenge: string; pending: PendingChallenge } | null> {
+  const challenge = getChallengeFromClientData(clientDataJSON)
+  if (!challenge) {
+    return null
+  }
+
+  const stored = await redis.getdel(challengeKey(challenge))
+  if (!stored) {
+    return null
+  }
+
+  return { challenge, pending: JSON.parse(stored) as PendingChallenge }
+}
@@ -0,0 +1,103 @@
+import { inflateRawSync } from 'zlib'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Guards against zip bombs, no document part comes close
+const MAX_ENTRY_SIZE = 100 * 1024 * 1024
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipError'
+  }
+}
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+}
+
+function readEntries(archive: Buffer): ZipEntry[] {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  let end = -1
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 22 - 0xffff); offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) {
+    throw new ZipError('Not a zip archive')
+  }
+
+  const count = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+  const entries: ZipEntry[] = []
+
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipError('Corrupt central directory')
+    }
+
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+
+    entries.push({
+      name: archive.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size: archive.readUInt32LE(offset + 24),
+      localHeaderOffset: archive.readUInt32LE(offset + 42)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function readEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset
+  if (archive.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new ZipError(`Corrupt entry ${entry.name}`)
+  }
+
+  const start = header + 30 + archive.readUInt16LE(header + 26) + archive.readUInt16LE(header + 28)
+  const data = archive.subarray(start, start + entry.compressedSize)
+
+  if (entry.method === 0) {
+    return data
+  }
+  if (entry.method === 8) {
+    return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE })
+  }
+
+  throw new ZipError(`Unsupported compression method ${entry.method} for ${entry.name}`)
+}
+
+/**
+ * The text of the archive entries matching a filter, by name. Office
+ * documents (DOCX, XLSX) are zip archives of XML parts.
+ */
+export function readZipText(archive: Buffer, filter: (name: string) => boolean): Map<string, string> {
+  const parts = new Map<string, string>()
+
+  for (const entry of readEntries(archive)) {
+    if (!filter(entry.name)) {
+      continue
+    }
+    if (entry.size > MAX_ENTRY_SIZE) {
+      throw new ZipError(`Entry ${entry.name} is too large`)
+    }
+
+    parts.set(entry.name, readEntry(archive, entry).toString('utf8'))
+  }
+
+  return parts
+}
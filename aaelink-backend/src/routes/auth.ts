@@ -1,10 +1,43 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type VerifiedAuthenticationResponse,
+  type VerifiedRegistrationResponse
+} from '@simplewebauthn/server'
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  RegistrationResponseJSON
+} from '@simplewebauthn/typescript-types'
 import bcrypt from 'bcryptjs'
-import { FastifyInstance } from 'fastify'
+import { randomUUID } from 'crypto'
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
 import { SignJWT } from 'jose'
 import { z } from 'zod'
 import { prisma } from '../index.js'
 import { env } from '../lib/env.js'
 import { logger } from '../lib/logger.js'
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+  createSession,
+  getRefreshTokenSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken
+} from '../lib/sessions.js'
+import {
+  CHALLENGE_TTL_SECONDS,
+  challengeKey,
+  consumeChallenge,
+  fromBase64URL,
+  toBase64URL,
+  webauthnConfig,
+  type PendingChallenge
+} from '../lib/webauthn.js'
 
 const loginSchema = z.object({
   usernameOrEmail: z.string().min(1),
@@ -23,12 +56,101 @@ const passkeyRegisterSchema = z.object({
   email: z.string().email(),
   username: z.string().min(3).max(20),
   firstName: z.string().min(1),
-  lastName: z.string().min(1),
-  passkeyId: z.string(),
-  passkeyData: z.object({})
+  lastName: z.string().min(1)
+})
+
+const passkeyRegisterOptionsSchema = passkeyRegisterSchema.partial()
+
+const passkeyLoginOptionsSchema = z.object({
+  usernameOrEmail: z.string().min(1).optional()
+})
+
+// Credential JSON as produced by @simplewebauthn/browser
+const passkeyVerifySchema = z.object({
+  response: z.object({
+    id: z.string(),
+    rawId: z.string(),
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: z.string()
+    }).passthrough(),
+    clientExtensionResults: z.record(z.unknown()).default({})
+  }).passthrough(),
+  name: z.string().max(100).optional()
+})
+
+const passkeySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  transports: true,
+  createdAt: true,
+  lastUsedAt: true
+} as const
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional()
+})
+
+// The refresh cookie is only ever sent to the auth endpoints
+const REFRESH_COOKIE_PATH = '/api/auth'
+
+const signAccessToken = (user: { id: string; email: string; role: string }, sessionId: string) =>
+  new SignJWT({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+    .sign(new TextEncoder().encode(env.JWT_SECRET))
+
+const setAuthCookies = (reply: FastifyReply, token: string, refreshToken: string) => {
+  reply.setCookie('auth-token', token, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS
+  })
+
+  reply.setCookie('refresh-token', refreshToken, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS
+  })
+}
+
+const clearAuthCookies = (reply: FastifyReply) => {
+  reply.clearCookie('auth-token', { path: '/' })
+  reply.clearCookie('refresh-token', { path: REFRESH_COOKIE_PATH })
+}
+
+const sessionMeta = (request: FastifyRequest) => ({
+  userAgent: request.headers['user-agent'],
+  ip: request.ip
 })
 
 export default async function authRoutes(fastify: FastifyInstance) {
+  // Every sign-in starts a new session (refresh token family)
+  const issueTokens = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    user: { id: string; email: string; role: string }
+  ) => {
+    const { sessionId, refreshToken } = await createSession(fastify.redis, user.id, sessionMeta(request))
+    const token = await signAccessToken(user, sessionId)
+
+    setAuthCookies(reply, token, refreshToken)
+
+    return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  }
+
   // Login with username/email and password
   fastify.post('/login', {
     schema: {
@@ -65,24 +187,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
         data: { lastSeen: new Date() }
       })
 
-      // Generate JWT token
-      const token = await new SignJWT({
-        userId: user.id,
-        email: user.email,
-        role: user.role
-      })
-        .setProtectedHeader({ alg: 'HS256' })
-        .setIssuedAt()
-        .setExpirationTime('24h')
-        .sign(new TextEncoder().encode(env.JWT_SECRET))
-
-      // Set secure HTTP-only cookie
-      reply.setCookie('auth-token', token, {
-        httpOnly: true,
-        secure: env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 24 * 60 * 60 * 1000 // 24 hours
-      })
+      // Start a session and set the access/refresh cookies
+      const { token, expiresIn } = await issueTokens(request, reply, user)
 
       return {
         user: {
@@ -94,7 +200,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
           avatar: user.avatar,
           role: user.role
         },
-        token
+        token,
+        expiresIn
       }
     } catch (error) {
       logger.error('Login error:', error)
@@ -140,24 +247,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
         }
       })
 
-      // Generate JWT token
-      const token = await new SignJWT({
-        userId: user.id,
-        email: user.email,
-        role: user.role
-      })
-        .setProtectedHeader({ alg: 'HS256' })
-        .setIssuedAt()
-        .setExpirationTime('24h')
-        .sign(new TextEncoder().encode(env.JWT_SECRET))
-
-      // Set secure HTTP-only cookie
-      reply.setCookie('auth-token', token, {
-        httpOnly: true,
-        secure: env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 24 * 60 * 60 * 1000 // 24 hours
-      })
+      // Start a session and set the access/refresh cookies
+      const { token, expiresIn } = await issueTokens(request, reply, user)
 
       return {
         user: {
@@ -169,7 +260,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
           avatar: user.avatar,
           role: user.role
         },
-        token
+        token,
+        expiresIn
       }
     } catch (error) {
       logger.error('Registration error:', error)
@@ -177,21 +269,175 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   })
 
-  // Passkey registration
-  fastify.post('/passkey/register', {
+  // Passkey registration options (new account, or an extra passkey for the signed-in user)
+  fastify.post('/passkey/register/options', {
     schema: {
-      body: passkeyRegisterSchema
+      body: passkeyRegisterOptionsSchema
     }
   }, async (request, reply) => {
     try {
-      const { email, username, firstName, lastName, passkeyId, passkeyData } = request.body as z.infer<typeof passkeyRegisterSchema>
+      let currentUserId: string | null = null
+      try {
+        await request.jwtVerify()
+        currentUserId = request.user.userId
+      } catch (jwtError) {
+        // Not signed in, the passkey will create a new account
+      }
 
-      // Check if user already exists
+      let pending: PendingChallenge
+      let userID: string
+      let userName: string
+      let userDisplayName: string
+      let excludeCredentials: { id: Uint8Array; type: 'public-key'; transports: AuthenticatorTransportFuture[] }[] = []
+
+      if (currentUserId) {
+        const user = await prisma.user.findUnique({
+          where: { id: currentUserId },
+          include: { passkeys: true }
+        })
+
+        if (!user || !user.isActive) {
+          return reply.code(401).send({ error: 'Unauthorized' })
+        }
+
+        userID = user.id
+        userName = user.username
+        userDisplayName = `${user.firstName} ${user.lastName}`
+        excludeCredentials = user.passkeys.map(passkey => ({
+          id: fromBase64URL(passkey.credentialId),
+          type: 'public-key',
+          transports: passkey.transports as AuthenticatorTransportFuture[]
+        }))
+        pending = { type: 'registration', userId: user.id }
+      } else {
+        const parsed = passkeyRegisterSchema.safeParse(request.body)
+        if (!parsed.success) {
+          return reply.code(400).send({ error: 'Validation Error', details: parsed.error.issues })
+        }
+
+        const { email, username, firstName, lastName } = parsed.data
+
+        // Check if user already exists
+        const existingUser = await prisma.user.findFirst({
+          where: {
+            OR: [
+              { email },
+              { username }
+            ]
+          }
+        })
+
+        if (existingUser) {
+          return reply.code(409).send({ error: 'User already exists' })
+        }
+
+        userID = randomUUID()
+        userName = username
+        userDisplayName = `${firstName} ${lastName}`
+        pending = { type: 'registration', profile: { email, username, firstName, lastName } }
+      }
+
+      const options = await generateRegistrationOptions({
+        rpName: webauthnConfig.rpName,
+        rpID: webauthnConfig.rpID,
+        userID,
+        userName,
+        userDisplayName,
+        timeout: webauthnConfig.timeout,
+        attestationType: 'direct',
+        excludeCredentials,
+        authenticatorSelection: {
+          residentKey: 'preferred',
+          userVerification: 'required'
+        }
+      })
+
+      await fastify.redis.setex(challengeKey(options.challenge), CHALLENGE_TTL_SECONDS, JSON.stringify(pending))
+
+      return { options }
+    } catch (error) {
+      logger.error('Passkey registration options error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Passkey registration verification
+  fastify.post('/passkey/register/verify', {
+    schema: {
+      body: passkeyVerifySchema
+    }
+  }, async (request, reply) => {
+    try {
+      const { response, name } = request.body as z.infer<typeof passkeyVerifySchema>
+      const credential = response as unknown as RegistrationResponseJSON
+
+      const ceremony = await consumeChallenge(fastify.redis, credential.response.clientDataJSON)
+      if (!ceremony || ceremony.pending.type !== 'registration') {
+        return reply.code(400).send({ error: 'Challenge expired or invalid' })
+      }
+
+      let verification: VerifiedRegistrationResponse
+      try {
+        verification = await verifyRegistrationResponse({
+          response: credential,
+          expectedChallenge: ceremony.challenge,
+          expectedOrigin: webauthnConfig.origin,
+          expectedRPID: webauthnConfig.rpID,
+          requireUserVerification: true
+        })
+      } catch (verifyError) {
+        logger.warn('Passkey attestation rejected:', verifyError)
+        return reply.code(400).send({ error: 'Passkey verification failed' })
+      }
+
+      const { registrationInfo } = verification
+      if (!verification.verified || !registrationInfo) {
+        return reply.code(400).send({ error: 'Passkey verification failed' })
+      }
+
+      const credentialId = toBase64URL(registrationInfo.credentialID)
+      const existingPasskey = await prisma.passkey.findUnique({
+        where: { credentialId }
+      })
+
+      if (existingPasskey) {
+        return reply.code(409).send({ error: 'Passkey already registered' })
+      }
+
+      const passkeyData = {
+        credentialId,
+        publicKey: Buffer.from(registrationInfo.credentialPublicKey),
+        counter: registrationInfo.counter,
+        transports: credential.response.transports ?? [],
+        deviceType: registrationInfo.credentialDeviceType,
+        backedUp: registrationInfo.credentialBackedUp,
+        name: name ?? null
+      }
+
+      // Extra passkey for an existing account
+      if (ceremony.pending.userId) {
+        const passkey = await prisma.passkey.create({
+          data: {
+            ...passkeyData,
+            userId: ceremony.pending.userId
+          },
+          select: passkeySelect
+        })
+
+        return { verified: true, passkey }
+      }
+
+      const profile = ceremony.pending.profile
+      if (!profile) {
+        return reply.code(400).send({ error: 'Challenge expired or invalid' })
+      }
+
+      // The username or email may have been taken while the ceremony was running
       const existingUser = await prisma.user.findFirst({
         where: {
           OR: [
-            { email },
-            { username }
+            { email: profile.email },
+            { username: profile.username }
           ]
         }
       })
@@ -203,36 +449,20 @@ export default async function authRoutes(fastify: FastifyInstance) {
       // Create user with passkey
       const user = await prisma.user.create({
         data: {
-          email,
-          username,
-          firstName,
-          lastName,
-          passkeyId,
-          passkeyData,
-          role: 'USER'
+          ...profile,
+          role: 'USER',
+          lastSeen: new Date(),
+          passkeys: {
+            create: passkeyData
+          }
         }
       })
 
-      // Generate JWT token
-      const token = await new SignJWT({
-        userId: user.id,
-        email: user.email,
-        role: user.role
-      })
-        .setProtectedHeader({ alg: 'HS256' })
-        .setIssuedAt()
-        .setExpirationTime('24h')
-        .sign(new TextEncoder().encode(env.JWT_SECRET))
-
-      // Set secure HTTP-only cookie
-      reply.setCookie('auth-token', token, {
-        httpOnly: true,
-        secure: env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 24 * 60 * 60 * 1000 // 24 hours
-      })
+      // Start a session and set the access/refresh cookies
+      const { token, expiresIn } = await issueTokens(request, reply, user)
 
       return {
+        verified: true,
         user: {
           id: user.id,
           email: user.email,
@@ -242,7 +472,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
           avatar: user.avatar,
           role: user.role
         },
-        token
+        token,
+        expiresIn
       }
     } catch (error) {
       logger.error('Passkey registration error:', error)
@@ -250,55 +481,134 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   })
 
-  // Passkey login
-  fastify.post('/passkey/login', {
+  // Passkey login options
+  fastify.post('/passkey/login/options', {
     schema: {
-      body: z.object({
-        passkeyId: z.string()
-      })
+      body: passkeyLoginOptionsSchema
     }
   }, async (request, reply) => {
     try {
-      const { passkeyId } = request.body as { passkeyId: string }
+      const { usernameOrEmail } = (request.body ?? {}) as z.infer<typeof passkeyLoginOptionsSchema>
+
+      const pending: PendingChallenge = { type: 'authentication' }
+      let allowCredentials: { id: Uint8Array; type: 'public-key'; transports: AuthenticatorTransportFuture[] }[] = []
+
+      // Without a username the browser offers its discoverable credentials
+      if (usernameOrEmail) {
+        const user = await prisma.user.findFirst({
+          where: {
+            OR: [
+              { username: usernameOrEmail },
+              { email: usernameOrEmail }
+            ],
+            isActive: true
+          },
+          include: { passkeys: true }
+        })
 
-      // Find user by passkey ID
-      const user = await prisma.user.findUnique({
-        where: {
-          passkeyId,
-          isActive: true
+        if (user && user.passkeys.length > 0) {
+          pending.userId = user.id
+          allowCredentials = user.passkeys.map(passkey => ({
+            id: fromBase64URL(passkey.credentialId),
+            type: 'public-key',
+            transports: passkey.transports as AuthenticatorTransportFuture[]
+          }))
         }
+      }
+
+      const options = await generateAuthenticationOptions({
+        rpID: webauthnConfig.rpID,
+        timeout: webauthnConfig.timeout,
+        userVerification: 'required',
+        allowCredentials
       })
 
-      if (!user) {
+      await fastify.redis.setex(challengeKey(options.challenge), CHALLENGE_TTL_SECONDS, JSON.stringify(pending))
+
+      return { options }
+    } catch (error) {
+      logger.error('Passkey login options error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Passkey login verification
+  fastify.post('/passkey/login/verify', {
+    schema: {
+      body: passkeyVerifySchema
+    }
+  }, async (request, reply) => {
+    try {
+      const { response } = request.body as z.infer<typeof passkeyVerifySchema>
+      const credential = response as unknown as AuthenticationResponseJSON
+
+      const ceremony = await consumeChallenge(fastify.redis, credential.response.clientDataJSON)
+      if (!ceremony || ceremony.pending.type !== 'authentication') {
+        return reply.code(400).send({ error: 'Challenge expired or invalid' })
+      }
+
+      const passkey = await prisma.passkey.findUnique({
+        where: { credentialId: credential.id },
+        include: { user: true }
+      })
+
+      if (!passkey || !passkey.user.isActive) {
+        return reply.code(401).send({ error: 'Invalid passkey' })
+      }
+
+      // Options issued for a specific user must be answered by one of their passkeys
+      if (ceremony.pending.userId && ceremony.pending.userId !== passkey.userId) {
+        return reply.code(401).send({ error: 'Invalid passkey' })
+      }
+
+      let verification: VerifiedAuthenticationResponse
+      try {
+        verification = await verifyAuthenticationResponse({
+          response: credential,
+          expectedChallenge: ceremony.challenge,
+          expectedOrigin: webauthnConfig.origin,
+          expectedRPID: webauthnConfig.rpID,
+          authenticator: {
+            credentialID: fromBase64URL(passkey.credentialId),
+            credentialPublicKey: new Uint8Array(passkey.publicKey),
+            counter: passkey.counter,
+            transports: passkey.transports as AuthenticatorTransportFuture[]
+          },
+          requireUserVerification: true
+        })
+      } catch (verifyError) {
+        // Also raised when the signature counter did not increase (possible cloned authenticator)
+        logger.warn(`Passkey assertion rejected for credential ${passkey.id}:`, verifyError)
         return reply.code(401).send({ error: 'Invalid passkey' })
       }
 
+      if (!verification.verified) {
+        return reply.code(401).send({ error: 'Invalid passkey' })
+      }
+
+      const { authenticationInfo } = verification
+      const user = passkey.user
+
+      await prisma.passkey.update({
+        where: { id: passkey.id },
+        data: {
+          counter: authenticationInfo.newCounter,
+          backedUp: authenticationInfo.credentialBackedUp,
+          lastUsedAt: new Date()
+        }
+      })
+
       // Update last seen
       await prisma.user.update({
         where: { id: user.id },
         data: { lastSeen: new Date() }
       })
 
-      // Generate JWT token
-      const token = await new SignJWT({
-        userId: user.id,
-        email: user.email,
-        role: user.role
-      })
-        .setProtectedHeader({ alg: 'HS256' })
-        .setIssuedAt()
-        .setExpirationTime('24h')
-        .sign(new TextEncoder().encode(env.JWT_SECRET))
-
-      // Set secure HTTP-only cookie
-      reply.setCookie('auth-token', token, {
-        httpOnly: true,
-        secure: env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 24 * 60 * 60 * 1000 // 24 hours
-      })
+      // Start a session and set the access/refresh cookies
+      const { token, expiresIn } = await issueTokens(request, reply, user)
 
       return {
+        verified: true,
         user: {
           id: user.id,
           email: user.email,
@@ -308,7 +618,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
           avatar: user.avatar,
           role: user.role
         },
-        token
+        token,
+        expiresIn
       }
     } catch (error) {
       logger.error('Passkey login error:', error)
@@ -316,12 +627,183 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   })
 
-  // Logout
+  // List the current user's passkeys
+  fastify.get('/passkeys', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const passkeys = await prisma.passkey.findMany({
+        where: { userId: request.user.userId },
+        select: passkeySelect,
+        orderBy: { createdAt: 'asc' }
+      })
+
+      return { passkeys }
+    } catch (error) {
+      logger.error('List passkeys error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Remove one of the current user's passkeys
+  fastify.delete('/passkeys/:passkeyId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { passkeyId } = request.params as { passkeyId: string }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        include: { passkeys: { select: { id: true } } }
+      })
+
+      if (!user || !user.passkeys.some(passkey => passkey.id === passkeyId)) {
+        return reply.code(404).send({ error: 'Passkey not found' })
+      }
+
+      // Never leave an account without a way to sign in
+      if (!user.passwordHash && user.passkeys.length === 1) {
+        return reply.code(400).send({ error: 'Cannot remove the only sign-in method' })
+      }
+
+      await prisma.passkey.delete({
+        where: { id: passkeyId }
+      })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Delete passkey error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Exchange a refresh token for a new access/refresh pair
+  fastify.post('/refresh', async (request, reply) => {
+    try {
+      // Browsers rely on the cookie, other clients send the token in the body
+      const body = refreshSchema.safeParse(request.body ?? {})
+      const presented = (body.success ? body.data.refreshToken : undefined) ?? request.cookies['refresh-token']
+
+      if (!presented) {
+        return reply.code(401).send({ error: 'Refresh token required' })
+      }
+
+      const result = await rotateRefreshToken(fastify.redis, presented, sessionMeta(request))
+
+      if (result.status === 'reused') {
+        logger.warn(`Refresh token reuse detected, revoked session ${result.sessionId} of user ${result.userId}`)
+      }
+
+      if (result.status !== 'ok') {
+        clearAuthCookies(reply)
+        return reply.code(401).send({ error: 'Invalid refresh token' })
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: result.userId }
+      })
+
+      if (!user || !user.isActive) {
+        await revokeSession(fastify.redis, result.userId, result.sessionId)
+        clearAuthCookies(reply)
+        return reply.code(401).send({ error: 'Invalid refresh token' })
+      }
+
+      const token = await signAccessToken(user, result.sessionId)
+      setAuthCookies(reply, token, result.refreshToken)
+
+      return { token, refreshToken: result.refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+    } catch (error) {
+      logger.error('Refresh token error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Logout: revoke the current session
   fastify.post('/logout', async (request, reply) => {
-    reply.clearCookie('auth-token')
+    try {
+      try {
+        await request.jwtVerify()
+        if (request.user.sessionId) {
+          await revokeSession(fastify.redis, request.user.userId, request.user.sessionId)
+        }
+      } catch {
+        // An expired access token still allows signing out with the refresh token
+        const refreshToken = request.cookies['refresh-token']
+        const session = refreshToken ? await getRefreshTokenSession(fastify.redis, refreshToken) : null
+        if (session) {
+          await revokeSession(fastify.redis, session.userId, session.sessionId)
+        }
+      }
+    } catch (error) {
+      logger.error('Logout error:', error)
+    }
+
+    clearAuthCookies(reply)
     return { message: 'Logged out successfully' }
   })
 
+  // Sign out everywhere: revoke every session of the current user
+  fastify.post('/logout-all', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const revoked = await revokeAllSessions(fastify.redis, request.user.userId)
+
+      clearAuthCookies(reply)
+      return { message: 'Signed out of all sessions', revoked }
+    } catch (error) {
+      logger.error('Logout all error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // List active sessions with device and IP information
+  fastify.get('/sessions', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const sessions = await listSessions(fastify.redis, request.user.userId)
+
+      return {
+        sessions: sessions.map(session => ({
+          ...session,
+          current: session.id === request.user.sessionId
+        }))
+      }
+    } catch (error) {
+      logger.error('List sessions error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Revoke a single session
+  fastify.delete('/sessions/:sessionId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const { sessionId } = request.params as { sessionId: string }
+      const userId = request.user.userId
+
+      const sessions = await listSessions(fastify.redis, userId)
+      if (!sessions.some(session => session.id === sessionId)) {
+        return reply.code(404).send({ error: 'Session not found' })
+      }
+
+      await revokeSession(fastify.redis, userId, sessionId)
+
+      if (sessionId === request.user.sessionId) {
+        clearAuthCookies(reply)
+      }
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Revoke session error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
   // Get current user
   fastify.get('/me', {
     preHandler: [fastify.authenticate]
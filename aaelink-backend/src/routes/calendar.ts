@@ -1,6 +1,17 @@
 import { FastifyInstance } from 'fastify'
 import { z } from 'zod'
 import { prisma } from '../index.js'
+import { enqueueNotification } from '../lib/notifications.js'
+import { ifMatchAllows, isVersionMismatch, sendVersionConflict, versionTag } from '../lib/versioning.js'
+
+const updateEventSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  startTime: z.string().datetime().optional(),
+  endTime: z.string().datetime().optional(),
+  location: z.string().nullable().optional(),
+  attendees: z.array(z.string()).optional()
+})
 
 export default async function calendarRoutes(fastify: FastifyInstance) {
   // Get calendar events
@@ -69,9 +80,88 @@ export default async function calendarRoutes(fastify: FastifyInstance) {
         }
       })
 
+      await enqueueNotification(fastify.redis, {
+        kind: 'calendar_invite',
+        eventId: event.id,
+        attendeeIds: eventData.attendees
+      })
+
       return { event }
     } catch (error) {
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
+
+  // Update calendar event (organizer only)
+  fastify.patch('/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: updateEventSchema
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      const userId = request.user.userId
+      const changes = request.body as z.infer<typeof updateEventSchema>
+
+      const current = await prisma.calendarEvent.findUnique({
+        where: { id }
+      })
+
+      if (!current) {
+        return reply.code(404).send({ error: 'Event not found' })
+      }
+
+      if (current.createdBy !== userId) {
+        return reply.code(403).send({ error: 'Only the organizer can change this event' })
+      }
+
+      if (!ifMatchAllows(request, current.version)) {
+        return sendVersionConflict(reply, current)
+      }
+
+      const startTime = changes.startTime ? new Date(changes.startTime) : current.startTime
+      const endTime = changes.endTime ? new Date(changes.endTime) : current.endTime
+      if (startTime >= endTime) {
+        return reply.code(400).send({ error: 'endTime must be after startTime' })
+      }
+
+      const previousAttendees = Array.isArray(current.attendees) ? current.attendees as string[] : []
+      const attendees = changes.attendees ? [...new Set([...changes.attendees, userId])] : previousAttendees
+
+      // Guarded by the version read above so a concurrent edit is not overwritten
+      const event = await prisma.calendarEvent.update({
+        where: { id, version: current.version },
+        data: {
+          ...(changes.title !== undefined ? { title: changes.title } : {}),
+          ...(changes.description !== undefined ? { description: changes.description } : {}),
+          ...(changes.location !== undefined ? { location: changes.location } : {}),
+          startTime,
+          endTime,
+          attendees,
+          version: { increment: 1 }
+        }
+      })
+
+      const invited = attendees.filter(attendeeId => !previousAttendees.includes(attendeeId))
+      if (invited.length > 0) {
+        await enqueueNotification(fastify.redis, {
+          kind: 'calendar_invite',
+          eventId: event.id,
+          attendeeIds: invited
+        })
+      }
+
+      return reply.header('ETag', versionTag(event.version)).send({ event })
+    } catch (error) {
+      if (isVersionMismatch(error)) {
+        const current = await prisma.calendarEvent.findUnique({ where: { id } })
+        return current
+          ? sendVersionConflict(reply, current)
+          : reply.code(404).send({ error: 'Event not found' })
+      }
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
 }
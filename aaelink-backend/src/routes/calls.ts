@@ -1,11 +1,38 @@
+import { randomUUID } from 'crypto'
 import { FastifyInstance } from 'fastify'
 import { z } from 'zod'
 import { prisma } from '../index.js'
+import {
+  acceptCall,
+  callInclude,
+  cancelCall,
+  declineCall,
+  emitToParticipants,
+  endCall,
+  findBusyUsers,
+  isCallActive,
+  scheduleRingTimeout
+} from '../lib/calls.js'
+import { env } from '../lib/env.js'
 import { logger } from '../lib/logger.js'
+import { enqueueNotification, findQuietUsers } from '../lib/notifications.js'
+import {
+  RECORDING_MIME_TYPES,
+  RECORDING_PLAYBACK_URL_EXPIRY,
+  RECORDING_UPLOAD_URL_EXPIRY,
+  recordingKey,
+  recordingPlaybackPath,
+  stopActiveRecording
+} from '../lib/recordings.js'
+import { getIceConfig } from '../lib/turn.js'
 
 const createCallSchema = z.object({
   type: z.enum(['VIDEO', 'AUDIO', 'SCREEN_SHARE']).default('VIDEO'),
-  participants: z.array(z.string()).min(1)
+  // Defaults to every other member when calling a group
+  participants: z.array(z.string()).default([]),
+  groupId: z.string().optional(),
+  // Rings callees even while they are in do-not-disturb
+  urgent: z.boolean().default(false)
 })
 
 const joinCallSchema = z.object({
@@ -16,7 +43,35 @@ const endCallSchema = z.object({
   callId: z.string()
 })
 
+const callActionSchema = z.object({
+  callId: z.string()
+})
+
+const recordingConsentSchema = z.object({
+  callId: z.string(),
+  consent: z.boolean()
+})
+
+const startRecordingSchema = z.object({
+  callId: z.string(),
+  mimeType: z.enum(RECORDING_MIME_TYPES).default('video/webm')
+})
+
 export default async function callRoutes(fastify: FastifyInstance) {
+  const deps = () => ({ prisma, redis: fastify.redis, io: fastify.io })
+
+  // Calls are only visible to their participants
+  const findCall = (callId: string, userId: string) =>
+    prisma.call.findFirst({
+      where: {
+        id: callId,
+        participants: {
+          some: { userId }
+        }
+      },
+      include: callInclude
+    })
+
   // Create a new call
   fastify.post('/create', {
     preHandler: [fastify.authenticate],
@@ -26,51 +81,171 @@ export default async function callRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const userId = request.user.userId
-      const { type, participants } = request.body as z.infer<typeof createCallSchema>
+      const { type, participants, groupId, urgent } = request.body as z.infer<typeof createCallSchema>
 
-      // Add creator to participants
-      const allParticipants = [...participants, userId]
+      let calleeIds = participants
+      if (groupId) {
+        const members = await prisma.groupMember.findMany({
+          where: { groupId },
+          select: { userId: true }
+        })
+        const memberIds = members.map(member => member.userId)
+
+        if (!memberIds.includes(userId)) {
+          return reply.code(403).send({ error: 'Not a member of this group' })
+        }
+
+        if (calleeIds.length === 0) {
+          calleeIds = memberIds
+        } else if (calleeIds.some(id => !memberIds.includes(id))) {
+          return reply.code(400).send({ error: 'Participants must be members of the group' })
+        }
+      }
+
+      calleeIds = [...new Set(calleeIds)].filter(id => id !== userId)
+      if (calleeIds.length === 0) {
+        return reply.code(400).send({ error: 'A call needs at least one other participant' })
+      }
+
+      const busyUserIds = await findBusyUsers(prisma, calleeIds)
+      const ringing = calleeIds.filter(id => !busyUserIds.includes(id))
 
       // Create call
       const call = await prisma.call.create({
         data: {
           type,
-          status: 'INITIATED',
+          status: ringing.length > 0 ? 'RINGING' : 'BUSY',
+          initiatorId: userId,
+          groupId: groupId ?? null,
+          isUrgent: urgent,
+          endedAt: ringing.length > 0 ? null : new Date(),
           participants: {
-            create: allParticipants.map(participantId => ({
-              userId: participantId
-            }))
+            create: [
+              { userId, status: 'ACCEPTED' },
+              ...calleeIds.map(participantId => ({
+                userId: participantId,
+                status: busyUserIds.includes(participantId) ? 'BUSY' as const : 'INVITED' as const
+              }))
+            ]
           }
         },
-        include: {
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  firstName: true,
-                  lastName: true,
-                  avatar: true
-                }
-              }
-            }
-          }
-        }
+        include: callInclude
       })
 
-      // Emit real-time event to all participants
-      allParticipants.forEach(participantId => {
-        fastify.io.to(`user:${participantId}`).emit('call_created', call)
-      })
+      if (busyUserIds.length > 0) {
+        fastify.io.to(`user:${userId}`).emit('call_busy', { callId: call.id, userIds: busyUserIds })
+      }
+
+      if (ringing.length > 0) {
+        await scheduleRingTimeout(fastify.redis, call.id)
+        await enqueueNotification(fastify.redis, { kind: 'call', callId: call.id })
 
-      return { call }
+        // Emit real-time event to the caller and everyone who is ringing;
+        // clients of callees in do-not-disturb or who muted the conversation show it without ringing
+        const quietUserIds = await findQuietUsers(prisma, ringing, groupId ? { groupId } : { peerId: userId }, urgent)
+        for (const participantId of [userId, ...ringing]) {
+          fastify.io.to(`user:${participantId}`).emit('call_created', { ...call, quiet: quietUserIds.includes(participantId) })
+        }
+      }
+
+      return { call, busyUserIds }
     } catch (error) {
       logger.error('Create call error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
 
+  // Answer a ringing call
+  fastify.post('/accept', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: callActionSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { callId } = request.body as z.infer<typeof callActionSchema>
+
+      const call = await findCall(callId, userId)
+      if (!call) {
+        return reply.code(404).send({ error: 'Call not found or not authorized' })
+      }
+
+      const participant = call.participants.find(p => p.userId === userId)
+      if (!isCallActive(call) || participant?.status !== 'INVITED') {
+        return reply.code(409).send({ error: 'Call is not ringing for this user' })
+      }
+
+      await acceptCall(deps(), call, userId)
+
+      return { call: await findCall(callId, userId) }
+    } catch (error) {
+      logger.error('Accept call error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Refuse a ringing call
+  fastify.post('/decline', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: callActionSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { callId } = request.body as z.infer<typeof callActionSchema>
+
+      const call = await findCall(callId, userId)
+      if (!call) {
+        return reply.code(404).send({ error: 'Call not found or not authorized' })
+      }
+
+      const participant = call.participants.find(p => p.userId === userId)
+      if (!isCallActive(call) || participant?.status !== 'INVITED') {
+        return reply.code(409).send({ error: 'Call is not ringing for this user' })
+      }
+
+      await declineCall(deps(), call, userId)
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Decline call error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Hang up before anyone answered (caller only)
+  fastify.post('/cancel', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: callActionSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { callId } = request.body as z.infer<typeof callActionSchema>
+
+      const call = await findCall(callId, userId)
+      if (!call) {
+        return reply.code(404).send({ error: 'Call not found or not authorized' })
+      }
+
+      if (call.initiatorId !== userId) {
+        return reply.code(403).send({ error: 'Only the caller can cancel a call' })
+      }
+
+      if (!(await cancelCall(deps(), call))) {
+        return reply.code(409).send({ error: 'Call is no longer ringing' })
+      }
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Cancel call error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
   // Join a call
   fastify.post('/join', {
     preHandler: [fastify.authenticate],
@@ -83,51 +258,31 @@ export default async function callRoutes(fastify: FastifyInstance) {
       const { callId } = request.body as z.infer<typeof joinCallSchema>
 
       // Check if call exists and user is a participant
-      const call = await prisma.call.findFirst({
-        where: {
-          id: callId,
-          participants: {
-            some: { userId }
-          }
-        },
-        include: {
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  firstName: true,
-                  lastName: true,
-                  avatar: true
-                }
-              }
-            }
-          }
-        }
-      })
+      const call = await findCall(callId, userId)
 
       if (!call) {
         return reply.code(404).send({ error: 'Call not found or not authorized' })
       }
 
-      // Update call status if needed
-      if (call.status === 'INITIATED') {
-        await prisma.call.update({
-          where: { id: callId },
-          data: { status: 'RINGING' }
-        })
+      if (!isCallActive(call)) {
+        return reply.code(409).send({ error: 'Call has ended' })
+      }
+
+      // Joining a call that is ringing for the user answers it
+      const participant = call.participants.find(p => p.userId === userId)
+      if (participant?.status === 'INVITED') {
+        await acceptCall(deps(), call, userId)
       }
 
       // Emit real-time event
-      call.participants.forEach((participant: any) => {
+      call.participants.forEach(participant => {
         fastify.io.to(`user:${participant.userId}`).emit('user_joined_call', {
           callId,
-          user: participant.user
+          user: call.participants.find(p => p.userId === userId)?.user
         })
       })
 
-      return { call }
+      return { call: await findCall(callId, userId) }
     } catch (error) {
       logger.error('Join call error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
@@ -146,59 +301,244 @@ export default async function callRoutes(fastify: FastifyInstance) {
       const { callId } = request.body as z.infer<typeof endCallSchema>
 
       // Check if call exists and user is a participant
-      const call = await prisma.call.findFirst({
+      const call = await findCall(callId, userId)
+
+      if (!call) {
+        return reply.code(404).send({ error: 'Call not found or not authorized' })
+      }
+
+      const duration = await endCall(deps(), callId, userId)
+      if (duration === null) {
+        return reply.code(409).send({ error: 'Call has already ended' })
+      }
+
+      return { success: true, duration }
+    } catch (error) {
+      logger.error('End call error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Give or withdraw consent to being recorded in a call
+  fastify.post('/recording/consent', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: recordingConsentSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { callId, consent } = request.body as z.infer<typeof recordingConsentSchema>
+
+      const call = await findCall(callId, userId)
+      if (!call) {
+        return reply.code(404).send({ error: 'Call not found or not authorized' })
+      }
+
+      await prisma.callParticipant.update({
         where: {
-          id: callId,
-          participants: {
-            some: { userId }
-          }
+          callId_userId: { callId, userId }
         },
-        include: {
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  firstName: true,
-                  lastName: true,
-                  avatar: true
-                }
-              }
-            }
-          }
-        }
+        data: { recordingConsent: consent }
       })
 
+      // Withdrawing consent stops a running recording immediately
+      if (!consent) {
+        await stopActiveRecording({ prisma, io: fastify.io }, callId, userId)
+      }
+
+      emitToParticipants(fastify.io, call, 'call_recording_consent', { callId, userId, consent })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Recording consent error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Start recording; everyone in the call has to have consented, and anyone answering later without consent stops it.
+  // Calls are peer-to-peer, so the media is captured by the recorder's client, not by the server
+  fastify.post('/recording/start', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: startRecordingSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { callId, mimeType } = request.body as z.infer<typeof startRecordingSchema>
+
+      const call = await findCall(callId, userId)
       if (!call) {
         return reply.code(404).send({ error: 'Call not found or not authorized' })
       }
 
-      // Calculate duration
-      const duration = Math.floor((Date.now() - call.startedAt.getTime()) / 1000)
+      if (call.status !== 'CONNECTED') {
+        return reply.code(409).send({ error: 'Only connected calls can be recorded' })
+      }
+
+      const missingConsent = call.participants
+        .filter(p => p.status === 'ACCEPTED' && p.userId !== userId && !p.recordingConsent)
+        .map(p => p.userId)
 
-      // Update call
-      await prisma.call.update({
-        where: { id: callId },
+      if (missingConsent.length > 0) {
+        return reply.code(409).send({ error: 'All participants must consent to recording', missingConsent })
+      }
+
+      const active = await prisma.callRecording.findFirst({
+        where: { callId, status: 'RECORDING' }
+      })
+      if (active) {
+        return reply.code(409).send({ error: 'Call is already being recorded' })
+      }
+
+      // Starting a recording is consenting to it
+      await prisma.callParticipant.update({
+        where: {
+          callId_userId: { callId, userId }
+        },
+        data: { recordingConsent: true }
+      })
+
+      const recordingId = randomUUID()
+      const recording = await prisma.callRecording.create({
         data: {
-          status: 'ENDED',
-          endedAt: new Date(),
-          duration
+          id: recordingId,
+          callId,
+          startedBy: userId,
+          mimeType,
+          key: recordingKey(callId, recordingId, mimeType)
         }
       })
 
-      // Emit real-time event
-      call.participants.forEach((participant: any) => {
-        fastify.io.to(`user:${participant.userId}`).emit('call_ended', {
-          callId,
-          duration,
-          endedBy: userId
+      await enqueueNotification(fastify.redis, { kind: 'recording_started', callId, startedBy: userId })
+
+      emitToParticipants(fastify.io, call, 'call_recording_started', {
+        callId,
+        recordingId,
+        startedBy: userId
+      })
+
+      // The recorder's client uploads the media here once recording stops
+      const { uploadUrl } = await fastify.minio.generateUploadUrl(recording.key, mimeType, RECORDING_UPLOAD_URL_EXPIRY)
+
+      return { recording, uploadUrl }
+    } catch (error) {
+      logger.error('Start recording error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Stop the running recording (any participant)
+  fastify.post('/recording/stop', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: callActionSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { callId } = request.body as z.infer<typeof callActionSchema>
+
+      const call = await findCall(callId, userId)
+      if (!call) {
+        return reply.code(404).send({ error: 'Call not found or not authorized' })
+      }
+
+      const recording = await stopActiveRecording({ prisma, io: fastify.io }, callId, userId)
+      if (!recording) {
+        return reply.code(409).send({ error: 'Call is not being recorded' })
+      }
+
+      return { recording }
+    } catch (error) {
+      logger.error('Stop recording error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Recorder confirms the media has been uploaded
+  fastify.post('/recordings/:recordingId/complete', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { recordingId } = request.params as { recordingId: string }
+
+      const recording = await prisma.callRecording.findUnique({
+        where: { id: recordingId }
+      })
+
+      if (!recording || recording.startedBy !== userId) {
+        return reply.code(404).send({ error: 'Recording not found' })
+      }
+
+      if (recording.status !== 'UPLOADING') {
+        return reply.code(409).send({ error: 'Recording is not awaiting upload' })
+      }
+
+      const size = await fastify.minio.getFileSize(recording.key)
+      if (size === null) {
+        return reply.code(409).send({ error: 'Recording has not been uploaded' })
+      }
+
+      const expiresAt = new Date(Date.now() + env.CALL_RECORDING_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      const [completed, call] = await prisma.$transaction([
+        prisma.callRecording.update({
+          where: { id: recordingId },
+          data: { status: 'READY', size, expiresAt }
+        }),
+        prisma.call.update({
+          where: { id: recording.callId },
+          data: { recordingUrl: recordingPlaybackPath(recordingId) },
+          include: callInclude
         })
+      ])
+
+      emitToParticipants(fastify.io, call, 'call_recording_ready', {
+        callId: recording.callId,
+        recordingId
       })
 
-      return { success: true, duration }
+      return { recording: completed }
     } catch (error) {
-      logger.error('End call error:', error)
+      logger.error('Complete recording error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Playback link for a recording (participants only)
+  fastify.get('/recordings/:recordingId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { recordingId } = request.params as { recordingId: string }
+
+      const recording = await prisma.callRecording.findFirst({
+        where: {
+          id: recordingId,
+          call: {
+            participants: {
+              some: { userId }
+            }
+          }
+        }
+      })
+
+      if (!recording) {
+        return reply.code(404).send({ error: 'Recording not found' })
+      }
+
+      if (recording.status !== 'READY') {
+        return reply.code(409).send({ error: 'Recording is not available' })
+      }
+
+      const url = await fastify.minio.getFileUrl(recording.key, RECORDING_PLAYBACK_URL_EXPIRY)
+
+      return { recording, url }
+    } catch (error) {
+      logger.error('Get recording error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
@@ -230,25 +570,26 @@ export default async function callRoutes(fastify: FastifyInstance) {
       const calls = await prisma.call.findMany({
         where,
         include: {
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  firstName: true,
-                  lastName: true,
-                  avatar: true
-                }
-              }
-            }
+          ...callInclude,
+          recordings: {
+            where: { status: 'READY' },
+            orderBy: { startedAt: 'asc' }
           }
         },
         orderBy: { startedAt: 'desc' },
         take: limit
       })
 
-      return { calls }
+      // History only lists the user's own calls, so every recording in it may be played
+      const withPlaybackUrls = await Promise.all(calls.map(async call => ({
+        ...call,
+        recordings: await Promise.all(call.recordings.map(async recording => ({
+          ...recording,
+          url: await fastify.minio.getFileUrl(recording.key, RECORDING_PLAYBACK_URL_EXPIRY)
+        })))
+      })))
+
+      return { calls: withPlaybackUrls }
     } catch (error) {
       logger.error('Get call history error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
@@ -260,12 +601,8 @@ export default async function callRoutes(fastify: FastifyInstance) {
     preHandler: [fastify.authenticate]
   }, async (request, reply) => {
     try {
-      // TODO: Return TURN server configuration
-      const config = {
-        iceServers: [
-          { urls: 'stun:stun.l.google.com:19302' }
-        ]
-      }
+      // TURN credentials expire, clients fetch this again before ttl runs out
+      const config = getIceConfig(request.user.userId)
 
       return { config }
     } catch (error) {
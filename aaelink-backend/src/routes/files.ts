@@ -2,6 +2,17 @@ import { FastifyInstance } from 'fastify'
 import { z } from 'zod'
 import { minio, prisma } from '../index.js'
 import { logger } from '../lib/logger.js'
+import { enqueueSearchIndex } from '../lib/searchIndex.js'
+import {
+  DEFAULT_THUMBNAIL_SIZE,
+  THUMBNAIL_SIZES,
+  THUMBNAIL_URL_EXPIRY,
+  ThumbnailSize,
+  enqueueThumbnails,
+  supportsThumbnail
+} from '../lib/thumbnails.js'
+import { ifMatchAllows, isVersionMismatch, sendVersionConflict, versionTag } from '../lib/versioning.js'
+import { enqueueVirusScan } from '../lib/virusScan.js'
 
 const getUploadUrlSchema = z.object({
   filename: z.string().min(1),
@@ -13,6 +24,29 @@ const deleteFileSchema = z.object({
   fileId: z.string()
 })
 
+const updateFileSchema = z.object({
+  originalName: z.string().min(1).max(255)
+})
+
+const thumbnailQuerySchema = z.object({
+  size: z.enum(Object.keys(THUMBNAIL_SIZES) as [ThumbnailSize, ...ThumbnailSize[]]).default(DEFAULT_THUMBNAIL_SIZE)
+})
+
+// Stored thumbnail links are presigned, hand out a fresh one on every read
+const withThumbnailUrl = async <T extends { thumbnails: unknown; thumbnailUrl: string | null }>(
+  file: T,
+  size: ThumbnailSize = DEFAULT_THUMBNAIL_SIZE
+): Promise<T> => {
+  const keys = file.thumbnails as Partial<Record<ThumbnailSize, string>> | null
+  const key = keys?.[size]
+
+  if (!key) {
+    return file
+  }
+
+  return { ...file, thumbnailUrl: await minio.getFileUrl(key, THUMBNAIL_URL_EXPIRY) }
+}
+
 export default async function fileRoutes(fastify: FastifyInstance) {
   // Get upload URL for direct client upload
   fastify.post('/upload-url', {
@@ -77,25 +111,33 @@ export default async function fileRoutes(fastify: FastifyInstance) {
       const userId = request.user.userId
       const { fileId, etag } = request.body as { fileId: string; etag?: string }
 
-      // Update file record
-      const file = await prisma.file.update({
+      const existing = await prisma.file.findFirst({
         where: {
           id: fileId,
           uploadedBy: userId
-        },
-        data: {
-          etag,
-          virusScanStatus: 'SCANNING'
         }
       })
 
-      // TODO: Trigger virus scan
-      // For now, mark as clean
-      await prisma.file.update({
+      if (!existing) {
+        return reply.code(404).send({ error: 'File not found' })
+      }
+
+      // Files are scanned once, confirming again must not reset a verdict
+      if (existing.virusScanStatus !== 'PENDING') {
+        return { success: true, file: existing }
+      }
+
+      const file = await prisma.file.update({
         where: { id: fileId },
-        data: { virusScanStatus: 'CLEAN' }
+        data: {
+          etag: etag ?? null,
+          virusScanStatus: 'SCANNING',
+          version: { increment: 1 }
+        }
       })
 
+      await enqueueVirusScan(fastify.redis, fileId)
+
       return { success: true, file }
     } catch (error) {
       logger.error('Confirm upload error:', error)
@@ -137,19 +179,73 @@ export default async function fileRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'File not found' })
       }
 
-      // Generate fresh download URL
-      const downloadUrl = await minio.getFileUrl(file.filename, 3600)
+      // Only clean files get a fresh download URL
+      const downloadUrl = file.virusScanStatus === 'CLEAN'
+        ? await minio.getFileUrl(file.filename, 3600)
+        : null
 
-      return {
-        ...file,
+      return reply.header('ETag', versionTag(file.version)).send({
+        ...(await withThumbnailUrl(file)),
         url: downloadUrl
-      }
+      })
     } catch (error) {
       logger.error('Get file error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
 
+  // Rename a file (uploader only)
+  fastify.patch('/:fileId', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: updateFileSchema
+    }
+  }, async (request, reply) => {
+    const { fileId } = request.params as { fileId: string }
+
+    try {
+      const userId = request.user.userId
+      const { originalName } = request.body as z.infer<typeof updateFileSchema>
+
+      const current = await prisma.file.findFirst({
+        where: {
+          id: fileId,
+          uploadedBy: userId
+        }
+      })
+
+      if (!current) {
+        return reply.code(404).send({ error: 'File not found' })
+      }
+
+      if (!ifMatchAllows(request, current.version)) {
+        return sendVersionConflict(reply, current)
+      }
+
+      // Guarded by the version read above so a concurrent write is not overwritten
+      const file = await prisma.file.update({
+        where: { id: fileId, version: current.version },
+        data: {
+          originalName,
+          version: { increment: 1 }
+        }
+      })
+
+      await enqueueSearchIndex(fastify.redis, 'file', fileId)
+
+      return reply.header('ETag', versionTag(file.version)).send({ file })
+    } catch (error) {
+      if (isVersionMismatch(error)) {
+        const current = await prisma.file.findUnique({ where: { id: fileId } })
+        return current
+          ? sendVersionConflict(reply, current)
+          : reply.code(404).send({ error: 'File not found' })
+      }
+      logger.error('Update file error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
   // Delete file
   fastify.delete('/', {
     preHandler: [fastify.authenticate],
@@ -172,14 +268,19 @@ export default async function fileRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'File not found' })
       }
 
-      // Delete from MinIO
-      await minio.deleteFile(file.filename)
+      // Delete from MinIO (infected files live in the quarantine bucket)
+      await minio.deleteFile(file.key, file.bucket)
+
+      const thumbnails = file.thumbnails as Record<string, string> | null
+      await Promise.all(Object.values(thumbnails ?? {}).map(key => minio.deleteFile(key)))
 
       // Delete from database
       await prisma.file.delete({
         where: { id: fileId }
       })
 
+      await enqueueSearchIndex(fastify.redis, 'file', fileId)
+
       return { success: true }
     } catch (error) {
       logger.error('Delete file error:', error)
@@ -251,14 +352,55 @@ export default async function fileRoutes(fastify: FastifyInstance) {
         take: limit
       })
 
-      return { files }
+      return { files: await Promise.all(files.map(file => withThumbnailUrl(file))) }
     } catch (error) {
       logger.error('Get files error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
 
-  // Generate thumbnail for image/video
+  // Get a thumbnail of a given size
+  fastify.get('/:fileId/thumbnail', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: thumbnailQuerySchema
+    }
+  }, async (request, reply) => {
+    try {
+      const { fileId } = request.params as { fileId: string }
+      const { size } = request.query as z.infer<typeof thumbnailQuerySchema>
+      const userId = request.user.userId
+
+      const file = await prisma.file.findFirst({
+        where: {
+          id: fileId,
+          OR: [
+            { uploadedBy: userId },
+            { message: { senderId: userId } },
+            { message: { receiverId: userId } },
+            { message: { group: { members: { some: { userId } } } } }
+          ]
+        }
+      })
+
+      if (!file) {
+        return reply.code(404).send({ error: 'File not found' })
+      }
+
+      if (!file.thumbnails) {
+        return reply.code(404).send({ error: 'Thumbnail not available' })
+      }
+
+      const { thumbnailUrl } = await withThumbnailUrl(file, size)
+
+      return { thumbnailUrl, size }
+    } catch (error) {
+      logger.error('Get thumbnail error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // (Re)generate thumbnails for an image, video or PDF
   fastify.post('/:fileId/thumbnail', {
     preHandler: [fastify.authenticate]
   }, async (request, reply) => {
@@ -282,22 +424,21 @@ export default async function fileRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'File not found' })
       }
 
-      // Check if file is image or video
-      if (!file.mimeType.startsWith('image/') && !file.mimeType.startsWith('video/')) {
+      if (!supportsThumbnail(file.mimeType)) {
         return reply.code(400).send({ error: 'File type does not support thumbnails' })
       }
 
-      // TODO: Generate thumbnail using sharp or ffmpeg
-      // For now, return the original URL
-      const thumbnailUrl = await minio.getFileUrl(file.filename, 3600)
+      if (file.virusScanStatus !== 'CLEAN') {
+        return reply.code(409).send({
+          error: 'Thumbnails are generated once the virus scan has completed',
+          virusScanStatus: file.virusScanStatus
+        })
+      }
 
-      // Update file record with thumbnail URL
-      await prisma.file.update({
-        where: { id: fileId },
-        data: { thumbnailUrl }
-      })
+      // Generation is asynchronous, thumbnailUrl is filled in by the worker
+      await enqueueThumbnails(fastify.redis, fileId)
 
-      return { thumbnailUrl }
+      return reply.code(202).send({ status: 'queued' })
     } catch (error) {
       logger.error('Generate thumbnail error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
@@ -328,6 +469,17 @@ export default async function fileRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'File not found' })
       }
 
+      if (file.virusScanStatus === 'INFECTED') {
+        return reply.code(403).send({ error: 'File is quarantined', virusScanStatus: file.virusScanStatus })
+      }
+
+      if (file.virusScanStatus !== 'CLEAN') {
+        return reply.code(409).send({
+          error: 'File is not available until the virus scan has completed',
+          virusScanStatus: file.virusScanStatus
+        })
+      }
+
       // Generate download URL
       const downloadUrl = await minio.getFileUrl(file.filename, 3600)
 
@@ -1,20 +1,126 @@
+import { randomBytes } from 'crypto'
 import { FastifyInstance } from 'fastify'
 import { z } from 'zod'
 import { prisma } from '../index.js'
+import { emitConversationEvent } from '../lib/conversationEvents.js'
+import { env } from '../lib/env.js'
+import { ROLE_RANK, hasRole, isInviteOpen, outranks } from '../lib/groupRoles.js'
+import { logger } from '../lib/logger.js'
+import { groupUnreadCounts } from '../lib/readState.js'
+import { addUserToGroupRoom, removeUserFromGroupRoom } from '../lib/realtime.js'
+
+// Ownership moves only through transfer-ownership
+const assignableRole = z.enum(['ADMIN', 'MODERATOR', 'MEMBER'])
+
+const updateGroupSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  avatar: z.string().url().nullable().optional()
+})
+
+const addMembersSchema = z.object({
+  userIds: z.array(z.string()).min(1).max(100),
+  role: assignableRole.default('MEMBER')
+})
+
+const changeRoleSchema = z.object({
+  role: assignableRole
+})
+
+const transferOwnershipSchema = z.object({
+  userId: z.string()
+})
+
+const createInviteSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(24 * 30).default(24),
+  maxUses: z.number().int().min(1).optional()
+})
+
+const createThreadSchema = z.object({
+  title: z.string().min(1).max(200),
+  messageId: z.string().optional()
+})
+
+const updateThreadSchema = z.object({
+  title: z.string().min(1).max(200)
+})
+
+const userSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatar: true
+}
 
 export default async function groupRoutes(fastify: FastifyInstance) {
+  const getMembership = (userId: string, groupId: string) =>
+    prisma.groupMember.findUnique({
+      where: {
+        userId_groupId: { userId, groupId }
+      }
+    })
+
+  const displayName = async (userId: string) => {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { firstName: true, lastName: true }
+    })
+
+    return user ? `${user.firstName} ${user.lastName}` : 'Someone'
+  }
+
+  // Membership changes are announced in the timeline as a SYSTEM message and
+  // as a dedicated event, also sent to former members no longer in the room
+  const recordGroupEvent = async (
+    groupId: string,
+    actorId: string,
+    event: string,
+    payload: Record<string, unknown>,
+    content: string,
+    formerMemberIds: string[] = []
+  ) => {
+    const message = await prisma.message.create({
+      data: {
+        content,
+        type: 'SYSTEM',
+        senderId: actorId,
+        groupId
+      },
+      include: {
+        sender: {
+          select: userSelect
+        }
+      }
+    })
+
+    await prisma.group.update({
+      where: { id: groupId },
+      data: { updatedAt: new Date() }
+    })
+
+    await emitConversationEvent(fastify.io, fastify.redis, { groupId }, 'new_message', message)
+    await emitConversationEvent(fastify.io, fastify.redis, { groupId }, event, payload)
+    // Members already out of the room, like removed ones, get an unsequenced copy
+    formerMemberIds.forEach(formerMemberId => {
+      fastify.io.to(`user:${formerMemberId}`).emit(event, payload)
+    })
+  }
+
   // Get user's groups
   fastify.get('/', {
     preHandler: [fastify.authenticate]
   }, async (request, reply) => {
     try {
       const userId = request.user.userId
+      const { includeArchived } = request.query as { includeArchived?: string }
 
       const groups = await prisma.group.findMany({
         where: {
           members: {
             some: { userId }
-          }
+          },
+          ...(includeArchived === 'true' ? {} : { isArchived: false })
         },
         include: {
           members: {
@@ -40,7 +146,14 @@ export default async function groupRoutes(fastify: FastifyInstance) {
         orderBy: { updatedAt: 'desc' }
       })
 
-      return { groups }
+      const unreadCounts = await groupUnreadCounts(prisma, userId, groups.map(group => group.id))
+
+      return {
+        groups: groups.map(group => ({
+          ...group,
+          ...(unreadCounts.get(group.id) ?? { unreadCount: 0, mentionCount: 0 })
+        }))
+      }
     } catch (error) {
       return reply.code(500).send({ error: 'Internal server error' })
     }
@@ -70,7 +183,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           createdBy: userId,
           members: {
             create: [
-              { userId, role: 'ADMIN' },
+              { userId, role: 'OWNER' },
               ...memberIds.map((id: string) => ({ userId: id, role: 'MEMBER' }))
             ]
           }
@@ -91,9 +204,781 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           }
         }
       })
+      group.members.forEach(member => addUserToGroupRoom(fastify.io, member.userId, group.id))
+
+      return { group }
+    } catch (error) {
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Update group details (admins)
+  fastify.patch('/:groupId', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: updateGroupSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+      const updates = request.body as z.infer<typeof updateGroupSchema>
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(404).send({ error: 'Group not found' })
+      }
+
+      if (!hasRole(membership.role, 'ADMIN')) {
+        return reply.code(403).send({ error: 'Admin access required' })
+      }
+
+      const group = await prisma.group.update({
+        where: { id: groupId },
+        data: {
+          ...(updates.name !== undefined ? { name: updates.name } : {}),
+          ...(updates.description !== undefined ? { description: updates.description } : {}),
+          ...(updates.avatar !== undefined ? { avatar: updates.avatar } : {})
+        }
+      })
+
+      await recordGroupEvent(groupId, userId, 'group_updated', { group }, `${await displayName(userId)} updated the group details`)
 
       return { group }
     } catch (error) {
+      logger.error('Update group error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Archive a group (owner); archived groups are read-only
+  fastify.post('/:groupId/archive', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(404).send({ error: 'Group not found' })
+      }
+
+      if (membership.role !== 'OWNER') {
+        return reply.code(403).send({ error: 'Only the group owner can archive the group' })
+      }
+
+      const group = await prisma.group.update({
+        where: { id: groupId },
+        data: {
+          isArchived: true,
+          archivedAt: new Date()
+        }
+      })
+
+      await recordGroupEvent(groupId, userId, 'group_archived', { groupId }, `${await displayName(userId)} archived the group`)
+
+      return { group }
+    } catch (error) {
+      logger.error('Archive group error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Restore an archived group (owner)
+  fastify.post('/:groupId/unarchive', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(404).send({ error: 'Group not found' })
+      }
+
+      if (membership.role !== 'OWNER') {
+        return reply.code(403).send({ error: 'Only the group owner can unarchive the group' })
+      }
+
+      const group = await prisma.group.update({
+        where: { id: groupId },
+        data: {
+          isArchived: false,
+          archivedAt: null
+        }
+      })
+
+      await recordGroupEvent(groupId, userId, 'group_unarchived', { groupId }, `${await displayName(userId)} unarchived the group`)
+
+      return { group }
+    } catch (error) {
+      logger.error('Unarchive group error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Add members (moderators and above)
+  fastify.post('/:groupId/members', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: addMembersSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+      const { userIds, role } = request.body as z.infer<typeof addMembersSchema>
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(404).send({ error: 'Group not found' })
+      }
+
+      if (!hasRole(membership.role, 'MODERATOR') || !outranks(membership.role, role)) {
+        return reply.code(403).send({ error: 'Not authorized to add members with this role' })
+      }
+
+      const group = await prisma.group.findUnique({ where: { id: groupId } })
+      if (group?.isArchived) {
+        return reply.code(400).send({ error: 'Group is archived' })
+      }
+
+      const users = await prisma.user.findMany({
+        where: {
+          id: { in: userIds },
+          isActive: true,
+          groupMemberships: { none: { groupId } }
+        },
+        select: userSelect
+      })
+
+      if (users.length === 0) {
+        return reply.code(400).send({ error: 'No new members to add' })
+      }
+
+      await prisma.groupMember.createMany({
+        data: users.map(user => ({ userId: user.id, groupId, role })),
+        skipDuplicates: true
+      })
+      users.forEach(user => addUserToGroupRoom(fastify.io, user.id, groupId))
+
+      const names = users.map(user => `${user.firstName} ${user.lastName}`).join(', ')
+      await recordGroupEvent(
+        groupId,
+        userId,
+        'group_member_added',
+        { groupId, users, role, addedBy: userId },
+        `${await displayName(userId)} added ${names}`
+      )
+
+      return { added: users }
+    } catch (error) {
+      logger.error('Add group members error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Remove a member (admins, only members of lower rank)
+  fastify.delete('/:groupId/members/:memberId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, memberId } = request.params as { groupId: string; memberId: string }
+
+      if (memberId === userId) {
+        return reply.code(400).send({ error: 'Use the leave endpoint to leave a group' })
+      }
+
+      const [membership, target] = await Promise.all([
+        getMembership(userId, groupId),
+        getMembership(memberId, groupId)
+      ])
+
+      if (!membership || !target) {
+        return reply.code(404).send({ error: 'Member not found' })
+      }
+
+      if (!hasRole(membership.role, 'ADMIN') || !outranks(membership.role, target.role)) {
+        return reply.code(403).send({ error: 'Not authorized to remove this member' })
+      }
+
+      await prisma.groupMember.delete({
+        where: { id: target.id }
+      })
+      removeUserFromGroupRoom(fastify.io, memberId, groupId)
+
+      await recordGroupEvent(
+        groupId,
+        userId,
+        'group_member_removed',
+        { groupId, userId: memberId, removedBy: userId },
+        `${await displayName(userId)} removed ${await displayName(memberId)}`,
+        [memberId]
+      )
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Remove group member error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Promote or demote a member (only to and from roles below your own)
+  fastify.patch('/:groupId/members/:memberId', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: changeRoleSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, memberId } = request.params as { groupId: string; memberId: string }
+      const { role } = request.body as z.infer<typeof changeRoleSchema>
+
+      const [membership, target] = await Promise.all([
+        getMembership(userId, groupId),
+        getMembership(memberId, groupId)
+      ])
+
+      if (!membership || !target) {
+        return reply.code(404).send({ error: 'Member not found' })
+      }
+
+      if (!hasRole(membership.role, 'ADMIN') || !outranks(membership.role, target.role) || !outranks(membership.role, role)) {
+        return reply.code(403).send({ error: 'Not authorized to change this role' })
+      }
+
+      if (target.role === role) {
+        return { member: target }
+      }
+
+      const member = await prisma.groupMember.update({
+        where: { id: target.id },
+        data: { role }
+      })
+
+      const verb = ROLE_RANK[role] > ROLE_RANK[target.role] ? 'promoted' : 'demoted'
+      await recordGroupEvent(
+        groupId,
+        userId,
+        'group_member_role_changed',
+        { groupId, userId: memberId, previousRole: target.role, role, changedBy: userId },
+        `${await displayName(userId)} ${verb} ${await displayName(memberId)} to ${role.toLowerCase()}`
+      )
+
+      return { member }
+    } catch (error) {
+      logger.error('Change group role error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Leave a group; the owner has to transfer ownership first
+  fastify.post('/:groupId/leave', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(404).send({ error: 'Group not found' })
+      }
+
+      if (membership.role === 'OWNER') {
+        const otherMembers = await prisma.groupMember.count({
+          where: { groupId, userId: { not: userId } }
+        })
+
+        if (otherMembers > 0) {
+          return reply.code(400).send({ error: 'Transfer ownership before leaving the group' })
+        }
+      }
+
+      // Write the system message first, the sender has to still be a member
+      await recordGroupEvent(
+        groupId,
+        userId,
+        'group_member_left',
+        { groupId, userId },
+        `${await displayName(userId)} left the group`
+      )
+
+      await prisma.groupMember.delete({
+        where: { id: membership.id }
+      })
+      removeUserFromGroupRoom(fastify.io, userId, groupId)
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Leave group error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Transfer ownership to another member (owner); the previous owner becomes an admin
+  fastify.post('/:groupId/transfer-ownership', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: transferOwnershipSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+      const { userId: newOwnerId } = request.body as z.infer<typeof transferOwnershipSchema>
+
+      const [membership, target] = await Promise.all([
+        getMembership(userId, groupId),
+        getMembership(newOwnerId, groupId)
+      ])
+
+      if (!membership || membership.role !== 'OWNER') {
+        return reply.code(403).send({ error: 'Only the group owner can transfer ownership' })
+      }
+
+      if (!target || target.id === membership.id) {
+        return reply.code(400).send({ error: 'New owner must be another member of the group' })
+      }
+
+      await prisma.$transaction([
+        prisma.groupMember.update({
+          where: { id: membership.id },
+          data: { role: 'ADMIN' }
+        }),
+        prisma.groupMember.update({
+          where: { id: target.id },
+          data: { role: 'OWNER' }
+        })
+      ])
+
+      await recordGroupEvent(
+        groupId,
+        userId,
+        'group_ownership_transferred',
+        { groupId, previousOwnerId: userId, ownerId: newOwnerId },
+        `${await displayName(userId)} transferred ownership to ${await displayName(newOwnerId)}`
+      )
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Transfer group ownership error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Create an expiring invite link (admins)
+  fastify.post('/:groupId/invites', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: createInviteSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+      const { expiresInHours, maxUses } = request.body as z.infer<typeof createInviteSchema>
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(404).send({ error: 'Group not found' })
+      }
+
+      if (!hasRole(membership.role, 'ADMIN')) {
+        return reply.code(403).send({ error: 'Admin access required' })
+      }
+
+      const invite = await prisma.groupInvite.create({
+        data: {
+          groupId,
+          token: randomBytes(24).toString('base64url'),
+          createdBy: userId,
+          expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+          maxUses: maxUses ?? null
+        }
+      })
+
+      return { invite, url: `${env.FRONTEND_URL}/invite/${invite.token}` }
+    } catch (error) {
+      logger.error('Create group invite error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // List active invite links (admins)
+  fastify.get('/:groupId/invites', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership || !hasRole(membership.role, 'ADMIN')) {
+        return reply.code(403).send({ error: 'Admin access required' })
+      }
+
+      const invites = await prisma.groupInvite.findMany({
+        where: {
+          groupId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() }
+        },
+        include: {
+          creator: {
+            select: userSelect
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      })
+
+      return { invites }
+    } catch (error) {
+      logger.error('List group invites error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Revoke an invite link (admins)
+  fastify.delete('/:groupId/invites/:inviteId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, inviteId } = request.params as { groupId: string; inviteId: string }
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership || !hasRole(membership.role, 'ADMIN')) {
+        return reply.code(403).send({ error: 'Admin access required' })
+      }
+
+      const { count } = await prisma.groupInvite.updateMany({
+        where: { id: inviteId, groupId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      })
+
+      if (count === 0) {
+        return reply.code(404).send({ error: 'Invite not found' })
+      }
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Revoke group invite error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Join a group through an invite link
+  fastify.post('/invites/:token/accept', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { token } = request.params as { token: string }
+
+      const invite = await prisma.groupInvite.findUnique({
+        where: { token },
+        include: { group: true }
+      })
+
+      if (!invite || !isInviteOpen(invite)) {
+        return reply.code(410).send({ error: 'Invite link is invalid or has expired' })
+      }
+
+      const existing = await getMembership(userId, invite.groupId)
+      if (existing) {
+        return { group: invite.group, alreadyMember: true }
+      }
+
+      const joined = await prisma.$transaction(async tx => {
+        // Claiming the use is the check, so concurrent accepts cannot exceed maxUses
+        const { count } = await tx.groupInvite.updateMany({
+          where: {
+            id: invite.id,
+            revokedAt: null,
+            ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } })
+          },
+          data: { uses: { increment: 1 } }
+        })
+        if (count === 0) {
+          return false
+        }
+
+        await tx.groupMember.create({
+          data: { userId, groupId: invite.groupId, role: 'MEMBER' }
+        })
+        return true
+      })
+
+      if (!joined) {
+        return reply.code(410).send({ error: 'Invite link is invalid or has expired' })
+      }
+      addUserToGroupRoom(fastify.io, userId, invite.groupId)
+
+      await recordGroupEvent(
+        invite.groupId,
+        userId,
+        'group_member_joined',
+        { groupId: invite.groupId, userId, inviteId: invite.id },
+        `${await displayName(userId)} joined the group`
+      )
+
+      return { group: invite.group, alreadyMember: false }
+    } catch (error) {
+      logger.error('Accept group invite error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // List threads in a group
+  fastify.get('/:groupId/threads', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(403).send({ error: 'Not a member of this group' })
+      }
+
+      const threads = await prisma.thread.findMany({
+        where: { groupId },
+        include: {
+          creator: {
+            select: userSelect
+          },
+          messages: {
+            where: { isDeleted: false },
+            include: {
+              sender: {
+                select: userSelect
+              }
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          },
+          followers: {
+            where: { userId },
+            select: { id: true }
+          },
+          _count: {
+            select: {
+              messages: { where: { isDeleted: false } },
+              followers: true
+            }
+          }
+        },
+        orderBy: { updatedAt: 'desc' }
+      })
+
+      return {
+        threads: threads.map(({ messages, followers, ...thread }) => ({
+          ...thread,
+          lastMessage: messages[0] ?? null,
+          isFollowing: followers.length > 0
+        }))
+      }
+    } catch (error) {
+      logger.error('List threads error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Create a thread, optionally starting from an existing message
+  fastify.post('/:groupId/threads', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: createThreadSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId } = request.params as { groupId: string }
+      const { title, messageId } = request.body as z.infer<typeof createThreadSchema>
+
+      const membership = await getMembership(userId, groupId)
+      if (!membership) {
+        return reply.code(403).send({ error: 'Not a member of this group' })
+      }
+
+      if (messageId) {
+        const message = await prisma.message.findFirst({
+          where: { id: messageId, groupId, isDeleted: false }
+        })
+
+        if (!message) {
+          return reply.code(404).send({ error: 'Message not found' })
+        }
+      }
+
+      const thread = await prisma.thread.create({
+        data: {
+          title,
+          groupId,
+          createdBy: userId,
+          // The creator follows their own thread
+          followers: {
+            create: { userId }
+          },
+          ...(messageId ? { messages: { connect: { id: messageId } } } : {})
+        },
+        include: {
+          creator: {
+            select: userSelect
+          }
+        }
+      })
+
+      await emitConversationEvent(fastify.io, fastify.redis, { groupId }, 'thread_created', thread)
+
+      return { thread }
+    } catch (error) {
+      logger.error('Create thread error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Rename a thread (creator or group admin)
+  fastify.patch('/:groupId/threads/:threadId', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: updateThreadSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, threadId } = request.params as { groupId: string; threadId: string }
+      const { title } = request.body as z.infer<typeof updateThreadSchema>
+
+      const membership = await getMembership(userId, groupId)
+      const thread = await prisma.thread.findFirst({
+        where: { id: threadId, groupId }
+      })
+
+      if (!membership || !thread) {
+        return reply.code(404).send({ error: 'Thread not found' })
+      }
+
+      if (thread.createdBy !== userId && membership.role === 'MEMBER') {
+        return reply.code(403).send({ error: 'Not authorized to update this thread' })
+      }
+
+      const updatedThread = await prisma.thread.update({
+        where: { id: threadId },
+        data: { title },
+        include: {
+          creator: {
+            select: userSelect
+          }
+        }
+      })
+
+      await emitConversationEvent(fastify.io, fastify.redis, { groupId }, 'thread_updated', updatedThread)
+
+      return { thread: updatedThread }
+    } catch (error) {
+      logger.error('Update thread error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Delete a thread (creator or group admin); its messages stay in the group
+  fastify.delete('/:groupId/threads/:threadId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, threadId } = request.params as { groupId: string; threadId: string }
+
+      const membership = await getMembership(userId, groupId)
+      const thread = await prisma.thread.findFirst({
+        where: { id: threadId, groupId }
+      })
+
+      if (!membership || !thread) {
+        return reply.code(404).send({ error: 'Thread not found' })
+      }
+
+      if (thread.createdBy !== userId && membership.role === 'MEMBER') {
+        return reply.code(403).send({ error: 'Not authorized to delete this thread' })
+      }
+
+      await prisma.$transaction([
+        prisma.message.updateMany({
+          where: { threadId },
+          data: { threadId: null, version: { increment: 1 } }
+        }),
+        prisma.thread.delete({
+          where: { id: threadId }
+        })
+      ])
+
+      await emitConversationEvent(fastify.io, fastify.redis, { groupId }, 'thread_deleted', { threadId, groupId })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Delete thread error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Follow a thread to get notified about new replies
+  fastify.post('/:groupId/threads/:threadId/follow', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, threadId } = request.params as { groupId: string; threadId: string }
+
+      const membership = await getMembership(userId, groupId)
+      const thread = await prisma.thread.findFirst({
+        where: { id: threadId, groupId }
+      })
+
+      if (!membership || !thread) {
+        return reply.code(404).send({ error: 'Thread not found' })
+      }
+
+      await prisma.threadFollower.upsert({
+        where: {
+          threadId_userId: { threadId, userId }
+        },
+        update: {},
+        create: { threadId, userId }
+      })
+
+      return { success: true, isFollowing: true }
+    } catch (error) {
+      logger.error('Follow thread error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Stop following a thread
+  fastify.delete('/:groupId/threads/:threadId/follow', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, threadId } = request.params as { groupId: string; threadId: string }
+
+      await prisma.threadFollower.deleteMany({
+        where: {
+          threadId,
+          userId,
+          thread: { groupId }
+        }
+      })
+
+      return { success: true, isFollowing: false }
+    } catch (error) {
+      logger.error('Unfollow thread error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
@@ -1,7 +1,16 @@
-import { FastifyInstance } from 'fastify'
+import { Prisma } from '@prisma/client'
+import { FastifyInstance, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { prisma } from '../index.js'
+import { conversationId as conversationKey, emitConversationEvent, latestSequences, messageConversation } from '../lib/conversationEvents.js'
 import { logger } from '../lib/logger.js'
+import { GROUP_MENTION_TOKENS, HERE_MENTION_TOKEN, resolveMentions } from '../lib/mentions.js'
+import { isServerMessage, revisionOf } from '../lib/messageRevisions.js'
+import { enqueueNotification } from '../lib/notifications.js'
+import { ReadConversation, markReadUpTo, readConversation, readStateWhere } from '../lib/readState.js'
+import { summarizeReplies } from '../lib/replies.js'
+import { enqueueSearchIndex } from '../lib/searchIndex.js'
+import { ifMatchAllows, isVersionMismatch, sendVersionConflict, versionTag } from '../lib/versioning.js'
 
 const sendMessageSchema = z.object({
   content: z.string().min(1).max(4000),
@@ -31,7 +40,187 @@ const markAsReadSchema = z.object({
   messageId: z.string()
 })
 
+const markReadUpToSchema = z.object({
+  groupId: z.string().optional(),
+  receiverId: z.string().optional(),
+  // The latest message of the conversation when omitted
+  messageId: z.string().optional()
+})
+
+// Replies are loaded a few levels deep; deeper branches are fetched on demand
+const MAX_REPLY_DEPTH = 5
+
+const listMentionsSchema = z.object({
+  unreadOnly: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  limit: z.coerce.number().min(1).max(100).default(30),
+  // Id of the last mention of the previous page
+  cursor: z.string().optional()
+})
+
+const markMentionsReadSchema = z.object({
+  // Every unread mention when omitted
+  mentionIds: z.array(z.string()).max(500).optional()
+})
+
+const mentionableSchema = z.object({
+  groupId: z.string().optional(),
+  receiverId: z.string().optional(),
+  // What was typed after the @
+  query: z.string().max(50).default(''),
+  limit: z.coerce.number().min(1).max(25).default(8)
+})
+
+const editMessageSchema = z.object({
+  content: z.string().min(1).max(4000),
+  encryptedContent: z.string().optional(),
+  encryptionKey: z.string().optional()
+})
+
+// Relations returned with every message payload
+const messageInclude = {
+  sender: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+      avatar: true
+    }
+  },
+  receiver: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+      avatar: true
+    }
+  },
+  group: {
+    select: {
+      id: true,
+      name: true,
+      avatar: true
+    }
+  },
+  reactions: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true
+        }
+      }
+    }
+  },
+  attachments: true,
+  mentions: {
+    select: {
+      userId: true,
+      kind: true
+    }
+  }
+} satisfies Prisma.MessageInclude
+
 export default async function messageRoutes(fastify: FastifyInstance) {
+  // Group admins and moderators can moderate other members' messages
+  const isGroupModerator = async (userId: string, groupId: string) => {
+    const membership = await prisma.groupMember.findFirst({
+      where: {
+        userId,
+        groupId,
+        role: { in: ['OWNER', 'ADMIN', 'MODERATOR'] }
+      }
+    })
+
+    return !!membership
+  }
+
+  // Answer a stale write with the current copy of the message
+  const sendCurrentMessage = async (reply: FastifyReply, id: string) => {
+    const current = await prisma.message.findUnique({
+      where: { id },
+      include: messageInclude
+    })
+
+    if (!current) {
+      return reply.code(404).send({ error: 'Message not found' })
+    }
+
+    return sendVersionConflict(reply, current)
+  }
+
+  // Replying follows the thread; every other follower gets a thread_reply event
+  const notifyThreadFollowers = async (threadId: string, senderId: string, message: unknown) => {
+    await prisma.$transaction([
+      prisma.threadFollower.upsert({
+        where: {
+          threadId_userId: { threadId, userId: senderId }
+        },
+        update: {},
+        create: { threadId, userId: senderId }
+      }),
+      // Bump the thread so it sorts by latest activity
+      prisma.thread.update({
+        where: { id: threadId },
+        data: { updatedAt: new Date() }
+      })
+    ])
+
+    const followers = await prisma.threadFollower.findMany({
+      where: {
+        threadId,
+        userId: { not: senderId }
+      },
+      select: { userId: true }
+    })
+
+    followers.forEach(follower => {
+      fastify.io.to(`user:${follower.userId}`).emit('thread_reply', { threadId, message })
+    })
+  }
+
+  // Reply counts and the most recent distinct repliers for a page of messages
+  const getReplySummaries = async (messageIds: string[]) => {
+    const [stats, participants] = await Promise.all([
+      prisma.message.groupBy({
+        by: ['parentId'],
+        where: {
+          parentId: { in: messageIds },
+          isDeleted: false
+        },
+        _count: { _all: true },
+        _max: { createdAt: true }
+      }),
+      prisma.message.findMany({
+        where: {
+          parentId: { in: messageIds },
+          isDeleted: false
+        },
+        distinct: ['parentId', 'senderId'],
+        select: {
+          parentId: true,
+          createdAt: true,
+          sender: {
+            select: messageInclude.sender.select
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      })
+    ])
+
+    return summarizeReplies(stats, participants)
+  }
+
+  // Events of a message's conversation are sequenced so reconnecting clients can replay them
+  const emitToConversation = (
+    message: { groupId: string | null; senderId: string; receiverId: string | null },
+    event: string,
+    payload: object
+  ) => emitConversationEvent(fastify.io, fastify.redis, messageConversation(message), event, payload)
+
   // Send a message
   fastify.post('/send', {
     preHandler: [fastify.authenticate],
@@ -54,14 +243,56 @@ export default async function messageRoutes(fastify: FastifyInstance) {
           where: {
             userId,
             groupId: messageData.groupId
-          }
+          },
+          include: { group: true }
         })
 
         if (!membership) {
           return reply.code(403).send({ error: 'Not a member of this group' })
         }
+
+        if (membership.group.isArchived) {
+          return reply.code(403).send({ error: 'Group is archived' })
+        }
+      }
+
+      // Threads belong to a group, replies to a message in the same conversation
+      if (messageData.threadId) {
+        const thread = await prisma.thread.findUnique({
+          where: { id: messageData.threadId }
+        })
+
+        if (!thread || thread.groupId !== messageData.groupId) {
+          return reply.code(400).send({ error: 'Thread does not belong to this group' })
+        }
+      }
+
+      if (messageData.parentId) {
+        const parent = await prisma.message.findUnique({
+          where: { id: messageData.parentId }
+        })
+
+        // Direct message replies must stay between the same two users
+        const participants = parent ? [parent.senderId, parent.receiverId] : []
+        const sameConversation = messageData.groupId
+          ? parent?.groupId === messageData.groupId
+          : !parent?.groupId && participants.includes(userId) && participants.includes(messageData.receiverId ?? null)
+
+        if (!parent || parent.isDeleted || !sameConversation) {
+          return reply.code(400).send({ error: 'Parent message not found in this conversation' })
+        }
       }
 
+      // Encrypted messages carry a placeholder the server cannot read for mentions
+      const mentions = messageData.encryptedContent
+        ? []
+        : await resolveMentions(prisma, fastify.redis, {
+          content: messageData.content,
+          senderId: userId,
+          groupId: messageData.groupId ?? null,
+          receiverId: messageData.receiverId ?? null
+        })
+
       // Create message
       const message = await prisma.message.create({
         data: {
@@ -73,56 +304,25 @@ export default async function messageRoutes(fastify: FastifyInstance) {
           threadId: messageData.threadId,
           parentId: messageData.parentId,
           encryptedContent: messageData.encryptedContent,
-          encryptionKey: messageData.encryptionKey
+          encryptionKey: messageData.encryptionKey,
+          mentions: {
+            create: mentions
+          }
         },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatar: true
-            }
-          },
-          receiver: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatar: true
-            }
-          },
-          group: {
-            select: {
-              id: true,
-              name: true,
-              avatar: true
-            }
-          },
-          reactions: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  firstName: true,
-                  lastName: true
-                }
-              }
-            }
-          },
-          attachments: true
-        }
+        include: messageInclude
       })
 
+      await enqueueSearchIndex(fastify.redis, 'message', message.id)
+      await enqueueNotification(fastify.redis, { kind: 'message', messageId: message.id })
+
+      // Replying means the sender has read the conversation up to here
+      await markReadUpTo(prisma, userId, readConversation(userId, message), message)
+
       // Emit real-time event
-      if (messageData.groupId) {
-        fastify.io.to(`room:${messageData.groupId}`).emit('new_message', message)
-      } else if (messageData.receiverId) {
-        fastify.io.to(`user:${messageData.receiverId}`).emit('new_message', message)
-        fastify.io.to(`user:${userId}`).emit('new_message', message)
+      await emitToConversation(message, 'new_message', message)
+
+      if (messageData.threadId) {
+        await notifyThreadFollowers(messageData.threadId, userId, message)
       }
 
       return { message }
@@ -149,17 +349,17 @@ export default async function messageRoutes(fastify: FastifyInstance) {
       }
 
       // Check permissions
-      if (groupId) {
-        const membership = await prisma.groupMember.findFirst({
+      const membership = groupId
+        ? await prisma.groupMember.findFirst({
           where: {
             userId,
             groupId
           }
         })
+        : null
 
-        if (!membership) {
-          return reply.code(403).send({ error: 'Not a member of this group' })
-        }
+      if (groupId && !membership) {
+        return reply.code(403).send({ error: 'Not a member of this group' })
       }
 
       // Build where clause
@@ -184,48 +384,15 @@ export default async function messageRoutes(fastify: FastifyInstance) {
         where.id = { lt: cursor }
       }
 
+      // Read before the messages, so live events after it cover anything the page misses
+      const conversationId = conversationKey(groupId ? { groupId } : { userIds: [userId, receiverId ?? userId] })
+      const seq = (await latestSequences(fastify.redis, [conversationId]))[conversationId] ?? 0
+
       // Get messages
       const messages = await prisma.message.findMany({
         where,
         include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatar: true
-            }
-          },
-          receiver: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatar: true
-            }
-          },
-          group: {
-            select: {
-              id: true,
-              name: true,
-              avatar: true
-            }
-          },
-          reactions: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  firstName: true,
-                  lastName: true
-                }
-              }
-            }
-          },
-          attachments: true,
+          ...messageInclude,
           readReceipts: {
             where: { userId },
             select: { readAt: true }
@@ -235,7 +402,29 @@ export default async function messageRoutes(fastify: FastifyInstance) {
         take: limit
       })
 
-      return { messages: messages.reverse() }
+      const replySummaries = await getReplySummaries(messages.map(message => message.id))
+
+      // Clients place the first-unread divider after the watermark; a group nobody read is unread since joining
+      const readState = await prisma.readState.findUnique({
+        where: readStateWhere(userId, groupId ? { groupId } : { peerId: receiverId ?? userId })
+      })
+
+      return {
+        messages: messages.reverse().map(message => ({
+          ...message,
+          ...(replySummaries.get(message.id) ?? {
+            replyCount: 0,
+            lastReplyAt: null,
+            replyParticipants: []
+          })
+        })),
+        conversationId,
+        seq,
+        readState: {
+          lastReadMessageId: readState?.lastReadMessageId ?? null,
+          lastReadAt: readState?.lastReadAt ?? membership?.joinedAt ?? null
+        }
+      }
     } catch (error) {
       logger.error('Get messages error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
@@ -311,25 +500,16 @@ export default async function messageRoutes(fastify: FastifyInstance) {
         })
       }
 
+      // has:reaction searches depend on it
+      await enqueueSearchIndex(fastify.redis, 'message', messageId)
+
       // Emit real-time event
-      if (message.groupId) {
-        fastify.io.to(`room:${message.groupId}`).emit('message_reaction', {
-          messageId,
-          userId,
-          emoji,
-          action: existingReaction ? 'remove' : 'add'
-        })
-      } else {
-        const targetUserId = message.senderId === userId ? message.receiverId : message.senderId
-        if (targetUserId) {
-          fastify.io.to(`user:${targetUserId}`).emit('message_reaction', {
-            messageId,
-            userId,
-            emoji,
-            action: existingReaction ? 'remove' : 'add'
-          })
-        }
-      }
+      await emitToConversation(message, 'message_reaction', {
+        messageId,
+        userId,
+        emoji,
+        action: existingReaction ? 'remove' : 'add'
+      })
 
       return { success: true }
     } catch (error) {
@@ -396,24 +576,531 @@ export default async function messageRoutes(fastify: FastifyInstance) {
         }
       })
 
+      // Reading the message also reads a mention of the user in it
+      await prisma.mention.updateMany({
+        where: { messageId, userId, isRead: false },
+        data: { isRead: true, readAt: new Date() }
+      })
+
+      await markReadUpTo(prisma, userId, readConversation(userId, message), message)
+
       // Emit real-time event
-      if (message.groupId) {
-        fastify.io.to(`room:${message.groupId}`).emit('message_read', {
-          messageId,
-          userId,
-          readAt: new Date()
+      await emitToConversation(message, 'message_read', {
+        messageId,
+        userId,
+        readAt: new Date()
+      })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Mark message as read error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Mark a whole conversation read up to a message
+  fastify.post('/read-up-to', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: markReadUpToSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, receiverId, messageId } = request.body as z.infer<typeof markReadUpToSchema>
+
+      let conversation: ReadConversation
+      let where: Prisma.MessageWhereInput
+      if (groupId) {
+        const membership = await prisma.groupMember.findFirst({
+          where: {
+            userId,
+            groupId
+          }
         })
+
+        if (!membership) {
+          return reply.code(403).send({ error: 'Not a member of this group' })
+        }
+
+        conversation = { groupId }
+        where = { groupId }
+      } else if (receiverId) {
+        conversation = { peerId: receiverId }
+        where = {
+          groupId: null,
+          OR: [
+            { senderId: userId, receiverId },
+            { senderId: receiverId, receiverId: userId }
+          ]
+        }
       } else {
-        fastify.io.to(`user:${message.senderId}`).emit('message_read', {
-          messageId,
+        return reply.code(400).send({ error: 'Either receiverId or groupId is required' })
+      }
+
+      const message = messageId
+        ? await prisma.message.findFirst({ where: { ...where, id: messageId } })
+        : await prisma.message.findFirst({ where: { ...where, isDeleted: false }, orderBy: { createdAt: 'desc' } })
+
+      if (!message) {
+        return messageId
+          ? reply.code(404).send({ error: 'Message not found' })
+          : { readState: { lastReadMessageId: null, lastReadAt: null } }
+      }
+
+      if (await markReadUpTo(prisma, userId, conversation, message)) {
+        // Other devices of the reader clear their badges, other participants see how far it was read
+        await emitToConversation(message, 'conversation_read', {
+          groupId: message.groupId,
           userId,
-          readAt: new Date()
+          lastReadMessageId: message.id,
+          lastReadAt: message.createdAt
         })
       }
 
+      const readState = await prisma.readState.findUnique({
+        where: readStateWhere(userId, conversation)
+      })
+
+      return {
+        readState: {
+          lastReadMessageId: readState?.lastReadMessageId ?? null,
+          lastReadAt: readState?.lastReadAt ?? null
+        }
+      }
+    } catch (error) {
+      logger.error('Mark conversation as read error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Messages that mention the user, newest first
+  fastify.get('/mentions', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: listMentionsSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { unreadOnly, limit, cursor } = request.query as z.infer<typeof listMentionsSchema>
+
+      const where = {
+        userId,
+        message: { isDeleted: false },
+        ...(unreadOnly ? { isRead: false } : {})
+      }
+
+      const [mentions, unreadCount] = await Promise.all([
+        prisma.mention.findMany({
+          where,
+          include: {
+            message: {
+              include: messageInclude
+            }
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: limit + 1,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+        }),
+        prisma.mention.count({
+          where: { ...where, isRead: false }
+        })
+      ])
+
+      const page = mentions.slice(0, limit)
+
+      return {
+        mentions: page,
+        unreadCount,
+        nextCursor: mentions.length > limit ? page[page.length - 1]?.id ?? null : null
+      }
+    } catch (error) {
+      logger.error('Get mentions error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Mark mentions as read
+  fastify.post('/mentions/read', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: markMentionsReadSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { mentionIds } = request.body as z.infer<typeof markMentionsReadSchema>
+
+      const { count } = await prisma.mention.updateMany({
+        where: {
+          userId,
+          isRead: false,
+          ...(mentionIds ? { id: { in: mentionIds } } : {})
+        },
+        data: { isRead: true, readAt: new Date() }
+      })
+
+      return { success: true, count }
+    } catch (error) {
+      logger.error('Mark mentions read error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Who can be mentioned in a group or direct conversation, for @ autocomplete
+  fastify.get('/mentionable', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: mentionableSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { groupId, receiverId, query, limit } = request.query as z.infer<typeof mentionableSchema>
+
+      if (!receiverId && !groupId) {
+        return reply.code(400).send({ error: 'Either receiverId or groupId is required' })
+      }
+
+      if (groupId) {
+        const membership = await prisma.groupMember.findFirst({
+          where: { userId, groupId }
+        })
+
+        if (!membership) {
+          return reply.code(403).send({ error: 'Not a member of this group' })
+        }
+      }
+
+      const search = query.toLowerCase()
+      const nameFilter = search
+        ? {
+          OR: [
+            { username: { startsWith: search, mode: 'insensitive' as const } },
+            { firstName: { startsWith: search, mode: 'insensitive' as const } },
+            { lastName: { startsWith: search, mode: 'insensitive' as const } }
+          ]
+        }
+        : {}
+
+      const users = await prisma.user.findMany({
+        where: {
+          isActive: true,
+          ...(groupId
+            ? { id: { not: userId }, groupMemberships: { some: { groupId } } }
+            : { id: receiverId ?? '' }),
+          ...nameFilter
+        },
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatar: true
+        },
+        orderBy: { username: 'asc' },
+        take: limit
+      })
+
+      // Group wide mentions only exist in groups
+      const specials = groupId
+        ? [
+          { token: GROUP_MENTION_TOKENS[0], description: 'Notify everyone in this group' },
+          { token: HERE_MENTION_TOKEN, description: 'Notify everyone online in this group' }
+        ].filter(special => special.token?.startsWith(search))
+        : []
+
+      return { users, specials }
+    } catch (error) {
+      logger.error('Get mentionable users error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Edit a message (sender only)
+  fastify.patch('/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: editMessageSchema
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      const userId = request.user.userId
+      const { content, encryptedContent, encryptionKey } = request.body as z.infer<typeof editMessageSchema>
+
+      const message = await prisma.message.findUnique({
+        where: { id }
+      })
+
+      if (!message || message.isDeleted) {
+        return reply.code(404).send({ error: 'Message not found' })
+      }
+
+      if (message.senderId !== userId) {
+        return reply.code(403).send({ error: 'Not authorized to edit this message' })
+      }
+
+      if (isServerMessage(message)) {
+        return reply.code(400).send({ error: 'This message cannot be edited' })
+      }
+
+      if (!ifMatchAllows(request, message.version)) {
+        return sendCurrentMessage(reply, id)
+      }
+
+      const previousMentions = await prisma.mention.findMany({
+        where: { messageId: id },
+        select: { userId: true }
+      })
+      const mentions = encryptedContent
+        ? []
+        : await resolveMentions(prisma, fastify.redis, { ...message, content })
+      const addedMentionUserIds = mentions
+        .map(mention => mention.userId)
+        .filter(mentionedId => !previousMentions.some(previous => previous.userId === mentionedId))
+
+      // Keep the previous content as a revision, then apply the edit
+      const [, , updatedMessage] = await prisma.$transaction([
+        // Mentions still in the message keep their read state
+        prisma.mention.deleteMany({
+          where: {
+            messageId: id,
+            userId: { notIn: mentions.map(mention => mention.userId) }
+          }
+        }),
+        prisma.messageRevision.create({
+          data: revisionOf(message, 'EDIT', userId)
+        }),
+        // Guarded by the version read above so a concurrent edit is not overwritten
+        prisma.message.update({
+          where: { id, version: message.version },
+          data: {
+            content,
+            encryptedContent: encryptedContent ?? null,
+            encryptionKey: encryptionKey ?? null,
+            isEdited: true,
+            version: { increment: 1 },
+            mentions: {
+              upsert: mentions.map(mention => ({
+                where: { messageId_userId: { messageId: id, userId: mention.userId } },
+                create: mention,
+                update: { kind: mention.kind }
+              }))
+            }
+          },
+          include: messageInclude
+        })
+      ])
+
+      await enqueueSearchIndex(fastify.redis, 'message', id)
+      if (addedMentionUserIds.length > 0) {
+        await enqueueNotification(fastify.redis, { kind: 'mention', messageId: id, userIds: addedMentionUserIds })
+      }
+
+      // Emit real-time event
+      await emitToConversation(message, 'message_updated', updatedMessage)
+
+      return reply.header('ETag', versionTag(updatedMessage.version)).send({ message: updatedMessage })
+    } catch (error) {
+      if (isVersionMismatch(error)) {
+        return sendCurrentMessage(reply, id)
+      }
+      logger.error('Edit message error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Delete a message (sender or group admin)
+  fastify.delete('/:id', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      const userId = request.user.userId
+
+      const message = await prisma.message.findUnique({
+        where: { id }
+      })
+
+      if (!message || message.isDeleted) {
+        return reply.code(404).send({ error: 'Message not found' })
+      }
+
+      if (message.senderId !== userId) {
+        const isGroupAdmin = message.groupId
+          ? await isGroupModerator(userId, message.groupId)
+          : false
+
+        if (!isGroupAdmin) {
+          return reply.code(403).send({ error: 'Not authorized to delete this message' })
+        }
+      }
+
+      if (!ifMatchAllows(request, message.version)) {
+        return sendCurrentMessage(reply, id)
+      }
+
+      // Soft delete; the final content is kept in the revision history
+      await prisma.$transaction([
+        prisma.messageRevision.create({
+          data: revisionOf(message, 'DELETE', userId)
+        }),
+        prisma.message.update({
+          where: { id, version: message.version },
+          data: { isDeleted: true, version: { increment: 1 } }
+        })
+      ])
+
+      await enqueueSearchIndex(fastify.redis, 'message', id)
+
+      // Emit real-time event
+      await emitToConversation(message, 'message_deleted', {
+        messageId: id,
+        groupId: message.groupId,
+        deletedBy: userId
+      })
+
       return { success: true }
     } catch (error) {
-      logger.error('Mark message as read error:', error)
+      if (isVersionMismatch(error)) {
+        return sendCurrentMessage(reply, id)
+      }
+      logger.error('Delete message error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Get the reply tree below a message
+  fastify.get('/:id/replies', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { id } = request.params as { id: string }
+
+      const parent = await prisma.message.findUnique({
+        where: { id },
+        include: messageInclude
+      })
+
+      if (!parent || parent.isDeleted) {
+        return reply.code(404).send({ error: 'Message not found' })
+      }
+
+      // Check permissions
+      if (parent.groupId) {
+        const membership = await prisma.groupMember.findFirst({
+          where: {
+            userId,
+            groupId: parent.groupId
+          }
+        })
+
+        if (!membership) {
+          return reply.code(403).send({ error: 'Not a member of this group' })
+        }
+      } else if (parent.senderId !== userId && parent.receiverId !== userId) {
+        return reply.code(403).send({ error: 'Not authorized to view this conversation' })
+      }
+
+      type ReplyNode = typeof parent & { replies: ReplyNode[]; hasMoreReplies: boolean }
+
+      const root: ReplyNode = { ...parent, replies: [], hasMoreReplies: false }
+      const nodes = new Map<string, ReplyNode>([[root.id, root]])
+      let level = [root.id]
+
+      // Walk the tree one level at a time
+      for (let depth = 0; depth < MAX_REPLY_DEPTH && level.length > 0; depth++) {
+        const replies = await prisma.message.findMany({
+          where: {
+            parentId: { in: level },
+            isDeleted: false
+          },
+          include: messageInclude,
+          orderBy: { createdAt: 'asc' }
+        })
+
+        level = []
+        replies.forEach(message => {
+          const node: ReplyNode = { ...message, replies: [], hasMoreReplies: false }
+          nodes.set(node.id, node)
+          nodes.get(message.parentId!)?.replies.push(node)
+          level.push(node.id)
+        })
+      }
+
+      // Flag the nodes whose replies were cut off by the depth limit
+      if (level.length > 0) {
+        const deeper = await prisma.message.groupBy({
+          by: ['parentId'],
+          where: {
+            parentId: { in: level },
+            isDeleted: false
+          }
+        })
+
+        deeper.forEach(({ parentId }) => {
+          const node = parentId ? nodes.get(parentId) : undefined
+          if (node) {
+            node.hasMoreReplies = true
+          }
+        })
+      }
+
+      return { message: root, replyCount: nodes.size - 1 }
+    } catch (error) {
+      logger.error('Get message replies error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Get the revision history of a message (system or group admins)
+  fastify.get('/:id/history', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { id } = request.params as { id: string }
+
+      const message = await prisma.message.findUnique({
+        where: { id },
+        include: messageInclude
+      })
+
+      if (!message) {
+        return reply.code(404).send({ error: 'Message not found' })
+      }
+
+      const isAdmin = request.user.role === 'ADMIN' ||
+        (message.groupId ? await isGroupModerator(userId, message.groupId) : false)
+
+      if (!isAdmin) {
+        return reply.code(403).send({ error: 'Admin access required' })
+      }
+
+      const revisions = await prisma.messageRevision.findMany({
+        where: { messageId: id },
+        include: {
+          editor: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+              avatar: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      })
+
+      return { message, revisions }
+    } catch (error) {
+      logger.error('Get message history error:', error)
       return reply.code(500).send({ error: 'Internal server error' })
     }
   })
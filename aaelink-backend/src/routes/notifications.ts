@@ -0,0 +1,393 @@
+import { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../index.js'
+import { TIME_OF_DAY_PATTERN, isValidTimeZone } from '../lib/doNotDisturb.js'
+import { env } from '../lib/env.js'
+import { logger } from '../lib/logger.js'
+import { NOTIFICATION_SETTING_KEYS, getNotificationSettings, isPushConfigured } from '../lib/notifications.js'
+import { userRoom } from '../lib/realtime.js'
+
+const listNotificationsSchema = z.object({
+  unreadOnly: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  limit: z.coerce.number().min(1).max(100).default(30),
+  // Id of the last notification of the previous page
+  cursor: z.string().optional()
+})
+
+const updateSettingsSchema = z.object({
+  desktop: z.boolean(),
+  sound: z.boolean(),
+  email: z.boolean(),
+  push: z.boolean(),
+  mentions: z.boolean(),
+  directMessages: z.boolean(),
+  channelMessages: z.boolean(),
+  voiceCalls: z.boolean(),
+  videoCalls: z.boolean(),
+  fileShares: z.boolean(),
+  calendarEvents: z.boolean(),
+  systemUpdates: z.boolean(),
+  // IANA name such as Asia/Bangkok
+  timeZone: z.string().max(64).refine(isValidTimeZone, 'Unknown time zone'),
+  dndEnabled: z.boolean(),
+  dndStart: z.string().regex(TIME_OF_DAY_PATTERN, 'Expected HH:mm'),
+  dndEnd: z.string().regex(TIME_OF_DAY_PATTERN, 'Expected HH:mm'),
+  dndDays: z.array(z.number().int().min(0).max(6)).max(7),
+  // Pause notifications until a moment, null to resume
+  dndUntil: z.string().datetime().nullable()
+}).partial()
+
+const preferenceParamsSchema = z.object({
+  kind: z.enum(['groups', 'users']),
+  id: z.string()
+})
+
+const updatePreferenceSchema = z.object({
+  // null goes back to the global settings
+  level: z.enum(['ALL', 'MENTIONS', 'NONE']).nullable().optional(),
+  // Mute for a number of minutes ("mute for 8h" is 480), or until a moment, null to unmute
+  muteForMinutes: z.number().int().min(1).max(365 * 24 * 60).optional(),
+  mutedUntil: z.string().datetime().nullable().optional()
+})
+
+const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2048),
+  keys: z.object({
+    p256dh: z.string().min(1).max(512),
+    auth: z.string().min(1).max(512)
+  })
+})
+
+export default async function notificationRoutes(fastify: FastifyInstance) {
+  const unreadCount = (userId: string) =>
+    prisma.notification.count({
+      where: { userId, isRead: false }
+    })
+
+  // Keep the badge of the user's other devices in step
+  const emitUnreadCount = async (userId: string) => {
+    fastify.io.to(userRoom(userId)).emit('notification_count', { unreadCount: await unreadCount(userId) })
+  }
+
+  const settingsResponse = async (userId: string) => {
+    const settings = (await getNotificationSettings(prisma, [userId])).get(userId)
+    return settings ? Object.fromEntries(NOTIFICATION_SETTING_KEYS.map(key => [key, settings[key]])) : null
+  }
+
+  // Groups need a membership, direct conversations an existing user
+  const canSetPreference = async (userId: string, kind: 'groups' | 'users', id: string) => {
+    if (kind === 'groups') {
+      const membership = await prisma.groupMember.findUnique({
+        where: { userId_groupId: { userId, groupId: id } },
+        select: { id: true }
+      })
+      return membership !== null
+    }
+
+    const peer = await prisma.user.findUnique({ where: { id }, select: { id: true } })
+    return peer !== null && id !== userId
+  }
+
+  // List notifications, newest first
+  fastify.get('/', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: listNotificationsSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { unreadOnly, limit, cursor } = request.query as z.infer<typeof listNotificationsSchema>
+
+      const notifications = await prisma.notification.findMany({
+        where: {
+          userId,
+          ...(unreadOnly ? { isRead: false } : {})
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      })
+
+      const hasMore = notifications.length > limit
+      const page = notifications.slice(0, limit)
+
+      return {
+        notifications: page,
+        nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null
+      }
+    } catch (error) {
+      logger.error('List notifications error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Number of unread notifications
+  fastify.get('/unread-count', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      return { unreadCount: await unreadCount(request.user.userId) }
+    } catch (error) {
+      logger.error('Get unread notification count error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Mark one notification as read
+  fastify.post('/:notificationId/read', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { notificationId } = request.params as { notificationId: string }
+
+      const { count } = await prisma.notification.updateMany({
+        where: { id: notificationId, userId },
+        data: { isRead: true, readAt: new Date() }
+      })
+
+      if (count === 0) {
+        return reply.code(404).send({ error: 'Notification not found' })
+      }
+
+      await emitUnreadCount(userId)
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Mark notification read error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Mark every notification as read
+  fastify.post('/read-all', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+
+      const { count } = await prisma.notification.updateMany({
+        where: { userId, isRead: false },
+        data: { isRead: true, readAt: new Date() }
+      })
+
+      await emitUnreadCount(userId)
+
+      return { success: true, count }
+    } catch (error) {
+      logger.error('Mark all notifications read error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Delete a notification
+  fastify.delete('/:notificationId', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { notificationId } = request.params as { notificationId: string }
+
+      const { count } = await prisma.notification.deleteMany({
+        where: { id: notificationId, userId }
+      })
+
+      if (count === 0) {
+        return reply.code(404).send({ error: 'Notification not found' })
+      }
+
+      await emitUnreadCount(userId)
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Delete notification error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Get notification settings
+  fastify.get('/settings', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      return { settings: await settingsResponse(request.user.userId) }
+    } catch (error) {
+      logger.error('Get notification settings error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Update some or all notification settings
+  fastify.patch('/settings', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: updateSettingsSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const changes = request.body as z.infer<typeof updateSettingsSchema>
+
+      const { dndUntil, ...rest } = changes
+      const data = {
+        ...Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)),
+        ...(dndUntil !== undefined ? { dndUntil: dndUntil ? new Date(dndUntil) : null } : {})
+      }
+
+      await prisma.notificationSettings.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data
+      })
+
+      return { settings: await settingsResponse(userId) }
+    } catch (error) {
+      logger.error('Update notification settings error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Per-conversation overrides of the user
+  fastify.get('/preferences', {
+    preHandler: [fastify.authenticate]
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+
+      const preferences = await prisma.conversationNotificationPreference.findMany({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' }
+      })
+
+      return { preferences }
+    } catch (error) {
+      logger.error('List notification preferences error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Set the level or mute of a group (/preferences/groups/:id) or DM (/preferences/users/:id)
+  fastify.put('/preferences/:kind/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: preferenceParamsSchema,
+      body: updatePreferenceSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { kind, id } = request.params as z.infer<typeof preferenceParamsSchema>
+      const { level, muteForMinutes, mutedUntil } = request.body as z.infer<typeof updatePreferenceSchema>
+
+      if (muteForMinutes !== undefined && mutedUntil !== undefined) {
+        return reply.code(400).send({ error: 'Use either muteForMinutes or mutedUntil' })
+      }
+
+      if (!(await canSetPreference(userId, kind, id))) {
+        return reply.code(404).send({ error: kind === 'groups' ? 'Group not found' : 'User not found' })
+      }
+
+      const data = {
+        ...(level !== undefined ? { level } : {}),
+        ...(muteForMinutes !== undefined ? { mutedUntil: new Date(Date.now() + muteForMinutes * 60 * 1000) } : {}),
+        ...(mutedUntil !== undefined ? { mutedUntil: mutedUntil ? new Date(mutedUntil) : null } : {})
+      }
+      const conversation = kind === 'groups' ? { groupId: id } : { peerId: id }
+
+      const preference = kind === 'groups'
+        ? await prisma.conversationNotificationPreference.upsert({
+          where: { userId_groupId: { userId, groupId: id } },
+          create: { userId, ...conversation, ...data },
+          update: data
+        })
+        : await prisma.conversationNotificationPreference.upsert({
+          where: { userId_peerId: { userId, peerId: id } },
+          create: { userId, ...conversation, ...data },
+          update: data
+        })
+
+      return { preference }
+    } catch (error) {
+      logger.error('Update notification preference error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Drop the override of a conversation
+  fastify.delete('/preferences/:kind/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: preferenceParamsSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { kind, id } = request.params as z.infer<typeof preferenceParamsSchema>
+
+      await prisma.conversationNotificationPreference.deleteMany({
+        where: kind === 'groups' ? { userId, groupId: id } : { userId, peerId: id }
+      })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Delete notification preference error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // VAPID public key browsers subscribe with, null when Web Push is not set up
+  fastify.get('/push/public-key', {
+    preHandler: [fastify.authenticate]
+  }, async () => {
+    return { publicKey: isPushConfigured() ? env.VAPID_PUBLIC_KEY : null }
+  })
+
+  // Register this browser for Web Push
+  fastify.post('/push/subscriptions', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: pushSubscriptionSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { endpoint, keys } = request.body as z.infer<typeof pushSubscriptionSchema>
+      const userAgent = request.headers['user-agent'] ?? null
+
+      // A browser that signs in as someone else takes its subscription along
+      await prisma.pushSubscription.upsert({
+        where: { endpoint },
+        create: { userId, endpoint, p256dh: keys.p256dh, auth: keys.auth, userAgent },
+        update: { userId, p256dh: keys.p256dh, auth: keys.auth, userAgent }
+      })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Register push subscription error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Stop Web Push to this browser
+  fastify.delete('/push/subscriptions', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: pushSubscriptionSchema.pick({ endpoint: true })
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { endpoint } = request.body as { endpoint: string }
+
+      await prisma.pushSubscription.deleteMany({
+        where: { endpoint, userId }
+      })
+
+      return { success: true }
+    } catch (error) {
+      logger.error('Remove push subscription error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+}
@@ -2,14 +2,43 @@ import { FastifyInstance } from 'fastify'
 import { z } from 'zod'
 import { prisma } from '../index.js'
 import { logger } from '../lib/logger.js'
+import { SearchDocumentType, SearchHit } from '../lib/searchIndex.js'
+import { SearchQueryError, compileSearchQuery, parseSearchQuery } from '../lib/searchQuery.js'
+import { pageHits, searchTerms } from '../lib/searchText.js'
+import type { TextPage } from '../lib/textExtraction.js'
 
 const searchSchema = z.object({
-  query: z.string().min(1).max(100),
+  // Text with optional operators: from:@user in:#group has:file before:2024-01-31
+  query: z.string().min(1).max(500),
   type: z.enum(['all', 'messages', 'files', 'users']).default('all'),
   limit: z.coerce.number().min(1).max(100).default(20),
+  // Offset into the ranked results, as returned in nextCursor
   cursor: z.string().optional()
 })
 
+// Rows in ranking order, with the highlighted snippet and score of their hit
+const withHits = <T extends { id: string }>(hits: SearchHit[], rows: T[]) => {
+  const byId = new Map(rows.map(row => [row.id, row]))
+
+  return hits.flatMap(hit => {
+    const row = byId.get(hit.id)
+    return row ? [{ ...row, snippet: hit.snippet, score: hit.score }] : []
+  })
+}
+
+// Parse and resolve a query, or the errors to show the user
+const compileQuery = async (userId: string, input: string) => {
+  const { query, errors } = parseSearchQuery(input)
+  if (errors.length > 0) {
+    return { query, text: '', filters: {}, errors }
+  }
+
+  const compiled = await compileSearchQuery(prisma, userId, query)
+  return { query, ...compiled }
+}
+
+const invalidQuery = (errors: SearchQueryError[]) => ({ error: 'Invalid search query', errors })
+
 export default async function searchRoutes(fastify: FastifyInstance) {
   // Global search
   fastify.get('/', {
@@ -22,41 +51,58 @@ export default async function searchRoutes(fastify: FastifyInstance) {
       const userId = request.user.userId
       const { query, type, limit, cursor } = request.query as z.infer<typeof searchSchema>
 
+      const offset = cursor ? Number.parseInt(cursor, 10) || 0 : 0
+
+      const compiled = await compileQuery(userId, query)
+      if (compiled.errors.length > 0) {
+        return reply.code(400).send(invalidQuery(compiled.errors))
+      }
+      const { text, filters } = compiled
+
       const results: any = {
         messages: [],
         files: [],
         users: [],
-        total: 0
+        total: 0,
+        nextCursor: null
       }
 
-      // Search messages
-      if (type === 'all' || type === 'messages') {
-        const messageWhere: any = {
-          AND: [
-            {
-              OR: [
-                { content: { contains: query, mode: 'insensitive' } },
-                { sender: { username: { contains: query, mode: 'insensitive' } } },
-                { sender: { firstName: { contains: query, mode: 'insensitive' } } },
-                { sender: { lastName: { contains: query, mode: 'insensitive' } } }
-              ]
-            },
-            {
-              OR: [
-                { senderId: userId },
-                { receiverId: userId },
-                { group: { members: { some: { userId } } } }
-              ]
-            }
-          ]
-        }
+      // Messages and files are matched by the search index, limited to
+      // conversations the user is part of
+      const memberships = await prisma.groupMember.findMany({
+        where: { userId },
+        select: { groupId: true }
+      })
+      const access = {
+        userId,
+        groupIds: memberships.map(membership => membership.groupId)
+      }
 
-        if (cursor) {
-          messageWhere.id = { lt: cursor }
+      const searchType = async (documentType: SearchDocumentType) => {
+        const { hits, total } = await fastify.searchIndex.search({
+          text,
+          access,
+          filters: { ...filters, types: [documentType] },
+          limit,
+          offset
+        })
+
+        if (offset + hits.length < total) {
+          results.nextCursor = String(offset + limit)
         }
 
+        return hits
+      }
+
+      // Search messages
+      if (type === 'all' || type === 'messages') {
+        const hits = await searchType('message')
+
         const messages = await prisma.message.findMany({
-          where: messageWhere,
+          where: {
+            id: { in: hits.map(hit => hit.id) },
+            isDeleted: false
+          },
           include: {
             sender: {
               select: {
@@ -83,41 +129,21 @@ export default async function searchRoutes(fastify: FastifyInstance) {
                 avatar: true
               }
             }
-          },
-          orderBy: { createdAt: 'desc' },
-          take: limit
+          }
         })
 
-        results.messages = messages
+        results.messages = withHits(hits, messages)
       }
 
       // Search files
       if (type === 'all' || type === 'files') {
-        const fileWhere: any = {
-          AND: [
-            {
-              OR: [
-                { originalName: { contains: query, mode: 'insensitive' } },
-                { uploader: { username: { contains: query, mode: 'insensitive' } } }
-              ]
-            },
-            {
-              OR: [
-                { uploadedBy: userId },
-                { message: { senderId: userId } },
-                { message: { receiverId: userId } },
-                { message: { group: { members: { some: { userId } } } } }
-              ]
-            }
-          ]
-        }
-
-        if (cursor) {
-          fileWhere.id = { lt: cursor }
-        }
+        const hits = await searchType('file')
 
         const files = await prisma.file.findMany({
-          where: fileWhere,
+          where: {
+            id: { in: hits.map(hit => hit.id) },
+            virusScanStatus: 'CLEAN'
+          },
           include: {
             uploader: {
               select: {
@@ -139,25 +165,32 @@ export default async function searchRoutes(fastify: FastifyInstance) {
                   }
                 }
               }
-            }
-          },
-          orderBy: { createdAt: 'desc' },
-          take: limit
+            },
+            text: true
+          }
         })
 
-        results.files = files
+        // Pages of the extracted text that match, for the preview to jump to
+        const terms = searchTerms([...compiled.query.terms, ...compiled.query.phrases].join(' '))
+        const located = files.map(({ text: fileText, ...file }) => ({
+          ...file,
+          locations: fileText ? pageHits(fileText.content, fileText.pages as unknown as TextPage[], terms) : []
+        }))
+
+        results.files = withHits(hits, located)
       }
 
-      // Search users
-      if (type === 'all' || type === 'users') {
+      // Search users by the plain text of the query; operators only narrow messages and files
+      const name = [...compiled.query.terms, ...compiled.query.phrases].join(' ')
+      if ((type === 'all' || type === 'users') && name) {
         const userWhere: any = {
           AND: [
             {
               OR: [
-                { username: { contains: query, mode: 'insensitive' } },
-                { firstName: { contains: query, mode: 'insensitive' } },
-                { lastName: { contains: query, mode: 'insensitive' } },
-                { email: { contains: query, mode: 'insensitive' } }
+                { username: { contains: name, mode: 'insensitive' } },
+                { firstName: { contains: name, mode: 'insensitive' } },
+                { lastName: { contains: name, mode: 'insensitive' } },
+                { email: { contains: name, mode: 'insensitive' } }
               ]
             },
             { isActive: true },
@@ -165,10 +198,6 @@ export default async function searchRoutes(fastify: FastifyInstance) {
           ]
         }
 
-        if (cursor) {
-          userWhere.id = { lt: cursor }
-        }
-
         const users = await prisma.user.findMany({
           where: userWhere,
           select: {
@@ -180,10 +209,15 @@ export default async function searchRoutes(fastify: FastifyInstance) {
             lastSeen: true
           },
           orderBy: { username: 'asc' },
-          take: limit
+          skip: offset,
+          take: limit + 1
         })
 
-        results.users = users
+        if (users.length > limit) {
+          results.nextCursor = String(offset + limit)
+        }
+
+        results.users = users.slice(0, limit)
       }
 
       // Calculate total
@@ -209,6 +243,35 @@ export default async function searchRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Check a query while it is typed and show how it is understood
+  fastify.get('/parse', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: z.object({
+        query: z.string().max(500)
+      })
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { query } = request.query as { query: string }
+
+      const compiled = await compileQuery(userId, query)
+      if (compiled.errors.length > 0) {
+        return reply.code(400).send(invalidQuery(compiled.errors))
+      }
+
+      return {
+        query: compiled.query,
+        text: compiled.text,
+        filters: compiled.filters
+      }
+    } catch (error) {
+      logger.error('Parse search query error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
   // Get search suggestions
   fastify.get('/suggestions', {
     preHandler: [fastify.authenticate],
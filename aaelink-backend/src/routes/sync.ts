@@ -0,0 +1,36 @@
+import { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../index.js'
+import { logger } from '../lib/logger.js'
+import { MAX_SYNC_BATCH_SIZE, SyncResult, applySyncMutation, syncMutationSchema } from '../lib/sync.js'
+
+const syncBatchSchema = z.object({
+  mutations: z.array(syncMutationSchema).min(1).max(MAX_SYNC_BATCH_SIZE)
+})
+
+export default async function syncRoutes(fastify: FastifyInstance) {
+  // Apply a batch of mutations queued while offline, in order, one result per mutation
+  fastify.post('/', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: syncBatchSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { mutations } = request.body as z.infer<typeof syncBatchSchema>
+      const deps = { prisma, redis: fastify.redis, io: fastify.io }
+
+      const results: SyncResult[] = []
+      for (const mutation of mutations) {
+        // In order, a mutation can refer to an entity created earlier in the batch
+        results.push(await applySyncMutation(deps, userId, mutation))
+      }
+
+      return { results }
+    } catch (error) {
+      logger.error('Sync error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+}
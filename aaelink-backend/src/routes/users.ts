@@ -1,5 +1,21 @@
 import { FastifyInstance } from 'fastify'
+import { z } from 'zod'
 import { prisma } from '../index.js'
+import { logger } from '../lib/logger.js'
+import { getPresence, refreshPresence } from '../lib/presence.js'
+
+const presenceQuerySchema = z.object({
+  // Comma separated user ids
+  userIds: z.string().min(1).transform(ids => [...new Set(ids.split(',').filter(Boolean))]).pipe(z.array(z.string()).max(100))
+})
+
+const updateStatusSchema = z.object({
+  availability: z.enum(['AUTO', 'BUSY', 'AWAY']).optional(),
+  text: z.string().max(100).nullable().optional(),
+  emoji: z.string().max(32).nullable().optional(),
+  // The custom status is cleared at this time, or kept until changed when null
+  expiresAt: z.string().datetime().nullable().optional()
+})
 
 export default async function userRoutes(fastify: FastifyInstance) {
   // Get all users
@@ -27,6 +43,66 @@ export default async function userRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Presence of users sharing a conversation with the caller
+  fastify.get('/presence', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: presenceQuerySchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { userIds } = request.query as z.infer<typeof presenceQuerySchema>
+
+      const presence = await getPresence(prisma, fastify.redis, userId, userIds)
+
+      return { presence }
+    } catch (error) {
+      logger.error('Get presence error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
+  // Set the caller's availability and custom status
+  fastify.put('/me/status', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: updateStatusSchema
+    }
+  }, async (request, reply) => {
+    try {
+      const userId = request.user.userId
+      const { availability, text, emoji, expiresAt } = request.body as z.infer<typeof updateStatusSchema>
+
+      if (expiresAt && new Date(expiresAt) <= new Date()) {
+        return reply.code(400).send({ error: 'expiresAt must be in the future' })
+      }
+
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          ...(availability !== undefined ? { availability } : {}),
+          ...(text !== undefined ? { statusText: text } : {}),
+          ...(emoji !== undefined ? { statusEmoji: emoji } : {}),
+          ...(expiresAt !== undefined ? { statusExpiresAt: expiresAt ? new Date(expiresAt) : null } : {})
+        },
+        select: {
+          availability: true,
+          statusText: true,
+          statusEmoji: true,
+          statusExpiresAt: true
+        }
+      })
+
+      await refreshPresence({ prisma, redis: fastify.redis, io: fastify.io }, userId, true)
+
+      return { status: user }
+    } catch (error) {
+      logger.error('Update status error:', error)
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
   // Get user by ID
   fastify.get('/:userId', {
     preHandler: [fastify.authenticate]
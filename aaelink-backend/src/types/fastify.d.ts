@@ -3,6 +3,7 @@ import { Redis } from 'ioredis'
 import { Server as SocketIOServer } from 'socket.io'
 import { FastifyRequest, FastifyReply } from 'fastify'
 import { MinioClient } from '../lib/minio.js'
+import { SearchIndex } from '../lib/searchIndex.js'
 
 declare module 'fastify' {
   interface FastifyInstance {
@@ -10,6 +11,7 @@ declare module 'fastify' {
     redis: Redis
     minio: MinioClient
     io: SocketIOServer
+    searchIndex: SearchIndex
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>
   }
 }
@@ -20,11 +22,13 @@ declare module '@fastify/jwt' {
       userId: string
       email: string
       role: string
+      sessionId?: string
     }
     user: {
       userId: string
       email: string
       role: string
+      sessionId?: string
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+// @hexagon/base64, used by @simplewebauthn/server, ships typings that its
+// package exports do not point at, so they are not found with bundler
+// resolution. These mirror types/base64.d.ts of the package.
+declare module '@hexagon/base64' {
+  namespace base64 {
+    function toArrayBuffer(data: string, urlMode?: boolean): ArrayBuffer
+    function fromArrayBuffer(arrBuf: ArrayBuffer, urlMode?: boolean): string
+    function toString(str: string, urlMode?: boolean): string
+    function fromString(str: string, urlMode?: boolean): string
+    function validate(encoded: string, urlMode?: boolean): boolean
+  }
+
+  export default base64
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: {
+      LOG_LEVEL: 'silent',
+      VIRUS_SCANNER: 'fake'
+    }
+  }
+})
@@ -7,11 +7,16 @@ import swaggerUi from '@fastify/swagger-ui';
 import websocket from '@fastify/websocket';
 import { PrismaClient } from '@prisma/client';
 import Fastify from 'fastify';
-import { createServer } from 'http';
+import { IncomingMessage, Server } from 'http';
 import { Redis } from 'ioredis';
 import { Server as SocketIOServer } from 'socket.io';
+import { Duplex } from 'stream';
 import { logger } from './lib/logger';
 import { MinioClient } from './lib/minio';
+import { SearchIndex, backfillSearchIndex, createSearchIndex } from './lib/search';
+import { ensureInitialAdmin } from './lib/passwords';
+import { setupRealtime } from './lib/realtime';
+import { ACCESS_TOKEN_TTL, isSessionActive } from './lib/sessions';
 import { websocketHandler } from './lib/websocket';
 import { adminRoutes } from './routes/admin';
 import { authRoutes } from './routes/auth';
@@ -48,6 +53,9 @@ const minio = new MinioClient({
   secretKey: process.env.MINIO_SECRET_KEY || 'aaelink_minio_2024',
 });
 
+// Full-text search (SQLite FTS5 by default, OpenSearch with SEARCH_BACKEND=opensearch)
+const searchIndex = createSearchIndex(prisma);
+
 // Create Fastify instance
 const fastify = Fastify({
   logger: {
@@ -66,9 +74,8 @@ const fastify = Fastify({
   trustProxy: true,
 });
 
-// Create HTTP server for Socket.IO
-const httpServer = createServer();
-const io = new SocketIOServer(httpServer, {
+// Socket.IO shares the Fastify HTTP server
+const io = new SocketIOServer(fastify.server, {
   cors: {
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     methods: ['GET', 'POST'],
@@ -82,6 +89,8 @@ async function registerPlugins() {
   await fastify.register(cors, {
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     credentials: true,
+    // Conditional updates send back the ETag they read as If-Match
+    exposedHeaders: ['ETag'],
   });
 
   // Security
@@ -107,13 +116,31 @@ async function registerPlugins() {
   await fastify.register(jwt, {
     secret: process.env.JWT_SECRET || 'aaelink_jwt_secret_2024',
     sign: {
-      expiresIn: '24h',
+      expiresIn: ACCESS_TOKEN_TTL,
     },
+    // Tokens of revoked sessions are rejected before they expire
+    trusted: async (_request: any, decodedToken: { [k: string]: any }) =>
+      !decodedToken.sessionId || isSessionActive(decodedToken.sessionId),
   });
 
   // WebSocket
+  const server: Server = fastify.server;
+  const upgradeListeners = server.listeners('upgrade');
   await fastify.register(websocket);
 
+  // @fastify/websocket routes every upgrade through Fastify, which answers
+  // Socket.IO's own upgrades with a 404 and destroys their socket, so leave
+  // those to the Socket.IO listener
+  const routeUpgrade = server.listeners('upgrade').find((listener) => !upgradeListeners.includes(listener));
+  if (routeUpgrade) {
+    server.removeListener('upgrade', routeUpgrade as (...args: unknown[]) => void);
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (!request.url?.startsWith(`${io.path()}/`)) {
+        routeUpgrade(request, socket, head);
+      }
+    });
+  }
+
   // Swagger documentation
   await fastify.register(swagger, {
     swagger: {
@@ -183,6 +210,9 @@ async function registerRoutes() {
   await fastify.register(erpRoutes, { prefix: '/api/erp' });
   await fastify.register(n8nRoutes, { prefix: '/api/n8n' });
 
+  // Socket.IO authentication and rooms
+  setupRealtime(fastify, io);
+
   // WebSocket handler
   fastify.register(async function (fastify: any) {
     fastify.get('/ws', { websocket: true }, websocketHandler);
@@ -259,6 +289,9 @@ async function initialize() {
     await prisma.$connect();
     logger.info('✅ Database connected');
 
+    // Seed the first admin account on an empty database
+    await ensureInitialAdmin();
+
     // Test Redis connection
     await redis.ping();
     logger.info('✅ Redis connected');
@@ -267,6 +300,10 @@ async function initialize() {
     await minio.healthCheck();
     logger.info('✅ MinIO connected');
 
+    // Index existing messages when the search index is new
+    await backfillSearchIndex(prisma, searchIndex);
+    logger.info(`✅ Search index ready (${searchIndex.name})`);
+
     // Start server
     await start();
 
@@ -282,12 +319,14 @@ declare global {
   var redis: Redis;
   var minio: MinioClient;
   var io: SocketIOServer;
+  var searchIndex: SearchIndex;
 }
 
 global.prisma = prisma;
 global.redis = redis;
 global.minio = minio;
 global.io = io;
+global.searchIndex = searchIndex;
 
 // Start the application
 initialize();
@@ -0,0 +1,19 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+let transporter: Transporter | null = null;
+
+// Email is off until SMTP_URL points at a mail server
+export function isMailConfigured(): boolean {
+  return !!process.env.SMTP_URL;
+}
+
+export async function sendMail(to: string, subject: string, text: string): Promise<void> {
+  transporter ??= nodemailer.createTransport(process.env.SMTP_URL);
+
+  await transporter.sendMail({
+    from: process.env.SMTP_FROM || 'AAELink Enterprise <no-reply@aaelink.local>',
+    to,
+    subject,
+    text,
+  });
+}
@@ -0,0 +1,103 @@
+import bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+
+const BCRYPT_ROUNDS = 12;
+
+// Lock the account for LOCKOUT_MINUTES after MAX_FAILED_LOGINS wrong passwords in a row
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const INVITE_TTL_HOURS = 72;
+
+export type PasswordTokenType = 'RESET' | 'INVITE';
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export function verifyPassword(password: string, hash: string): Promise<boolean> {
+  return bcrypt.compare(password, hash);
+}
+
+let dummyHash: Promise<string> | null = null;
+
+// Burn the same bcrypt time for unknown users so response timing does not reveal them
+export async function verifyDummyPassword(password: string): Promise<false> {
+  dummyHash ??= bcrypt.hash('aaelink-dummy-password', BCRYPT_ROUNDS);
+  await bcrypt.compare(password, await dummyHash);
+  return false;
+}
+
+// Only the SHA-256 of a reset or invite token is stored, the raw token goes to the user
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+}
+
+export async function createPasswordToken(userId: string, type: PasswordTokenType): Promise<string> {
+  const { token, tokenHash } = generateToken();
+  const ttl = type === 'INVITE'
+    ? INVITE_TTL_HOURS * 60 * 60 * 1000
+    : PASSWORD_RESET_TTL_MINUTES * 60 * 1000;
+
+  // A new token replaces any outstanding one of the same type
+  await global.prisma.passwordToken.updateMany({
+    where: { userId, type, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  await global.prisma.passwordToken.create({
+    data: {
+      userId,
+      type,
+      tokenHash,
+      expiresAt: new Date(Date.now() + ttl),
+    },
+  });
+
+  return token;
+}
+
+export function passwordTokenUrl(token: string, type: PasswordTokenType): string {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const path = type === 'INVITE' ? 'accept-invite' : 'reset-password';
+  return `${frontendUrl}/${path}?token=${token}`;
+}
+
+// JWT payload shared by login and token refresh
+export function tokenPayload(user: { id: string; username: string; email: string; role: string }) {
+  return {
+    userId: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role.toLowerCase(),
+  };
+}
+
+/**
+ * Create the first admin from ADMIN_EMAIL / ADMIN_PASSWORD when the user table
+ * is empty, so a fresh install can sign in and invite everyone else.
+ */
+export async function ensureInitialAdmin(): Promise<void> {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!email || !password || (await global.prisma.user.count()) > 0) {
+    return;
+  }
+
+  await global.prisma.user.create({
+    data: {
+      email: email.toLowerCase(),
+      username: process.env.ADMIN_USERNAME || 'admin',
+      name: 'Administrator',
+      role: 'ADMIN',
+      passwordHash: await hashPassword(password),
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { logger } from './logger';
+import { isSessionActive } from './sessions';
+
+// Sockets join `user:<id>` and the `channel:<id>` room of every channel they belong to
+export const userRoom = (userId: string) => `user:${userId}`;
+export const channelRoom = (channelId: string) => `channel:${channelId}`;
+
+interface SocketUser {
+  userId: string;
+  role: string;
+}
+
+// Sockets of a user that just joined or left a channel follow it without reconnecting
+export function joinChannelRoom(userId: string, channelId: string) {
+  global.io?.in(userRoom(userId)).socketsJoin(channelRoom(channelId));
+}
+
+export function leaveChannelRoom(userId: string, channelId: string) {
+  global.io?.in(userRoom(userId)).socketsLeave(channelRoom(channelId));
+}
+
+/**
+ * Authenticate sockets with the same access token as the REST API (handshake
+ * `auth.token` or a Bearer Authorization header) and put them in the rooms
+ * broadcasts go to.
+ */
+export function setupRealtime(fastify: any, io: SocketIOServer) {
+  io.use(async (socket, next) => {
+    const header = socket.handshake.headers.authorization;
+    const token = socket.handshake.auth?.token
+      || (typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7) : undefined);
+
+    if (!token) {
+      return next(new Error('Unauthorized'));
+    }
+
+    try {
+      const payload = fastify.jwt.verify(token) as { userId: string; role: string; sessionId?: string };
+      if (payload.sessionId && !(await isSessionActive(payload.sessionId))) {
+        return next(new Error('Unauthorized'));
+      }
+
+      const user: SocketUser = { userId: payload.userId, role: payload.role };
+      socket.data = user;
+      next();
+    } catch {
+      next(new Error('Unauthorized'));
+    }
+  });
+
+  io.on('connection', (socket: Socket) => {
+    const { userId } = socket.data as SocketUser;
+
+    socket.join(userRoom(userId));
+
+    global.prisma.channel
+      .findMany({
+        where: { members: { some: { id: userId } } },
+        select: { id: true },
+      })
+      .then((channels) => {
+        if (socket.connected) {
+          socket.join(channels.map(({ id }) => channelRoom(id)));
+        }
+      })
+      .catch((error) => {
+        logger.error('Socket channel rooms error:', error);
+        socket.disconnect(true);
+      });
+  });
+}
@@ -0,0 +1,526 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from './logger';
+
+export type SearchDocumentType = 'message' | 'file';
+
+export interface SearchDocument {
+  type: SearchDocumentType;
+  id: string;
+  title: string | null;
+  content: string;
+  authorId: string;
+  channelId: string | null;
+  // MIME type of files
+  contentType: string | null;
+  createdAt: Date;
+}
+
+export interface SearchRequest {
+  text: string;
+  // Documents in these channels, plus the user's own
+  access: {
+    userId: string;
+    channelIds: string[];
+  };
+  filters?: {
+    types?: SearchDocumentType[] | undefined;
+    authorIds?: string[] | undefined;
+    channelIds?: string[] | undefined;
+    // MIME type prefix, e.g. "image/" or "application/pdf"
+    contentType?: string | undefined;
+    after?: Date | undefined;
+    before?: Date | undefined;
+  } | undefined;
+  sort?: 'relevance' | 'date' | undefined;
+  limit: number;
+  offset: number;
+}
+
+export interface SearchHit {
+  type: SearchDocumentType;
+  id: string;
+  score: number;
+  // HTML escaped, matches wrapped in <mark>
+  snippet: string;
+  createdAt: Date;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  total: number;
+}
+
+export interface SearchIndex {
+  readonly name: string;
+  upsert(document: SearchDocument): Promise<void>;
+  remove(type: SearchDocumentType, id: string): Promise<void>;
+  search(request: SearchRequest): Promise<SearchResult>;
+  count(): Promise<number>;
+}
+
+// Thai is written without spaces between words, so it is segmented before indexing
+const THAI_PATTERN = /[\u0E00-\u0E7F]/;
+// Intl.Segmenter is available at runtime (Node 16+) but not in the ES2020 lib typings
+const segmenter = new (Intl as any).Segmenter('th', { granularity: 'word' });
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+interface Segment {
+  segment: string;
+  isWordLike?: boolean;
+}
+
+export function segmentText(text: string): string {
+  if (!THAI_PATTERN.test(text)) {
+    return text;
+  }
+
+  return Array.from(segmenter.segment(text) as Iterable<Segment>, ({ segment }) => segment)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function searchTerms(text: string): string[] {
+  const terms = Array.from(segmenter.segment(text.toLowerCase()) as Iterable<Segment>)
+    .filter(({ isWordLike }) => isWordLike)
+    .map(({ segment }) => segment);
+
+  return [...new Set(terms)];
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A window of the text around the first match, HTML escaped, matches in <mark>
+export function buildSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const firstMatch = terms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, firstMatch - SNIPPET_LEAD);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  let snippet = escapeHtml(text.slice(start, end));
+
+  if (terms.length > 0) {
+    const pattern = new RegExp(terms.map(term => escapeRegExp(escapeHtml(term))).join('|'), 'gi');
+    snippet = snippet.replace(pattern, match => `<mark>${match}</mark>`);
+  }
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+interface SqliteRow {
+  type: SearchDocumentType;
+  doc_id: string;
+  title: string | null;
+  body: string;
+  created_at: string;
+  score: number;
+  total: bigint | number;
+}
+
+/**
+ * Search index in an FTS5 table of the application database. Text is stored
+ * segmented for matching, with the original kept for snippets.
+ */
+export class SqliteSearchIndex implements SearchIndex {
+  readonly name = 'sqlite';
+  private ready: Promise<void> | null = null;
+
+  constructor(private prisma: PrismaClient) {}
+
+  private ensureTable(): Promise<void> {
+    this.ready ??= this.prisma.$executeRawUnsafe(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        key UNINDEXED,
+        type UNINDEXED,
+        doc_id UNINDEXED,
+        title,
+        content,
+        body UNINDEXED,
+        author_id UNINDEXED,
+        channel_id UNINDEXED,
+        content_type UNINDEXED,
+        created_at UNINDEXED,
+        tokenize = 'porter unicode61 remove_diacritics 2'
+      )
+    `).then(() => undefined, (error: unknown) => {
+      this.ready = null;
+      throw error;
+    });
+
+    return this.ready;
+  }
+
+  async upsert(document: SearchDocument): Promise<void> {
+    await this.ensureTable();
+    const key = `${document.type}:${document.id}`;
+
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`DELETE FROM search_index WHERE key = ${key}`,
+      this.prisma.$executeRaw`
+        INSERT INTO search_index (key, type, doc_id, title, content, body, author_id, channel_id, content_type, created_at)
+        VALUES (
+          ${key},
+          ${document.type},
+          ${document.id},
+          ${segmentText(document.title ?? '')},
+          ${segmentText(document.content)},
+          ${document.content || document.title || ''},
+          ${document.authorId},
+          ${document.channelId},
+          ${document.contentType},
+          ${document.createdAt.toISOString()}
+        )
+      `,
+    ]);
+  }
+
+  async remove(type: SearchDocumentType, id: string): Promise<void> {
+    await this.ensureTable();
+    await this.prisma.$executeRaw`DELETE FROM search_index WHERE key = ${`${type}:${id}`}`;
+  }
+
+  async count(): Promise<number> {
+    await this.ensureTable();
+    const [row] = await this.prisma.$queryRaw<Array<{ total: bigint | number }>>`
+      SELECT count(*) AS total FROM search_index
+    `;
+    return Number(row?.total ?? 0);
+  }
+
+  async search({ text, access, filters = {}, sort = 'relevance', limit, offset }: SearchRequest): Promise<SearchResult> {
+    await this.ensureTable();
+
+    // Every word must match; quoting keeps user input out of the FTS5 query syntax
+    const match = searchTerms(segmentText(text))
+      .map(term => `"${term.replace(/"/g, '""')}"`)
+      .join(' ');
+
+    const accessCondition = access.channelIds.length > 0
+      ? Prisma.sql`(author_id = ${access.userId} OR channel_id IN (${Prisma.join(access.channelIds)}))`
+      : Prisma.sql`author_id = ${access.userId}`;
+    const conditions: Prisma.Sql[] = [accessCondition];
+
+    if (match) {
+      conditions.push(Prisma.sql`search_index MATCH ${match}`);
+    }
+    if (filters.types?.length) {
+      conditions.push(Prisma.sql`type IN (${Prisma.join(filters.types)})`);
+    }
+    if (filters.authorIds?.length) {
+      conditions.push(Prisma.sql`author_id IN (${Prisma.join(filters.authorIds)})`);
+    }
+    if (filters.channelIds?.length) {
+      conditions.push(Prisma.sql`channel_id IN (${Prisma.join(filters.channelIds)})`);
+    }
+    if (filters.contentType) {
+      conditions.push(Prisma.sql`substr(content_type, 1, ${filters.contentType.length}) = ${filters.contentType}`);
+    }
+    if (filters.after) {
+      conditions.push(Prisma.sql`created_at >= ${filters.after.toISOString()}`);
+    }
+    if (filters.before) {
+      conditions.push(Prisma.sql`created_at < ${filters.before.toISOString()}`);
+    }
+
+    // bm25 is lower for better matches and titles weigh double; older documents score less
+    const score = match
+      ? Prisma.sql`-bm25(search_index, 0, 0, 0, 2.0, 1.0)
+          / (1.0 + (julianday('now') - julianday(created_at)) / ${RECENCY_HALF_LIFE_DAYS})`
+      : Prisma.sql`0`;
+    const orderBy = sort === 'date' || !match
+      ? Prisma.sql`created_at DESC`
+      : Prisma.sql`score DESC, created_at DESC`;
+
+    const rows = await this.prisma.$queryRaw<SqliteRow[]>`
+      SELECT type, doc_id, title, body, created_at, ${score} AS score, count(*) OVER() AS total
+      FROM search_index
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${orderBy}
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const terms = searchTerms(text);
+
+    return {
+      hits: rows.map(row => ({
+        type: row.type,
+        id: row.doc_id,
+        score: Number(row.score),
+        snippet: buildSnippet(row.body, terms),
+        createdAt: new Date(row.created_at),
+      })),
+      total: Number(rows[0]?.total ?? 0),
+    };
+  }
+}
+
+interface OpenSearchConfig {
+  url: string;
+  index: string;
+  username?: string | undefined;
+  password?: string | undefined;
+}
+
+/**
+ * Search index on an OpenSearch cluster, for deployments that outgrow SQLite.
+ * The thai tokenizer segments Thai and splits English on word boundaries.
+ */
+export class OpenSearchIndex implements SearchIndex {
+  readonly name = 'opensearch';
+  private ready: Promise<void> | null = null;
+
+  constructor(private config: OpenSearchConfig) {}
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<{ status: number; data: T | null }> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.username) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.config.username}:${this.config.password ?? ''}`).toString('base64')}`;
+    }
+
+    const response = await fetch(`${this.config.url}${path}`, {
+      method,
+      headers,
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    });
+
+    if (response.status === 404) {
+      return { status: 404, data: null };
+    }
+    if (!response.ok) {
+      throw new Error(`OpenSearch ${method} ${path} failed (${response.status}): ${await response.text()}`);
+    }
+
+    return { status: response.status, data: method === 'HEAD' ? null : await response.json() as T };
+  }
+
+  private ensureIndex(): Promise<void> {
+    this.ready ??= (async () => {
+      const { status } = await this.request('HEAD', `/${this.config.index}`);
+      if (status !== 404) {
+        return;
+      }
+
+      await this.request('PUT', `/${this.config.index}`, {
+        settings: {
+          analysis: {
+            analyzer: {
+              aaelink_text: { type: 'custom', tokenizer: 'thai', filter: ['lowercase', 'porter_stem'] },
+            },
+          },
+        },
+        mappings: {
+          properties: {
+            type: { type: 'keyword' },
+            entityId: { type: 'keyword' },
+            title: { type: 'text', analyzer: 'aaelink_text' },
+            content: { type: 'text', analyzer: 'aaelink_text' },
+            authorId: { type: 'keyword' },
+            channelId: { type: 'keyword' },
+            contentType: { type: 'keyword' },
+            createdAt: { type: 'date' },
+          },
+        },
+      });
+    })().catch(error => {
+      this.ready = null;
+      throw error;
+    });
+
+    return this.ready;
+  }
+
+  private documentPath(type: SearchDocumentType, id: string) {
+    return `/${this.config.index}/_doc/${encodeURIComponent(`${type}:${id}`)}`;
+  }
+
+  async upsert(document: SearchDocument): Promise<void> {
+    await this.ensureIndex();
+    await this.request('PUT', this.documentPath(document.type, document.id), {
+      type: document.type,
+      entityId: document.id,
+      title: document.title,
+      content: document.content,
+      authorId: document.authorId,
+      channelId: document.channelId,
+      contentType: document.contentType,
+      createdAt: document.createdAt.toISOString(),
+    });
+  }
+
+  async remove(type: SearchDocumentType, id: string): Promise<void> {
+    await this.request('DELETE', this.documentPath(type, id));
+  }
+
+  async count(): Promise<number> {
+    const { data } = await this.request<{ count: number }>('GET', `/${this.config.index}/_count`);
+    return data?.count ?? 0;
+  }
+
+  async search({ text, access, filters = {}, sort = 'relevance', limit, offset }: SearchRequest): Promise<SearchResult> {
+    await this.ensureIndex();
+
+    const query = text.trim();
+    const filter: unknown[] = [{
+      bool: {
+        should: [
+          { term: { authorId: access.userId } },
+          { terms: { channelId: access.channelIds } },
+        ],
+        minimum_should_match: 1,
+      },
+    }];
+
+    if (filters.types?.length) {
+      filter.push({ terms: { type: filters.types } });
+    }
+    if (filters.authorIds?.length) {
+      filter.push({ terms: { authorId: filters.authorIds } });
+    }
+    if (filters.channelIds?.length) {
+      filter.push({ terms: { channelId: filters.channelIds } });
+    }
+    if (filters.contentType) {
+      filter.push({ prefix: { contentType: filters.contentType } });
+    }
+    if (filters.after || filters.before) {
+      filter.push({
+        range: {
+          createdAt: {
+            ...(filters.after ? { gte: filters.after.toISOString() } : {}),
+            ...(filters.before ? { lt: filters.before.toISOString() } : {}),
+          },
+        },
+      });
+    }
+
+    const { data } = await this.request<{
+      hits: {
+        total: { value: number };
+        hits: Array<{
+          _score: number | null;
+          _source: { type: SearchDocumentType; entityId: string; title: string | null; content: string; createdAt: string };
+          highlight?: Record<string, string[]>;
+        }>;
+      };
+    }>('POST', `/${this.config.index}/_search`, {
+      from: offset,
+      size: limit,
+      track_total_hits: true,
+      query: {
+        function_score: {
+          query: {
+            bool: {
+              must: query
+                ? [{ multi_match: { query, fields: ['title^2', 'content'], operator: 'and' } }]
+                : [{ match_all: {} }],
+              filter,
+            },
+          },
+          functions: [{ exp: { createdAt: { origin: 'now', scale: `${RECENCY_HALF_LIFE_DAYS}d`, decay: 0.5 } } }],
+          boost_mode: 'multiply',
+        },
+      },
+      sort: sort === 'date' || !query ? [{ createdAt: 'desc' }] : ['_score', { createdAt: 'desc' }],
+      highlight: {
+        encoder: 'html',
+        pre_tags: ['<mark>'],
+        post_tags: ['</mark>'],
+        fields: {
+          content: { fragment_size: SNIPPET_LENGTH, number_of_fragments: 1 },
+          title: { number_of_fragments: 0 },
+        },
+      },
+    });
+
+    const terms = searchTerms(text);
+
+    return {
+      hits: (data?.hits.hits ?? []).map(({ _score, _source, highlight }) => ({
+        type: _source.type,
+        id: _source.entityId,
+        score: _score ?? 0,
+        snippet: highlight?.content?.[0] ?? highlight?.title?.[0] ??
+          buildSnippet(_source.content || _source.title || '', terms),
+        createdAt: new Date(_source.createdAt),
+      })),
+      total: data?.hits.total.value ?? 0,
+    };
+  }
+}
+
+export function createSearchIndex(prisma: PrismaClient): SearchIndex {
+  if (process.env.SEARCH_BACKEND === 'opensearch') {
+    return new OpenSearchIndex({
+      url: process.env.OPENSEARCH_URL || 'http://localhost:9200',
+      index: process.env.OPENSEARCH_INDEX || 'aaelink-enterprise',
+      username: process.env.OPENSEARCH_USERNAME,
+      password: process.env.OPENSEARCH_PASSWORD,
+    });
+  }
+
+  return new SqliteSearchIndex(prisma);
+}
+
+export function messageDocument(message: { id: string; content: string; userId: string; channelId: string; createdAt: Date }): SearchDocument {
+  return {
+    type: 'message',
+    id: message.id,
+    title: null,
+    content: message.content,
+    authorId: message.userId,
+    channelId: message.channelId,
+    contentType: null,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * Index a message without failing the request that wrote it; a document
+ * missed here is picked up by the next backfill of an empty index.
+ */
+export function indexMessage(message: Parameters<typeof messageDocument>[0]): void {
+  global.searchIndex.upsert(messageDocument(message)).catch(error => {
+    logger.error(`Failed to index message ${message.id}:`, error);
+  });
+}
+
+// Fill an empty index (first start, switched backend) from the database
+export async function backfillSearchIndex(prisma: PrismaClient, index: SearchIndex): Promise<void> {
+  if ((await index.count()) > 0) {
+    return;
+  }
+
+  const messages = await prisma.message.findMany();
+  for (const message of messages) {
+    await index.upsert(messageDocument(message));
+  }
+
+  const files = await prisma.file.findMany({ include: { message: true } });
+  for (const file of files) {
+    await index.upsert({
+      type: 'file',
+      id: file.id,
+      title: file.name,
+      content: '',
+      authorId: file.userId,
+      channelId: file.message?.channelId ?? null,
+      contentType: file.type,
+      createdAt: file.createdAt,
+    });
+  }
+
+  logger.info(`Search index backfilled with ${messages.length} messages and ${files.length} files`);
+}
@@ -0,0 +1,191 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+// Access tokens are short-lived, sessions are kept alive by rotating refresh tokens
+export const ACCESS_TOKEN_TTL = '15m';
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Tabs refreshing at the same moment all present the same token; they get the same successor
+const REFRESH_GRACE_MS = 30 * 1000;
+
+export interface SessionInfo {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+interface SessionMeta {
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+}
+
+interface RefreshTokenRecord {
+  sessionId: string;
+  userId: string;
+  // Set once the token has been exchanged; presenting it again after the grace window means it leaked
+  rotatedAt?: string;
+  successor?: string;
+}
+
+export type RotateResult =
+  | { status: 'ok'; userId: string; sessionId: string; refreshToken: string }
+  | { status: 'invalid' }
+  | { status: 'reused'; userId: string; sessionId: string };
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const userSessionsKey = (userId: string) => `user-sessions:${userId}`;
+const refreshTokenKey = (token: string) => `refresh-token:${createHash('sha256').update(token).digest('hex')}`;
+
+async function storeRefreshToken(sessionId: string, userId: string): Promise<string> {
+  const refreshToken = randomBytes(48).toString('base64url');
+  const record: RefreshTokenRecord = { sessionId, userId };
+
+  await global.redis.set(refreshTokenKey(refreshToken), JSON.stringify(record), 'EX', REFRESH_TOKEN_TTL_SECONDS);
+
+  return refreshToken;
+}
+
+// Start a new session (one refresh token family) for a freshly signed-in user
+export async function createSession(userId: string, meta: SessionMeta): Promise<{ sessionId: string; refreshToken: string }> {
+  const sessionId = randomUUID();
+  const now = new Date().toISOString();
+  const session: SessionInfo = {
+    id: sessionId,
+    userId,
+    userAgent: meta.userAgent ?? null,
+    ip: meta.ip ?? null,
+    createdAt: now,
+    lastUsedAt: now,
+  };
+
+  await global.redis
+    .multi()
+    .set(sessionKey(sessionId), JSON.stringify(session), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+    .sadd(userSessionsKey(userId), sessionId)
+    .expire(userSessionsKey(userId), REFRESH_TOKEN_TTL_SECONDS)
+    .exec();
+
+  const refreshToken = await storeRefreshToken(sessionId, userId);
+
+  return { sessionId, refreshToken };
+}
+
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  return (await global.redis.exists(sessionKey(sessionId))) === 1;
+}
+
+const withinGrace = (record: RefreshTokenRecord) =>
+  record.rotatedAt !== undefined && Date.now() - Date.parse(record.rotatedAt) < REFRESH_GRACE_MS;
+
+// A token exchanged moments ago hands out the successor it was exchanged for, anything older is a replay
+async function replayRotated(record: RefreshTokenRecord): Promise<RotateResult> {
+  if (record.successor && withinGrace(record)) {
+    return (await isSessionActive(record.sessionId))
+      ? { status: 'ok', userId: record.userId, sessionId: record.sessionId, refreshToken: record.successor }
+      : { status: 'invalid' };
+  }
+
+  await revokeSession(record.userId, record.sessionId);
+  return { status: 'reused', userId: record.userId, sessionId: record.sessionId };
+}
+
+// Exchange a refresh token for a new one; replaying an exchanged token revokes the whole family
+export async function rotateRefreshToken(refreshToken: string, meta: SessionMeta): Promise<RotateResult> {
+  const key = refreshTokenKey(refreshToken);
+  const stored = await global.redis.get(key);
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  const record = JSON.parse(stored) as RefreshTokenRecord;
+
+  if (record.rotatedAt) {
+    return replayRotated(record);
+  }
+
+  const rawSession = await global.redis.get(sessionKey(record.sessionId));
+  if (!rawSession) {
+    return { status: 'invalid' };
+  }
+
+  // Only one concurrent refresh may win the rotation: the first to claim it
+  // publishes its successor for the grace window, the others hand that out
+  const nextToken = await storeRefreshToken(record.sessionId, record.userId);
+  const claimKey = `${key}:successor`;
+  const claimed = await global.redis.set(claimKey, nextToken, 'PX', REFRESH_GRACE_MS, 'NX');
+  if (!claimed) {
+    await global.redis.del(refreshTokenKey(nextToken));
+    const successor = await global.redis.get(claimKey);
+    return successor && (await isSessionActive(record.sessionId))
+      ? { status: 'ok', userId: record.userId, sessionId: record.sessionId, refreshToken: successor }
+      : { status: 'invalid' };
+  }
+
+  const rotated: RefreshTokenRecord = { ...record, rotatedAt: new Date().toISOString(), successor: nextToken };
+  await global.redis.set(key, JSON.stringify(rotated), 'EX', REFRESH_TOKEN_TTL_SECONDS);
+
+  const session = JSON.parse(rawSession) as SessionInfo;
+  const updated: SessionInfo = {
+    ...session,
+    userAgent: meta.userAgent ?? session.userAgent,
+    ip: meta.ip ?? session.ip,
+    lastUsedAt: new Date().toISOString(),
+  };
+
+  await global.redis
+    .multi()
+    .set(sessionKey(record.sessionId), JSON.stringify(updated), 'EX', REFRESH_TOKEN_TTL_SECONDS)
+    .expire(userSessionsKey(record.userId), REFRESH_TOKEN_TTL_SECONDS)
+    .exec();
+
+  return { status: 'ok', userId: record.userId, sessionId: record.sessionId, refreshToken: nextToken };
+}
+
+// Look up the session a refresh token belongs to without rotating it
+export async function getRefreshTokenSession(refreshToken: string): Promise<{ userId: string; sessionId: string } | null> {
+  const stored = await global.redis.get(refreshTokenKey(refreshToken));
+  if (!stored) {
+    return null;
+  }
+
+  const { userId, sessionId } = JSON.parse(stored) as RefreshTokenRecord;
+  return { userId, sessionId };
+}
+
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  await global.redis
+    .multi()
+    .del(sessionKey(sessionId))
+    .srem(userSessionsKey(userId), sessionId)
+    .exec();
+}
+
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const sessionIds = await global.redis.smembers(userSessionsKey(userId));
+
+  await global.redis
+    .multi()
+    .del(...sessionIds.map(sessionKey), userSessionsKey(userId))
+    .exec();
+
+  return sessionIds.length;
+}
+
+export async function listSessions(userId: string): Promise<SessionInfo[]> {
+  const sessionIds = await global.redis.smembers(userSessionsKey(userId));
+  if (sessionIds.length === 0) {
+    return [];
+  }
+
+  const raw = await global.redis.mget(...sessionIds.map(sessionKey));
+  const expired = sessionIds.filter((_, index) => !raw[index]);
+  if (expired.length > 0) {
+    await global.redis.srem(userSessionsKey(userId), ...expired);
+  }
+
+  return raw
+    .filter((value): value is string => value !== null)
+    .map((value) => JSON.parse(value) as SessionInfo)
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+}
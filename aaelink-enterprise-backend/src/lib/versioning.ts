@@ -0,0 +1,38 @@
+import { Prisma } from '@prisma/client';
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+// Entity tags are row versions, quoted as HTTP requires
+export const versionTag = (version: number) => `"${version}"`;
+
+/**
+ * Whether the request's If-Match header allows writing a row at a version.
+ * Requests without the header write unconditionally, so clients that do not
+ * track versions keep working.
+ */
+export function ifMatchAllows(request: FastifyRequest, version: number): boolean {
+  const header = request.headers['if-match'];
+  if (!header) {
+    return true;
+  }
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === versionTag(version));
+}
+
+// The client wrote against an outdated version, the current copy lets it merge and retry
+export function sendVersionConflict(reply: FastifyReply, current: { version: number }) {
+  return reply
+    .status(409)
+    .header('ETag', versionTag(current.version))
+    .send({
+      success: false,
+      message: 'Version conflict',
+      current,
+    });
+}
+
+// An update guarded by `version` found the row at another version, or gone
+export const isVersionMismatch = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
@@ -1,5 +1,64 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
 import { logger } from '../lib/logger';
+import { createPasswordToken, passwordTokenUrl } from '../lib/passwords';
+import { revokeAllSessions } from '../lib/sessions';
+
+const inviteUserSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  username: z.string().min(3, 'Username must be at least 3 characters'),
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  role: z.enum(['admin', 'user', 'moderator']).default('user'),
+});
+
+const userListSchema = z.object({
+  search: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).default('false'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(),
+});
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  name: true,
+  avatar: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+  lockedUntil: true,
+  deactivatedAt: true,
+  invitedBy: true,
+  createdAt: true,
+  passwordHash: true,
+};
+
+// Never send the hash itself, only whether the invite has been accepted
+const toAdminUser = ({ passwordHash, ...user }: { passwordHash: string | null; role: string; [key: string]: any }) => ({
+  ...user,
+  role: user.role.toLowerCase(),
+  hasPassword: passwordHash !== null,
+});
+
+async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    await request.jwtVerify();
+    const payload = request.user as any;
+
+    if (payload.role !== 'admin') {
+      return reply.status(403).send({
+        success: false,
+        message: 'Admin access required',
+      });
+    }
+  } catch (error) {
+    return reply.status(401).send({
+      success: false,
+      message: 'Authentication required',
+    });
+  }
+}
 
 export async function adminRoutes(fastify: any) {
   // Admin dashboard stats
@@ -75,4 +134,169 @@ export async function adminRoutes(fastify: any) {
       });
     }
   });
+
+  // List users
+  fastify.get('/users', {
+    preHandler: requireAdmin,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { search, includeInactive, limit, cursor } = userListSchema.parse(request.query);
+
+      const users = await global.prisma.user.findMany({
+        where: {
+          ...(includeInactive === 'true' ? {} : { isActive: true }),
+          ...(search ? {
+            OR: [
+              { username: { contains: search } },
+              { email: { contains: search } },
+              { name: { contains: search } },
+            ],
+          } : {}),
+        },
+        select: adminUserSelect,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      const page = users.slice(0, limit);
+
+      return reply.send({
+        success: true,
+        users: page.map(toAdminUser),
+        nextCursor: users.length > limit ? page[page.length - 1]?.id ?? null : null,
+      });
+
+    } catch (error) {
+      logger.error('List users error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to list users',
+      });
+    }
+  });
+
+  // Invite a user; they choose a password through the invite link
+  fastify.post('/users/invite', {
+    preHandler: requireAdmin,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email, username, name, role } = inviteUserSchema.parse(request.body);
+      const payload = request.user as any;
+
+      const existing = await global.prisma.user.findFirst({
+        where: {
+          OR: [{ username }, { email: email.toLowerCase() }],
+        },
+      });
+
+      if (existing) {
+        return reply.status(409).send({
+          success: false,
+          message: 'Username or email already in use',
+        });
+      }
+
+      const user = await global.prisma.user.create({
+        data: {
+          email: email.toLowerCase(),
+          username,
+          name,
+          role: role.toUpperCase(),
+          invitedBy: payload.userId,
+        },
+        select: adminUserSelect,
+      });
+
+      const token = await createPasswordToken(user.id, 'INVITE');
+
+      logger.info(`User invited: ${username} (${email}) by ${payload.userId}`);
+
+      return reply.status(201).send({
+        success: true,
+        user: toAdminUser(user),
+        inviteUrl: passwordTokenUrl(token, 'INVITE'),
+      });
+
+    } catch (error) {
+      logger.error('Invite user error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to invite user',
+      });
+    }
+  });
+
+  // Deactivate or reactivate a user
+  const setActive = (isActive: boolean) => async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.params as { userId: string };
+      const payload = request.user as any;
+
+      if (userId === payload.userId) {
+        return reply.status(400).send({
+          success: false,
+          message: 'You cannot change the status of your own account',
+        });
+      }
+
+      const existing = await global.prisma.user.findUnique({ where: { id: userId } });
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+        });
+      }
+
+      const user = await global.prisma.user.update({
+        where: { id: userId },
+        data: {
+          isActive,
+          deactivatedAt: isActive ? null : new Date(),
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        },
+        select: adminUserSelect,
+      });
+
+      if (!isActive) {
+        await revokeAllSessions(userId);
+      }
+
+      logger.info(`User ${isActive ? 'reactivated' : 'deactivated'}: ${user.username} by ${payload.userId}`);
+
+      return reply.send({
+        success: true,
+        user: toAdminUser(user),
+      });
+
+    } catch (error) {
+      logger.error('Update user status error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update user status',
+      });
+    }
+  };
+
+  fastify.post('/users/:userId/deactivate', { preHandler: requireAdmin }, setActive(false));
+  fastify.post('/users/:userId/reactivate', { preHandler: requireAdmin }, setActive(true));
 }
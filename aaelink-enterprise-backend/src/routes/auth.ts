@@ -1,72 +1,149 @@
-import bcrypt from 'bcrypt';
 import { FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { logger } from '../lib/logger';
+import { isMailConfigured, sendMail } from '../lib/mailer';
+import {
+  LOCKOUT_MINUTES,
+  MAX_FAILED_LOGINS,
+  PASSWORD_RESET_TTL_MINUTES,
+  createPasswordToken,
+  hashPassword,
+  hashToken,
+  passwordTokenUrl,
+  tokenPayload,
+  verifyDummyPassword,
+  verifyPassword,
+} from '../lib/passwords';
+import {
+  ACCESS_TOKEN_TTL,
+  createSession,
+  getRefreshTokenSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from '../lib/sessions';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
   password: z.string().min(1, 'Password is required'),
 });
 
+const passwordField = z.string().min(8, 'Password must be at least 8 characters').max(128, 'Password too long');
+
 const registerSchema = z.object({
   username: z.string().min(3, 'Username must be at least 3 characters'),
   email: z.string().email('Invalid email format'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  name: z.string().min(1).max(100).optional(),
+  password: passwordField,
   role: z.enum(['admin', 'user', 'moderator']).default('user'),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: passwordField,
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordField,
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+const sessionMeta = (request: FastifyRequest) => ({
+  userAgent: request.headers['user-agent'],
+  ip: request.ip,
+});
+
+const publicUser = (user: { id: string; username: string; email: string; name: string; role: string; avatar: string | null }) => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  name: user.name,
+  role: user.role.toLowerCase(),
+  avatar: user.avatar ?? user.name.charAt(0).toUpperCase(),
+});
+
 export async function authRoutes(fastify: any) {
   // Login endpoint
   fastify.post('/login', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { username, password } = loginSchema.parse(request.body);
 
-      // Mock user validation - replace with database lookup
-      const validUsers = [
-        { username: 'admin', password: '$2b$10$rQZ8K9vQZ8K9vQZ8K9vQZ8O', email: 'admin@aae.co.th', role: 'admin' },
-        { username: 'admin@aae.co.th', password: '$2b$10$rQZ8K9vQZ8K9vQZ8K9vQZ8O', email: 'admin@aae.co.th', role: 'admin' },
-        { username: 'test', password: '$2b$10$rQZ8K9vQZ8K9vQZ8K9vQZ8O', email: 'test@aae.co.th', role: 'user' },
-      ];
-
-      const user = validUsers.find(u => u.username === username || u.email === username);
+      const user = await global.prisma.user.findFirst({
+        where: {
+          OR: [{ username }, { email: username.toLowerCase() }],
+        },
+      });
 
-      if (!user) {
+      if (!user || !user.passwordHash || !user.isActive) {
+        await verifyDummyPassword(password);
         return reply.status(401).send({
           success: false,
           message: 'Invalid credentials',
         });
       }
 
-      // In production, use bcrypt.compare with hashed password
-      const isValidPassword = password === '12345678' || await bcrypt.compare(password, user.password);
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        return reply.status(423).send({
+          success: false,
+          message: 'Account is temporarily locked after too many failed attempts',
+          lockedUntil: user.lockedUntil.toISOString(),
+        });
+      }
+
+      const isValidPassword = await verifyPassword(password, user.passwordHash);
 
       if (!isValidPassword) {
+        const failedLoginAttempts = user.failedLoginAttempts + 1;
+        const shouldLock = failedLoginAttempts >= MAX_FAILED_LOGINS;
+
+        await global.prisma.user.update({
+          where: { id: user.id },
+          data: {
+            failedLoginAttempts: shouldLock ? 0 : failedLoginAttempts,
+            lockedUntil: shouldLock ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000) : null,
+          },
+        });
+
+        if (shouldLock) {
+          logger.warn(`Account locked after ${MAX_FAILED_LOGINS} failed logins: ${user.username}`);
+        }
+
         return reply.status(401).send({
           success: false,
           message: 'Invalid credentials',
         });
       }
 
-      // Generate JWT token
-      const token = fastify.jwt.sign({
-        userId: user.username,
-        username: user.username,
-        email: user.email,
-        role: user.role,
+      await global.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+          lastLoginAt: new Date(),
+        },
       });
 
-      logger.info(`User logged in: ${username}`);
+      // Every sign-in starts a new session (refresh token family)
+      const { sessionId, refreshToken } = await createSession(user.id, sessionMeta(request));
+      const token = fastify.jwt.sign({ ...tokenPayload(user), sessionId });
+
+      logger.info(`User logged in: ${user.username}`);
 
       return reply.send({
         success: true,
         token,
-        user: {
-          id: user.username,
-          username: user.username,
-          email: user.email,
-          role: user.role,
-          avatar: user.username.charAt(0).toUpperCase(),
-        },
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL,
+        user: publicUser(user),
       });
 
     } catch (error) {
@@ -109,22 +186,39 @@ export async function authRoutes(fastify: any) {
     }
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { username, email, role } = registerSchema.parse(request.body);
+      const { username, email, name, password, role } = registerSchema.parse(request.body);
+      const payload = request.user as any;
 
-      // Hash password
-      // const hashedPassword = await bcrypt.hash(password, 10);
+      const existing = await global.prisma.user.findFirst({
+        where: {
+          OR: [{ username }, { email: email.toLowerCase() }],
+        },
+      });
+
+      if (existing) {
+        return reply.status(409).send({
+          success: false,
+          message: 'Username or email already in use',
+        });
+      }
+
+      const user = await global.prisma.user.create({
+        data: {
+          username,
+          email: email.toLowerCase(),
+          name: name ?? username,
+          role: role.toUpperCase(),
+          passwordHash: await hashPassword(password),
+          invitedBy: payload.userId,
+        },
+      });
 
-      // In production, save to database
       logger.info(`User registered: ${username} (${email}) with role: ${role}`);
 
-      return reply.send({
+      return reply.status(201).send({
         success: true,
         message: 'User registered successfully',
-        user: {
-          username,
-          email,
-          role,
-        },
+        user: publicUser(user),
       });
 
     } catch (error) {
@@ -158,27 +252,404 @@ export async function authRoutes(fastify: any) {
       }
     }
   }, async (request: FastifyRequest, reply: FastifyReply) => {
-    const payload = request.user as any;
-
-    return reply.send({
-      success: true,
-      user: {
-        id: payload.userId,
-        username: payload.username,
-        email: payload.email,
-        role: payload.role,
-      },
-    });
+    try {
+      const payload = request.user as any;
+
+      // Deactivated accounts lose access even while their token is still valid
+      const user = await global.prisma.user.findUnique({ where: { id: payload.userId } });
+
+      if (!user || !user.isActive) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Invalid token',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        user: publicUser(user),
+      });
+
+    } catch (error) {
+      logger.error('Verify token error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
   });
 
-  // Logout endpoint
-  fastify.post('/logout', async (_request: FastifyRequest, reply: FastifyReply) => {
-    // In production, add token to blacklist
-    logger.info('User logged out');
+  // Request a password reset link
+  fastify.post('/password/forgot', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(request.body);
+
+      // Checked before the lookup, so the answer says nothing about the account
+      if (!isMailConfigured()) {
+        return reply.status(503).send({
+          success: false,
+          message: 'Password reset by email is not available, ask an administrator to reset your password',
+        });
+      }
+
+      const user = await global.prisma.user.findUnique({ where: { email: email.toLowerCase() } });
 
-    return reply.send({
-      success: true,
-      message: 'Logged out successfully',
-    });
+      if (user && user.isActive) {
+        const token = await createPasswordToken(user.id, 'RESET');
+
+        try {
+          await sendMail(
+            user.email,
+            'Reset your AAELink password',
+            `Open this link to choose a new password:\n\n${passwordTokenUrl(token, 'RESET')}\n\n`
+              + `It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for it, ignore this email.`
+          );
+        } catch (error) {
+          // Answered like any other request, a failure must not reveal the account exists
+          logger.error('Password reset email error:', error);
+        }
+      }
+
+      // Same answer whether or not the account exists
+      return reply.send({
+        success: true,
+        message: 'If the email is registered, a reset link has been sent',
+      });
+
+    } catch (error) {
+      logger.error('Forgot password error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Set a new password with a reset or invite token
+  fastify.post('/password/reset', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(request.body);
+
+      const passwordToken = await global.prisma.passwordToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: true },
+      });
+
+      if (
+        !passwordToken ||
+        passwordToken.usedAt ||
+        passwordToken.expiresAt < new Date() ||
+        !passwordToken.user.isActive
+      ) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Invalid or expired token',
+        });
+      }
+
+      await global.prisma.$transaction([
+        global.prisma.passwordToken.update({
+          where: { id: passwordToken.id },
+          data: { usedAt: new Date() },
+        }),
+        global.prisma.user.update({
+          where: { id: passwordToken.userId },
+          data: {
+            passwordHash: await hashPassword(password),
+            failedLoginAttempts: 0,
+            lockedUntil: null,
+          },
+        }),
+      ]);
+
+      // Sessions opened with the old password do not survive a reset
+      await revokeAllSessions(passwordToken.userId);
+
+      logger.info(`Password ${passwordToken.type === 'INVITE' ? 'set from invite' : 'reset'}: ${passwordToken.user.username}`);
+
+      return reply.send({
+        success: true,
+        message: 'Password updated successfully',
+      });
+
+    } catch (error) {
+      logger.error('Reset password error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Change password for the signed-in user
+  fastify.post('/password/change', {
+    preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        await request.jwtVerify();
+      } catch (error) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+        });
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(request.body);
+      const payload = request.user as any;
+
+      const user = await global.prisma.user.findUnique({ where: { id: payload.userId } });
+
+      if (!user || !user.passwordHash || !(await verifyPassword(currentPassword, user.passwordHash))) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Current password is incorrect',
+        });
+      }
+
+      await global.prisma.user.update({
+        where: { id: user.id },
+        data: { passwordHash: await hashPassword(newPassword) },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Password changed successfully',
+      });
+
+    } catch (error) {
+      logger.error('Change password error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Exchange a refresh token for a new access/refresh pair
+  fastify.post('/refresh', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { refreshToken } = refreshSchema.parse(request.body);
+
+      const result = await rotateRefreshToken(refreshToken, sessionMeta(request));
+
+      if (result.status === 'reused') {
+        logger.warn(`Refresh token reuse detected, revoked session ${result.sessionId} of user ${result.userId}`);
+      }
+
+      if (result.status !== 'ok') {
+        return reply.status(401).send({
+          success: false,
+          message: 'Invalid refresh token',
+        });
+      }
+
+      const user = await global.prisma.user.findUnique({ where: { id: result.userId } });
+
+      if (!user || !user.isActive) {
+        await revokeSession(result.userId, result.sessionId);
+        return reply.status(401).send({
+          success: false,
+          message: 'Invalid refresh token',
+        });
+      }
+
+      const token = fastify.jwt.sign({ ...tokenPayload(user), sessionId: result.sessionId });
+
+      return reply.send({
+        success: true,
+        token,
+        refreshToken: result.refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL,
+      });
+
+    } catch (error) {
+      logger.error('Refresh token error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Logout endpoint: revoke the current session
+  fastify.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { refreshToken } = (request.body ?? {}) as { refreshToken?: string };
+
+      try {
+        await request.jwtVerify();
+        const payload = request.user as any;
+
+        if (payload.sessionId) {
+          await revokeSession(payload.userId, payload.sessionId);
+        }
+      } catch (error) {
+        // An expired access token still allows signing out with the refresh token
+        const session = refreshToken ? await getRefreshTokenSession(refreshToken) : null;
+        if (session) {
+          await revokeSession(session.userId, session.sessionId);
+        }
+      }
+
+      logger.info('User logged out');
+
+      return reply.send({
+        success: true,
+        message: 'Logged out successfully',
+      });
+
+    } catch (error) {
+      logger.error('Logout error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Sign out everywhere: revoke every session of the current user
+  fastify.post('/logout-all', {
+    preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        await request.jwtVerify();
+      } catch (error) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+        });
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const payload = request.user as any;
+      const revoked = await revokeAllSessions(payload.userId);
+
+      logger.info(`User signed out everywhere: ${payload.userId} (${revoked} sessions)`);
+
+      return reply.send({
+        success: true,
+        message: 'Signed out of all sessions',
+        revoked,
+      });
+
+    } catch (error) {
+      logger.error('Logout all error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // List active sessions with device and IP information
+  fastify.get('/sessions', {
+    preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        await request.jwtVerify();
+      } catch (error) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+        });
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const payload = request.user as any;
+      const sessions = await listSessions(payload.userId);
+
+      return reply.send({
+        success: true,
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === payload.sessionId,
+        })),
+      });
+
+    } catch (error) {
+      logger.error('List sessions error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Revoke a single session
+  fastify.delete('/sessions/:sessionId', {
+    preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        await request.jwtVerify();
+      } catch (error) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+        });
+      }
+    }
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { sessionId } = request.params as { sessionId: string };
+      const payload = request.user as any;
+
+      const sessions = await listSessions(payload.userId);
+      if (!sessions.some((session) => session.id === sessionId)) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Session not found',
+        });
+      }
+
+      await revokeSession(payload.userId, sessionId);
+
+      return reply.send({
+        success: true,
+        message: 'Session revoked',
+      });
+
+    } catch (error) {
+      logger.error('Revoke session error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
   });
 }
@@ -1,6 +1,8 @@
+import { Event } from '@prisma/client';
 import { FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { logger } from '../lib/logger';
+import { ifMatchAllows, isVersionMismatch, sendVersionConflict, versionTag } from '../lib/versioning';
 
 // Input validation schemas
 const createEventSchema = z.object({
@@ -30,6 +32,21 @@ const getEventsSchema = z.object({
   offset: z.number().min(0).default(0),
 });
 
+// Events are stored with startDate/endDate, the API keeps the startTime/endTime of the calendar UI
+const toEvent = (event: Event) => ({
+  id: event.id,
+  title: event.title,
+  description: event.description,
+  startTime: event.startDate.toISOString(),
+  endTime: event.endDate.toISOString(),
+  location: event.location,
+  isAllDay: event.isAllDay,
+  creatorId: event.userId,
+  version: event.version,
+  createdAt: event.createdAt.toISOString(),
+  updatedAt: event.updatedAt.toISOString(),
+});
+
 export async function calendarRoutes(fastify: any) {
   // Create event
   fastify.post('/events', {
@@ -70,22 +87,23 @@ export async function calendarRoutes(fastify: any) {
         });
       }
 
-      // Create event
-      const event = {
-        id: `event_${Date.now()}`,
-        ...eventData,
-        creatorId: payload.userId,
-        creatorName: payload.username,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        status: 'scheduled',
-      };
+      // Attendees, recurrence and room bookings are not stored yet
+      const event = await global.prisma.event.create({
+        data: {
+          title: eventData.title,
+          description: eventData.description ?? null,
+          location: eventData.location ?? null,
+          startDate: startTime,
+          endDate: endTime,
+          userId: payload.userId,
+        },
+      });
 
       logger.info(`Event created: ${event.title} by ${payload.username}`);
 
-      return reply.send({
+      return reply.header('ETag', versionTag(event.version)).send({
         success: true,
-        event,
+        event: toEvent(event),
       });
 
     } catch (error) {
@@ -123,58 +141,33 @@ export async function calendarRoutes(fastify: any) {
       const queryParams = request.query as any;
       const { startDate, endDate, limit, offset } = getEventsSchema.parse(queryParams);
 
-      // Mock events - replace with database query
-      const events = [
-        {
-          id: 'event_1',
-          title: 'Team Meeting',
-          description: 'Weekly team standup',
-          startTime: new Date().toISOString(),
-          endTime: new Date(Date.now() + 3600000).toISOString(),
-          location: 'Conference Room A',
-          attendees: ['admin@aae.co.th', 'user1@aae.co.th'],
-          creatorId: 'admin',
-          creatorName: 'Admin User',
-          status: 'scheduled',
-          createdAt: new Date().toISOString(),
-        },
-        {
-          id: 'event_2',
-          title: 'Project Review',
-          description: 'Monthly project review meeting',
-          startTime: new Date(Date.now() + 86400000).toISOString(),
-          endTime: new Date(Date.now() + 86400000 + 7200000).toISOString(),
-          location: 'Conference Room B',
-          attendees: ['admin@aae.co.th'],
-          creatorId: 'admin',
-          creatorName: 'Admin User',
-          status: 'scheduled',
-          createdAt: new Date().toISOString(),
+      const payload = request.user as any;
+      const where = {
+        userId: payload.userId,
+        startDate: {
+          ...(startDate && { gte: new Date(startDate) }),
+          ...(endDate && { lte: new Date(endDate) }),
         },
-      ];
-
-      // Filter by date range if provided
-      let filteredEvents = events;
-      if (startDate) {
-        const start = new Date(startDate);
-        filteredEvents = filteredEvents.filter(event => new Date(event.startTime) >= start);
-      }
-      if (endDate) {
-        const end = new Date(endDate);
-        filteredEvents = filteredEvents.filter(event => new Date(event.startTime) <= end);
-      }
+      };
 
-      // Apply pagination
-      const paginatedEvents = filteredEvents.slice(offset, offset + limit);
+      const [total, events] = await Promise.all([
+        global.prisma.event.count({ where }),
+        global.prisma.event.findMany({
+          where,
+          orderBy: { startDate: 'asc' },
+          skip: offset,
+          take: limit,
+        }),
+      ]);
 
       return reply.send({
         success: true,
-        events: paginatedEvents,
+        events: events.map(toEvent),
         pagination: {
-          total: filteredEvents.length,
+          total,
           limit,
           offset,
-          hasMore: offset + limit < filteredEvents.length,
+          hasMore: offset + limit < total,
         },
       });
 
@@ -214,37 +207,69 @@ export async function calendarRoutes(fastify: any) {
       const updateData = updateEventSchema.parse({ id, ...(request.body as any) });
       const payload = request.user as any;
 
-      // Check if event exists and user has permission
-      // In production, check database
-      const eventExists = true; // Mock check
-      const hasPermission = true; // Mock permission check
-
-      if (!eventExists) {
+      const existing = await global.prisma.event.findUnique({ where: { id } });
+      if (!existing) {
         return reply.status(404).send({
           success: false,
           message: 'Event not found',
         });
       }
 
-      if (!hasPermission) {
+      if (existing.userId !== payload.userId) {
         return reply.status(403).send({
           success: false,
           message: 'Permission denied',
         });
       }
 
-      // Update event
-      const updatedEvent = {
-        ...updateData,
-        updatedAt: new Date().toISOString(),
-        updatedBy: payload.userId,
-      };
+      if (!ifMatchAllows(request, existing.version)) {
+        return sendVersionConflict(reply, toEvent(existing));
+      }
+
+      const startDate = updateData.startTime ? new Date(updateData.startTime) : existing.startDate;
+      const endDate = updateData.endTime ? new Date(updateData.endTime) : existing.endDate;
+
+      if (startDate >= endDate) {
+        return reply.status(400).send({
+          success: false,
+          message: 'End time must be after start time',
+        });
+      }
+
+      let event: Event;
+      try {
+        // Guarded by the version read above, a concurrent update in between is a conflict too
+        event = await global.prisma.event.update({
+          where: { id, version: existing.version },
+          data: {
+            ...(updateData.title !== undefined && { title: updateData.title }),
+            ...(updateData.description !== undefined && { description: updateData.description }),
+            ...(updateData.location !== undefined && { location: updateData.location }),
+            startDate,
+            endDate,
+            version: { increment: 1 },
+          },
+        });
+      } catch (error) {
+        if (!isVersionMismatch(error)) {
+          throw error;
+        }
+
+        const current = await global.prisma.event.findUnique({ where: { id } });
+        if (!current) {
+          return reply.status(404).send({
+            success: false,
+            message: 'Event not found',
+          });
+        }
+        return sendVersionConflict(reply, toEvent(current));
+      }
 
       logger.info(`Event updated: ${id} by ${payload.username}`);
 
-      return reply.send({
+      return reply.header('ETag', versionTag(event.version)).send({
         success: true,
-        event: updatedEvent,
+        event: toEvent(event),
       });
 
     } catch (error) {
@@ -282,26 +307,38 @@ export async function calendarRoutes(fastify: any) {
       const { id } = request.params as { id: string };
       const payload = request.user as any;
 
-      // Check if event exists and user has permission
-      // In production, check database
-      const eventExists = true; // Mock check
-      const hasPermission = true; // Mock permission check
-
-      if (!eventExists) {
+      const existing = await global.prisma.event.findUnique({ where: { id } });
+      if (!existing) {
         return reply.status(404).send({
           success: false,
           message: 'Event not found',
         });
       }
 
-      if (!hasPermission) {
+      if (existing.userId !== payload.userId) {
         return reply.status(403).send({
           success: false,
           message: 'Permission denied',
         });
       }
 
-      // Delete event
+      if (!ifMatchAllows(request, existing.version)) {
+        return sendVersionConflict(reply, toEvent(existing));
+      }
+
+      try {
+        await global.prisma.event.delete({ where: { id, version: existing.version } });
+      } catch (error) {
+        if (!isVersionMismatch(error)) {
+          throw error;
+        }
+
+        const current = await global.prisma.event.findUnique({ where: { id } });
+        if (current) {
+          return sendVersionConflict(reply, toEvent(current));
+        }
+      }
+
       logger.info(`Event deleted: ${id} by ${payload.username}`);
 
       return reply.send({
@@ -1,55 +1,152 @@
+import { Prisma } from '@prisma/client';
 import { FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { logger } from '../lib/logger';
+import { channelRoom, joinChannelRoom, leaveChannelRoom, userRoom } from '../lib/realtime';
+import { indexMessage } from '../lib/search';
 
 // Input validation schemas
 const messageSchema = z.object({
   content: z.string().min(1, 'Message content is required').max(2000, 'Message too long'),
   channelId: z.string().min(1, 'Channel ID is required'),
   type: z.enum(['text', 'file', 'image', 'voice']).default('text'),
+  threadId: z.string().optional(),
 });
 
-// const channelSchema = z.object({
-//   name: z.string().min(1, 'Channel name is required').max(50, 'Channel name too long'),
-//   type: z.enum(['text', 'voice']).default('text'),
-// });
+const channelSchema = z.object({
+  name: z.string().min(1, 'Channel name is required').max(50, 'Channel name too long'),
+  description: z.string().max(500, 'Description too long').optional(),
+  isPrivate: z.boolean().default(false),
+  memberIds: z.array(z.string()).max(100).default([]),
+});
+
+const threadSchema = z.object({
+  title: z.string().min(1, 'Thread title is required').max(200, 'Thread title too long'),
+});
+
+const reactionSchema = z.object({
+  emoji: z.string().min(1, 'Emoji is required').max(32, 'Emoji too long'),
+});
+
+const paginationSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  threadId: z.string().optional(),
+});
+
+const userSelect = {
+  id: true,
+  username: true,
+  name: true,
+  avatar: true,
+};
+
+const messageInclude = {
+  user: { select: userSelect },
+  reactions: {
+    include: { user: { select: userSelect } },
+  },
+  files: true,
+} satisfies Prisma.MessageInclude;
 
+type MessageWithDetails = Prisma.MessageGetPayload<{ include: typeof messageInclude }>;
+
+// Broadcasts go to the channel room, never to non-members
+function broadcastToChannel(channelId: string, event: string, payload: unknown) {
+  if (global.io) {
+    global.io.to(channelRoom(channelId)).emit(event, payload);
+  }
+}
+
+// Keeps the shape the web client already renders (authorId, authorName, timestamp)
+function serializeMessage(message: MessageWithDetails) {
+  return {
+    id: message.id,
+    content: message.content,
+    channelId: message.channelId,
+    threadId: message.threadId,
+    authorId: message.userId,
+    authorName: message.user.name ?? message.user.username,
+    authorAvatar: message.user.avatar ?? null,
+    timestamp: message.createdAt.toISOString(),
+    type: message.type.toLowerCase(),
+    isPinned: message.isPinned,
+    isEdited: message.isEdited,
+    reactions: message.reactions,
+    files: message.files,
+  };
+}
+
+async function authenticate(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    await request.jwtVerify();
+  } catch (error) {
+    return reply.status(401).send({
+      success: false,
+      message: 'Authentication required',
+    });
+  }
+}
+
+async function findChannelForMember(channelId: string, userId: string) {
+  return global.prisma.channel.findFirst({
+    where: {
+      id: channelId,
+      members: { some: { id: userId } },
+    },
+  });
+}
 
 export async function chatRoutes(fastify: any) {
-  // Get messages for a channel
-  fastify.get('/messages/:channelId', async (request: FastifyRequest, reply: FastifyReply) => {
+  // Get messages for a channel, newest page first
+  fastify.get('/messages/:channelId', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { channelId } = request.params as { channelId: string };
+      const { cursor, limit, threadId } = paginationSchema.parse(request.query);
+      const payload = request.user as any;
 
-      // Mock messages - replace with database query
-      const messages = [
-        {
-          id: '1',
-          content: 'Welcome to AAELink Enterprise!',
-          channelId,
-          authorId: 'admin',
-          authorName: 'Admin User',
-          timestamp: new Date().toISOString(),
-          type: 'text',
-        },
-        {
-          id: '2',
-          content: 'This is a secure workspace for AAE employees.',
+      const channel = await findChannelForMember(channelId, payload.userId);
+      if (!channel) {
+        return reply.status(403).send({
+          success: false,
+          message: 'You are not a member of this channel',
+        });
+      }
+
+      const page = await global.prisma.message.findMany({
+        where: {
           channelId,
-          authorId: 'admin',
-          authorName: 'Admin User',
-          timestamp: new Date(Date.now() - 60000).toISOString(),
-          type: 'text',
+          ...(threadId ? { threadId } : {}),
         },
-      ];
+        include: messageInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      const hasMore = page.length > limit;
+      const messages = page.slice(0, limit);
 
       return reply.send({
         success: true,
-        messages,
+        // Oldest first within the page so the client can append in order
+        messages: messages.reverse().map(serializeMessage),
+        nextCursor: hasMore ? messages[0]?.id ?? null : null,
       });
 
     } catch (error) {
       logger.error('Get messages error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
       return reply.status(500).send({
         success: false,
         message: 'Failed to fetch messages',
@@ -59,46 +156,139 @@ export async function chatRoutes(fastify: any) {
 
   // Send a message
   fastify.post('/messages', {
-    preHandler: async (request: FastifyRequest, reply: FastifyReply) => {
-      try {
-        await request.jwtVerify();
-      } catch (error) {
-        return reply.status(401).send({
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { content, channelId, type, threadId } = messageSchema.parse(request.body);
+      const payload = request.user as any;
+
+      const channel = await findChannelForMember(channelId, payload.userId);
+      if (!channel) {
+        return reply.status(403).send({
           success: false,
-          message: 'Authentication required',
+          message: 'You are not a member of this channel',
         });
       }
+
+      if (channel.isArchived) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Channel is archived',
+        });
+      }
+
+      if (threadId) {
+        const thread = await global.prisma.thread.findFirst({
+          where: { id: threadId, channelId },
+        });
+
+        if (!thread) {
+          return reply.status(400).send({
+            success: false,
+            message: 'Thread does not belong to this channel',
+          });
+        }
+      }
+
+      const created = await global.prisma.message.create({
+        data: {
+          content,
+          channelId,
+          userId: payload.userId,
+          type: type.toUpperCase(),
+          ...(threadId ? { threadId } : {}),
+        },
+        include: messageInclude,
+      });
+
+      await global.prisma.channel.update({
+        where: { id: channelId },
+        data: { updatedAt: new Date() },
+      });
+
+      indexMessage(created);
+
+      const message = serializeMessage(created);
+
+      logger.info(`Message sent by ${payload.userId} in channel ${channelId}`);
+
+      broadcastToChannel(channelId, 'message', message);
+
+      return reply.send({
+        success: true,
+        message,
+      });
+
+    } catch (error) {
+      logger.error('Send message error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to send message',
+      });
     }
+  });
+
+  // Toggle a reaction on a message
+  fastify.post('/messages/:messageId/reactions', {
+    preHandler: authenticate,
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { content, channelId, type } = messageSchema.parse(request.body);
+      const { messageId } = request.params as { messageId: string };
+      const { emoji } = reactionSchema.parse(request.body);
       const payload = request.user as any;
 
-      // In production, save to database
-      const message = {
-        id: Date.now().toString(),
-        content,
-        channelId,
-        authorId: payload.userId,
-        authorName: payload.username,
-        timestamp: new Date().toISOString(),
-        type,
-      };
+      const message = await global.prisma.message.findFirst({
+        where: {
+          id: messageId,
+          channel: { members: { some: { id: payload.userId } } },
+        },
+      });
+
+      if (!message) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Message not found',
+        });
+      }
 
-      logger.info(`Message sent by ${payload.username} in channel ${channelId}`);
+      const existing = await global.prisma.reaction.findUnique({
+        where: {
+          messageId_userId_emoji: { messageId, userId: payload.userId, emoji },
+        },
+      });
 
-      // Broadcast to WebSocket clients
-      if (global.io) {
-        global.io.emit('message', message);
+      if (existing) {
+        await global.prisma.reaction.delete({ where: { id: existing.id } });
+      } else {
+        await global.prisma.reaction.create({
+          data: { messageId, userId: payload.userId, emoji },
+        });
       }
 
+      const reactions = await global.prisma.reaction.findMany({
+        where: { messageId },
+        include: { user: { select: userSelect } },
+      });
+
+      broadcastToChannel(message.channelId, 'message:reactions', { messageId, reactions });
+
       return reply.send({
         success: true,
-        message,
+        added: !existing,
+        reactions,
       });
 
     } catch (error) {
-      logger.error('Send message error:', error);
+      logger.error('Toggle reaction error:', error);
 
       if (error instanceof z.ZodError) {
         return reply.status(400).send({
@@ -110,26 +300,42 @@ export async function chatRoutes(fastify: any) {
 
       return reply.status(500).send({
         success: false,
-        message: 'Failed to send message',
+        message: 'Failed to update reaction',
       });
     }
   });
 
-  // Get channels
-  fastify.get('/channels', async (_request: FastifyRequest, reply: FastifyReply) => {
+  // Get channels the user belongs to, plus public channels they can join
+  fastify.get('/channels', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      // Mock channels - replace with database query
-      const channels = [
-        { id: 'general', name: 'general', type: 'text', unread: 0 },
-        { id: 'announcements', name: 'announcements', type: 'text', unread: 3 },
-        { id: 'development', name: 'development', type: 'text', unread: 0 },
-        { id: 'design', name: 'design', type: 'text', unread: 1 },
-        { id: 'marketing', name: 'marketing', type: 'text', unread: 0 },
-      ];
+      const { includeArchived } = request.query as { includeArchived?: string };
+      const payload = request.user as any;
+
+      const channels = await global.prisma.channel.findMany({
+        where: {
+          OR: [
+            { members: { some: { id: payload.userId } } },
+            { isPrivate: false },
+          ],
+          ...(includeArchived === 'true' ? {} : { isArchived: false }),
+        },
+        include: {
+          members: { where: { id: payload.userId }, select: { id: true } },
+          _count: { select: { members: true, messages: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+      });
 
       return reply.send({
         success: true,
-        channels,
+        channels: channels.map(({ members, _count, ...channel }) => ({
+          ...channel,
+          isMember: members.length > 0,
+          memberCount: _count.members,
+          messageCount: _count.messages,
+        })),
       });
 
     } catch (error) {
@@ -140,4 +346,288 @@ export async function chatRoutes(fastify: any) {
       });
     }
   });
+
+  // Create a channel; the creator is its first member
+  fastify.post('/channels', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { name, description, isPrivate, memberIds } = channelSchema.parse(request.body);
+      const payload = request.user as any;
+
+      const memberSet = Array.from(new Set([payload.userId, ...memberIds]));
+
+      const channel = await global.prisma.channel.create({
+        data: {
+          name,
+          description: description ?? null,
+          isPrivate,
+          type: isPrivate ? 'PRIVATE' : 'PUBLIC',
+          createdBy: payload.userId,
+          members: {
+            connect: memberSet.map((id) => ({ id })),
+          },
+        },
+      });
+
+      logger.info(`Channel ${channel.id} created by ${payload.userId}`);
+
+      if (global.io) {
+        memberSet.forEach((memberId) => {
+          joinChannelRoom(memberId, channel.id);
+          global.io.to(userRoom(memberId)).emit('channel:created', channel);
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        channel,
+      });
+
+    } catch (error) {
+      logger.error('Create channel error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to create channel',
+      });
+    }
+  });
+
+  // Join a public channel
+  fastify.post('/channels/:channelId/join', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { channelId } = request.params as { channelId: string };
+      const payload = request.user as any;
+
+      const channel = await global.prisma.channel.findUnique({ where: { id: channelId } });
+
+      if (!channel || channel.isPrivate) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Channel not found',
+        });
+      }
+
+      if (channel.isArchived) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Channel is archived',
+        });
+      }
+
+      await global.prisma.channel.update({
+        where: { id: channelId },
+        data: { members: { connect: { id: payload.userId } } },
+      });
+
+      joinChannelRoom(payload.userId, channelId);
+      broadcastToChannel(channelId, 'channel:member_joined', { channelId, userId: payload.userId });
+
+      return reply.send({
+        success: true,
+        message: 'Joined channel',
+      });
+
+    } catch (error) {
+      logger.error('Join channel error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to join channel',
+      });
+    }
+  });
+
+  // Leave a channel
+  fastify.post('/channels/:channelId/leave', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { channelId } = request.params as { channelId: string };
+      const payload = request.user as any;
+
+      const channel = await findChannelForMember(channelId, payload.userId);
+      if (!channel) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Channel not found',
+        });
+      }
+
+      await global.prisma.channel.update({
+        where: { id: channelId },
+        data: { members: { disconnect: { id: payload.userId } } },
+      });
+
+      broadcastToChannel(channelId, 'channel:member_left', { channelId, userId: payload.userId });
+      leaveChannelRoom(payload.userId, channelId);
+
+      return reply.send({
+        success: true,
+        message: 'Left channel',
+      });
+
+    } catch (error) {
+      logger.error('Leave channel error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to leave channel',
+      });
+    }
+  });
+
+  // Archive or unarchive a channel (creator or admin)
+  const setArchived = (isArchived: boolean) => async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { channelId } = request.params as { channelId: string };
+      const payload = request.user as any;
+
+      const channel = await global.prisma.channel.findUnique({ where: { id: channelId } });
+      if (!channel) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Channel not found',
+        });
+      }
+
+      if (channel.createdBy !== payload.userId && String(payload.role).toLowerCase() !== 'admin') {
+        return reply.status(403).send({
+          success: false,
+          message: 'Only the channel creator or an admin can change the archive state',
+        });
+      }
+
+      const updated = await global.prisma.channel.update({
+        where: { id: channelId },
+        data: {
+          isArchived,
+          archivedAt: isArchived ? new Date() : null,
+        },
+      });
+
+      broadcastToChannel(channelId, isArchived ? 'channel:archived' : 'channel:unarchived', { channelId });
+
+      return reply.send({
+        success: true,
+        channel: updated,
+      });
+
+    } catch (error) {
+      logger.error('Archive channel error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update channel',
+      });
+    }
+  };
+
+  fastify.post('/channels/:channelId/archive', { preHandler: authenticate }, setArchived(true));
+  fastify.post('/channels/:channelId/unarchive', { preHandler: authenticate }, setArchived(false));
+
+  // Get threads in a channel
+  fastify.get('/channels/:channelId/threads', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { channelId } = request.params as { channelId: string };
+      const payload = request.user as any;
+
+      const channel = await findChannelForMember(channelId, payload.userId);
+      if (!channel) {
+        return reply.status(403).send({
+          success: false,
+          message: 'You are not a member of this channel',
+        });
+      }
+
+      const threads = await global.prisma.thread.findMany({
+        where: { channelId },
+        include: {
+          user: { select: userSelect },
+          _count: { select: { messages: true } },
+        },
+        orderBy: [{ isPinned: 'desc' }, { updatedAt: 'desc' }],
+      });
+
+      return reply.send({
+        success: true,
+        threads,
+      });
+
+    } catch (error) {
+      logger.error('Get threads error:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to fetch threads',
+      });
+    }
+  });
+
+  // Start a thread in a channel
+  fastify.post('/channels/:channelId/threads', {
+    preHandler: authenticate,
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { channelId } = request.params as { channelId: string };
+      const { title } = threadSchema.parse(request.body);
+      const payload = request.user as any;
+
+      const channel = await findChannelForMember(channelId, payload.userId);
+      if (!channel) {
+        return reply.status(403).send({
+          success: false,
+          message: 'You are not a member of this channel',
+        });
+      }
+
+      if (channel.isArchived) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Channel is archived',
+        });
+      }
+
+      const thread = await global.prisma.thread.create({
+        data: {
+          title,
+          channelId,
+          userId: payload.userId,
+        },
+        include: { user: { select: userSelect } },
+      });
+
+      broadcastToChannel(channelId, 'thread:created', thread);
+
+      return reply.status(201).send({
+        success: true,
+        thread,
+      });
+
+    } catch (error) {
+      logger.error('Create thread error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to create thread',
+      });
+    }
+  });
 }
@@ -1,13 +1,14 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { logger } from '../lib/logger';
+import { SearchDocumentType, SearchHit, SearchRequest } from '../lib/search';
 
 // Input validation schemas
 const searchSchema = z.object({
   query: z.string().min(1, 'Search query is required').max(500, 'Search query too long'),
   type: z.enum(['all', 'messages', 'files', 'users', 'channels']).default('all'),
-  limit: z.number().min(1).max(100).default(20),
-  offset: z.number().min(0).default(0),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
 });
 
 const advancedSearchSchema = z.object({
@@ -24,6 +25,169 @@ const advancedSearchSchema = z.object({
   offset: z.number().min(0).default(0),
 });
 
+// People and channels matched by name, listed with the first page of an "all" search
+const NAME_MATCH_LIMIT = 5;
+
+const userSelect = {
+  id: true,
+  username: true,
+  name: true,
+  avatar: true,
+};
+
+// Channels whose messages the user can read
+async function memberChannelIds(userId: string) {
+  const channels = await global.prisma.channel.findMany({
+    where: { members: { some: { id: userId } } },
+    select: { id: true },
+  });
+
+  return channels.map(channel => channel.id);
+}
+
+// Channels the user can see in the channel list: their own and public ones
+function visibleChannelsWhere(userId: string) {
+  return {
+    OR: [
+      { members: { some: { id: userId } } },
+      { isPrivate: false },
+    ],
+  };
+}
+
+/**
+ * Run a query on the search index and load the matching messages and files
+ * in ranking order, in the result shape the web client renders.
+ */
+async function searchDocuments(request: SearchRequest) {
+  const { hits, total } = await global.searchIndex.search(request);
+  const idsOf = (type: SearchDocumentType) => hits.filter(hit => hit.type === type).map(hit => hit.id);
+
+  const [messages, files] = await Promise.all([
+    global.prisma.message.findMany({
+      where: { id: { in: idsOf('message') } },
+      include: {
+        user: { select: userSelect },
+        channel: { select: { id: true, name: true } },
+      },
+    }),
+    global.prisma.file.findMany({
+      where: { id: { in: idsOf('file') } },
+      include: {
+        user: { select: userSelect },
+        message: { select: { channelId: true } },
+      },
+    }),
+  ]);
+
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+  const filesById = new Map(files.map(file => [file.id, file]));
+
+  const toResult = (hit: SearchHit) => {
+    if (hit.type === 'message') {
+      const message = messagesById.get(hit.id);
+      return message && {
+        id: message.id,
+        content: message.content,
+        snippet: hit.snippet,
+        channelId: message.channelId,
+        channelName: message.channel.name,
+        authorId: message.userId,
+        authorName: message.user.name,
+        timestamp: message.createdAt.toISOString(),
+        relevanceScore: hit.score,
+        resultType: 'message',
+      };
+    }
+
+    const file = filesById.get(hit.id);
+    return file && {
+      id: file.id,
+      name: file.name,
+      snippet: hit.snippet,
+      type: file.type,
+      size: file.size,
+      url: file.url,
+      channelId: file.message?.channelId ?? null,
+      authorId: file.userId,
+      authorName: file.user.name,
+      timestamp: file.createdAt.toISOString(),
+      relevanceScore: hit.score,
+      resultType: 'file',
+    };
+  };
+
+  // Rows deleted since they were indexed are skipped
+  const results = hits.flatMap(hit => {
+    const result = toResult(hit);
+    return result ? [result] : [];
+  });
+
+  return { results, total };
+}
+
+async function searchUsers(query: string, userId: string, limit: number, offset: number) {
+  const where = {
+    isActive: true,
+    id: { not: userId },
+    OR: [
+      { name: { contains: query } },
+      { username: { contains: query } },
+      { email: { contains: query } },
+    ],
+  };
+
+  const [users, total] = await Promise.all([
+    global.prisma.user.findMany({
+      where,
+      select: { ...userSelect, email: true },
+      orderBy: { name: 'asc' },
+      take: limit,
+      skip: offset,
+    }),
+    global.prisma.user.count({ where }),
+  ]);
+
+  return {
+    results: users.map(user => ({ ...user, resultType: 'user' })),
+    total,
+  };
+}
+
+async function searchChannels(query: string, userId: string, limit: number, offset: number) {
+  const where = {
+    AND: [
+      visibleChannelsWhere(userId),
+      { isArchived: false },
+      { name: { contains: query } },
+    ],
+  };
+
+  const [channels, total] = await Promise.all([
+    global.prisma.channel.findMany({
+      where,
+      include: { _count: { select: { members: true } } },
+      orderBy: { name: 'asc' },
+      take: limit,
+      skip: offset,
+    }),
+    global.prisma.channel.count({ where }),
+  ]);
+
+  return {
+    results: channels.map(({ _count, ...channel }) => ({
+      id: channel.id,
+      name: channel.name,
+      description: channel.description,
+      type: channel.type.toLowerCase(),
+      isPrivate: channel.isPrivate,
+      memberCount: _count.members,
+      resultType: 'channel',
+    })),
+    total,
+  };
+}
+
 export async function searchRoutes(fastify: any) {
   // Basic search
   fastify.get('/search', {
@@ -41,85 +205,40 @@ export async function searchRoutes(fastify: any) {
     try {
       const queryParams = request.query as any;
       const { query, type, limit, offset } = searchSchema.parse(queryParams);
+      const payload = request.user as any;
 
-      // Mock search results - replace with Elasticsearch integration
-      const searchResults = {
-        messages: [
-          {
-            id: '1',
-            content: `Found message containing "${query}"`,
-            channelId: 'general',
-            channelName: 'general',
-            authorId: 'admin',
-            authorName: 'Admin User',
-            timestamp: new Date().toISOString(),
-            relevanceScore: 0.95,
-          },
-          {
-            id: '2',
-            content: `Another message with "${query}" keyword`,
-            channelId: 'development',
-            channelName: 'development',
-            authorId: 'user1',
-            authorName: 'John Doe',
-            timestamp: new Date(Date.now() - 3600000).toISOString(),
-            relevanceScore: 0.87,
-          },
-        ],
-        files: [
-          {
-            id: 'file_1',
-            name: `document_${query}.pdf`,
-            type: 'application/pdf',
-            size: 1024000,
-            channelId: 'general',
-            authorId: 'admin',
-            authorName: 'Admin User',
-            timestamp: new Date().toISOString(),
-            relevanceScore: 0.92,
-          },
-        ],
-        users: [
-          {
-            id: 'user_1',
-            name: 'John Doe',
-            email: 'john@aae.co.th',
-            status: 'online',
-            relevanceScore: 0.78,
-          },
-        ],
-        channels: [
-          {
-            id: 'channel_1',
-            name: 'general',
-            type: 'text',
-            memberCount: 45,
-            relevanceScore: 0.85,
-          },
-        ],
+      const access = {
+        userId: payload.userId,
+        channelIds: await memberChannelIds(payload.userId),
       };
 
-      // Filter results based on type
-      let results = [];
-      if (type === 'all') {
-        results = [
-          ...searchResults.messages.map(item => ({ ...item, resultType: 'message' })),
-          ...searchResults.files.map(item => ({ ...item, resultType: 'file' })),
-          ...searchResults.users.map(item => ({ ...item, resultType: 'user' })),
-          ...searchResults.channels.map(item => ({ ...item, resultType: 'channel' })),
-        ];
+      let page: { results: any[]; total: number };
+      if (type === 'users') {
+        page = await searchUsers(query, payload.userId, limit, offset);
+      } else if (type === 'channels') {
+        page = await searchChannels(query, payload.userId, limit, offset);
+      } else if (type === 'messages' || type === 'files') {
+        page = await searchDocuments({
+          text: query,
+          access,
+          filters: { types: [type === 'messages' ? 'message' : 'file'] },
+          limit,
+          offset,
+        });
       } else {
-        results = searchResults[type as keyof typeof searchResults].map(item => ({
-          ...item,
-          resultType: type,
-        }));
-      }
+        page = await searchDocuments({ text: query, access, limit, offset });
 
-      // Sort by relevance score
-      results.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+        // Name matches lead the first page and do not take part in paging
+        if (offset === 0) {
+          const [channels, users] = await Promise.all([
+            searchChannels(query, payload.userId, NAME_MATCH_LIMIT, 0),
+            searchUsers(query, payload.userId, NAME_MATCH_LIMIT, 0),
+          ]);
+          page.results = [...channels.results, ...users.results, ...page.results];
+        }
+      }
 
-      // Apply pagination
-      const paginatedResults = results.slice(offset, offset + limit);
+      const paginatedResults = page.results;
 
       logger.info(`Search performed: "${query}" (type: ${type}, results: ${paginatedResults.length})`);
 
@@ -129,10 +248,10 @@ export async function searchRoutes(fastify: any) {
         type,
         results: paginatedResults,
         pagination: {
-          total: results.length,
+          total: page.total,
           limit,
           offset,
-          hasMore: offset + limit < results.length,
+          hasMore: offset + limit < page.total,
         },
       });
 
@@ -169,61 +288,60 @@ export async function searchRoutes(fastify: any) {
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { query, filters, sortBy, limit, offset } = advancedSearchSchema.parse(request.body);
+      const payload = request.user as any;
 
-      // Mock advanced search results - replace with Elasticsearch integration
-      const searchResults = [
-        {
-          id: '1',
-          content: `Advanced search result for "${query}"`,
-          channelId: 'general',
-          channelName: 'general',
-          authorId: 'admin',
-          authorName: 'Admin User',
-          timestamp: new Date().toISOString(),
-          relevanceScore: 0.95,
-          resultType: 'message',
-        },
-      ];
-
-      // Apply filters
-      let filteredResults = searchResults;
-      if (filters) {
-        if (filters.dateFrom) {
-          const dateFrom = new Date(filters.dateFrom);
-          filteredResults = filteredResults.filter(item =>
-            new Date(item.timestamp) >= dateFrom
-          );
-        }
-        if (filters.dateTo) {
-          const dateTo = new Date(filters.dateTo);
-          filteredResults = filteredResults.filter(item =>
-            new Date(item.timestamp) <= dateTo
-          );
-        }
-        if (filters.author) {
-          filteredResults = filteredResults.filter(item =>
-            item.authorId === filters.author || item.authorName?.includes(filters.author || '')
-          );
-        }
-        if (filters.channel) {
-          filteredResults = filteredResults.filter(item =>
-            item.channelId === filters.channel || item.channelName?.includes(filters.channel || '')
-          );
-        }
-      }
+      const channelIds = await memberChannelIds(payload.userId);
 
-      // Sort results
-      if (sortBy === 'date') {
-        filteredResults.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      } else if (sortBy === 'author') {
-        filteredResults.sort((a, b) => (a.authorName || '').localeCompare(b.authorName || ''));
-      } else {
-        // relevance
-        filteredResults.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
-      }
+      // Authors and channels are given by id or by (part of) their name
+      const authorIds = filters?.author
+        ? (await global.prisma.user.findMany({
+          where: {
+            OR: [
+              { id: filters.author },
+              { name: { contains: filters.author } },
+              { username: { contains: filters.author } },
+            ],
+          },
+          select: { id: true },
+        })).map(user => user.id)
+        : undefined;
+
+      const filterChannelIds = filters?.channel
+        ? (await global.prisma.channel.findMany({
+          where: {
+            id: { in: channelIds },
+            OR: [
+              { id: filters.channel },
+              { name: { contains: filters.channel } },
+            ],
+          },
+          select: { id: true },
+        })).map(channel => channel.id)
+        : undefined;
+
+      const noMatch = authorIds?.length === 0 || filterChannelIds?.length === 0;
+      const page = noMatch
+        ? { results: [], total: 0 }
+        : await searchDocuments({
+          text: query,
+          access: { userId: payload.userId, channelIds },
+          filters: {
+            types: filters?.fileType ? ['file'] : undefined,
+            authorIds,
+            channelIds: filterChannelIds,
+            contentType: filters?.fileType,
+            after: filters?.dateFrom ? new Date(filters.dateFrom) : undefined,
+            before: filters?.dateTo ? new Date(filters.dateTo) : undefined,
+          },
+          sort: sortBy === 'date' ? 'date' : 'relevance',
+          limit,
+          offset,
+        });
 
-      // Apply pagination
-      const paginatedResults = filteredResults.slice(offset, offset + limit);
+      // Names are not indexed, so author order applies within the page
+      const paginatedResults = sortBy === 'author'
+        ? [...page.results].sort((a, b) => (a.authorName || '').localeCompare(b.authorName || ''))
+        : page.results;
 
       logger.info(`Advanced search performed: "${query}" (filters: ${JSON.stringify(filters)}, results: ${paginatedResults.length})`);
 
@@ -234,10 +352,10 @@ export async function searchRoutes(fastify: any) {
         sortBy,
         results: paginatedResults,
         pagination: {
-          total: filteredResults.length,
+          total: page.total,
           limit,
           offset,
-          hasMore: offset + limit < filteredResults.length,
+          hasMore: offset + limit < page.total,
         },
       });
 
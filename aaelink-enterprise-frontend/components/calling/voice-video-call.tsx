@@ -3,6 +3,9 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { apiService } from '@/lib/api-enhanced';
+import { authService } from '@/lib/auth-enhanced';
+import { IceConfig, webrtcService } from '@/lib/webrtc';
 import {
     Mic,
     MicOff,
@@ -17,8 +20,18 @@ import {
 } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 
+const loadIceConfig = async (): Promise<IceConfig> => {
+  const response = await apiService.getWebRTCConfig();
+  if (!response.success || !response.data?.config) {
+    throw new Error(response.error || 'Failed to load WebRTC configuration');
+  }
+  return response.data.config;
+};
+
 interface VoiceVideoCallProps {
   channelId: string;
+  // Set when answering an existing call, otherwise one is started in the channel
+  callId?: string;
   callType: 'voice' | 'video';
   isActive: boolean;
   onEndCall: () => void;
@@ -35,6 +48,7 @@ interface Participant {
 
 export function VoiceVideoCall({
   channelId,
+  callId,
   callType,
   isActive,
   onEndCall
@@ -72,48 +86,55 @@ export function VoiceVideoCall({
   const videoRef = useRef<HTMLVideoElement>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
 
+  const callIdRef = useRef<string | undefined>(callId);
+
   useEffect(() => {
-    if (isActive && callType === 'video') {
-      startVideoCall();
-    } else if (isActive && callType === 'voice') {
-      startVoiceCall();
-    }
+    if (!isActive) return;
 
-    return () => {
-      if (localStreamRef.current) {
-        localStreamRef.current.getTracks().forEach(track => track.stop());
+    let cancelled = false;
+
+    const start = async () => {
+      // Peers are created with the ICE servers loaded here; TURN credentials are
+      // short-lived, so they are refreshed for as long as the call is up
+      await webrtcService.useIceConfig(loadIceConfig);
+
+      if (!callIdRef.current) {
+        const response = await apiService.createCall(channelId, callType === 'video' ? 'VIDEO' : 'AUDIO');
+        if (!response.success || !response.data?.call) {
+          throw new Error(response.error || 'Failed to start call');
+        }
+        callIdRef.current = response.data.call.id as string;
       }
-    };
-  }, [isActive, callType]);
+      if (cancelled) return;
 
-  const startVideoCall = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true
-      });
+      await webrtcService.initialize(
+        callIdRef.current,
+        authService.getToken() ?? undefined,
+        { audio: true, video: callType === 'video' }
+      );
+      if (cancelled) {
+        webrtcService.disconnect();
+        return;
+      }
 
+      const stream = webrtcService.getLocalStream() ?? null;
       localStreamRef.current = stream;
-
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
-    } catch (error) {
-      console.error('Error accessing camera/microphone:', error);
-    }
-  };
+    };
 
-  const startVoiceCall = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true
-      });
+    start().catch((error) => {
+      console.error('Failed to start call:', error);
+    });
 
-      localStreamRef.current = stream;
-    } catch (error) {
-      console.error('Error accessing microphone:', error);
-    }
-  };
+    return () => {
+      cancelled = true;
+      // Also stops the ICE refresh and the local tracks
+      webrtcService.disconnect();
+      localStreamRef.current = null;
+    };
+  }, [isActive, channelId, callType]);
 
   const toggleMute = () => {
     if (localStreamRef.current) {
@@ -140,8 +161,15 @@ export function VoiceVideoCall({
   };
 
   const endCall = () => {
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
+    webrtcService.disconnect();
+    localStreamRef.current = null;
+
+    // A call left active keeps its participants busy
+    if (callIdRef.current) {
+      apiService.endCall(callIdRef.current).catch((error) => {
+        console.error('Failed to end call:', error);
+      });
+      callIdRef.current = undefined;
     }
     onEndCall();
   };
@@ -26,6 +26,7 @@ interface FileItem {
   size: number;
   type: string;
   url: string;
+  thumbnailUrl?: string | null;
   uploadedBy: string;
   uploadedAt: string;
   channelId: string;
@@ -222,7 +223,16 @@ export function FileList({ channelId, files = [] }: FileListProps) {
                 className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
               >
                 <div className="flex-shrink-0">
-                  {getFileIcon(file.type)}
+                  {file.thumbnailUrl ? (
+                    <img
+                      src={file.thumbnailUrl}
+                      alt={file.name}
+                      loading="lazy"
+                      className="w-10 h-10 rounded object-cover bg-gray-100 dark:bg-gray-800"
+                    />
+                  ) : (
+                    getFileIcon(file.type)
+                  )}
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
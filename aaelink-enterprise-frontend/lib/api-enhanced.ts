@@ -16,6 +16,21 @@ interface ApiResponse<T = any> {
   status?: number;
 }
 
+// A create, update or delete made offline, applied by POST /api/sync
+export interface SyncMutation {
+  idempotencyKey: string;
+  entity: 'message' | 'event';
+  action: 'create' | 'update' | 'delete';
+  id?: string;
+  baseVersion?: number;
+  data?: Record<string, unknown>;
+}
+
+export type SyncResult =
+  | { idempotencyKey: string; status: 'applied'; id: string; version: number | null; data: any }
+  | { idempotencyKey: string; status: 'conflict'; id: string; version: number | null; server: any }
+  | { idempotencyKey: string; status: 'rejected' | 'failed'; error: string };
+
 interface ApiConfig {
   baseURL: string;
   timeout: number;
@@ -40,7 +55,8 @@ class EnhancedApiService {
     endpoint: string,
     options: RequestInit = {},
     useCache: boolean = false,
-    cacheTTL: number = 300000 // 5 minutes
+    cacheTTL: number = 300000, // 5 minutes
+    refreshed: boolean = false
   ): Promise<ApiResponse<T>> {
     const url = `${this.config.baseURL}${endpoint}`;
     const cacheKey = `${options.method || 'GET'}:${url}:${JSON.stringify(options.body || '')}`;
@@ -101,8 +117,12 @@ class EnhancedApiService {
             status: response.status,
           };
         } else {
-          // Handle authentication errors
+          // An expired access token is refreshed once and the request retried
           if (response.status === 401) {
+            if (!refreshed && await authService.refreshToken()) {
+              return this.request<T>(endpoint, options, useCache, cacheTTL, true);
+            }
+
             authService.logout();
             return {
               success: false,
@@ -185,8 +205,9 @@ class EnhancedApiService {
   }
 
   // Chat and messaging
-  async getMessages(channelId: string): Promise<ApiResponse> {
-    return this.request(`/api/chat/messages/${channelId}`, { method: 'GET' }, true);
+  async getMessages(channelId: string, cursor?: string): Promise<ApiResponse> {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return this.request(`/api/chat/messages/${channelId}${query}`, { method: 'GET' }, true);
   }
 
   async sendMessage(channelId: string, content: string, type: string = 'text'): Promise<ApiResponse> {
@@ -200,13 +221,25 @@ class EnhancedApiService {
     return this.request('/api/chat/channels', { method: 'GET' }, true);
   }
 
-  async createChannel(data: { name: string; type: string; description?: string }): Promise<ApiResponse> {
+  async createChannel(data: { name: string; description?: string; isPrivate?: boolean; memberIds?: string[] }): Promise<ApiResponse> {
     return this.request('/api/chat/channels', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
+  async joinChannel(channelId: string): Promise<ApiResponse> {
+    return this.request(`/api/chat/channels/${channelId}/join`, { method: 'POST' });
+  }
+
+  async leaveChannel(channelId: string): Promise<ApiResponse> {
+    return this.request(`/api/chat/channels/${channelId}/leave`, { method: 'POST' });
+  }
+
+  async archiveChannel(channelId: string): Promise<ApiResponse> {
+    return this.request(`/api/chat/channels/${channelId}/archive`, { method: 'POST' });
+  }
+
   // File management
   async uploadFile(file: File, channelId: string): Promise<ApiResponse> {
     const formData = new FormData();
@@ -251,6 +284,91 @@ class EnhancedApiService {
     return this.request(`/api/calendar/events/${id}`, { method: 'DELETE' });
   }
 
+  // Calls
+  async getWebRTCConfig(): Promise<ApiResponse> {
+    // Never cached, every call carries freshly minted TURN credentials
+    return this.request('/api/calls/webrtc-config', { method: 'GET' });
+  }
+
+  // Rings every other member of the group
+  async createCall(groupId: string, type: 'VIDEO' | 'AUDIO'): Promise<ApiResponse> {
+    return this.request('/api/calls/create', {
+      method: 'POST',
+      body: JSON.stringify({ groupId, type }),
+    });
+  }
+
+  async endCall(callId: string): Promise<ApiResponse> {
+    return this.request('/api/calls/end', {
+      method: 'POST',
+      body: JSON.stringify({ callId }),
+    });
+  }
+
+  // Notifications
+  async getNotifications(cursor?: string): Promise<ApiResponse> {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return this.request(`/api/notifications${query}`, { method: 'GET' });
+  }
+
+  async getUnreadNotificationCount(): Promise<ApiResponse> {
+    return this.request('/api/notifications/unread-count', { method: 'GET' });
+  }
+
+  async markNotificationRead(id: string): Promise<ApiResponse> {
+    return this.request(`/api/notifications/${id}/read`, { method: 'POST' });
+  }
+
+  async markAllNotificationsRead(): Promise<ApiResponse> {
+    return this.request('/api/notifications/read-all', { method: 'POST' });
+  }
+
+  async deleteNotification(id: string): Promise<ApiResponse> {
+    return this.request(`/api/notifications/${id}`, { method: 'DELETE' });
+  }
+
+  async getNotificationSettings(): Promise<ApiResponse> {
+    return this.request('/api/notifications/settings', { method: 'GET' });
+  }
+
+  async updateNotificationSettings(settings: Record<string, unknown>): Promise<ApiResponse> {
+    return this.request('/api/notifications/settings', {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async getNotificationPreferences(): Promise<ApiResponse> {
+    return this.request('/api/notifications/preferences', { method: 'GET' });
+  }
+
+  // VAPID key to subscribe with, null when the server has no Web Push set up
+  async getPushPublicKey(): Promise<ApiResponse<{ publicKey: string | null }>> {
+    return this.request('/api/notifications/push/public-key', { method: 'GET' });
+  }
+
+  async subscribePush(subscription: PushSubscriptionJSON): Promise<ApiResponse> {
+    return this.request('/api/notifications/push/subscriptions', {
+      method: 'POST',
+      body: JSON.stringify(subscription),
+    });
+  }
+
+  async unsubscribePush(endpoint: string): Promise<ApiResponse> {
+    return this.request('/api/notifications/push/subscriptions', {
+      method: 'DELETE',
+      body: JSON.stringify({ endpoint }),
+    });
+  }
+
+  // Offline sync
+  async sync(mutations: SyncMutation[]): Promise<ApiResponse<{ results: SyncResult[] }>> {
+    return this.request('/api/sync', {
+      method: 'POST',
+      body: JSON.stringify({ mutations }),
+    });
+  }
+
   // Search
   async search(query: string, type?: string): Promise<ApiResponse> {
     const params = new URLSearchParams({ q: query });
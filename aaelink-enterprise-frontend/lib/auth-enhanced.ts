@@ -20,6 +20,7 @@ interface User {
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -41,6 +42,7 @@ class EnhancedAuthService {
   private state: AuthState = {
     user: null,
     token: null,
+    refreshToken: null,
     isAuthenticated: false,
     isLoading: false,
     error: null,
@@ -48,6 +50,9 @@ class EnhancedAuthService {
 
   private listeners: ((state: AuthState) => void)[] = [];
 
+  // Concurrent callers share a single rotation, a refresh token is single-use
+  private refreshPromise: Promise<boolean> | null = null;
+
   constructor() {
     this.loadStoredAuth();
   }
@@ -58,9 +63,11 @@ class EnhancedAuthService {
     try {
       const storedToken = localStorage.getItem('aaelink_token');
       const storedUser = localStorage.getItem('aaelink_user');
+      const storedRefreshToken = localStorage.getItem('aaelink_refresh_token');
 
       if (storedToken && storedUser) {
         this.state.token = storedToken;
+        this.state.refreshToken = storedRefreshToken;
         this.state.user = JSON.parse(storedUser);
         this.state.isAuthenticated = true;
         this.notifyListeners();
@@ -71,12 +78,15 @@ class EnhancedAuthService {
     }
   }
 
-  private storeAuth(token: string, user: User): void {
+  private storeAuth(token: string, user: User, refreshToken: string | null = this.state.refreshToken): void {
     if (typeof window === 'undefined') return;
 
     try {
       localStorage.setItem('aaelink_token', token);
       localStorage.setItem('aaelink_user', JSON.stringify(user));
+      if (refreshToken) {
+        localStorage.setItem('aaelink_refresh_token', refreshToken);
+      }
     } catch (error) {
       console.error('Failed to store auth:', error);
     }
@@ -88,6 +98,7 @@ class EnhancedAuthService {
     try {
       localStorage.removeItem('aaelink_token');
       localStorage.removeItem('aaelink_user');
+      localStorage.removeItem('aaelink_refresh_token');
     } catch (error) {
       console.error('Failed to clear auth:', error);
     }
@@ -95,6 +106,7 @@ class EnhancedAuthService {
     this.state = {
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
       isLoading: false,
       error: null,
@@ -125,10 +137,11 @@ class EnhancedAuthService {
       if (data.success) {
         this.state.user = data.user;
         this.state.token = data.token;
+        this.state.refreshToken = data.refreshToken ?? null;
         this.state.isAuthenticated = true;
         this.state.error = null;
 
-        this.storeAuth(data.token, data.user);
+        this.storeAuth(data.token, data.user, data.refreshToken ?? null);
         this.notifyListeners();
 
         return { success: true };
@@ -191,37 +204,65 @@ class EnhancedAuthService {
   }
 
   async logout(): Promise<void> {
+    const { token, refreshToken } = this.state;
     this.clearAuth();
-    
-    // Call logout endpoint if needed
+
+    // Revoke the session server-side so the refresh token cannot be used again
     try {
       await fetch('/api/auth/logout', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.state.token}`,
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
         },
+        body: JSON.stringify({ refreshToken }),
       });
     } catch (error) {
       console.error('Logout API call failed:', error);
     }
   }
 
+  async logoutEverywhere(): Promise<void> {
+    try {
+      await fetch('/api/auth/logout-all', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.state.token}`,
+        },
+      });
+    } catch (error) {
+      console.error('Logout everywhere API call failed:', error);
+    } finally {
+      this.clearAuth();
+    }
+  }
+
   async refreshToken(): Promise<boolean> {
-    if (!this.state.token) return false;
+    if (!this.state.refreshToken) return false;
+
+    this.refreshPromise ??= this.rotateRefreshToken().finally(() => {
+      this.refreshPromise = null;
+    });
 
+    return this.refreshPromise;
+  }
+
+  private async rotateRefreshToken(): Promise<boolean> {
     try {
       const response = await fetch('/api/auth/refresh', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.state.token}`,
+          'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ refreshToken: this.state.refreshToken }),
       });
 
       const data = await response.json();
 
       if (data.success) {
         this.state.token = data.token;
-        this.storeAuth(data.token, this.state.user!);
+        this.state.refreshToken = data.refreshToken;
+        this.storeAuth(data.token, this.state.user!, data.refreshToken);
         this.notifyListeners();
         return true;
       } else {
@@ -235,15 +276,51 @@ class EnhancedAuthService {
     }
   }
 
+  async getSessions(): Promise<{ success: boolean; sessions?: any[]; error?: string }> {
+    try {
+      const response = await fetch('/api/auth/sessions', {
+        headers: {
+          'Authorization': `Bearer ${this.state.token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      return data.success
+        ? { success: true, sessions: data.sessions }
+        : { success: false, error: data.message || 'Failed to load sessions' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to load sessions';
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  async revokeSession(sessionId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/auth/sessions/${sessionId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${this.state.token}`,
+        },
+      });
+
+      const data = await response.json();
+      return Boolean(data.success);
+    } catch (error) {
+      console.error('Revoke session failed:', error);
+      return false;
+    }
+  }
+
   async changePassword(oldPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await fetch('/api/auth/change-password', {
+      const response = await fetch('/api/auth/password/change', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.state.token}`,
         },
-        body: JSON.stringify({ oldPassword, newPassword }),
+        body: JSON.stringify({ currentPassword: oldPassword, newPassword }),
       });
 
       const data = await response.json();
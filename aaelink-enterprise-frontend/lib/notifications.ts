@@ -1,3 +1,7 @@
+import { apiService } from './api-enhanced';
+import { authService } from './auth-enhanced';
+import { websocketService } from './websocket-enhanced';
+
 export interface Notification {
   id: string;
   title: string;
@@ -26,15 +30,55 @@ export interface NotificationSettings {
   systemUpdates: boolean;
 }
 
+// Notifications shown in the center, the server keeps the rest
+const MAX_NOTIFICATIONS = 100;
+
+// A group's or direct conversation's override of the settings, stored on the server
+interface ConversationPreference {
+  groupId: string | null;
+  peerId: string | null;
+  level: 'ALL' | 'MENTIONS' | 'NONE' | null;
+  mutedUntil: string | null;
+}
+
+const fromServer = (notification: any): Notification => ({
+  id: notification.id,
+  title: notification.title,
+  message: notification.content,
+  type: 'info',
+  timestamp: new Date(notification.createdAt),
+  read: notification.isRead,
+  actionUrl: notification.data?.url,
+  userId: notification.userId,
+  channelId: notification.data?.groupId,
+  messageId: notification.data?.messageId,
+});
+
+// The PushManager wants the VAPID key as bytes, the server hands it out base64url encoded
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return new Uint8Array(Array.from(atob(padded), char => char.charCodeAt(0)));
+};
+
 export class NotificationService {
   private notifications: Notification[] = [];
   private settings: NotificationSettings;
+  private preferences: ConversationPreference[] = [];
+  private unreadCount = 0;
+  // User whose notifications and settings are loaded
+  private loadedFor: string | null = null;
   private listeners: ((notifications: Notification[]) => void)[] = [];
 
   constructor() {
     this.settings = this.getDefaultSettings();
-    this.loadNotifications();
     this.requestPermission();
+    this.syncWithAuth();
+    authService.subscribe(() => this.syncWithAuth());
+    websocketService.on('notification', (notification) => this.receive(notification));
+    // Read or deleted on another device
+    websocketService.on('notification_count', ({ unreadCount }) => {
+      this.unreadCount = unreadCount;
+    });
   }
 
   private getDefaultSettings(): NotificationSettings {
@@ -60,25 +104,135 @@ export class NotificationService {
     }
   }
 
-  private loadNotifications(): void {
-    const stored = localStorage.getItem('aaelink-notifications');
-    if (stored) {
-      this.notifications = JSON.parse(stored).map((n: any) => ({
-        ...n,
-        timestamp: new Date(n.timestamp)
-      }));
+  private syncWithAuth(): void {
+    const user = authService.getUser();
+    if (!authService.isAuthenticated() || !user) {
+      this.loadedFor = null;
+      this.notifications = [];
+      this.unreadCount = 0;
+      this.settings = this.getDefaultSettings();
+      this.preferences = [];
+      this.notifyListeners();
+      return;
+    }
+
+    if (user.id !== this.loadedFor) {
+      this.loadedFor = user.id;
+      this.loadNotifications();
+      this.loadServerSettings().then(() => this.enablePush());
+    }
+  }
+
+  // Settings and per-conversation preferences the server filters notifications with
+  async loadServerSettings(): Promise<void> {
+    const [settings, preferences] = await Promise.all([
+      apiService.getNotificationSettings(),
+      apiService.getNotificationPreferences(),
+    ]);
+
+    if (settings.success && settings.data?.settings) {
+      this.settings = { ...this.settings, ...settings.data.settings };
+    }
+    if (preferences.success && preferences.data?.preferences) {
+      this.preferences = preferences.data.preferences;
+    }
+  }
+
+  async loadNotifications(): Promise<void> {
+    const [list, unread] = await Promise.all([
+      apiService.getNotifications(),
+      apiService.getUnreadNotificationCount(),
+    ]);
+
+    if (list.success && list.data?.notifications) {
+      this.notifications = list.data.notifications.map(fromServer);
+      this.notifyListeners();
+    }
+    if (unread.success && typeof unread.data?.unreadCount === 'number') {
+      this.unreadCount = unread.data.unreadCount;
     }
   }
 
-  private saveNotifications(): void {
-    localStorage.setItem('aaelink-notifications', JSON.stringify(this.notifications));
+  /**
+   * Subscribe this browser to Web Push with the server's VAPID key, so
+   * notifications arrive while no tab is open. Needs the service worker
+   * registered by ServiceWorkerRegistration and notification permission.
+   */
+  async enablePush(): Promise<boolean> {
+    if (!this.settings.push || !('serviceWorker' in navigator) || !('PushManager' in window)) {
+      return false;
+    }
+    if (!('Notification' in window) || Notification.permission !== 'granted') {
+      return false;
+    }
+
+    const key = await apiService.getPushPublicKey();
+    if (!key.success || !key.data?.publicKey) {
+      return false;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(key.data.publicKey),
+        });
+
+      // Re-sent on every sign-in, a browser shared by several users follows the last one
+      const saved = await apiService.subscribePush(subscription.toJSON());
+      return saved.success;
+    } catch (error) {
+      console.error('Error subscribing to push notifications:', error);
+      return false;
+    }
+  }
+
+  async disablePush(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await apiService.unsubscribePush(subscription.endpoint);
+        await subscription.unsubscribe();
+      }
+    } catch (error) {
+      console.error('Error unsubscribing from push notifications:', error);
+    }
   }
 
   private notifyListeners(): void {
     this.listeners.forEach(listener => listener([...this.notifications]));
   }
 
+  private store(notification: Notification): void {
+    this.notifications.unshift(notification);
+
+    if (this.notifications.length > MAX_NOTIFICATIONS) {
+      this.notifications = this.notifications.slice(0, MAX_NOTIFICATIONS);
+    }
+
+    this.notifyListeners();
+  }
+
+  // A notification the server delivered over the socket
+  private receive(notification: any): void {
+    const received = fromServer(notification);
+
+    this.store(received);
+    this.unreadCount += 1;
+
+    // Quiet ones arrive during do-not-disturb or from a muted conversation and are only listed
+    if (!notification.quiet) {
+      this.showDesktopNotification(received);
+      this.playNotificationSound();
+    }
+  }
+
   // Public methods
+  // A notice raised by the client itself, it is not stored on the server
   addNotification(notification: Omit<Notification, 'id' | 'timestamp' | 'read'>): string {
     const id = crypto.randomUUID();
     const newNotification: Notification = {
@@ -88,15 +242,7 @@ export class NotificationService {
       read: false
     };
 
-    this.notifications.unshift(newNotification);
-
-    // Keep only last 100 notifications
-    if (this.notifications.length > 100) {
-      this.notifications = this.notifications.slice(0, 100);
-    }
-
-    this.saveNotifications();
-    this.notifyListeners();
+    this.store(newNotification);
     this.showDesktopNotification(newNotification);
     this.playNotificationSound();
 
@@ -105,29 +251,32 @@ export class NotificationService {
 
   markAsRead(notificationId: string): void {
     const notification = this.notifications.find(n => n.id === notificationId);
-    if (notification) {
+    if (notification && !notification.read) {
       notification.read = true;
-      this.saveNotifications();
+      this.unreadCount = Math.max(0, this.unreadCount - 1);
       this.notifyListeners();
+      apiService.markNotificationRead(notificationId);
     }
   }
 
   markAllAsRead(): void {
     this.notifications.forEach(n => n.read = true);
-    this.saveNotifications();
+    this.unreadCount = 0;
     this.notifyListeners();
+    apiService.markAllNotificationsRead();
   }
 
   deleteNotification(notificationId: string): void {
     this.notifications = this.notifications.filter(n => n.id !== notificationId);
-    this.saveNotifications();
     this.notifyListeners();
+    apiService.deleteNotification(notificationId);
   }
 
   clearAllNotifications(): void {
+    const ids = this.notifications.map(n => n.id);
     this.notifications = [];
-    this.saveNotifications();
     this.notifyListeners();
+    ids.forEach(id => apiService.deleteNotification(id));
   }
 
   getNotifications(): Notification[] {
@@ -135,7 +284,7 @@ export class NotificationService {
   }
 
   getUnreadCount(): number {
-    return this.notifications.filter(n => !n.read).length;
+    return this.unreadCount;
   }
 
   getNotificationsByType(type: Notification['type']): Notification[] {
@@ -147,9 +296,18 @@ export class NotificationService {
   }
 
   // Settings
-  updateSettings(newSettings: Partial<NotificationSettings>): void {
+  async updateSettings(newSettings: Partial<NotificationSettings>): Promise<void> {
+    const pushChanged = newSettings.push !== undefined && newSettings.push !== this.settings.push;
     this.settings = { ...this.settings, ...newSettings };
-    localStorage.setItem('aaelink-notification-settings', JSON.stringify(this.settings));
+
+    const saved = await apiService.updateNotificationSettings(newSettings);
+    if (saved.success && saved.data?.settings) {
+      this.settings = { ...this.settings, ...saved.data.settings };
+    }
+
+    if (pushChanged) {
+      await (this.settings.push ? this.enablePush() : this.disablePush());
+    }
   }
 
   getSettings(): NotificationSettings {
@@ -221,25 +379,27 @@ export class NotificationService {
     }
   }
 
-  // Email notifications (would integrate with backend)
-  async sendEmailNotification(notification: Omit<Notification, 'id' | 'timestamp' | 'read'>): Promise<void> {
-    if (!this.settings.email) return;
+  // Smart notification filtering, the same rules the server applies before notifying
+  shouldShowNotification(type: string, channelId?: string, userId?: string): boolean {
+    const preference = this.preferences.find(p =>
+      channelId ? p.groupId === channelId : userId !== undefined && p.peerId === userId
+    );
 
-    try {
-      await fetch('/api/notifications/email', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(notification)
-      });
-    } catch (error) {
-      console.error('Error sending email notification:', error);
+    if (preference?.mutedUntil && new Date(preference.mutedUntil) > new Date()) {
+      return false;
+    }
+
+    switch (preference?.level) {
+      case 'NONE':
+        return false;
+      case 'MENTIONS':
+        if (type === 'channelMessage') return false;
+        break;
+      case 'ALL':
+        if (type === 'channelMessage') return true;
+        break;
     }
-  }
 
-  // Smart notification filtering
-  shouldShowNotification(type: string, channelId?: string, userId?: string): boolean {
     switch (type) {
       case 'mention':
         return this.settings.mentions;
@@ -4,6 +4,8 @@
  * Version: 1.2.0
  */
 
+import { apiService, SyncMutation, SyncResult } from './api-enhanced';
+
 interface OfflineData {
   id: string;
   type: 'message' | 'file' | 'event' | 'user';
@@ -13,6 +15,11 @@ interface OfflineData {
   conflict?: boolean;
   serverVersion?: any;
   localVersion?: any;
+  // Server id and version once synced; until then the record is referred to by its own id
+  serverId?: string;
+  version?: number | null;
+  // Data as of that version, the common ancestor of a three-way merge
+  base?: any;
 }
 
 interface SyncQueue {
@@ -23,8 +30,48 @@ interface SyncQueue {
   timestamp: number;
   retries: number;
   maxRetries: number;
+  // Sent with every attempt so the server applies the mutation once
+  idempotencyKey: string;
+  // Local record the mutation came from
+  localId?: string;
+  // Server id, or the idempotency key of the create of a record not synced yet
+  entityId?: string;
+  baseVersion?: number;
+}
+
+interface SyncConflict {
+  id: string;
+  // Store of the local record
+  type: string;
+  entity: string;
+  action: SyncQueue['action'];
+  localId?: string;
+  entityId: string;
+  localVersion: any;
+  // null when the record was deleted on the server
+  serverVersion: any;
+  version: number | null;
+  // Local data as of the version the change was made on, when known
+  baseVersion?: any;
+  timestamp: number;
+  resolved: boolean;
 }
 
+interface SyncOptions {
+  localId?: string;
+  idempotencyKey?: string;
+  entityId?: string;
+  baseVersion?: number | null;
+}
+
+// Types synced through POST /api/sync, with the store their local records live in
+const SYNC_STORES: Record<string, string> = {
+  message: 'messages',
+  event: 'events'
+};
+
+const MAX_SYNC_BATCH_SIZE = 100;
+
 class OfflineStorage {
   private dbName = 'AAELinkOffline';
   private version = 1;
@@ -120,10 +167,10 @@ class OfflineStorage {
     };
 
     await this.saveToStore('messages', offlineData);
-
-    if (this.isOnline) {
-      this.addToSyncQueue('create', 'message', message);
-    }
+    await this.addToSyncQueue('create', 'message', message, {
+      localId: offlineData.id,
+      idempotencyKey: offlineData.id
+    });
 
     return offlineData.id;
   }
@@ -149,19 +196,22 @@ class OfflineStorage {
       message.timestamp = Date.now();
 
       await this.saveToStore('messages', message);
-
-      if (this.isOnline) {
-        this.addToSyncQueue('update', 'message', message.data);
-      }
+      await this.addToSyncQueue('update', 'message', message.data, {
+        localId: id,
+        entityId: message.serverId ?? id,
+        baseVersion: message.version
+      });
     }
   }
 
   async deleteMessage(id: string): Promise<void> {
+    const message = await this.getFromStore('messages', id);
     await this.deleteFromStore('messages', id);
 
-    if (this.isOnline) {
-      this.addToSyncQueue('delete', 'message', { id });
-    }
+    await this.addToSyncQueue('delete', 'message', { id }, {
+      entityId: message?.serverId ?? id,
+      baseVersion: message?.version
+    });
   }
 
   // File operations
@@ -207,10 +257,10 @@ class OfflineStorage {
     };
 
     await this.saveToStore('events', offlineData);
-
-    if (this.isOnline) {
-      this.addToSyncQueue('create', 'event', event);
-    }
+    await this.addToSyncQueue('create', 'event', event, {
+      localId: offlineData.id,
+      idempotencyKey: offlineData.id
+    });
 
     return offlineData.id;
   }
@@ -264,6 +314,11 @@ class OfflineStorage {
   async detectConflict(localData: any, serverData: any): Promise<boolean> {
     if (!localData || !serverData) return false;
 
+    // Versioned records conflict when the server moved past the version the local edit is based on
+    if (!localData.synced && localData.version != null && serverData.version != null) {
+      return serverData.version !== localData.version;
+    }
+
     const localTimestamp = localData.timestamp || localData.updatedAt;
     const serverTimestamp = serverData.timestamp || serverData.updatedAt;
 
@@ -271,7 +326,7 @@ class OfflineStorage {
   }
 
   async resolveConflict(conflictId: string, resolution: 'local' | 'server' | 'merge'): Promise<void> {
-    const conflict = await this.getFromStore('conflicts', conflictId);
+    const conflict: SyncConflict | undefined = await this.getFromStore('conflicts', conflictId);
     if (!conflict) return;
 
     let resolvedData;
@@ -284,24 +339,56 @@ class OfflineStorage {
         resolvedData = conflict.serverVersion;
         break;
       case 'merge':
-        resolvedData = this.mergeData(conflict.localVersion, conflict.serverVersion);
+        resolvedData = conflict.serverVersion === null
+          ? conflict.localVersion
+          : this.mergeData(conflict.localVersion, conflict.serverVersion, conflict.baseVersion);
         break;
     }
 
-    // Update the original data
-    await this.saveToStore(conflict.type, {
-      id: conflict.id,
-      type: conflict.type,
-      data: resolvedData,
-      timestamp: Date.now(),
-      synced: true
-    });
+    const local = conflict.localId ? await this.getFromStore(conflict.type, conflict.localId) : null;
+
+    if (local && resolvedData) {
+      await this.saveToStore(conflict.type, {
+        ...local,
+        data: resolvedData,
+        timestamp: Date.now(),
+        synced: resolution === 'server',
+        conflict: false,
+        serverId: conflict.entityId,
+        version: conflict.version,
+        // Local changes are now replayed on top of the server copy
+        base: conflict.serverVersion
+      });
+    } else if (local) {
+      await this.deleteFromStore(conflict.type, local.id);
+    }
+
+    // Keeping local changes replays them on top of the server copy the conflict returned
+    if (resolution !== 'server') {
+      if (conflict.serverVersion === null) {
+        if (conflict.action !== 'delete') {
+          await this.addToSyncQueue('create', conflict.entity, resolvedData, {
+            ...(local ? { localId: local.id } : {})
+          });
+        }
+      } else {
+        await this.addToSyncQueue(conflict.action === 'delete' ? 'delete' : 'update', conflict.entity, resolvedData, {
+          ...(local ? { localId: local.id } : {}),
+          entityId: conflict.entityId,
+          baseVersion: conflict.version
+        });
+      }
+    }
 
     // Remove from conflicts
     await this.deleteFromStore('conflicts', conflictId);
   }
 
-  private mergeData(local: any, server: any): any {
+  private mergeData(local: any, server: any, base?: any): any {
+    if (base && typeof base === 'object') {
+      return this.mergeFields(local, server, base);
+    }
+
     // Simple merge strategy - prefer non-null values
     const merged = { ...server };
 
@@ -318,16 +405,56 @@ class OfflineStorage {
     return merged;
   }
 
+  // Three-way merge: a field changed on one side only takes that side's value,
+  // one changed on both sides keeps the local edit
+  private mergeFields(local: any, server: any, base: any): any {
+    const merged = { ...server };
+
+    for (const key in local) {
+      // Fields the server copy does not carry are local-only
+      const serverChanged = key in server && !this.sameValue(server[key], base[key]);
+      const localChanged = !this.sameValue(local[key], base[key]);
+
+      if (!serverChanged) {
+        merged[key] = local[key];
+      } else if (localChanged && this.isPlainObject(local[key]) && this.isPlainObject(server[key])) {
+        merged[key] = this.mergeFields(local[key], server[key], this.isPlainObject(base[key]) ? base[key] : {});
+      } else if (localChanged) {
+        merged[key] = local[key];
+      }
+    }
+
+    return merged;
+  }
+
+  private sameValue(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
   // Sync operations
-  private async addToSyncQueue(action: 'create' | 'update' | 'delete', type: string, data: any): Promise<void> {
+  private async addToSyncQueue(
+    action: 'create' | 'update' | 'delete',
+    type: string,
+    data: any,
+    options: SyncOptions = {}
+  ): Promise<void> {
+    const id = this.generateId();
     const syncItem: SyncQueue = {
-      id: this.generateId(),
+      id,
       action,
       type,
       data,
       timestamp: Date.now(),
       retries: 0,
-      maxRetries: 3
+      maxRetries: 3,
+      idempotencyKey: options.idempotencyKey ?? id,
+      ...(options.localId ? { localId: options.localId } : {}),
+      ...(options.entityId ? { entityId: options.entityId } : {}),
+      ...(options.baseVersion != null ? { baseVersion: options.baseVersion } : {})
     };
 
     await this.saveToStore('syncQueue', syncItem);
@@ -344,21 +471,22 @@ class OfflineStorage {
     this.syncInProgress = true;
 
     try {
-      const queue = await this.getAllFromStore('syncQueue');
+      const queue: SyncQueue[] = (await this.getAllFromStore('syncQueue'))
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+      // Messages and events go to the server in batches, in the order they were made
+      const batched = queue.filter(item => item.type in SYNC_STORES);
+      for (let start = 0; start < batched.length; start += MAX_SYNC_BATCH_SIZE) {
+        await this.syncBatch(batched.slice(start, start + MAX_SYNC_BATCH_SIZE));
+      }
 
-      for (const item of queue) {
+      for (const item of queue.filter(item => !(item.type in SYNC_STORES))) {
         try {
           await this.syncItem(item);
           await this.deleteFromStore('syncQueue', item.id);
         } catch (error) {
           console.error('Sync failed for item:', item.id, error);
-
-          item.retries++;
-          if (item.retries >= item.maxRetries) {
-            await this.deleteFromStore('syncQueue', item.id);
-          } else {
-            await this.saveToStore('syncQueue', item);
-          }
+          await this.retryLater(item);
         }
       }
     } finally {
@@ -366,6 +494,120 @@ class OfflineStorage {
     }
   }
 
+  private async syncBatch(items: SyncQueue[]): Promise<void> {
+    const response = await apiService.sync(items.map(item => this.toSyncMutation(item)));
+
+    if (!response.success || !response.data) {
+      console.error('Sync batch failed:', response.error);
+      for (const item of items) {
+        await this.retryLater(item);
+      }
+      return;
+    }
+
+    for (const result of response.data.results) {
+      const item = items.find(queued => queued.idempotencyKey === result.idempotencyKey);
+      if (!item) continue;
+
+      switch (result.status) {
+        case 'applied':
+          await this.markSynced(item, result);
+          await this.deleteFromStore('syncQueue', item.id);
+          break;
+        case 'conflict':
+          await this.recordConflict(item, result);
+          await this.deleteFromStore('syncQueue', item.id);
+          break;
+        case 'rejected':
+          console.error('Sync rejected for item:', item.id, result.error);
+          await this.deleteFromStore('syncQueue', item.id);
+          break;
+        case 'failed':
+          await this.retryLater(item);
+          break;
+      }
+    }
+  }
+
+  private toSyncMutation(item: SyncQueue): SyncMutation {
+    const data = { ...item.data };
+
+    // Local records use the names the UI renders
+    if (item.type === 'message') {
+      if (data.channelId && !data.groupId && !data.receiverId) {
+        data.groupId = data.channelId;
+      }
+      if (typeof data.type === 'string') {
+        data.type = data.type.toUpperCase();
+      }
+    }
+    if (item.type === 'event') {
+      data.startTime = new Date(data.startTime ?? data.startDate).toISOString();
+      data.endTime = new Date(data.endTime ?? data.endDate).toISOString();
+    }
+
+    return {
+      idempotencyKey: item.idempotencyKey,
+      entity: item.type as SyncMutation['entity'],
+      action: item.action,
+      ...(item.entityId ? { id: item.entityId } : {}),
+      ...(item.baseVersion != null ? { baseVersion: item.baseVersion } : {}),
+      ...(item.action === 'delete' ? {} : { data })
+    };
+  }
+
+  private async markSynced(item: SyncQueue, result: Extract<SyncResult, { status: 'applied' }>): Promise<void> {
+    const store = SYNC_STORES[item.type];
+    const local = store && item.localId ? await this.getFromStore(store, item.localId) : null;
+    if (!store || !local) return;
+
+    await this.saveToStore(store, {
+      ...local,
+      synced: true,
+      serverId: result.id,
+      version: result.version,
+      base: item.data
+    });
+  }
+
+  private async recordConflict(item: SyncQueue, result: Extract<SyncResult, { status: 'conflict' }>): Promise<void> {
+    const store = SYNC_STORES[item.type] ?? item.type;
+    const local = item.localId ? await this.getFromStore(store, item.localId) : null;
+    const conflict: SyncConflict = {
+      id: item.idempotencyKey,
+      type: store,
+      entity: item.type,
+      action: item.action,
+      ...(item.localId ? { localId: item.localId } : {}),
+      entityId: result.id,
+      localVersion: item.data,
+      serverVersion: result.server,
+      version: result.version,
+      ...(local?.base ? { baseVersion: local.base } : {}),
+      timestamp: Date.now(),
+      resolved: false
+    };
+    await this.saveToStore('conflicts', conflict);
+
+    if (local) {
+      await this.saveToStore(store, {
+        ...local,
+        conflict: true,
+        localVersion: item.data,
+        serverVersion: result.server
+      });
+    }
+  }
+
+  private async retryLater(item: SyncQueue): Promise<void> {
+    item.retries++;
+    if (item.retries >= item.maxRetries) {
+      await this.deleteFromStore('syncQueue', item.id);
+    } else {
+      await this.saveToStore('syncQueue', item);
+    }
+  }
+
   private async syncItem(item: SyncQueue): Promise<void> {
     const { action, data, type } = item;
 
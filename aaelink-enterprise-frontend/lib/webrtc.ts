@@ -5,6 +5,16 @@ export interface WebRTCConfig {
   signalingServer: string;
 }
 
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  // Seconds until the TURN credentials expire, null when they do not
+  ttl: number | null;
+}
+
+// Refresh TURN credentials once this share of their lifetime has passed
+const ICE_REFRESH_RATIO = 0.8;
+const ICE_RETRY_DELAY = 30000;
+
 export interface PeerConnection {
   id: string;
   peer: SimplePeer.Instance;
@@ -17,22 +27,29 @@ export class WebRTCService {
   private localStream?: MediaStream;
   private socket?: WebSocket;
   private roomId?: string;
+  private iceRefreshTimer: ReturnType<typeof setTimeout> | undefined;
 
   constructor(config: WebRTCConfig) {
     this.config = config;
   }
 
-  async initialize(roomId: string): Promise<void> {
+  // roomId is the id of the Call; token is the access token of the signed-in user
+  async initialize(
+    roomId: string,
+    token?: string,
+    constraints: MediaStreamConstraints = { video: true, audio: true }
+  ): Promise<void> {
     this.roomId = roomId;
 
     // Get user media
-    this.localStream = await navigator.mediaDevices.getUserMedia({
-      video: true,
-      audio: true
-    });
+    this.localStream = await navigator.mediaDevices.getUserMedia(constraints);
 
     // Connect to signaling server
-    this.socket = new WebSocket(this.config.signalingServer);
+    const url = new URL(this.config.signalingServer);
+    if (token) {
+      url.searchParams.set('token', token);
+    }
+    this.socket = new WebSocket(url.toString());
     this.setupSocketHandlers();
   }
 
@@ -64,7 +81,8 @@ export class WebRTCService {
   private handleSignalingMessage(data: any): void {
     switch (data.type) {
       case 'user-joined':
-        this.createPeer(data.userId, false);
+        // Participants already in the call make the offer to newcomers
+        this.createPeer(data.userId, true);
         break;
       case 'user-left':
         this.removePeer(data.userId);
@@ -78,6 +96,9 @@ export class WebRTCService {
       case 'ice-candidate':
         this.handleIceCandidate(data.userId, data.candidate);
         break;
+      case 'error':
+        console.error('Signaling error:', data.error);
+        break;
     }
   }
 
@@ -91,11 +112,11 @@ export class WebRTCService {
     });
 
     peer.on('signal', (signal) => {
-      this.socket?.send(JSON.stringify({
-        type: initiator ? 'offer' : 'answer',
-        userId,
-        [initiator ? 'offer' : 'answer']: signal
-      }));
+      if (signal.type === 'offer' || signal.type === 'answer') {
+        this.socket?.send(JSON.stringify({ type: signal.type, userId, [signal.type]: signal }));
+      } else {
+        this.socket?.send(JSON.stringify({ type: 'ice-candidate', userId, candidate: signal }));
+      }
     });
 
     peer.on('stream', (stream) => {
@@ -111,14 +132,29 @@ export class WebRTCService {
       console.error('Peer error:', error);
     });
 
+    // A connection that failed, e.g. once its TURN allocation could not be
+    // refreshed, is replaced by a peer built with the current ICE servers:
+    // the initiator offers again and the other side answers with a new peer
+    peer.on('iceStateChange', (iceConnectionState: RTCIceConnectionState) => {
+      if (iceConnectionState !== 'failed' || this.peers.get(userId)?.peer !== peer) {
+        return;
+      }
+
+      peer.destroy();
+      this.peers.delete(userId);
+      if (initiator) {
+        this.createPeer(userId, true);
+      }
+    });
+
     this.peers.set(userId, { id: userId, peer });
   }
 
   private handleOffer(userId: string, offer: any): void {
-    const peerConnection = this.peers.get(userId);
-    if (peerConnection) {
-      peerConnection.peer.signal(offer);
+    if (!this.peers.has(userId)) {
+      this.createPeer(userId, false);
     }
+    this.peers.get(userId)?.peer.signal(offer);
   }
 
   private handleAnswer(userId: string, answer: any): void {
@@ -144,6 +180,46 @@ export class WebRTCService {
     }
   }
 
+  /**
+   * Load ICE servers now and again before their TURN credentials expire, so
+   * long calls can still renegotiate through the relay.
+   */
+  async useIceConfig(loadConfig: () => Promise<IceConfig>): Promise<void> {
+    this.stopIceRefresh();
+
+    const refresh = async (): Promise<void> => {
+      try {
+        const { iceServers, ttl } = await loadConfig();
+        this.setIceServers(iceServers);
+
+        if (ttl) {
+          this.scheduleIceRefresh(refresh, ttl * 1000 * ICE_REFRESH_RATIO);
+        }
+      } catch (error) {
+        console.error('Failed to refresh ICE servers:', error);
+        this.scheduleIceRefresh(refresh, ICE_RETRY_DELAY);
+      }
+    };
+
+    await refresh();
+  }
+
+  stopIceRefresh(): void {
+    clearTimeout(this.iceRefreshTimer);
+    this.iceRefreshTimer = undefined;
+  }
+
+  private scheduleIceRefresh(refresh: () => Promise<void>, delay: number): void {
+    this.iceRefreshTimer = setTimeout(() => {
+      void refresh();
+    }, delay);
+  }
+
+  // Used by peers created from now on, including those replacing a failed connection
+  private setIceServers(iceServers: RTCIceServer[]): void {
+    this.config = { ...this.config, iceServers };
+  }
+
   // Public methods
   getLocalStream(): MediaStream | undefined {
     return this.localStream;
@@ -202,6 +278,8 @@ export class WebRTCService {
   }
 
   disconnect(): void {
+    this.stopIceRefresh();
+
     this.peers.forEach((peerConnection) => {
       peerConnection.peer.destroy();
     });
@@ -227,7 +305,7 @@ export const defaultWebRTCConfig: WebRTCConfig = {
     { urls: 'stun:stun.l.google.com:19302' },
     { urls: 'stun:stun1.l.google.com:19302' }
   ],
-  signalingServer: 'ws://localhost:3001'
+  signalingServer: 'ws://localhost:3001/api/calls/signaling'
 };
 
 // Singleton instance
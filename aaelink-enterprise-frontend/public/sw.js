@@ -112,14 +112,25 @@ self.addEventListener('sync', (event) => {
 self.addEventListener('push', (event) => {
   console.log('[SW] Push notification received');
 
+  // The backend sends { title, body, tag, data: { url, ... } }, older senders plain text
+  let payload = { title: 'AAELink Enterprise', body: 'New notification from AAELink', tag: undefined, data: {} };
+  if (event.data) {
+    try {
+      payload = { ...payload, ...event.data.json() };
+    } catch (error) {
+      payload.body = event.data.text();
+    }
+  }
+
   const options = {
-    body: event.data ? event.data.text() : 'New notification from AAELink',
+    body: payload.body,
+    tag: payload.tag,
     icon: '/icons/icon-192x192.png',
     badge: '/icons/badge-72x72.png',
     vibrate: [200, 100, 200],
     data: {
-      dateOfArrival: Date.now(),
-      primaryKey: 1
+      ...payload.data,
+      dateOfArrival: Date.now()
     },
     actions: [
       {
@@ -136,7 +147,7 @@ self.addEventListener('push', (event) => {
   };
 
   event.waitUntil(
-    self.registration.showNotification('AAELink Enterprise', options)
+    self.registration.showNotification(payload.title, options)
   );
 });
 
@@ -146,9 +157,9 @@ self.addEventListener('notificationclick', (event) => {
 
   event.notification.close();
 
-  if (event.action === 'explore') {
+  if (event.action === 'explore' || !event.action) {
     event.waitUntil(
-      clients.openWindow('/dashboard')
+      clients.openWindow(event.notification.data?.url || '/dashboard')
     );
   }
 });
@@ -296,11 +296,22 @@ async function syncFiles() {
 self.addEventListener('push', (event) => {
   console.log('Push notification received');
 
+  // The backend sends { title, body, tag, data }, older senders plain text
+  let payload = { title: 'AAELink', body: 'New message in AAELink', tag: 'aaelink-message', data: {} };
+  if (event.data) {
+    try {
+      payload = { ...payload, ...event.data.json() };
+    } catch (error) {
+      payload.body = event.data.text();
+    }
+  }
+
   const options = {
-    body: event.data ? event.data.text() : 'New message in AAELink',
+    body: payload.body,
     icon: '/assets/logo-aae.svg',
     badge: '/assets/logo-aae.svg',
-    tag: 'aaelink-message',
+    tag: payload.tag,
+    data: payload.data,
     requireInteraction: true,
     actions: [
       {
@@ -315,7 +326,7 @@ self.addEventListener('push', (event) => {
   };
 
   event.waitUntil(
-    self.registration.showNotification('AAELink', options)
+    self.registration.showNotification(payload.title, options)
   );
 });
 
@@ -327,7 +338,7 @@ self.addEventListener('notificationclick', (event) => {
 
   if (event.action === 'open' || !event.action) {
     event.waitUntil(
-      clients.openWindow('/')
+      clients.openWindow(event.notification.data?.url || '/')
     );
   }
 });
@@ -4,6 +4,8 @@ interface Channel {
   id: string;
   name: string;
   description: string;
+  unreadCount?: number;
+  mentionCount?: number;
 }
 
 interface ChannelListProps {
@@ -32,7 +34,25 @@ const ChannelList: React.FC<ChannelListProps> = ({
           >
             <div className="flex items-center">
               <span className="text-gray-500 dark:text-gray-400 mr-2">#</span>
-              <span className="font-medium">{channel.name}</span>
+              <span className={`flex-1 truncate ${channel.unreadCount ? 'font-bold' : 'font-medium'}`}>
+                {channel.name}
+              </span>
+              {!!channel.mentionCount && (
+                <span
+                  title={`${channel.mentionCount} unread ${channel.mentionCount === 1 ? 'mention' : 'mentions'}`}
+                  className="ml-2 px-1.5 min-w-[1.25rem] text-center rounded-full bg-red-600 text-white text-xs font-semibold"
+                >
+                  @{channel.mentionCount}
+                </span>
+              )}
+              {!!channel.unreadCount && !channel.mentionCount && (
+                <span
+                  title={`${channel.unreadCount} unread ${channel.unreadCount === 1 ? 'message' : 'messages'}`}
+                  className="ml-2 px-1.5 min-w-[1.25rem] text-center rounded-full bg-gray-300 text-gray-800 dark:bg-gray-600 dark:text-gray-100 text-xs font-semibold"
+                >
+                  {channel.unreadCount > 99 ? '99+' : channel.unreadCount}
+                </span>
+              )}
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
               {channel.description}
@@ -1,36 +1,169 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import api from '../services/api';
 
 interface MessageInputProps {
   onSendMessage: (content: string) => void;
+  // Conversation the message goes to, for @mention suggestions
+  groupId?: string;
+  receiverId?: string;
 }
 
-const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage }) => {
+interface MentionCandidate {
+  token: string;
+  label: string;
+  description: string;
+}
+
+// An @ being typed at the cursor, with what follows it
+const MENTION_QUERY_PATTERN = /(^|\s)@([a-zA-Z0-9_.-]*)$/;
+
+const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, groupId, receiverId }) => {
   const [message, setMessage] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (mentionQuery === null || (!groupId && !receiverId)) {
+      setCandidates([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await api.get('/messages/mentionable', {
+          params: { groupId, receiverId, query: mentionQuery }
+        });
+        if (!isCurrent) return;
+
+        const users: MentionCandidate[] = response.data.users.map((user: any) => ({
+          token: user.username,
+          label: `${user.firstName} ${user.lastName}`.trim() || user.username,
+          description: `@${user.username}`
+        }));
+        const specials: MentionCandidate[] = response.data.specials.map((special: any) => ({
+          token: special.token,
+          label: `@${special.token}`,
+          description: special.description
+        }));
+
+        setCandidates([...users, ...specials]);
+        setActiveIndex(0);
+      } catch (error) {
+        if (isCurrent) setCandidates([]);
+      }
+    }, 150);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeoutId);
+    };
+  }, [mentionQuery, groupId, receiverId]);
+
+  const updateMentionQuery = (value: string, cursor: number | null) => {
+    const match = MENTION_QUERY_PATTERN.exec(value.slice(0, cursor ?? value.length));
+    setMentionQuery(match ? match[2] : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMessage(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  // Replace the @query before the cursor with the chosen mention
+  const selectCandidate = (candidate: MentionCandidate) => {
+    const cursor = inputRef.current?.selectionStart ?? message.length;
+    const before = message.slice(0, cursor).replace(MENTION_QUERY_PATTERN, `$1@${candidate.token} `);
+    const next = before + message.slice(cursor);
+
+    setMessage(next);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (message.trim()) {
       onSendMessage(message.trim());
       setMessage('');
+      setMentionQuery(null);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (candidates.length > 0 && mentionQuery !== null) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((index) => (index + step + candidates.length) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectCandidate(candidates[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
     }
   };
 
+  const showSuggestions = mentionQuery !== null && candidates.length > 0;
+
   return (
     <form onSubmit={handleSubmit} className="flex-1">
       <div className="relative">
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute bottom-full left-0 z-10 mb-1 w-72 max-h-64 overflow-y-auto py-1 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+          >
+            {candidates.map((candidate, index) => (
+              <li
+                key={candidate.description}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  // Keep focus in the input
+                  e.preventDefault();
+                  selectCandidate(candidate);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-1.5 cursor-pointer ${
+                  index === activeIndex ? 'bg-blue-50 dark:bg-gray-700' : ''
+                }`}
+              >
+                <span className="font-medium text-gray-900 dark:text-white">{candidate.label}</span>
+                <span className="ml-2 text-gray-500 dark:text-gray-400">{candidate.description}</span>
+              </li>
+            ))}
+          </ul>
+        )}
         <input
+          ref={inputRef}
           type="text"
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          onKeyPress={handleKeyPress}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateMentionQuery(message, e.currentTarget.selectionStart)}
+          onBlur={() => setMentionQuery(null)}
           placeholder="Type a message..."
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
           className="w-full px-4 py-2 pr-12 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
         />
         <button
@@ -1,4 +1,22 @@
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import api from '../services/api';
+
+interface MessageAuthor {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+interface ReplyNode {
+  id: string;
+  content: string;
+  createdAt: string;
+  sender: MessageAuthor;
+  replies: ReplyNode[];
+  hasMoreReplies: boolean;
+}
 
 interface Message {
   id: string;
@@ -7,6 +25,11 @@ interface Message {
   channelId: string;
   createdAt: string;
   type?: string;
+  groupId?: string;
+  threadId?: string;
+  replyCount?: number;
+  lastReplyAt?: string;
+  replyParticipants?: MessageAuthor[];
   fileData?: {
     id: string;
     name: string;
@@ -19,60 +42,217 @@ interface Message {
 interface MessageListProps {
   messages: Message[];
   currentUserId?: string;
+  // Read watermark of the conversation when it was opened; later messages from others are new
+  lastReadAt?: string | null;
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages, currentUserId }) => {
+const MessageList: React.FC<MessageListProps> = ({ messages, currentUserId, lastReadAt }) => {
+  const [openThread, setOpenThread] = useState<Message | null>(null);
+  const [replyTree, setReplyTree] = useState<ReplyNode[]>([]);
+  const [loadingReplies, setLoadingReplies] = useState(false);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const firstUnreadRef = useRef<HTMLDivElement>(null);
+
+  const firstUnreadId = useMemo(() => {
+    if (!lastReadAt) {
+      return null;
+    }
+    const watermark = new Date(lastReadAt).getTime();
+    return messages.find(
+      (message) => message.userId !== currentUserId && new Date(message.createdAt).getTime() > watermark
+    )?.id ?? null;
+  }, [messages, currentUserId, lastReadAt]);
+
+  const jumpToFirstUnread = () => {
+    firstUnreadRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const openThreadPanel = async (message: Message) => {
+    setOpenThread(message);
+    setReplyTree([]);
+    setIsFollowing(false);
+    setLoadingReplies(true);
+
+    try {
+      const response = await api.get(`/messages/${message.id}/replies`);
+      setReplyTree(response.data.message.replies || []);
+    } catch (error) {
+      console.error('Failed to load replies:', error);
+    } finally {
+      setLoadingReplies(false);
+    }
+  };
+
+  const toggleFollow = async () => {
+    if (!openThread?.groupId || !openThread.threadId) {
+      return;
+    }
+
+    const url = `/groups/${openThread.groupId}/threads/${openThread.threadId}/follow`;
+
+    try {
+      const response = isFollowing ? await api.delete(url) : await api.post(url);
+      setIsFollowing(response.data.isFollowing);
+    } catch (error) {
+      console.error('Failed to update thread subscription:', error);
+    }
+  };
+
+  const renderReplies = (replies: ReplyNode[], depth = 0): React.ReactNode => (
+    <div className={depth > 0 ? 'ml-4 pl-3 border-l border-gray-200 dark:border-gray-700' : ''}>
+      {replies.map((reply) => (
+        <div key={reply.id} className="mt-3">
+          <div className="flex items-baseline space-x-2">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {reply.sender.firstName} {reply.sender.lastName}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {formatTime(reply.createdAt)}
+            </span>
+          </div>
+          <div className="text-sm text-gray-700 dark:text-gray-300">{reply.content}</div>
+          {reply.hasMoreReplies && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">More replies…</div>
+          )}
+          {reply.replies.length > 0 && renderReplies(reply.replies, depth + 1)}
+        </div>
+      ))}
+    </div>
+  );
+
   return (
-    <div className="p-4 space-y-4">
-      {messages.map((message) => (
-        <div
-          key={message.id}
-          className={`flex ${message.userId === currentUserId ? 'justify-end' : 'justify-start'}`}
-        >
-          <div
-            className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-              message.userId === currentUserId
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
-            }`}
-          >
-            <div className="text-sm">
-              {message.type === 'file' && message.fileData ? (
-                <div className="flex items-center space-x-2">
-                  <span>📎</span>
-                  <a
-                    href={message.fileData.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline"
-                  >
-                    {message.fileData.name}
-                  </a>
-                  <span className="text-xs text-gray-500 dark:text-gray-400">
-                    ({(message.fileData.size / 1024).toFixed(1)} KB)
-                  </span>
+    <div className="flex h-full">
+      <div className="flex-1 p-4 space-y-4 overflow-y-auto relative">
+        {firstUnreadId && (
+          <div className="sticky top-0 z-10 flex justify-center">
+            <button
+              onClick={jumpToFirstUnread}
+              className="px-3 py-1 rounded-full bg-red-600 text-white text-xs font-medium shadow hover:bg-red-700"
+            >
+              Jump to first unread ↑
+            </button>
+          </div>
+        )}
+        {messages.map((message) => (
+          <React.Fragment key={message.id}>
+            {message.id === firstUnreadId && (
+              <div ref={firstUnreadRef} className="flex items-center" role="separator" aria-label="New messages">
+                <div className="flex-1 border-t border-red-500" />
+                <span className="px-2 text-xs font-semibold text-red-600 dark:text-red-400">New messages</span>
+                <div className="flex-1 border-t border-red-500" />
+              </div>
+            )}
+            <div
+              className={`flex ${message.userId === currentUserId ? 'justify-end' : 'justify-start'}`}
+            >
+              <div
+                className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+                  message.userId === currentUserId
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
+                }`}
+              >
+                <div className="text-sm">
+                  {message.type === 'file' && message.fileData ? (
+                    <div className="flex items-center space-x-2">
+                      <span>📎</span>
+                      <a
+                        href={message.fileData.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline"
+                      >
+                        {message.fileData.name}
+                      </a>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        ({(message.fileData.size / 1024).toFixed(1)} KB)
+                      </span>
+                    </div>
+                  ) : (
+                    message.content
+                  )}
                 </div>
-              ) : (
-                message.content
+                <div
+                  className={`text-xs mt-1 ${
+                    message.userId === currentUserId
+                      ? 'text-blue-100'
+                      : 'text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {formatTime(message.createdAt)}
+                </div>
+                {!!message.replyCount && (
+                  <button
+                    onClick={() => openThreadPanel(message)}
+                    className={`flex items-center mt-2 text-xs font-medium hover:underline ${
+                      message.userId === currentUserId
+                        ? 'text-blue-100'
+                        : 'text-blue-600 dark:text-blue-400'
+                    }`}
+                  >
+                    <span className="flex -space-x-1 mr-2">
+                      {message.replyParticipants?.slice(0, 3).map((participant) => (
+                        <span
+                          key={participant.id}
+                          title={participant.username}
+                          className="w-4 h-4 rounded-full bg-gray-400 text-white text-[10px] flex items-center justify-center ring-1 ring-white"
+                        >
+                          {participant.firstName.charAt(0)}
+                        </span>
+                      ))}
+                    </span>
+                    {message.replyCount} {message.replyCount === 1 ? 'reply' : 'replies'}
+                    {message.lastReplyAt && (
+                      <span className="ml-1 font-normal opacity-75">· {formatTime(message.lastReplyAt)}</span>
+                    )}
+                  </button>
+                )}
+              </div>
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {/* Thread side panel */}
+      {openThread && (
+        <aside className="w-80 border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex flex-col">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Thread</h3>
+            <div className="flex items-center space-x-2">
+              {openThread.threadId && openThread.groupId && (
+                <button
+                  onClick={toggleFollow}
+                  className="text-xs px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  {isFollowing ? 'Unfollow' : 'Follow'}
+                </button>
               )}
+              <button
+                onClick={() => setOpenThread(null)}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                aria-label="Close thread"
+              >
+                ✕
+              </button>
             </div>
-            <div
-              className={`text-xs mt-1 ${
-                message.userId === currentUserId
-                  ? 'text-blue-100'
-                  : 'text-gray-500 dark:text-gray-400'
-              }`}
-            >
-              {formatTime(message.createdAt)}
+          </div>
+          <div className="flex-1 overflow-y-auto p-4">
+            <div className="text-sm text-gray-900 dark:text-white pb-3 border-b border-gray-200 dark:border-gray-700">
+              {openThread.content}
             </div>
+            {loadingReplies ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-3">Loading replies...</p>
+            ) : (
+              renderReplies(replyTree)
+            )}
           </div>
-        </div>
-      ))}
+        </aside>
+      )}
     </div>
   );
 };
@@ -1,15 +1,85 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import api from '../services/api';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
 }
 
+// Parse error returned by GET /search/parse, spanning part of the query
+interface SearchQueryError {
+  code: string;
+  message: string;
+  offset: number;
+  length: number;
+}
+
+const OPERATOR_HINT = 'from:@user in:#group has:file|link|reaction before: after: on: "phrase" -word';
+
 const SearchBar: React.FC<SearchBarProps> = ({ onSearch }) => {
   const [query, setQuery] = useState('');
+  const [errors, setErrors] = useState<SearchQueryError[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+
+  // Check operator queries while typing so mistakes show before searching
+  useEffect(() => {
+    if (!query.includes(':') && !query.includes('"')) {
+      setErrors([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeoutId = setTimeout(() => {
+      validate(query).then((queryErrors) => {
+        if (isCurrent) setErrors(queryErrors);
+      });
+    }, 400);
 
-  const handleSubmit = (e: React.FormEvent) => {
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeoutId);
+    };
+  }, [query]);
+
+  const validate = async (text: string): Promise<SearchQueryError[]> => {
+    try {
+      await api.get('/search/parse', { params: { query: text } });
+      return [];
+    } catch (error: any) {
+      return error.response?.status === 400 ? error.response.data.errors ?? [] : [];
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(query);
+    if (!query.trim()) return;
+
+    const queryErrors = await validate(query);
+    setErrors(queryErrors);
+
+    if (queryErrors.length === 0) {
+      onSearch(query);
+    }
+  };
+
+  // The query with the parts an error points at underlined
+  const renderHighlightedQuery = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+
+    errors.forEach((error, index) => {
+      if (error.offset < position) return;
+
+      parts.push(query.slice(position, error.offset));
+      parts.push(
+        <span key={index} className="underline decoration-wavy decoration-red-500">
+          {query.slice(error.offset, error.offset + error.length) || ' '}
+        </span>
+      );
+      position = error.offset + error.length;
+    });
+    parts.push(query.slice(position));
+
+    return parts;
   };
 
   return (
@@ -19,8 +89,15 @@ const SearchBar: React.FC<SearchBarProps> = ({ onSearch }) => {
           type="text"
           value={query}
           onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
           placeholder="Search messages..."
-          className="w-64 px-4 py-2 pl-10 pr-4 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+          aria-invalid={errors.length > 0}
+          className={`w-64 px-4 py-2 pl-10 pr-4 text-sm border rounded-lg focus:outline-none focus:ring-2 dark:bg-gray-700 dark:text-white ${
+            errors.length > 0
+              ? 'border-red-400 focus:ring-red-500'
+              : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+          }`}
         />
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
           <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -28,6 +105,21 @@ const SearchBar: React.FC<SearchBarProps> = ({ onSearch }) => {
           </svg>
         </div>
       </div>
+
+      {errors.length > 0 ? (
+        <div className="absolute z-10 mt-1 w-80 p-2 text-xs bg-white dark:bg-gray-800 border border-red-200 dark:border-red-800 rounded-lg shadow-lg">
+          <p className="mb-1 font-mono text-gray-700 dark:text-gray-300 break-all">{renderHighlightedQuery()}</p>
+          <ul className="space-y-0.5 text-red-600 dark:text-red-400">
+            {errors.map((error, index) => (
+              <li key={index}>{error.message}</li>
+            ))}
+          </ul>
+        </div>
+      ) : isFocused && !query && (
+        <div className="absolute z-10 mt-1 w-80 p-2 text-xs text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          {OPERATOR_HINT}
+        </div>
+      )}
     </form>
   );
 };
@@ -1,25 +1,26 @@
+import { browserSupportsWebAuthn, startAuthentication, startRegistration } from '@simplewebauthn/browser';
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
+import api from '../services/api';
 
 interface WebAuthnLoginProps {
+  // Used as the login hint and, together with displayName, to create a new account
+  email?: string;
+  displayName?: string;
   onSuccess?: () => void;
   onError?: (error: string) => void;
 }
 
-const WebAuthnLogin: React.FC<WebAuthnLoginProps> = ({ onSuccess, onError }) => {
+const getErrorMessage = (err: any, fallback: string) =>
+  err?.response?.data?.error || err?.message || fallback;
+
+const WebAuthnLogin: React.FC<WebAuthnLoginProps> = ({ email, displayName, onSuccess, onError }) => {
   const [isLoading, setIsLoading] = useState(false);
-  const { setUser } = useAuth();
+  const { user, setUser } = useAuth();
   const { success, error } = useToast();
 
-  const isWebAuthnSupported = () => {
-    return !!(
-      window.PublicKeyCredential &&
-      window.navigator.credentials &&
-      typeof window.navigator.credentials.create === 'function' &&
-      typeof window.navigator.credentials.get === 'function'
-    );
-  };
+  const isWebAuthnSupported = () => browserSupportsWebAuthn();
 
   const handleWebAuthnLogin = async () => {
     if (!isWebAuthnSupported()) {
@@ -32,84 +33,28 @@ const WebAuthnLogin: React.FC<WebAuthnLoginProps> = ({ onSuccess, onError }) =>
     setIsLoading(true);
 
     try {
-      // Step 1: Get authentication options from server
-      const optionsResponse = await fetch('/api/webauthn/login/begin', {
-        method: 'GET',
-        credentials: 'include'
+      // Step 1: Get a fresh challenge from the server
+      const optionsResponse = await api.post('/auth/passkey/login/options', {
+        ...(email ? { usernameOrEmail: email } : {})
       });
 
-      if (!optionsResponse.ok) {
-        throw new Error('Failed to get authentication options');
-      }
-
-      const options = await optionsResponse.json();
-
-      // Step 2: Create credential
-      const credential = await navigator.credentials.get({
-        publicKey: {
-          challenge: new Uint8Array(options.challenge),
-          allowCredentials: options.allowCredentials?.map((cred: any) => ({
-            ...cred,
-            id: new Uint8Array(Buffer.from(cred.id, 'base64url'))
-          })),
-          userVerification: options.userVerification,
-          timeout: options.timeout
-        }
-      }) as PublicKeyCredential;
-
-      if (!credential) {
-        throw new Error('Authentication was cancelled');
-      }
+      // Step 2: Let the authenticator sign the challenge
+      const credential = await startAuthentication(optionsResponse.data.options);
 
-      // Step 3: Send credential to server for verification
-      const response = credential.response as AuthenticatorAssertionResponse;
-      const verificationResponse = await fetch('/api/webauthn/login/complete', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        credentials: 'include',
-        body: JSON.stringify({
-          response: {
-            id: credential.id,
-            rawId: Array.from(new Uint8Array(credential.rawId)),
-            type: credential.type,
-            response: {
-              authenticatorData: Array.from(new Uint8Array(response.authenticatorData)),
-              clientDataJSON: Array.from(new Uint8Array(response.clientDataJSON)),
-              signature: Array.from(new Uint8Array(response.signature)),
-              userHandle: response.userHandle ? Array.from(new Uint8Array(response.userHandle)) : null
-            }
-          },
-          expectedChallenge: options.challenge
-        })
+      // Step 3: Send the assertion to the server for verification
+      const verificationResponse = await api.post('/auth/passkey/login/verify', {
+        response: credential
       });
 
-      if (!verificationResponse.ok) {
-        throw new Error('Authentication verification failed');
-      }
-
-      const verification = await verificationResponse.json();
-
-      if (verification.verified) {
-        // Get user session
-        const sessionResponse = await fetch('/api/auth/session', {
-          credentials: 'include'
-        });
-
-        if (sessionResponse.ok) {
-          const session = await sessionResponse.json();
-          setUser(session.user);
-          success('Login successful with passkey!');
-          onSuccess?.();
-        } else {
-          throw new Error('Failed to get user session');
-        }
+      if (verificationResponse.data.verified) {
+        setUser(verificationResponse.data.user);
+        success('Login successful with passkey!');
+        onSuccess?.();
       } else {
         throw new Error('Authentication failed');
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'WebAuthn authentication failed';
+      const errorMsg = getErrorMessage(err, 'WebAuthn authentication failed');
       console.error('WebAuthn login error:', err);
       error(errorMsg);
       onError?.(errorMsg);
@@ -126,85 +71,51 @@ const WebAuthnLogin: React.FC<WebAuthnLoginProps> = ({ onSuccess, onError }) =>
       return;
     }
 
-    setIsLoading(true);
-
-    try {
-      const userId = `user_${Date.now()}`;
-      const email = 'admin@aae.co.th';
-      const displayName = 'Admin User';
-
-      // Step 1: Get registration options from server
-      const optionsResponse = await fetch(`/api/webauthn/register/begin/${userId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ email, displayName })
-      });
-
-      if (!optionsResponse.ok) {
-        throw new Error('Failed to get registration options');
+    // Signed-in users add a passkey to their account, everyone else creates one
+    let profile: Record<string, string> = {};
+    if (!user) {
+      if (!email || !displayName) {
+        const errorMsg = 'Please enter your email and display name to register a passkey';
+        error(errorMsg);
+        onError?.(errorMsg);
+        return;
       }
 
-      const options = await optionsResponse.json();
-
-      // Step 2: Create credential
-      const credential = await navigator.credentials.create({
-        publicKey: {
-          challenge: new Uint8Array(options.challenge),
-          rp: options.rp,
-          user: {
-            id: new Uint8Array(Buffer.from(options.user.id, 'base64url')),
-            name: options.user.name,
-            displayName: options.user.displayName
-          },
-          pubKeyCredParams: options.pubKeyCredParams,
-          authenticatorSelection: options.authenticatorSelection,
-          timeout: options.timeout,
-          attestation: options.attestation
-        }
-      }) as PublicKeyCredential;
+      const [firstName, ...lastNameParts] = displayName.trim().split(' ');
+      profile = {
+        email,
+        username: email.split('@')[0] ?? email, // Use email prefix as username
+        firstName: firstName || displayName,
+        lastName: lastNameParts.join(' ') || firstName || displayName
+      };
+    }
 
-      if (!credential) {
-        throw new Error('Registration was cancelled');
-      }
+    setIsLoading(true);
 
-      // Step 3: Send credential to server for verification
-      const response = credential.response as AuthenticatorAttestationResponse;
-      const verificationResponse = await fetch(`/api/webauthn/register/complete/${userId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          response: {
-            id: credential.id,
-            rawId: Array.from(new Uint8Array(credential.rawId)),
-            type: credential.type,
-            response: {
-              attestationObject: Array.from(new Uint8Array(response.attestationObject)),
-              clientDataJSON: Array.from(new Uint8Array(response.clientDataJSON))
-            }
-          },
-          expectedChallenge: options.challenge
-        })
-      });
+    try {
+      // Step 1: Get registration options and challenge from the server
+      const optionsResponse = await api.post('/auth/passkey/register/options', profile);
 
-      if (!verificationResponse.ok) {
-        throw new Error('Registration verification failed');
-      }
+      // Step 2: Create the credential on the authenticator
+      const credential = await startRegistration(optionsResponse.data.options);
 
-      const verification = await verificationResponse.json();
+      // Step 3: Send the attestation to the server for verification
+      const verificationResponse = await api.post('/auth/passkey/register/verify', {
+        response: credential
+      });
 
-      if (verification.verified) {
+      if (verificationResponse.data.verified) {
         success('Passkey registered successfully!');
-        // Automatically try to login after registration
-        await handleWebAuthnLogin();
+        // New accounts are signed in as part of the registration
+        if (verificationResponse.data.user) {
+          setUser(verificationResponse.data.user);
+          onSuccess?.();
+        }
       } else {
         throw new Error('Registration failed');
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'WebAuthn registration failed';
+      const errorMsg = getErrorMessage(err, 'WebAuthn registration failed');
       console.error('WebAuthn registration error:', err);
       error(errorMsg);
       onError?.(errorMsg);
@@ -100,6 +100,8 @@ const LoginPage: React.FC = () => {
           {/* WebAuthn Section */}
           {showWebAuthn ? (
             <WebAuthnLogin
+              email={email}
+              displayName={displayName}
               onSuccess={() => navigate('/')}
               onError={(err) => console.error('WebAuthn error:', err)}
             />
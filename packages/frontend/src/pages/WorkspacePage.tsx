@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import AdminConsole from '../components/AdminConsole';
 import AdvancedSearch from '../components/AdvancedSearch';
 import Calendar from '../components/Calendar';
@@ -11,16 +11,23 @@ import SearchBar from '../components/SearchBar';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useToast } from '../contexts/ToastContext';
+import api from '../services/api';
 import { offlineStorage } from '../services/offlineStorage';
 import { WebSocketService } from '../services/websocket';
 
+// Messages arriving in the open channel are marked read in one request per burst
+const READ_DELAY = 1000;
+
 const WorkspacePage: React.FC = () => {
   const { user, logout } = useAuth();
   const { theme, seniorMode, toggleTheme, setSeniorMode } = useTheme();
-  const { success, error } = useToast();
+  const { success, error, info } = useToast();
 
   const [selectedChannel, setSelectedChannel] = useState('general');
+  // WebSocket callbacks are registered once, they read the channel shown now from here
+  const selectedChannelRef = useRef(selectedChannel);
   const [messages, setMessages] = useState<any[]>([]);
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
   const [channels, setChannels] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -28,6 +35,10 @@ const WorkspacePage: React.FC = () => {
   // const [showCalendar, setShowCalendar] = useState(false);
   // const [showAdminConsole, setShowAdminConsole] = useState(false);
   const [activeView, setActiveView] = useState<'chat' | 'calendar' | 'admin'>('chat');
+  const activeViewRef = useRef(activeView);
+  // Set while the open channel has messages the user has not seen yet
+  const unseenRef = useRef(false);
+  const readTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   useEffect(() => {
     initializeOfflineStorage();
@@ -44,7 +55,7 @@ const WorkspacePage: React.FC = () => {
       setIsOnline(online);
       if (online) {
         // Sync offline actions when coming back online
-        offlineStorage.syncOfflineActions();
+        offlineStorage.processSyncQueue();
       }
     });
 
@@ -64,6 +75,23 @@ const WorkspacePage: React.FC = () => {
   };
 
   const loadChannels = async () => {
+    try {
+      const response = await api.get('/groups');
+      const groups = response.data.groups || [];
+      if (groups.length > 0) {
+        setChannels(groups.map((group: any) => ({
+          id: group.id,
+          name: group.name,
+          description: group.description || '',
+          unreadCount: group.unreadCount,
+          mentionCount: group.mentionCount
+        })));
+        return;
+      }
+    } catch (error) {
+      console.log('Failed to load groups from server, using demo channels');
+    }
+
     try {
       // Mock channels for demo
       const mockChannels = [
@@ -78,10 +106,10 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
-  const loadMessages = async () => {
+  const loadMessages = async (channelId: string = selectedChannelRef.current) => {
     try {
       // Try to load from offline storage first
-      const offlineMessages = await offlineStorage.getMessages(selectedChannel);
+      const offlineMessages = await offlineStorage.getMessages(channelId);
 
       if (offlineMessages.length > 0) {
         setMessages(offlineMessages);
@@ -91,15 +119,27 @@ const WorkspacePage: React.FC = () => {
       // If online, also try to load from server
       if (isOnline) {
         try {
-          const response = await fetch(`http://localhost:3002/api/messages/${selectedChannel}`);
-          if (response.ok) {
-            const serverMessages = await response.json();
-            setMessages(serverMessages.messages || []);
-
-            // Save server messages to offline storage
-            for (const message of serverMessages.messages || []) {
-              await offlineStorage.saveMessage({ ...message, synced: true });
-            }
+          const response = await api.get('/messages', { params: { groupId: channelId } });
+          // The user moved on to another channel while this one loaded
+          if (channelId !== selectedChannelRef.current) {
+            return;
+          }
+
+          const serverMessages = (response.data.messages || []).map((message: any) => ({
+            ...message,
+            userId: message.senderId,
+            channelId
+          }));
+          setMessages(serverMessages);
+          WebSocketService.setLastSequence(response.data.conversationId, response.data.seq);
+
+          // The divider stays where the channel was read up to when it was opened
+          setLastReadAt(response.data.readState?.lastReadAt ?? null);
+          markChannelRead(channelId);
+
+          // Save server messages to offline storage
+          for (const message of serverMessages) {
+            await offlineStorage.saveMessage({ ...message, synced: true });
           }
         } catch (error) {
           console.log('Failed to load messages from server, using offline data');
@@ -113,14 +153,14 @@ const WorkspacePage: React.FC = () => {
             id: '1',
             content: 'Welcome to AAELink! 🎉 (Offline Mode)',
             userId: 'admin_001',
-            channelId: selectedChannel,
+            channelId,
             createdAt: new Date(Date.now() - 3600000).toISOString(),
           },
           {
             id: '2',
             content: 'You are currently offline. Messages will sync when you reconnect.',
             userId: 'admin_001',
-            channelId: selectedChannel,
+            channelId,
             createdAt: new Date(Date.now() - 1800000).toISOString(),
           },
         ];
@@ -133,6 +173,46 @@ const WorkspacePage: React.FC = () => {
     }
   };
 
+  const setChannelCounts = (channelId: string, update: (channel: any) => { unreadCount: number; mentionCount: number }) => {
+    setChannels(prev => prev.map(channel => channel.id === channelId ? { ...channel, ...update(channel) } : channel));
+  };
+
+  const markChannelRead = async (channelId: string) => {
+    setChannelCounts(channelId, () => ({ unreadCount: 0, mentionCount: 0 }));
+
+    try {
+      await api.post('/messages/read-up-to', { groupId: channelId });
+    } catch (error) {
+      console.error('Failed to mark channel as read:', error);
+    }
+  };
+
+  // Only what the user can see counts as read: the chat view of a visible page
+  const scheduleMarkRead = () => {
+    if (!unseenRef.current || document.visibilityState !== 'visible' || activeViewRef.current !== 'chat') {
+      return;
+    }
+
+    clearTimeout(readTimerRef.current);
+    readTimerRef.current = setTimeout(() => {
+      unseenRef.current = false;
+      markChannelRead(selectedChannelRef.current);
+    }, READ_DELAY);
+  };
+
+  useEffect(() => {
+    activeViewRef.current = activeView;
+    scheduleMarkRead();
+  }, [activeView]);
+
+  useEffect(() => {
+    document.addEventListener('visibilitychange', scheduleMarkRead);
+    return () => {
+      document.removeEventListener('visibilitychange', scheduleMarkRead);
+      clearTimeout(readTimerRef.current);
+    };
+  }, []);
+
   const initializeWebSocket = async () => {
     try {
       await WebSocketService.connect(user!.id);
@@ -140,17 +220,34 @@ const WorkspacePage: React.FC = () => {
       // Set up WebSocket callbacks
       WebSocketService.setCallbacks({
         onMessage: (data) => {
+          // Messages in other channels only bump their badges
+          if (data.groupId && data.groupId !== selectedChannelRef.current) {
+            if (data.senderId !== user?.id) {
+              const mentioned = (data.mentions || []).some((mention: any) => mention.userId === user?.id);
+              setChannelCounts(data.groupId, channel => ({
+                unreadCount: (channel.unreadCount || 0) + 1,
+                mentionCount: (channel.mentionCount || 0) + (mentioned ? 1 : 0)
+              }));
+            }
+            return;
+          }
+
           const newMessage = {
             id: `msg_${Date.now()}`,
             content: data.content,
             userId: data.userId || 'system',
-            channelId: selectedChannel,
+            channelId: selectedChannelRef.current,
             createdAt: new Date().toISOString(),
           };
           setMessages(prev => [...prev, newMessage]);
+
+          if (data.senderId !== user?.id) {
+            unseenRef.current = true;
+            scheduleMarkRead();
+          }
         },
         onTyping: (userId, channelId, isTyping) => {
-          if (channelId === selectedChannel) {
+          if (channelId === selectedChannelRef.current) {
             // Handle typing indicators
             console.log(`User ${userId} is ${isTyping ? 'typing' : 'not typing'} in ${channelId}`);
           }
@@ -161,13 +258,35 @@ const WorkspacePage: React.FC = () => {
         onConnected: () => {
           console.log('WebSocket connected');
           // Join the current channel
-          WebSocketService.joinChannel(selectedChannel);
+          WebSocketService.joinChannel(selectedChannelRef.current);
         },
         onDisconnected: () => {
           console.log('WebSocket disconnected');
         },
         onError: (error) => {
           console.error('WebSocket error:', error);
+        },
+        onConversationRead: (data) => {
+          // Read on another device
+          if (data.userId === user?.id && data.groupId) {
+            setChannelCounts(data.groupId, () => ({ unreadCount: 0, mentionCount: 0 }));
+          }
+        },
+        onResyncRequired: (conversationId) => {
+          if (conversationId === `group:${selectedChannelRef.current}`) {
+            loadMessages();
+          }
+        },
+        onNotification: (notification) => {
+          // Quiet ones arrive during do-not-disturb or from a muted conversation
+          if (!notification.quiet) {
+            info(`${notification.title}: ${notification.content}`);
+          }
+        },
+        onIncomingCall: (call) => {
+          if (call.initiatorId !== user?.id && !call.quiet) {
+            info(call.type === 'AUDIO' ? 'Incoming voice call' : 'Incoming video call');
+          }
         }
       });
 
@@ -218,6 +337,8 @@ const WorkspacePage: React.FC = () => {
           // Queue for offline sync
           await offlineStorage.queueOfflineAction({
             type: 'message',
+            action: 'create',
+            localId: newMessage.id,
             data: { channelId: selectedChannel, content, type: 'text' }
           });
         }
@@ -225,6 +346,8 @@ const WorkspacePage: React.FC = () => {
         // Queue for offline sync
         await offlineStorage.queueOfflineAction({
           type: 'message',
+          action: 'create',
+          localId: newMessage.id,
           data: { channelId: selectedChannel, content, type: 'text' }
         });
       }
@@ -295,7 +418,12 @@ const WorkspacePage: React.FC = () => {
     }
 
     // Switch to new channel
+    selectedChannelRef.current = channelId;
     setSelectedChannel(channelId);
+    setLastReadAt(null);
+    // Loading the channel marks it read
+    unseenRef.current = false;
+    clearTimeout(readTimerRef.current);
 
     // Join new channel
     if (WebSocketService.isConnected()) {
@@ -303,7 +431,7 @@ const WorkspacePage: React.FC = () => {
     }
 
     // Load messages for new channel
-    loadMessages();
+    loadMessages(channelId);
   };
 
   const handleLogout = async () => {
@@ -432,7 +560,7 @@ const WorkspacePage: React.FC = () => {
                 </div>
               </div>
             ) : (
-              <MessageList messages={messages} currentUserId={user?.id} />
+              <MessageList messages={messages} currentUserId={user?.id} lastReadAt={lastReadAt} />
             )}
           </div>
 
@@ -440,7 +568,7 @@ const WorkspacePage: React.FC = () => {
           <div className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 p-4">
             <div className="flex items-end space-x-2">
               <FileUpload onFileUpload={handleFileUpload} />
-              <MessageInput onSendMessage={handleSendMessage} />
+              <MessageInput onSendMessage={handleSendMessage} groupId={selectedChannel} />
             </div>
           </div>
         </div>
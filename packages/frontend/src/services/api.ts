@@ -37,10 +37,22 @@ api.interceptors.response.use(
     pendingRequests.delete(key);
     return response;
   },
-  (error) => {
+  async (error) => {
     const key = `${error.config?.method?.toUpperCase()}-${error.config?.url}`;
     pendingRequests.delete(key);
 
+    const config = error.config;
+    const isAuthRequest = config?.url?.startsWith('/auth/refresh') || config?.url?.startsWith('/auth/login');
+
+    // Access tokens are short-lived: rotate the refresh cookie once and retry
+    if (error.response?.status === 401 && config && !config._retried && !isAuthRequest) {
+      config._retried = true;
+
+      if (await refreshSession()) {
+        return api(config);
+      }
+    }
+
     if (error.response?.status === 401) {
       console.log('Unauthorized - not redirecting to prevent loops');
     }
@@ -49,4 +61,21 @@ api.interceptors.response.use(
   }
 );
 
+// Concurrent 401s share a single refresh request
+let refreshPromise: Promise<boolean> | null = null;
+
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = api
+      .post('/auth/refresh')
+      .then(() => true)
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
 export default api;
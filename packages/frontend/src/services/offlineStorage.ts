@@ -1,8 +1,11 @@
 /**
  * Offline Storage Service
- * Handles IndexedDB operations for offline-first functionality
+ * Handles IndexedDB operations for offline-first functionality.
+ * Queued message actions are sent to POST /api/sync in batches.
  */
 
+import api from './api';
+
 interface Message {
   id: string;
   content: string;
@@ -12,6 +15,10 @@ interface Message {
   type?: string;
   fileData?: any;
   synced?: boolean;
+  // Server id and version once synced
+  serverId?: string;
+  version?: number | null;
+  conflict?: boolean;
 }
 
 interface File {
@@ -29,17 +36,45 @@ interface File {
 }
 
 interface OfflineAction {
+  // Also the idempotency key, so a retried action is applied once
   id: string;
   type: 'message' | 'file' | 'reaction';
+  action?: 'create' | 'update' | 'delete';
   data: any;
+  // Local message the action came from
+  localId?: string;
+  // Server id, or the id of the queued create of a message not synced yet
+  entityId?: string;
+  baseVersion?: number;
   timestamp: string;
   retries: number;
 }
 
+interface SyncConflict {
+  id: string;
+  action: 'create' | 'update' | 'delete';
+  localId?: string;
+  entityId: string;
+  local: any;
+  // null when the message was deleted on the server
+  server: any | null;
+  version: number | null;
+  timestamp: string;
+}
+
+type SyncResult =
+  | { idempotencyKey: string; status: 'applied'; id: string; version: number | null; data: any }
+  | { idempotencyKey: string; status: 'conflict'; id: string; version: number | null; server: any }
+  | { idempotencyKey: string; status: 'rejected' | 'failed'; error: string };
+
+const MAX_SYNC_BATCH_SIZE = 100;
+const MAX_SYNC_RETRIES = 3;
+
 class OfflineStorageService {
   private db: IDBDatabase | null = null;
   private dbName = 'AAELinkOffline';
-  private version = 1;
+  private version = 2;
+  private syncInProgress = false;
 
   public async initialize(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -87,6 +122,11 @@ class OfflineStorageService {
           db.createObjectStore('preferences', { keyPath: 'key' });
         }
 
+        // Actions the server rejected because its copy changed in the meantime
+        if (!db.objectStoreNames.contains('conflicts')) {
+          db.createObjectStore('conflicts', { keyPath: 'id' });
+        }
+
         console.log('IndexedDB schema created');
       };
     });
@@ -261,35 +301,112 @@ class OfflineStorageService {
   }
 
   // Sync operations
-  public async syncOfflineActions(): Promise<void> {
-    const actions = await this.getOfflineActions();
-    
-    for (const action of actions) {
-      try {
-        await this.syncAction(action);
-        await this.removeOfflineAction(action.id);
-      } catch (error) {
-        console.error('Failed to sync action:', action.id, error);
-        // Increment retry count
-        action.retries++;
-        if (action.retries < 3) {
-          await this.saveOfflineAction(action);
-        } else {
+  public async processSyncQueue(): Promise<void> {
+    if (this.syncInProgress) return;
+    this.syncInProgress = true;
+
+    try {
+      const actions = await this.getOfflineActions();
+
+      // Message actions go to the server in batches, in the order they were made
+      const messageActions = actions.filter((action) => action.type === 'message');
+      for (let start = 0; start < messageActions.length; start += MAX_SYNC_BATCH_SIZE) {
+        await this.syncBatch(messageActions.slice(start, start + MAX_SYNC_BATCH_SIZE));
+      }
+
+      for (const action of actions.filter((action) => action.type !== 'message')) {
+        try {
+          await this.syncAction(action);
           await this.removeOfflineAction(action.id);
+        } catch (error) {
+          console.error('Failed to sync action:', action.id, error);
+          await this.retryLater(action);
         }
       }
+    } finally {
+      this.syncInProgress = false;
+    }
+  }
+
+  private async syncBatch(actions: OfflineAction[]): Promise<void> {
+    let results: SyncResult[];
+    try {
+      const response = await api.post('/sync', { mutations: actions.map((action) => this.toSyncMutation(action)) });
+      results = response.data.results;
+    } catch (error) {
+      console.error('Failed to sync actions:', error);
+      for (const action of actions) {
+        await this.retryLater(action);
+      }
+      return;
+    }
+
+    for (const result of results) {
+      const action = actions.find((queued) => queued.id === result.idempotencyKey);
+      if (!action) continue;
+
+      switch (result.status) {
+        case 'applied':
+          if (action.localId) {
+            await this.patchMessage(action.localId, { synced: true, serverId: result.id, version: result.version });
+          }
+          await this.removeOfflineAction(action.id);
+          break;
+        case 'conflict':
+          await this.saveConflict({
+            id: action.id,
+            action: action.action ?? 'create',
+            ...(action.localId ? { localId: action.localId } : {}),
+            entityId: result.id,
+            local: action.data,
+            server: result.server,
+            version: result.version,
+            timestamp: new Date().toISOString()
+          });
+          if (action.localId) {
+            await this.patchMessage(action.localId, { conflict: true });
+          }
+          await this.removeOfflineAction(action.id);
+          break;
+        case 'rejected':
+          console.error('Sync rejected for action:', action.id, result.error);
+          await this.removeOfflineAction(action.id);
+          break;
+        case 'failed':
+          await this.retryLater(action);
+          break;
+      }
+    }
+  }
+
+  private toSyncMutation(action: OfflineAction) {
+    const { channelId, type, ...data } = action.data ?? {};
+
+    return {
+      idempotencyKey: action.id,
+      entity: 'message',
+      action: action.action ?? 'create',
+      ...(action.entityId ? { id: action.entityId } : {}),
+      ...(action.baseVersion != null ? { baseVersion: action.baseVersion } : {}),
+      data: {
+        ...data,
+        ...(channelId && !data.groupId && !data.receiverId ? { groupId: channelId } : {}),
+        ...(typeof type === 'string' ? { type: type.toUpperCase() } : {})
+      }
+    };
+  }
+
+  private async retryLater(action: OfflineAction): Promise<void> {
+    action.retries++;
+    if (action.retries < MAX_SYNC_RETRIES) {
+      await this.saveOfflineAction(action);
+    } else {
+      await this.removeOfflineAction(action.id);
     }
   }
 
   private async syncAction(action: OfflineAction): Promise<void> {
     switch (action.type) {
-      case 'message':
-        await fetch('/api/messages', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(action.data)
-        });
-        break;
       case 'file': {
         const formData = new FormData();
         formData.append('file', action.data.file);
@@ -305,6 +422,107 @@ class OfflineStorageService {
     }
   }
 
+  // Conflicts
+  public async getConflicts(): Promise<SyncConflict[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['conflicts'], 'readonly');
+      const store = transaction.objectStore('conflicts');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Messages have a single editable field, so a conflict keeps one side or the other
+  public async resolveConflict(conflictId: string, resolution: 'local' | 'server'): Promise<void> {
+    const conflict = (await this.getConflicts()).find((candidate) => candidate.id === conflictId);
+    if (!conflict) return;
+
+    if (resolution === 'server') {
+      if (conflict.localId) {
+        await this.patchMessage(conflict.localId, {
+          ...(conflict.server ? { content: conflict.server.content } : {}),
+          synced: true,
+          conflict: false,
+          serverId: conflict.entityId,
+          version: conflict.version
+        });
+      }
+    } else if (conflict.server === null) {
+      // Deleted on the server: a kept edit becomes a new message
+      if (conflict.action !== 'delete') {
+        await this.queueOfflineAction({
+          type: 'message',
+          action: 'create',
+          data: conflict.local,
+          ...(conflict.localId ? { localId: conflict.localId } : {})
+        });
+      }
+    } else {
+      // Replay the local change on top of the server copy the conflict returned
+      await this.queueOfflineAction({
+        type: 'message',
+        action: conflict.action === 'delete' ? 'delete' : 'update',
+        data: conflict.local,
+        entityId: conflict.entityId,
+        ...(conflict.version != null ? { baseVersion: conflict.version } : {}),
+        ...(conflict.localId ? { localId: conflict.localId } : {})
+      });
+    }
+
+    if (conflict.localId && resolution === 'local') {
+      await this.patchMessage(conflict.localId, { conflict: false });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction(['conflicts'], 'readwrite');
+      const request = transaction.objectStore('conflicts').delete(conflictId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    if (this.isOnline()) {
+      await this.processSyncQueue();
+    }
+  }
+
+  private async saveConflict(conflict: SyncConflict): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['conflicts'], 'readwrite');
+      const request = transaction.objectStore('conflicts').put(conflict);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async patchMessage(messageId: string, changes: Partial<Message>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['messages'], 'readwrite');
+      const store = transaction.objectStore('messages');
+      const getRequest = store.get(messageId);
+
+      getRequest.onsuccess = () => {
+        if (!getRequest.result) {
+          resolve();
+          return;
+        }
+        const putRequest = store.put({ ...getRequest.result, ...changes });
+        putRequest.onsuccess = () => resolve();
+        putRequest.onerror = () => reject(putRequest.error);
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
   private async saveOfflineAction(action: OfflineAction): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -322,7 +540,7 @@ class OfflineStorageService {
   public async clearAllData(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const stores = ['messages', 'files', 'offlineActions', 'preferences'];
+    const stores = ['messages', 'files', 'offlineActions', 'preferences', 'conflicts'];
     
     for (const storeName of stores) {
       await new Promise<void>((resolve, reject) => {
@@ -348,4 +566,4 @@ class OfflineStorageService {
 
 // Create singleton instance
 export const offlineStorage = new OfflineStorageService();
-export type { Message, File, OfflineAction };
\ No newline at end of file
+export type { Message, File, OfflineAction, SyncConflict };
\ No newline at end of file
@@ -1,8 +1,14 @@
 /**
- * WebSocket Client for Real-time Communication
- * Handles connection, reconnection, and message broadcasting
+ * Socket.IO Client for Real-time Communication
+ * Authenticates with the session cookie, handles reconnection and room membership.
+ * Conversation events carry a per-conversation sequence number: they are applied
+ * in order exactly once, and missed ones are replayed by the server on reconnect.
+ * Each tab heartbeats its presence and reports when its user goes idle.
  */
 
+import { io, Socket } from 'socket.io-client';
+import api, { refreshSession } from './api';
+
 interface WebSocketMessage {
   type: 'message' | 'typing' | 'presence' | 'reaction' | 'read' | 'joined' | 'left';
   channelId: string;
@@ -17,199 +23,345 @@ interface WebSocketCallbacks {
   onPresence?: (userId: string, channelId: string, action: string) => void;
   onReaction?: (messageId: string, emoji: string, userId: string) => void;
   onRead?: (messageId: string, userId: string) => void;
+  // A participant, or the user on another device, read a conversation up to a message
+  onConversationRead?: (data: ConversationRead) => void;
   onConnected?: () => void;
   onDisconnected?: () => void;
   onError?: (error: Error) => void;
+  // Too many events were missed to replay, reload the conversation from the API
+  onResyncRequired?: (conversationId: string) => void;
+  // `quiet` is set during do-not-disturb or in a muted conversation: show it without alerting
+  onNotification?: (notification: any) => void;
+  onIncomingCall?: (call: any) => void;
+}
+
+interface ConversationRead {
+  conversationId: string;
+  groupId: string | null;
+  userId: string;
+  lastReadMessageId: string;
+  lastReadAt: string;
+}
+
+// Heartbeats keep this tab counted as a live connection of the user
+const HEARTBEAT_INTERVAL = 25000;
+// Without input for this long, or while hidden, the tab reports itself idle
+const IDLE_AFTER = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'wheel', 'touchstart'];
+const DEVICE_ID_KEY = 'aaelink-device-id';
+
+// Shared by the tabs of this browser, so the server can tell devices apart
+const getDeviceId = (): string | undefined => {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return undefined;
+  }
+};
+
+interface SequencedEvent {
+  conversationId: string;
+  seq: number;
+  [key: string]: any;
 }
 
 class WebSocketService {
-  private ws: WebSocket | null = null;
+  private socket: Socket | null = null;
   private callbacks: WebSocketCallbacks = {};
-  private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
-  private isConnecting = false;
   private userId: string | null = null;
   private channels = new Set<string>();
+  // Last applied sequence number per conversation
+  private lastSeq = new Map<string, number>();
+  // Events that arrived ahead of a gap, waiting for the missing ones to be replayed
+  private pending = new Map<string, Map<number, { event: string; data: SequencedEvent }>>();
+  private resuming = new Set<string>();
+  private idle = false;
+  private lastInputAt = Date.now();
+  private stopActivityTracking: (() => void) | null = null;
+  private handlers: Record<string, (data: any) => void> = {
+    new_message: (message) => this.callbacks.onMessage?.(message),
+    message_reaction: (data) => this.callbacks.onReaction?.(data.messageId, data.emoji, data.userId),
+    message_read: (data) => this.callbacks.onRead?.(data.messageId, data.userId),
+    conversation_read: (data) => this.callbacks.onConversationRead?.(data),
+    notification: (notification) => this.callbacks.onNotification?.(notification),
+    call_created: (call) => this.callbacks.onIncomingCall?.(call),
+  };
 
   constructor(private url: string) {}
 
   public connect(userId: string): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (this.isConnecting || (this.ws && this.ws.readyState === WebSocket.OPEN)) {
+      if (this.socket?.connected) {
         resolve();
         return;
       }
 
-      this.isConnecting = true;
       this.userId = userId;
 
-      try {
-        this.ws = new WebSocket(this.url);
-
-        this.ws.onopen = () => {
-          console.log('WebSocket connected');
-          this.isConnecting = false;
-          this.reconnectAttempts = 0;
-          this.callbacks.onConnected?.();
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          try {
-            const message: WebSocketMessage = JSON.parse(event.data);
-            this.handleMessage(message);
-          } catch (error) {
-            console.error('Failed to parse WebSocket message:', error);
-          }
-        };
+      // The server reads the access token from the auth cookie during the handshake
+      this.socket = io(this.url, {
+        withCredentials: true,
+        auth: { deviceId: getDeviceId() },
+        transports: ['websocket'],
+        reconnectionAttempts: this.maxReconnectAttempts,
+        reconnectionDelay: this.reconnectDelay,
+      });
 
-        this.ws.onclose = (event) => {
-          console.log('WebSocket disconnected:', event.code, event.reason);
-          this.isConnecting = false;
-          this.callbacks.onDisconnected?.();
+      let refreshed = false;
 
-          if (!event.wasClean && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.scheduleReconnect();
-          }
-        };
+      this.socket.on('connect', () => {
+        console.log('WebSocket connected');
+        refreshed = false;
+
+        // The server only re-joins group rooms, rejoin the channels opened in this session
+        this.channels.forEach((channelId) => this.emitJoin(channelId));
+        // Catch up on whatever happened while disconnected
+        this.resume(Array.from(this.lastSeq.keys()));
+        this.trackActivity();
+
+        this.callbacks.onConnected?.();
+        resolve();
+      });
+
+      this.socket.on('connect_error', async (error) => {
+        console.error('WebSocket error:', error.message);
 
-        this.ws.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          this.isConnecting = false;
-          this.callbacks.onError?.(error instanceof Error ? error : new Error('WebSocket error'));
-          reject(error);
-        };
+        // An expired access token is rejected at handshake: refresh it once and retry
+        if (error.message === 'Unauthorized' && !refreshed) {
+          refreshed = true;
+          if (await refreshSession()) {
+            this.socket?.connect();
+            return;
+          }
+        }
 
-      } catch (error) {
-        this.isConnecting = false;
+        this.callbacks.onError?.(error);
         reject(error);
-      }
+      });
+
+      this.socket.on('disconnect', (reason) => {
+        console.log('WebSocket disconnected:', reason);
+        this.callbacks.onDisconnected?.();
+      });
+
+      this.socket.onAny((event: string, data: any) => {
+        if (typeof data?.conversationId === 'string' && typeof data?.seq === 'number') {
+          this.receiveSequenced(event, data);
+        } else {
+          this.handlers[event]?.(data);
+        }
+      });
+
+      this.socket.on('resync_required', (data: { conversationId: string; latestSeq: number }) => {
+        this.pending.delete(data.conversationId);
+        this.lastSeq.set(data.conversationId, data.latestSeq);
+        this.callbacks.onResyncRequired?.(data.conversationId);
+      });
+
+      this.socket.on('typing', (data: { userId: string; roomId: string; isTyping: boolean }) => {
+        this.callbacks.onTyping?.(data.userId, data.roomId, data.isTyping);
+      });
+
+      // Only sent for users sharing a conversation with this one
+      this.socket.on('presence', (data: { userId: string; status: 'online' | 'away' | 'busy' | 'offline' }) => {
+        this.callbacks.onPresence?.(data.userId, '', data.status);
+      });
+
     });
   }
 
   public disconnect(): void {
-    if (this.ws) {
-      this.ws.close(1000, 'Client disconnect');
-      this.ws = null;
+    this.stopActivityTracking?.();
+    this.stopActivityTracking = null;
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
     }
     this.channels.clear();
+    this.lastSeq.clear();
+    this.pending.clear();
+    this.resuming.clear();
   }
 
   public joinChannel(channelId: string): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.socket?.connected) {
       console.error('WebSocket not connected');
       return;
     }
 
     this.channels.add(channelId);
-    this.send({
-      type: 'join',
-      channelId,
-      userId: this.userId!,
-      data: {}
-    });
+    this.emitJoin(channelId);
   }
 
   public leaveChannel(channelId: string): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.socket?.connected) {
       return;
     }
 
     this.channels.delete(channelId);
-    this.send({
-      type: 'leave',
-      channelId,
-      userId: this.userId!,
-      data: {}
-    });
+    this.socket.emit('leave_room', { roomId: channelId });
   }
 
+  // Messages, reactions and read receipts go through the API, which broadcasts them to the room
   public sendMessage(channelId: string, content: string, type: string = 'text'): void {
-    this.send({
-      type: 'message',
-      channelId,
-      userId: this.userId!,
-      data: { content, type }
-    });
+    api
+      .post('/messages/send', { groupId: channelId, content, type: type.toUpperCase() })
+      .catch((error) => console.error('Failed to send message:', error));
   }
 
   public sendTyping(channelId: string, isTyping: boolean): void {
-    this.send({
-      type: 'typing',
-      channelId,
-      userId: this.userId!,
-      data: { isTyping }
-    });
+    this.socket?.emit('typing', { roomId: channelId, isTyping });
   }
 
-  public sendReaction(messageId: string, emoji: string, channelId: string): void {
-    this.send({
-      type: 'reaction',
-      channelId,
-      userId: this.userId!,
-      data: { messageId, emoji }
-    });
+  public sendReaction(messageId: string, emoji: string, _channelId: string): void {
+    api
+      .post('/messages/react', { messageId, emoji })
+      .catch((error) => console.error('Failed to send reaction:', error));
   }
 
-  public markAsRead(messageId: string, channelId: string): void {
-    this.send({
-      type: 'read',
-      channelId,
-      userId: this.userId!,
-      data: { messageId }
-    });
+  public markAsRead(messageId: string, _channelId: string): void {
+    api
+      .post('/messages/read', { messageId })
+      .catch((error) => console.error('Failed to mark message as read:', error));
   }
 
   public setCallbacks(callbacks: WebSocketCallbacks): void {
     this.callbacks = { ...this.callbacks, ...callbacks };
   }
 
-  private send(message: any): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket not connected');
+  // Start from the sequence number returned with a page of messages, events up to it are already loaded
+  public setLastSequence(conversationId: string, seq: number): void {
+    if (seq > (this.lastSeq.get(conversationId) ?? -1)) {
+      this.lastSeq.set(conversationId, seq);
+    }
+  }
+
+  private receiveSequenced(event: string, data: SequencedEvent): void {
+    const { conversationId, seq } = data;
+    const last = this.lastSeq.get(conversationId);
+
+    // Nothing to compare the first event of a conversation with
+    if (last === undefined || seq === last + 1) {
+      this.apply(event, data);
+      this.flushPending(conversationId);
+      return;
     }
+
+    // Already applied, e.g. both live and replayed
+    if (seq <= last) {
+      return;
+    }
+
+    const waiting = this.pending.get(conversationId) ?? new Map();
+    waiting.set(seq, { event, data });
+    this.pending.set(conversationId, waiting);
+    this.resume([conversationId]);
   }
 
-  private handleMessage(message: WebSocketMessage): void {
-    switch (message.type) {
-      case 'message':
-        this.callbacks.onMessage?.(message.data);
-        break;
-      case 'typing':
-        this.callbacks.onTyping?.(message.userId, message.channelId, message.data.isTyping);
-        break;
-      case 'presence':
-        this.callbacks.onPresence?.(message.userId, message.channelId, message.data.action);
-        break;
-      case 'reaction':
-        this.callbacks.onReaction?.(message.data.messageId, message.data.emoji, message.userId);
-        break;
-      case 'read':
-        this.callbacks.onRead?.(message.data.messageId, message.userId);
-        break;
-      default:
-        console.log('Unknown message type:', message.type);
+  private apply(event: string, data: SequencedEvent): void {
+    this.lastSeq.set(data.conversationId, data.seq);
+    this.handlers[event]?.(data);
+  }
+
+  private flushPending(conversationId: string): void {
+    const waiting = this.pending.get(conversationId);
+    let next = waiting?.get((this.lastSeq.get(conversationId) ?? 0) + 1);
+
+    while (waiting && next) {
+      waiting.delete(next.data.seq);
+      this.apply(next.event, next.data);
+      next = waiting.get(next.data.seq + 1);
     }
+
+    if (waiting?.size === 0) {
+      this.pending.delete(conversationId);
+    }
+  }
+
+  // Ask the server to replay the events after the last applied ones
+  private resume(conversationIds: string[]): void {
+    const ids = conversationIds.filter((id) => !this.resuming.has(id) && this.lastSeq.has(id));
+    if (!this.socket?.connected || ids.length === 0) {
+      return;
+    }
+
+    ids.forEach((id) => this.resuming.add(id));
+    const conversations = Object.fromEntries(ids.map((id) => [id, this.lastSeq.get(id)]));
+
+    this.socket.emit('resume', { conversations }, (response: { error?: string }) => {
+      ids.forEach((id) => this.resuming.delete(id));
+      if (response?.error) {
+        console.error('Cannot resume conversations:', response.error);
+      }
+    });
   }
 
-  private scheduleReconnect(): void {
-    this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+  // The server counts every connection as active until told otherwise
+  private trackActivity(): void {
+    this.stopActivityTracking?.();
+    this.idle = false;
+    this.lastInputAt = Date.now();
+
+    const onInput = () => {
+      this.lastInputAt = Date.now();
+      if (this.idle && document.visibilityState === 'visible') {
+        this.setIdle(false);
+      }
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        this.setIdle(true);
+      } else {
+        onInput();
+      }
+    };
 
-    console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onInput, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
 
-    setTimeout(() => {
-      if (this.userId) {
-        this.connect(this.userId).catch(console.error);
+    const heartbeat = setInterval(() => {
+      if (!this.idle && Date.now() - this.lastInputAt > IDLE_AFTER) {
+        this.setIdle(true);
+      } else {
+        this.socket?.emit('presence', {});
       }
-    }, delay);
+    }, HEARTBEAT_INTERVAL);
+
+    if (document.visibilityState === 'hidden') {
+      this.setIdle(true);
+    }
+
+    this.stopActivityTracking = () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onInput));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      clearInterval(heartbeat);
+    };
+  }
+
+  private setIdle(idle: boolean): void {
+    this.idle = idle;
+    this.socket?.emit('presence', { state: idle ? 'idle' : 'active' });
+  }
+
+  private emitJoin(channelId: string): void {
+    this.socket?.emit('join_room', { roomId: channelId }, (response: { error?: string }) => {
+      if (response?.error) {
+        console.error(`Cannot join channel ${channelId}:`, response.error);
+        this.channels.delete(channelId);
+      }
+    });
   }
 
   public isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.socket?.connected ?? false;
   }
 
   public getConnectedChannels(): string[] {
@@ -218,8 +370,7 @@ class WebSocketService {
 }
 
 // Create singleton instance
-const wsService = new WebSocketService('ws://localhost:3001/ws');
+const wsService = new WebSocketService('http://localhost:3001');
 
 export { wsService as WebSocketService };
 export type { WebSocketCallbacks, WebSocketMessage };
-